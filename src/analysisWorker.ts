@@ -0,0 +1,19 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { initializeAnalyzer } from './analyzer';
+import { AnalysisJob, AnalysisWorkerData, AnalysisWorkerMessage, runJob } from './backgroundAnalysis';
+import { setCustomInstructions } from './isa';
+
+// Entry point of the worker threads started by `runAnalysisJob`; each runs a single job.
+const { extensionPath, customInstructions } = workerData as AnalysisWorkerData;
+initializeAnalyzer({ extensionPath });
+setCustomInstructions(customInstructions);
+
+parentPort?.once('message', async (job: AnalysisJob) => {
+	const post = (message: AnalysisWorkerMessage) => parentPort?.postMessage(message);
+	try {
+		const result = await runJob(job, { onProgress: progress => post({ type: 'progress', progress }) });
+		post({ type: 'result', result });
+	} catch (error) {
+		post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+	}
+});
@@ -2,19 +2,165 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { pathToFileURL } from 'node:url';
 import type * as vscode from 'vscode';
+import { AssemblyResult, assemble } from './assembler';
+import { BasicBlock, CfgEdge, CfgExitKind, buildControlFlowGraph } from './cfg';
+import { expandCompressed, findRvcCandidate } from './compression';
+import { disassembleCustomInstruction } from './customInstructions';
+import { EncodingField, decodeInstruction } from './decoder';
+import { Idiom, findIdioms } from './idioms';
+import { isElfImage, isExecutableSection, parseElf, sectionBytes, sectionLabels } from './elf';
+import {
+	DetectedInputFormat,
+	INPUT_FORMAT_NAMES,
+	InputFormat,
+	MemorySegment,
+	detectTextFormat,
+	isTextData,
+	parseCArray,
+	parseDataDirectives,
+	parseIntelHex,
+	parseSrec
+} from './inputFormats';
+import { InstructionRecord, splitInstructionText } from './instructionRecords';
+import { InstructionFormat, Xlen } from './isa';
+import { ExtensionCount, countExtensions, mergeExtensionCounts, missingExtensions, parseMarch, profileInstruction, targetSupports } from './isaProfile';
+import { mnemonicsAgree, parseListing } from './listing';
+import { DataRun, InputDiagnostic, LIKELY_DATA_NOTE, dataDirective, describeDiagnostics, findDataRuns, findStreamStart, formatDiagnostic } from './recovery';
+import { RegisterFinding, RegisterFindingKind, analyzeRegisters, registerName } from './registerAnalysis';
+import { AddressedEncoding, resolveTargets } from './targets';
+import { StallCause, TimingEstimate, TimingModel, estimateTiming } from './timing';
 
 export type AnalyzerMode = 'assemble' | 'disassemble';
 
-export const ASSEMBLY_NOT_SUPPORTED_MESSAGE =
-	'Assembly mode is not implemented yet. Provide machine code (hex or byte stream) or use Alt+Click for disassembly.';
+export type XlenSetting = 'auto' | 32 | 64 | 128;
+
+export const XLEN_SETTINGS: readonly XlenSetting[] = ['auto', 32, 64, 128];
+
+export const RV128_ASSEMBLY_NOT_SUPPORTED_MESSAGE =
+	'The assembler supports RV32 and RV64 only. Select a different XLEN to assemble.';
+
+export const RV128_SIMULATION_NOT_SUPPORTED_MESSAGE =
+	'The simulator supports RV32 and RV64 only. Select a different XLEN to simulate.';
+
+export interface AnalyzerOptions {
+	xlen?: XlenSetting;
+	/** Machine code input format; `auto` detects it from the input. */
+	inputFormat?: InputFormat;
+	/** Address of the first instruction when the input does not carry its own addresses. */
+	baseAddress?: number;
+	/** Flags register def-use issues in disassembled snippets; on unless set to false. */
+	registerAnalysis?: boolean;
+	/** Target `-march` string; disassembled instructions the target does not implement are flagged. */
+	march?: string;
+	/** Estimates issue cycles of disassembled snippets on this core. */
+	timingModel?: TimingModel;
+	/** Annotates pseudo-instructions and idioms such as `lui`+`addi` → `li`; on unless set to false. */
+	foldIdioms?: boolean;
+	/** Notes shown first on the instruction at each address, such as the current PC of a debug session. */
+	addressNotes?: ReadonlyMap<number, readonly string[]>;
+	/** Called after every batch of decoded instructions of a disassembly. */
+	onProgress?: (progress: AnalyzerProgress) => void;
+	/** Stops a disassembly between batches and analysis passes with a `Cancelled.` error. */
+	signal?: AbortSignal;
+}
+
+/** How far the decoding of a disassembly has got, with the instructions of the latest batch. */
+export interface AnalyzerProgress {
+	decoded: number;
+	total: number;
+	/** The batch as `address:  encoding  text` rows, before labels, targets and notes are added. */
+	rows: string[];
+}
+
+export interface EncodingBreakdown {
+	encoding: string;
+	mnemonic?: string;
+	format?: InstructionFormat;
+	fields: EncodingField[];
+	immediate?: number;
+}
+
+/** A basic block as shown in the control-flow view; line numbers refer to rows of `output`. */
+export interface ControlFlowBlock {
+	label: string;
+	startLine: number;
+	endLine: number;
+	instructions: string[];
+	successors: CfgEdge[];
+	exit?: CfgExitKind;
+}
+
+/** Issue cycle estimate of a disassembled snippet; line numbers refer to rows of `output`. */
+export interface PerformanceEstimate {
+	model: string;
+	totalCycles: number;
+	instructions: InstructionEstimate[];
+	blocks: BlockEstimate[];
+}
+
+export interface InstructionEstimate {
+	line: number;
+	text: string;
+	cycle: number;
+	stall: number;
+	cause?: StallCause;
+	register?: string;
+}
+
+export interface BlockEstimate {
+	label: string;
+	startLine: number;
+	endLine: number;
+	cycles: number;
+	takenPenalty: number;
+}
+
+/** RVC expansions and missed compressions of a disassembled snippet; line numbers refer to rows of `output`. */
+export interface CompressionReport {
+	entries: CompressionEntry[];
+	totalBytes: number;
+	compressedCount: number;
+	compressibleCount: number;
+	/** Bytes saved if every compressible 32-bit instruction used its RVC form. */
+	potentialSavings: number;
+}
+
+export interface CompressionEntry {
+	line: number;
+	text: string;
+	/** 32-bit equivalent of a compressed instruction. */
+	expansion?: string;
+	expansionEncoding?: string;
+	/** RVC form of a 32-bit instruction; `reason` is set when the operands do not fit it. */
+	form?: string;
+	reason?: string;
+}
 
 export interface AnalyzerExecutionResult {
 	effectiveMode: AnalyzerMode;
+	xlen: XlenSetting;
 	output: string;
+	/** Every instruction of `output` as structured data, in output order. */
+	records?: InstructionRecord[];
+	/** Field-level breakdown of every encoded or decoded instruction, in output order. */
+	breakdowns?: EncodingBreakdown[];
+	/** Basic blocks of the disassembled snippet, in address order. */
+	controlFlow?: ControlFlowBlock[];
+	/** Instruction count per ISA extension of the disassembled code. */
+	extensionProfile?: ExtensionCount[];
+	performance?: PerformanceEstimate;
+	compression?: CompressionReport;
 	infoMessages?: string[];
 	didFallbackToDisassemble?: boolean;
 }
 
+export interface SimulationProgram {
+	xlen: Xlen;
+	instructions: AddressedEncoding[];
+	/** Disassembly of the program with an address column, used to follow the pc. */
+	disassembly: AnalyzerExecutionResult;
+}
+
 interface WasmBindings {
 	disassemble(input: string): string;
 	disassemble_auto(input: string): string;
@@ -24,65 +170,773 @@ interface WasmBindings {
 interface NormalizedInstruction {
 	formatted: string;
 	original: string;
+	address?: number;
+	label?: string;
+	/** Set for instructions taken from a disassembly listing that printed a mnemonic. */
+	listing?: { lineNumber: number; mnemonic: string; text: string };
+	/** Set, to the reason, for bytes that do not form an instruction; `formatted` holds them as a little-endian value. */
+	data?: string;
+	/** Bytes of illegal tokens just before this instruction, which still take up addresses. */
+	gap?: number;
+}
+
+interface MachineCodeInput {
+	format: DetectedInputFormat;
+	instructions: NormalizedInstruction[];
+	infoMessages: string[];
+	/** Tokens that were skipped over. */
+	diagnostics: InputDiagnostic[];
+}
+
+interface InputPosition {
+	line: number;
+	column: number;
+}
+
+/** Bytes between illegal tokens of a byte stream. */
+interface ByteRun {
+	bytes: Uint8Array;
+	positions: InputPosition[];
+	/** Illegal tokens just before the run, one byte each. */
+	gap: number;
+}
+
+interface DecodedText {
+	text: string;
+	/** Why the instruction could not be decoded; `text` is then a data directive. */
+	error?: string;
 }
 
 interface DisassemblyLine {
 	instruction: NormalizedInstruction;
 	decoded: string;
+	error?: string;
+	/** Generated label for a branch or jump target that has no symbol of its own. */
+	localLabel?: string;
+	notes: string[];
 }
 
+interface DisassemblyOptions {
+	baseAddress?: number;
+	/** Runs the register def-use and liveness checks, which assume the input is a single function. */
+	registerAnalysis?: boolean;
+	march?: string;
+	timingModel?: TimingModel;
+	foldIdioms?: boolean;
+	addressNotes?: ReadonlyMap<number, readonly string[]>;
+	onProgress?: (progress: AnalyzerProgress) => void;
+	signal?: AbortSignal;
+}
+
+/** Instructions decoded between two progress reports and cancellation checks. */
+const DECODE_BATCH_SIZE = 4096;
+
+const HEX_VALUE = /^(0x|0X)?[0-9a-fA-F]+$/;
+
+const BYTE_TOKEN = /^[0-9a-fA-F]{2}$/;
+
+/** Stands in for data and undecodable instructions in the analysis passes, which decode it as nothing. */
+const DATA_ENCODING = 0xffffffff;
+
+const REGISTER_FINDING_SUMMARIES: Record<RegisterFindingKind, string> = {
+	uninitializedRead: 'uninitialized read(s)',
+	deadWrite: 'dead write(s)',
+	calleeSavedClobber: 'callee-saved register(s) not restored',
+	zeroWrite: 'write(s) to x0'
+};
+
 let extensionRoot: string | undefined;
 let wasmBindingsPromise: Promise<WasmBindings> | undefined;
 
-export function initializeAnalyzer(context: vscode.ExtensionContext): void {
+/** WASM decoder text by XLEN and encoding; large dumps repeat the same words many times. */
+const decodedTextCache = new Map<string, string>();
+const DECODED_TEXT_CACHE_LIMIT = 1 << 16;
+
+export function initializeAnalyzer(context: Pick<vscode.ExtensionContext, 'extensionPath'>): void {
 	extensionRoot = context.extensionPath;
 	wasmBindingsPromise = undefined;
+	decodedTextCache.clear();
 }
 
-export async function executeAnalyzer(mode: AnalyzerMode, input: string): Promise<AnalyzerExecutionResult> {
+export async function executeAnalyzer(
+	mode: AnalyzerMode,
+	input: string,
+	options: AnalyzerOptions = {}
+): Promise<AnalyzerExecutionResult> {
+	const xlen = options.xlen ?? 'auto';
+	const inputFormat = options.inputFormat ?? 'auto';
 	const normalizedInput = normalizeWhitespace(input);
 	if (!normalizedInput.trim()) {
 		throw new Error('Provide at least one hexadecimal instruction.');
 	}
 
 	if (mode === 'assemble') {
-		try {
-			const instructions = parseMachineCodeInput(normalizedInput);
-			const result = await disassembleInstructions(instructions);
-			return {
-				effectiveMode: 'disassemble',
-				output: result.output,
-				infoMessages: result.infoMessages,
-				didFallbackToDisassemble: true
-			};
-		} catch (error) {
-			throw new Error(ASSEMBLY_NOT_SUPPORTED_MESSAGE);
+		const machineCode = tryParseMachineCodeInput(normalizedInput, inputFormat);
+		if (!machineCode) {
+			return assembleInstructions(normalizedInput, xlen);
 		}
+		const result = await disassembleMachineCode(machineCode, xlen, inputFormat, options);
+		return { ...result, didFallbackToDisassemble: true };
 	}
 
-	const instructions = parseMachineCodeInput(normalizedInput);
-	return disassembleInstructions(instructions);
+	const machineCode = parseMachineCodeInput(normalizedInput, inputFormat);
+	return disassembleMachineCode(machineCode, xlen, inputFormat, options);
 }
 
-async function disassembleInstructions(instructions: NormalizedInstruction[]): Promise<AnalyzerExecutionResult> {
+/**
+ * Decodes instruction words (formatted like `0x00A50533`) one by one, without
+ * addresses, labels or notes. Custom instructions are tried first; the text of
+ * the built-in decoder is cached, so repeated words are decoded once.
+ * Undecodable words yield an `Error: ...` text.
+ */
+export async function decodeEncodings(encodings: string[], xlen: XlenSetting): Promise<string[]> {
 	const bindings = await loadBindings();
-	const lines: DisassemblyLine[] = instructions.map(instruction => {
-		let decoded: string;
+	const decoderXlen = toDecoderXlen(xlen);
+	return encodings.map(encoding => {
+		const custom = disassembleCustomInstruction(Number.parseInt(encoding, 16), decoderXlen);
+		if (custom !== undefined) {
+			return custom;
+		}
+		const key = `${xlen}:${encoding}`;
+		const cached = decodedTextCache.get(key);
+		if (cached !== undefined) {
+			return cached;
+		}
+		let text: string;
 		try {
-			decoded = bindings.disassemble_auto(instruction.formatted);
+			text = xlen === 'auto'
+				? bindings.disassemble_auto(encoding)
+				: bindings.disassemble_with_xlen(encoding, xlen);
 		} catch (error) {
-			const message = serializeError(error);
-			decoded = `Error: ${message}`;
+			text = `Error: ${serializeError(error)}`;
+		}
+		if (decodedTextCache.size >= DECODED_TEXT_CACHE_LIMIT) {
+			decodedTextCache.clear();
+		}
+		decodedTextCache.set(key, text);
+		return text;
+	});
+}
+
+/**
+ * Disassembles the contents of a file: ELF images by section, text files in
+ * any supported input format, and anything else as a raw binary loaded at 0.
+ * ELF images are recognized whatever the input format, which only says how
+ * to read the other files.
+ */
+export async function disassembleFile(data: Uint8Array, options: AnalyzerOptions = {}): Promise<AnalyzerExecutionResult> {
+	const xlen = options.xlen ?? 'auto';
+	const inputFormat = options.inputFormat ?? 'auto';
+	if (isElfImage(data)) {
+		return disassembleElf(data, options);
+	}
+
+	if (inputFormat !== 'binary') {
+		const text = isTextData(data) ? new TextDecoder().decode(data) : undefined;
+		if (text !== undefined && (inputFormat !== 'auto' || detectTextFormat(text))) {
+			return executeAnalyzer('disassemble', text, options);
+		}
+		if (inputFormat !== 'auto') {
+			throw new Error(`The file is not valid ${INPUT_FORMAT_NAMES[inputFormat]} text.`);
+		}
+	}
+
+	const baseAddress = options.baseAddress ?? 0;
+	const machineCode = segmentsToInput('binary', [{ address: baseAddress, bytes: data }]);
+	return disassembleMachineCode(machineCode, xlen, inputFormat, { ...options, baseAddress });
+}
+
+/**
+ * Disassembles every executable section of a RISC-V ELF image. XLEN comes
+ * from the ELF class and compressed decoding is only enabled when e_flags
+ * advertises RVC. With a target `march`, instructions outside it are flagged.
+ */
+export async function disassembleElf(
+	data: Uint8Array,
+	options: Pick<AnalyzerOptions, 'march' | 'timingModel' | 'foldIdioms' | 'registerAnalysis' | 'signal'> = {}
+): Promise<AnalyzerExecutionResult> {
+	const elf = parseElf(data);
+	const xlen: XlenSetting = elf.elfClass;
+	const sections = elf.sections.filter(isExecutableSection);
+	if (sections.length === 0) {
+		throw new Error('The ELF file does not contain any executable sections.');
+	}
+
+	const infoMessages = [
+		`ELF${elf.elfClass} ${elf.compressed ? 'with' : 'without'} RVC, ${elf.floatAbi}-float ABI${elf.embedded ? ', RVE' : ''}.`
+	];
+	const outputs: string[] = [];
+	const records: InstructionRecord[] = [];
+	const breakdowns: EncodingBreakdown[] = [];
+	const controlFlow: ControlFlowBlock[] = [];
+	const profiles: ExtensionCount[][] = [];
+	const performance: PerformanceEstimate | undefined = options.timingModel
+		? { model: options.timingModel.name, totalCycles: 0, instructions: [], blocks: [] }
+		: undefined;
+	const compression: CompressionReport = { entries: [], totalBytes: 0, compressedCount: 0, compressibleCount: 0, potentialSavings: 0 };
+	let lineOffset = 0;
+
+	for (const section of sections) {
+		const bytes = sectionBytes(data, section);
+		const { instructions, remainder } = splitInstructionBytes(bytes, section.address, elf.compressed);
+		const labels = sectionLabels(elf, section);
+		instructions.forEach(instruction => {
+			instruction.label = labels.get(instruction.address ?? -1);
+		});
+		if (remainder > 0) {
+			infoMessages.push(`Section ${section.name} ends with ${remainder} byte(s) that do not form a complete instruction.`);
+		}
+
+		const result = await disassembleInstructions(instructions, xlen, {
+			registerAnalysis: options.registerAnalysis !== false,
+			march: options.march,
+			timingModel: options.timingModel,
+			foldIdioms: options.foldIdioms !== false,
+			signal: options.signal
+		});
+		outputs.push(`Disassembly of section ${section.name}:\n${result.output}`);
+		// Each section is preceded by a heading line and followed by a blank line.
+		const sectionOffset = lineOffset + 1;
+		records.push(...(result.records ?? []).map(record => ({ ...record, line: record.line + sectionOffset, section: section.name })));
+		breakdowns.push(...(result.breakdowns ?? []));
+		// Successors index the blocks, which now follow those of the earlier sections.
+		const blockOffset = controlFlow.length;
+		controlFlow.push(...(result.controlFlow ?? []).map(block => ({
+			...block,
+			startLine: block.startLine + sectionOffset,
+			endLine: block.endLine + sectionOffset,
+			successors: block.successors.map(edge => ({ ...edge, target: edge.target + blockOffset }))
+		})));
+		profiles.push(result.extensionProfile ?? []);
+		if (performance && result.performance) {
+			// Sections are timed one after another, so their cycles continue from the earlier ones.
+			const cycleOffset = performance.totalCycles;
+			performance.instructions.push(...result.performance.instructions.map(estimate => ({
+				...estimate,
+				line: estimate.line + sectionOffset,
+				cycle: estimate.cycle + cycleOffset
+			})));
+			performance.blocks.push(...result.performance.blocks.map(block => ({
+				...block,
+				startLine: block.startLine + sectionOffset,
+				endLine: block.endLine + sectionOffset
+			})));
+			performance.totalCycles += result.performance.totalCycles;
+		}
+		if (result.compression) {
+			compression.entries.push(...result.compression.entries.map(entry => ({ ...entry, line: entry.line + sectionOffset })));
+			compression.totalBytes += result.compression.totalBytes;
+			compression.compressedCount += result.compression.compressedCount;
+			compression.compressibleCount += result.compression.compressibleCount;
+			compression.potentialSavings += result.compression.potentialSavings;
+		}
+		lineOffset += result.output.split('\n').length + 2;
+		infoMessages.push(...(result.infoMessages ?? []).map(message => `Section ${section.name}: ${message}`));
+	}
+
+	return {
+		effectiveMode: 'disassemble',
+		xlen,
+		output: outputs.join('\n\n'),
+		records,
+		breakdowns,
+		controlFlow,
+		extensionProfile: mergeExtensionCounts(profiles),
+		performance,
+		compression,
+		infoMessages
+	};
+}
+
+/**
+ * Loads a snippet for the simulator. Machine code is parsed like disassembler
+ * input and anything else is assembled first; either way the program is
+ * disassembled so that the pc can be followed in the output. XLEN `auto`
+ * simulates RV64.
+ */
+export async function loadSimulationProgram(input: string, options: AnalyzerOptions = {}): Promise<SimulationProgram> {
+	if (options.xlen === 128) {
+		throw new Error(RV128_SIMULATION_NOT_SUPPORTED_MESSAGE);
+	}
+	const xlen: Xlen = options.xlen === 32 ? 32 : 64;
+	const inputFormat = options.inputFormat ?? 'auto';
+	const normalizedInput = normalizeWhitespace(input);
+	if (!normalizedInput.trim()) {
+		throw new Error('Provide at least one instruction to simulate.');
+	}
+
+	const machineCode = tryParseMachineCodeInput(normalizedInput, inputFormat);
+	const instructions = machineCode?.instructions ?? assembleForSimulation(normalizedInput, xlen, options.baseAddress ?? 0);
+	const disassembly = machineCode
+		? await disassembleMachineCode(machineCode, xlen, inputFormat, { baseAddress: options.baseAddress, march: options.march, foldIdioms: options.foldIdioms })
+		: await disassembleInstructions(instructions, xlen, {
+			baseAddress: options.baseAddress,
+			registerAnalysis: true,
+			march: options.march,
+			foldIdioms: options.foldIdioms !== false
+		});
+	const code = instructions.filter(instruction => !instruction.data);
+	if (code.length === 0) {
+		throw new Error('There are no instructions to simulate.');
+	}
+	return {
+		xlen,
+		instructions: code.map(instruction => ({
+			address: instruction.address ?? 0,
+			encoding: Number.parseInt(instruction.formatted, 16)
+		})),
+		disassembly
+	};
+}
+
+/** Parses a decimal or `0x` hexadecimal address; an empty value means address 0. */
+export function parseBaseAddress(value: unknown): number {
+	const text = String(value ?? '').trim().replace(/_/g, '');
+	if (!text) {
+		return 0;
+	}
+	if (!/^(0x[0-9a-f]+|\d+)$/i.test(text) || Number(text) > Number.MAX_SAFE_INTEGER) {
+		throw new Error(`"${String(value)}" is not a valid base address.`);
+	}
+	return Number(text);
+}
+
+export function parseXlenSetting(value: unknown): XlenSetting {
+	const normalized = String(value ?? '').trim().toLowerCase().replace(/^rv/, '');
+	const parsed = normalized === 'auto' ? 'auto' : Number(normalized);
+	return XLEN_SETTINGS.find(setting => setting === parsed) ?? 'auto';
+}
+
+async function disassembleMachineCode(
+	machineCode: MachineCodeInput,
+	xlen: XlenSetting,
+	inputFormat: InputFormat,
+	options: DisassemblyOptions = {}
+): Promise<AnalyzerExecutionResult> {
+	const result = await disassembleInstructions(machineCode.instructions, xlen, {
+		baseAddress: options.baseAddress,
+		registerAnalysis: options.registerAnalysis !== false,
+		march: options.march,
+		timingModel: options.timingModel,
+		foldIdioms: options.foldIdioms !== false,
+		addressNotes: options.addressNotes,
+		onProgress: options.onProgress,
+		signal: options.signal
+	});
+	const infoMessages = [...describeDiagnostics(machineCode.diagnostics), ...machineCode.infoMessages, ...(result.infoMessages ?? [])];
+	if (inputFormat === 'auto') {
+		infoMessages.unshift(`Detected input format: ${INPUT_FORMAT_NAMES[machineCode.format]}.`);
+	}
+	return { ...result, infoMessages };
+}
+
+async function disassembleInstructions(
+	instructions: NormalizedInstruction[],
+	xlen: XlenSetting,
+	options: DisassemblyOptions = {}
+): Promise<AnalyzerExecutionResult> {
+	assignAddresses(instructions, options.baseAddress ?? 0);
+	const decoded = await decodeInBatches(instructions, xlen, options);
+	const dataRuns = findDataRuns(decoded.map(entry => entry.error !== undefined));
+	const inDataRun = new Set(dataRuns.flatMap(run => Array.from({ length: run.end - run.start }, (_, offset) => run.start + offset)));
+	const lines: DisassemblyLine[] = instructions.map((instruction, index) => {
+		const { text, error } = decoded[index];
+		const notes = error === undefined ? [] : [inDataRun.has(index) ? LIKELY_DATA_NOTE : error];
+		return { instruction, decoded: text, error, notes };
+	});
+
+	const decoderXlen = toDecoderXlen(xlen);
+	const encodings: AddressedEncoding[] = lines.map(line => ({
+		address: line.instruction.address ?? 0,
+		encoding: line.error === undefined ? Number.parseInt(line.instruction.formatted, 16) : DATA_ENCODING
+	}));
+	const blocks = buildControlFlowGraph(encodings, decoderXlen);
+	const infoMessages: string[] = [];
+	if (dataRuns.length > 0) {
+		infoMessages.push(describeDataRuns(dataRuns, lines));
+	}
+	throwIfCancelled(options.signal);
+
+	annotateTargets(lines, encodings, decoderXlen, options.foldIdioms ? findIdioms(encodings, decoderXlen) : []);
+	lines.forEach(line => {
+		const notes = options.addressNotes?.get(line.instruction.address ?? 0);
+		if (notes) {
+			line.notes.unshift(...notes);
+		}
+	});
+	const breakdowns = lines.map(line => line.instruction.data
+		? { encoding: line.instruction.formatted, fields: [] }
+		: buildBreakdown(line.instruction.formatted, decoderXlen, line.error === undefined ? line.decoded : undefined));
+	const mismatchedLines: number[] = [];
+	lines.forEach((line, index) => {
+		const listing = line.instruction.listing;
+		if (listing && !listingAgrees(listing.mnemonic, line.instruction.formatted, decoderXlen, breakdowns[index].mnemonic)) {
+			line.notes.push(`mismatch, listing has: ${listing.text}`);
+			mismatchedLines.push(listing.lineNumber);
 		}
-		return { instruction, decoded };
 	});
+	if (mismatchedLines.length > 0) {
+		infoMessages.push(`${mismatchedLines.length} listing line(s) disagree with the decoder (${formatLineNumbers(mismatchedLines)}).`);
+	}
+
+	throwIfCancelled(options.signal);
+	if (options.registerAnalysis) {
+		const findings = analyzeRegisters(encodings, blocks, decoderXlen);
+		findings.forEach(finding => lines[finding.index].notes.push(describeRegisterFinding(finding)));
+		const summary = summarizeRegisterFindings(findings);
+		if (summary) {
+			infoMessages.push(summary);
+		}
+	}
 
+	throwIfCancelled(options.signal);
+	const profiles = encodings.map(entry => profileInstruction(entry.encoding, decoderXlen));
+	const extensionProfile = countExtensions(profiles);
+	if (options.march) {
+		const target = parseMarch(options.march);
+		const missingCounts = new Map<string, number>();
+		let flagged = 0;
+		profiles.forEach((profile, index) => {
+			const missing = profile ? missingExtensions(profile, target) : [];
+			if (missing.length > 0) {
+				lines[index].notes.push(`not in ${target.march}: needs ${missing.join(', ')}`);
+				missing.forEach(name => missingCounts.set(name, (missingCounts.get(name) ?? 0) + 1));
+				flagged += 1;
+			}
+		});
+		extensionProfile.forEach(entry => {
+			entry.unsupported = !targetSupports(target, entry.extension);
+		});
+		if (flagged > 0) {
+			const details = [...missingCounts].map(([name, count]) => `${name} (${count})`).join(', ');
+			infoMessages.push(`${flagged} instruction(s) need extensions missing from ${target.march}: ${details}.`);
+		}
+	}
+
+	const { rows, instructionRows } = layoutDisassembly(lines);
+	const controlFlow = buildControlFlowBlocks(lines, blocks, instructionRows);
 	return {
 		effectiveMode: 'disassemble',
-		output: formatDisassembly(lines)
+		xlen,
+		output: rows.join('\n'),
+		records: lines.map((line, index) => ({
+			line: instructionRows[index],
+			address: line.instruction.address,
+			encoding: line.instruction.formatted,
+			size: (line.instruction.formatted.length - 2) / 2,
+			...splitInstructionText(line.decoded),
+			error: line.error,
+			label: line.instruction.label ?? line.localLabel,
+			notes: [...line.notes]
+		})),
+		breakdowns,
+		controlFlow,
+		extensionProfile,
+		performance: options.timingModel
+			? buildPerformanceEstimate(estimateTiming(encodings, blocks, decoderXlen, options.timingModel), lines, controlFlow, instructionRows)
+			: undefined,
+		compression: buildCompressionReport(lines, encodings, decoderXlen, instructionRows),
+		infoMessages: infoMessages.length > 0 ? infoMessages : undefined
 	};
 }
 
+/**
+ * Decodes in batches of `DECODE_BATCH_SIZE`, reporting each batch and giving
+ * the event loop a turn in between so that large inputs can be cancelled.
+ */
+async function decodeInBatches(instructions: NormalizedInstruction[], xlen: XlenSetting, options: DisassemblyOptions): Promise<DecodedText[]> {
+	const decoded: DecodedText[] = [];
+	for (let start = 0; start < instructions.length; start += DECODE_BATCH_SIZE) {
+		throwIfCancelled(options.signal);
+		const batch = instructions.slice(start, start + DECODE_BATCH_SIZE);
+		const code = await decodeEncodings(batch.filter(instruction => !instruction.data).map(instruction => instruction.formatted), xlen);
+		let next = 0;
+		const texts = batch.map(instruction => toDecodedText(instruction, instruction.data ? undefined : code[next++]));
+		decoded.push(...texts);
+		options.onProgress?.({
+			decoded: decoded.length,
+			total: instructions.length,
+			rows: batch.map((instruction, index) => `${(instruction.address ?? 0).toString(16).padStart(8, '0')}:  ${instruction.formatted}  ${texts[index].text}`)
+		});
+		if (decoded.length < instructions.length) {
+			await new Promise(resolve => setImmediate(resolve));
+		}
+	}
+	return decoded;
+}
+
+/** Undecodable words and data become `.byte`, `.half` or `.word` directives with the reason as the error. */
+function toDecodedText(instruction: NormalizedInstruction, text: string | undefined): DecodedText {
+	if (text !== undefined && !text.startsWith('Error:')) {
+		return { text };
+	}
+	return {
+		text: dataDirective(instruction.formatted),
+		error: instruction.data ?? text?.slice('Error:'.length).trim()
+	};
+}
+
+function describeDataRuns(runs: DataRun[], lines: DisassemblyLine[]): string {
+	const width = addressWidth(lines);
+	const ranges = runs.slice(0, 5).map(run => {
+		const first = lines[run.start].instruction;
+		const last = lines[run.end - 1].instruction;
+		const end = (last.address ?? 0) + instructionSize(last) - 1;
+		return `${(first.address ?? 0).toString(16).padStart(width, '0')}-${end.toString(16).padStart(width, '0')}`;
+	});
+	return `${runs.length} run(s) of undecodable words look like data, such as literal pools or padding (${ranges.join(', ')}${runs.length > 5 ? ', ...' : ''}).`;
+}
+
+function throwIfCancelled(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) {
+		throw new Error('Cancelled.');
+	}
+}
+
+/** Gives instructions without an address of their own a running address, advancing by 2 or 4 bytes. */
+function assignAddresses(instructions: NormalizedInstruction[], baseAddress: number): void {
+	let address = baseAddress;
+	for (const instruction of instructions) {
+		if (instruction.address === undefined) {
+			instruction.address = address + (instruction.gap ?? 0);
+		}
+		address = instruction.address + instructionSize(instruction);
+	}
+}
+
+function instructionSize(instruction: NormalizedInstruction): number {
+	if (instruction.data) {
+		return (instruction.formatted.length - 2) / 2;
+	}
+	return (Number.parseInt(instruction.formatted, 16) & 0b11) === 0b11 ? 4 : 2;
+}
+
+/**
+ * Appends absolute branch, jump and auipc-pair targets to the decoded text and
+ * creates `.L<n>` labels for control-flow targets inside the input. Idioms are
+ * noted on their last instruction as `= li a0, 0x12345`, taking the place of
+ * the target they complete.
+ */
+function annotateTargets(lines: DisassemblyLine[], encodings: AddressedEncoding[], xlen: Xlen | undefined, idioms: Idiom[]): void {
+	const targets = resolveTargets(encodings, xlen);
+
+	const indexByAddress = new Map<number, number>();
+	lines.forEach((line, index) => {
+		const address = line.instruction.address ?? 0;
+		if (!indexByAddress.has(address)) {
+			indexByAddress.set(address, index);
+		}
+	});
+
+	const labelledIndices = new Set<number>();
+	targets.forEach(target => {
+		const index = indexByAddress.get(target.target);
+		if (target.isControlFlow && index !== undefined && !lines[index].instruction.label) {
+			labelledIndices.add(index);
+		}
+	});
+	[...labelledIndices].sort((left, right) => left - right).forEach((index, labelNumber) => {
+		lines[index].localLabel = `.L${labelNumber}`;
+	});
+
+	const width = addressWidth(lines);
+	const describeTarget = (target: number) => {
+		const targetLine = lines[indexByAddress.get(target) ?? -1];
+		const label = targetLine?.instruction.label ?? targetLine?.localLabel;
+		const address = target.toString(16).padStart(width, '0');
+		return label ? `${address} <${label}>` : address;
+	};
+	const idiomByLastIndex = new Map(idioms.map(idiom => [idiom.lastIndex, idiom]));
+	targets.forEach((target, index) => {
+		if (idiomByLastIndex.get(index)?.target === undefined) {
+			lines[index].notes.push(describeTarget(target.target));
+		}
+	});
+	idiomByLastIndex.forEach((idiom, index) => {
+		const operands = idiom.target === undefined ? idiom.operands : [...idiom.operands, describeTarget(idiom.target)];
+		lines[index].notes.unshift(operands.length > 0 ? `= ${idiom.mnemonic} ${operands.join(', ')}` : `= ${idiom.mnemonic}`);
+	});
+}
+
+function buildControlFlowBlocks(lines: DisassemblyLine[], blocks: BasicBlock[], instructionRows: number[]): ControlFlowBlock[] {
+	const width = addressWidth(lines);
+	return blocks.map(block => {
+		const first = lines[block.firstIndex];
+		return {
+			label: first.instruction.label
+				?? first.localLabel
+				?? (first.instruction.address ?? 0).toString(16).padStart(width, '0'),
+			startLine: instructionRows[block.firstIndex],
+			endLine: instructionRows[block.lastIndex],
+			instructions: lines.slice(block.firstIndex, block.lastIndex + 1).map(line => line.decoded),
+			successors: block.successors,
+			exit: block.exit
+		};
+	});
+}
+
+function buildPerformanceEstimate(
+	estimate: TimingEstimate,
+	lines: DisassemblyLine[],
+	controlFlow: ControlFlowBlock[],
+	instructionRows: number[]
+): PerformanceEstimate {
+	return {
+		model: estimate.model,
+		totalCycles: estimate.totalCycles,
+		instructions: estimate.instructions.map(timing => ({
+			line: instructionRows[timing.index],
+			text: lines[timing.index].decoded,
+			cycle: timing.cycle,
+			stall: timing.stall,
+			cause: timing.cause,
+			register: timing.register === undefined ? undefined : registerName(timing.register)
+		})),
+		blocks: estimate.blocks.map((block, index) => ({
+			label: controlFlow[index].label,
+			startLine: controlFlow[index].startLine,
+			endLine: controlFlow[index].endLine,
+			cycles: block.cycles,
+			takenPenalty: block.takenPenalty
+		}))
+	};
+}
+
+function buildCompressionReport(
+	lines: DisassemblyLine[],
+	encodings: AddressedEncoding[],
+	xlen: Xlen | undefined,
+	instructionRows: number[]
+): CompressionReport {
+	const report: CompressionReport = { entries: [], totalBytes: 0, compressedCount: 0, compressibleCount: 0, potentialSavings: 0 };
+	encodings.forEach((entry, index) => {
+		if (lines[index].error !== undefined) {
+			return;
+		}
+		const decoded = decodeInstruction(entry.encoding, xlen);
+		const line = instructionRows[index];
+		const text = lines[index].decoded;
+		report.totalBytes += decoded.size;
+		if (decoded.size === 2) {
+			const expansion = expandCompressed(decoded, xlen ?? 64);
+			report.compressedCount += 1;
+			report.entries.push({ line, text, expansion: expansion?.text, expansionEncoding: expansion && formatHex(expansion.encoding, 4) });
+			return;
+		}
+		const candidate = findRvcCandidate(decoded, xlen);
+		if (candidate) {
+			report.entries.push({ line, text, form: candidate.form, reason: candidate.reason });
+			if (!candidate.reason) {
+				report.compressibleCount += 1;
+				report.potentialSavings += 2;
+			}
+		}
+	});
+	return report;
+}
+
+function describeRegisterFinding(finding: RegisterFinding): string {
+	const name = registerName(finding.register);
+	switch (finding.kind) {
+		case 'uninitializedRead':
+			return `reads uninitialized ${name}`;
+		case 'deadWrite':
+			return `dead write to ${name}`;
+		case 'zeroWrite':
+			return 'writes x0 (result discarded)';
+		case 'calleeSavedClobber':
+			return finding.spAdjustment === undefined
+				? `${name} not restored`
+				: `${name} not restored (off by ${finding.spAdjustment})`;
+	}
+}
+
+function summarizeRegisterFindings(findings: RegisterFinding[]): string | undefined {
+	const counts = (Object.keys(REGISTER_FINDING_SUMMARIES) as RegisterFindingKind[])
+		.map(kind => ({ kind, count: findings.filter(finding => finding.kind === kind).length }))
+		.filter(entry => entry.count > 0);
+	if (counts.length === 0) {
+		return undefined;
+	}
+	return `Register analysis: ${counts.map(entry => `${entry.count} ${REGISTER_FINDING_SUMMARIES[entry.kind]}`).join(', ')}.`;
+}
+
+/**
+ * With XLEN left on auto the listing may come from either base ISA, so both
+ * RV32 and RV64 readings of the encoding are accepted.
+ */
+function listingAgrees(listingMnemonic: string, encoding: string, xlen: Xlen | undefined, decodedMnemonic?: string): boolean {
+	const value = Number.parseInt(encoding, 16);
+	const readings = (xlen ? [xlen] : [32, 64] as Xlen[]).map(candidate => decodeInstruction(value, candidate).spec?.mnemonic);
+	return [...readings, decodedMnemonic].some(mnemonic => mnemonicsAgree(listingMnemonic, mnemonic));
+}
+
+function assembleInstructions(input: string, xlen: XlenSetting): AnalyzerExecutionResult {
+	if (xlen === 128) {
+		throw new Error(RV128_ASSEMBLY_NOT_SUPPORTED_MESSAGE);
+	}
+	const assemblerXlen = xlen === 'auto' ? 64 : xlen;
+	const result = assemble(input, { xlen: assemblerXlen });
+	const infoMessages = result.errorCount > 0
+		? [`${result.errorCount} line(s) could not be assembled.`]
+		: undefined;
+	return {
+		effectiveMode: 'assemble',
+		xlen: assemblerXlen,
+		output: formatAssembly(result),
+		records: assemblyRecords(result),
+		breakdowns: result.lines.flatMap(line => line.instructions
+			.filter(instruction => !instruction.text.startsWith('.'))
+			.map(instruction => buildBreakdown(formatHex(instruction.encoding, instruction.size), assemblerXlen))),
+		infoMessages
+	};
+}
+
+/** Records follow the rows of `formatAssembly`, one per encoded instruction or failed line. */
+function assemblyRecords(result: AssemblyResult): InstructionRecord[] {
+	const records: InstructionRecord[] = [];
+	for (const line of result.lines) {
+		if (line.error) {
+			records.push({ line: records.length, encoding: '', size: 0, operands: [], notes: [], error: `Line ${line.lineNumber}: ${line.error}` });
+			continue;
+		}
+		line.instructions.forEach((instruction, index) => {
+			records.push({
+				line: records.length,
+				address: instruction.address,
+				encoding: formatHex(instruction.encoding, instruction.size),
+				size: instruction.size,
+				...splitInstructionText(instruction.text),
+				notes: line.pseudo && index === 0 ? [line.source] : []
+			});
+		});
+	}
+	return records;
+}
+
+function buildBreakdown(encoding: string, xlen: Xlen | undefined, decodedText?: string): EncodingBreakdown {
+	const value = Number.parseInt(encoding, 16);
+	if (!Number.isFinite(value) || value > 0xffffffff) {
+		return { encoding, fields: [] };
+	}
+	const decoded = decodeInstruction(value, xlen);
+	const fallbackMnemonic = decodedText && !decodedText.startsWith('Error:') ? decodedText.split(/\s+/)[0] : undefined;
+	return {
+		encoding,
+		mnemonic: decoded.spec?.mnemonic ?? fallbackMnemonic,
+		format: decoded.format,
+		fields: decoded.fields,
+		immediate: decoded.immediate
+	};
+}
+
+function toDecoderXlen(xlen: XlenSetting): Xlen | undefined {
+	if (xlen === 'auto') {
+		return undefined;
+	}
+	return xlen === 32 ? 32 : 64;
+}
+
 async function loadBindings(): Promise<WasmBindings> {
 	if (!extensionRoot) {
 		throw new Error('Analyzer runtime is not initialized.');
@@ -115,41 +969,173 @@ function ensureAlertStub(): void {
 	}
 }
 
-function parseMachineCodeInput(input: string): NormalizedInstruction[] {
+function parseMachineCodeInput(input: string, inputFormat: InputFormat): MachineCodeInput {
 	const trimmed = input.trim();
 	if (!trimmed) {
 		throw new Error('Provide at least one hexadecimal instruction.');
 	}
 
-	if (isByteStreamInput(input)) {
-		const instructions = parseByteStream(input);
-		if (instructions.length === 0) {
-			throw new Error('Byte stream input did not contain any complete instructions.');
+	const format = inputFormat === 'auto' ? detectInputFormat(input) : inputFormat;
+	switch (format) {
+		case 'intelHex':
+			return segmentsToInput(format, parseIntelHex(input));
+		case 'srec':
+			return segmentsToInput(format, parseSrec(input));
+		case 'cArray':
+			return segmentsToInput(format, parseCArray(input));
+		case 'dataDirectives':
+			return segmentsToInput(format, parseDataDirectives(input));
+		case 'listing':
+			return parseListingInput(input);
+		case 'binary':
+			throw new Error('Raw binary input can only be loaded from a file.');
+		case 'byteStream':
+			return parseByteStreamInput(input);
+		default:
+			return parseHexWords(input);
+	}
+}
+
+function detectInputFormat(input: string): DetectedInputFormat {
+	return detectTextFormat(input) ?? (isByteStreamInput(input) ? 'byteStream' : 'hexWords');
+}
+
+/** Raw binaries may start anywhere, so their start is resynchronized like a byte stream's. */
+function segmentsToInput(format: DetectedInputFormat, segments: MemorySegment[]): MachineCodeInput {
+	const instructions: NormalizedInstruction[] = [];
+	const infoMessages: string[] = [];
+
+	for (const segment of segments) {
+		const split = splitByteStream(segment.bytes, segment.address, format === 'binary' ? 'resync' : 0);
+		instructions.push(...split.instructions);
+		if (split.skipped > 0) {
+			infoMessages.push(describeResync(split.skipped));
+		}
+		if (split.remainder > 0) {
+			const location = segment.address === undefined
+				? 'the end of the input'
+				: `0x${(segment.address + segment.bytes.length - split.remainder).toString(16)}`;
+			infoMessages.push(`${split.remainder} trailing byte(s) at ${location} do not form a complete instruction and are shown as data.`);
 		}
-		return instructions.map(value => formatInstruction(value, undefined));
 	}
 
+	if (!instructions.some(instruction => !instruction.data)) {
+		throw new Error(`The ${INPUT_FORMAT_NAMES[format]} input did not contain any complete instructions.`);
+	}
+	return { format, instructions, infoMessages, diagnostics: [] };
+}
+
+function parseListingInput(input: string): MachineCodeInput {
+	const { entries, skippedLines } = parseListing(input);
+	if (entries.length === 0) {
+		throw new Error('The listing does not contain any lines with an encoding column. In GDB, use "disassemble /r" to include the raw bytes.');
+	}
+
+	const instructions = entries.map(entry => ({
+		...formatInstruction(entry.encoding, entry.lineNumber),
+		address: entry.address,
+		label: entry.label,
+		listing: entry.mnemonic
+			? { lineNumber: entry.lineNumber, mnemonic: entry.mnemonic, text: entry.text ?? entry.mnemonic }
+			: undefined
+	}));
+	const infoMessages = skippedLines.length > 0
+		? [`Skipped ${skippedLines.length} listing line(s) without an encoding column (${formatLineNumbers(skippedLines)}).`]
+		: [];
+	return { format: 'listing', instructions, infoMessages, diagnostics: [] };
+}
+
+function formatLineNumbers(lineNumbers: number[]): string {
+	const shown = lineNumbers.slice(0, 10).join(', ');
+	return `line ${shown}${lineNumbers.length > 10 ? ', ...' : ''}`;
+}
+
+/**
+ * Byte tokens that are not two hexadecimal digits break the stream: the bytes
+ * before one that do not complete an instruction are shown as data, decoding
+ * resynchronizes after it, and it keeps its place in the addresses. Bytes
+ * left over at the end are shown as data too; all are reported with their
+ * position.
+ */
+function parseByteStreamInput(input: string): MachineCodeInput {
+	const { runs, diagnostics } = parseByteStream(input);
+	const instructions: NormalizedInstruction[] = [];
+	const infoMessages: string[] = [];
+	let pending: Uint8Array = new Uint8Array();
+	runs.forEach((run, index) => {
+		// The rest of an instruction cut off by illegal tokens is skipped when its length is known.
+		const owed = pending.length > 0 ? ((pending[0] & 0b11) === 0b11 ? 4 : 2) - pending.length - run.gap : -1;
+		const split = splitByteStream(run.bytes, undefined, owed >= 0 ? owed : 'resync');
+		pending = run.bytes.subarray(run.bytes.length - split.remainder);
+		if (split.instructions.length > 0) {
+			split.instructions[0].gap = run.gap;
+		}
+		instructions.push(...split.instructions);
+		if (split.skipped > 0 && index === 0 && run.gap === 0) {
+			infoMessages.push(describeResync(split.skipped));
+		}
+		if (split.remainder > 0 && index === runs.length - 1) {
+			const { line, column } = run.positions[run.bytes.length - split.remainder];
+			diagnostics.push({ line, column, message: `The last ${split.remainder} byte(s) do not form a complete instruction.` });
+		}
+	});
+	if (!instructions.some(instruction => !instruction.data)) {
+		const problem = diagnostics.length > 0 ? ` ${formatDiagnostic(diagnostics[0])}` : '';
+		throw new Error(`Byte stream input did not contain any complete instructions.${problem}`);
+	}
+	return { format: 'byteStream', instructions, infoMessages, diagnostics };
+}
+
+function parseHexWords(input: string): MachineCodeInput {
 	const lines = input.split('\n');
 	const results: NormalizedInstruction[] = [];
+	const diagnostics: InputDiagnostic[] = [];
 
 	lines.forEach((line, index) => {
 		const trimmedLine = line.trim();
 		if (!trimmedLine) {
 			return;
 		}
+		if (!HEX_VALUE.test(trimmedLine)) {
+			diagnostics.push({ line: index + 1, column: invalidHexColumn(line), message: `"${trimmedLine}" is not a valid hexadecimal value.` });
+			return;
+		}
 		results.push(formatInstruction(trimmedLine, index + 1));
 	});
 
 	if (results.length === 0) {
-		throw new Error('No hexadecimal instructions found in the input.');
+		const problem = diagnostics.length > 0 ? ` ${formatDiagnostic(diagnostics[0])}` : '';
+		throw new Error(`No hexadecimal instructions found in the input.${problem}`);
 	}
 
-	return results;
+	return { format: 'hexWords', instructions: results, infoMessages: [], diagnostics };
+}
+
+/** 1-based column of the first character that keeps a line from being a hexadecimal value. */
+function invalidHexColumn(line: string): number {
+	const leading = line.length - line.trimStart().length;
+	const value = line.trim();
+	const prefix = /^0x/i.test(value) ? 2 : 0;
+	const offset = value.slice(prefix).search(/[^0-9a-f]/i);
+	return leading + 1 + (offset < 0 ? 0 : prefix + offset);
+}
+
+/**
+ * Only input that parses without skipping anything counts as machine code, so
+ * that assembly text is not mistaken for a damaged hex dump.
+ */
+function tryParseMachineCodeInput(input: string, inputFormat: InputFormat): MachineCodeInput | undefined {
+	try {
+		const machineCode = parseMachineCodeInput(input, inputFormat);
+		return machineCode.diagnostics.length === 0 ? machineCode : undefined;
+	} catch {
+		return undefined;
+	}
 }
 
 function formatInstruction(value: string, lineNumber: number | undefined): NormalizedInstruction {
 	const cleaned = value.trim();
-	if (!/^(0x|0X)?[0-9a-fA-F]+$/.test(cleaned)) {
+	if (!HEX_VALUE.test(cleaned)) {
 		const prefix = typeof lineNumber === 'number' ? `Line ${lineNumber}: ` : '';
 		throw new Error(`${prefix}"${value}" is not a valid hexadecimal value.`);
 	}
@@ -177,76 +1163,204 @@ function formatInstruction(value: string, lineNumber: number | undefined): Norma
 	return { formatted, original: cleaned };
 }
 
+/**
+ * All tokens are bytes, or lines hold several tokens (which hex words never
+ * do) and most of them are bytes, so that a few bad tokens are still reported.
+ */
 function isByteStreamInput(value: string): boolean {
-	const normalized = normalizeWhitespace(value)
-		.replace(/\r\n/g, '\n')
+	const lines = normalizeWhitespace(value)
 		.split('\n')
-		.map(line => line.trim())
-		.filter(Boolean)
-		.join(' ');
-	if (!normalized) {
+		.map(line => line.trim().split(/\s+/).filter(Boolean))
+		.filter(tokens => tokens.length > 0);
+	const tokens = lines.flat();
+	const byteCount = tokens.filter(token => BYTE_TOKEN.test(token)).length;
+	if (byteCount === 0) {
 		return false;
 	}
-	return /^([0-9a-fA-F]{2})(\s+[0-9a-fA-F]{2})*$/.test(normalized);
+	return byteCount === tokens.length || (lines.some(line => line.length > 1) && byteCount * 2 > tokens.length);
 }
 
-function parseByteStream(value: string): string[] {
-	const tokens = normalizeWhitespace(value)
-		.replace(/\r\n/g, '\n')
-		.split(/\s+/)
-		.filter(Boolean);
-
-	if (tokens.length === 0) {
-		return [];
-	}
+/**
+ * Splits a byte stream into the runs between illegal tokens. Each illegal
+ * token stands for one byte, counted in the `gap` before the next run.
+ */
+function parseByteStream(value: string): { runs: ByteRun[]; diagnostics: InputDiagnostic[] } {
+	const runs: ByteRun[] = [];
+	const diagnostics: InputDiagnostic[] = [];
+	let bytes: number[] = [];
+	let positions: InputPosition[] = [];
+	let gap = 0;
+	const endRun = () => {
+		if (bytes.length > 0) {
+			runs.push({ bytes: Uint8Array.from(bytes), positions, gap });
+			bytes = [];
+			positions = [];
+			gap = 0;
+		}
+	};
 
-	const bytes = tokens.map(token => {
-		if (!/^[0-9a-fA-F]{2}$/.test(token)) {
-			throw new Error(`Illegal byte token: "${token}".`);
+	normalizeWhitespace(value).split('\n').forEach((line, index) => {
+		for (const match of line.matchAll(/\S+/g)) {
+			const position = { line: index + 1, column: (match.index ?? 0) + 1 };
+			if (!BYTE_TOKEN.test(match[0])) {
+				diagnostics.push({ ...position, message: `Illegal byte token: "${match[0]}".` });
+				endRun();
+				gap += 1;
+				continue;
+			}
+			bytes.push(Number.parseInt(match[0], 16));
+			positions.push(position);
 		}
-		return token.toLowerCase();
 	});
+	endRun();
+
+	return { runs, diagnostics };
+}
+
+/**
+ * Splits bytes without any structure of their own into instructions, from
+ * `start` or, with `resync`, from where a stream that seems to start in the
+ * middle of an instruction picks up; the skipped bytes and any incomplete
+ * trailing ones are data.
+ */
+function splitByteStream(
+	bytes: Uint8Array,
+	address: number | undefined,
+	start: number | 'resync'
+): { instructions: NormalizedInstruction[]; skipped: number; remainder: number } {
+	const skipped = start === 'resync' ? findStreamStart(bytes) : Math.min(start, bytes.length);
+	const offset = (count: number) => address === undefined ? undefined : address + count;
+	const split = splitInstructionBytes(bytes.subarray(skipped), offset(skipped), true);
+	const end = bytes.length - split.remainder;
+	return {
+		instructions: [
+			...(skipped > 0 ? [dataInstruction(bytes.subarray(0, skipped), offset(0), 'end of a preceding instruction')] : []),
+			...split.instructions,
+			...(split.remainder > 0 ? [dataInstruction(bytes.subarray(end), offset(end), 'incomplete instruction')] : [])
+		],
+		skipped,
+		remainder: split.remainder
+	};
+}
 
-	const instructions: string[] = [];
+function dataInstruction(bytes: Uint8Array, address: number | undefined, reason: string): NormalizedInstruction {
+	const hex = Array.from(bytes)
+		.reverse()
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('')
+		.toUpperCase();
+	return { formatted: `0x${hex}`, original: hex, address, data: reason };
+}
+
+function describeResync(skipped: number): string {
+	return `The input seems to start in the middle of an instruction; decoding starts after the first ${skipped} byte(s), which are shown as data.`;
+}
+
+function splitInstructionBytes(
+	bytes: Uint8Array,
+	baseAddress: number | undefined,
+	compressed: boolean
+): { instructions: NormalizedInstruction[]; remainder: number } {
+	const instructions: NormalizedInstruction[] = [];
 	let index = 0;
 
-	while (index < bytes.length) {
-		if (index + 1 >= bytes.length) {
-			throw new Error('Incomplete instruction: not enough bytes remaining.');
+	while (index + 1 < bytes.length) {
+		const value16 = bytes[index] | (bytes[index + 1] << 8);
+		const size = compressed && (value16 & 0x3) !== 0x3 ? 2 : 4;
+		if (index + size > bytes.length) {
+			break;
 		}
+		const hex = Array.from(bytes.subarray(index, index + size))
+			.reverse()
+			.map(byte => byte.toString(16).padStart(2, '0'))
+			.join('')
+			.toUpperCase();
+		instructions.push({ formatted: `0x${hex}`, original: hex, address: baseAddress === undefined ? undefined : baseAddress + index });
+		index += size;
+	}
 
-		const low = Number.parseInt(bytes[index], 16);
-		const high = Number.parseInt(bytes[index + 1], 16);
-		const value16 = low | (high << 8);
+	return { instructions, remainder: bytes.length - index };
+}
+
+/** Renders disassembly rows and records the row of each instruction. */
+function layoutDisassembly(lines: DisassemblyLine[]): { rows: string[]; instructionRows: number[] } {
+	const rows: string[] = [];
+	const instructionRows: number[] = [];
+	if (lines.length === 0) {
+		return { rows, instructionRows };
+	}
 
-		if ((value16 & 0x3) === 0x3) {
-			if (index + 3 >= bytes.length) {
-				throw new Error('Incomplete 32-bit instruction: not enough bytes remaining.');
+	const width = Math.max(...lines.map(line => line.instruction.formatted.length));
+	const columnWidth = addressWidth(lines);
+	for (const line of lines) {
+		const { address, label, formatted } = line.instruction;
+		if (label) {
+			if (rows.length > 0) {
+				rows.push('');
 			}
-			const b2 = bytes[index + 2];
-			const b3 = bytes[index + 3];
-			const hex = (b3 + b2 + bytes[index + 1] + bytes[index]).toUpperCase();
-			instructions.push(`0x${hex}`);
-			index += 4;
-		} else {
-			const hex = (bytes[index + 1] + bytes[index]).toUpperCase();
-			instructions.push(`0x${hex}`);
-			index += 2;
+			rows.push(`<${label}>:`);
 		}
+		if (line.localLabel) {
+			rows.push(`${line.localLabel}:`);
+		}
+		const prefix = typeof address === 'number' ? `${address.toString(16).padStart(columnWidth, '0')}:  ` : '';
+		const notes = line.notes.length > 0 ? `  # ${line.notes.join('; ')}` : '';
+		instructionRows.push(rows.length);
+		rows.push(`${prefix}${formatted.padEnd(width)}  ${line.decoded}${notes}`);
 	}
+	return { rows, instructionRows };
+}
 
-	return instructions;
+function addressWidth(lines: DisassemblyLine[]): number {
+	return lines.some(line => (line.instruction.address ?? 0) > 0xffffffff) ? 16 : 8;
 }
 
-function formatDisassembly(lines: DisassemblyLine[]): string {
-	if (lines.length === 0) {
+/** Assembles a snippet into addressed instructions; data directives are left out. */
+function assembleForSimulation(input: string, xlen: Xlen, baseAddress: number): NormalizedInstruction[] {
+	const result = assemble(input, { xlen });
+	if (result.errorCount > 0) {
+		const firstError = result.lines.find(line => line.error);
+		throw new Error(`Line ${firstError?.lineNumber}: ${firstError?.error}`);
+	}
+	return result.lines.flatMap(line => line.instructions
+		.filter(instruction => !instruction.text.startsWith('.'))
+		.map(instruction => {
+			const formatted = formatHex(instruction.encoding, instruction.size);
+			return { formatted, original: line.source, address: baseAddress + instruction.address };
+		}));
+}
+
+function formatAssembly(result: AssemblyResult): string {
+	const rows: Array<{ hex: string; text: string }> = [];
+	for (const line of result.lines) {
+		if (line.error) {
+			rows.push({ hex: '', text: `Error: Line ${line.lineNumber}: ${line.error}` });
+			continue;
+		}
+		line.instructions.forEach((instruction, index) => {
+			const hex = formatHex(instruction.encoding, instruction.size);
+			let text = instruction.text;
+			if (line.pseudo) {
+				if (line.instructions.length === 1) {
+					text = line.source;
+				} else if (index === 0) {
+					text = `${instruction.text}  # ${line.source}`;
+				}
+			}
+			rows.push({ hex, text });
+		});
+	}
+
+	if (rows.length === 0) {
 		return '';
 	}
 
-	const width = Math.max(...lines.map(line => line.instruction.formatted.length));
-	return lines
-		.map(line => `${line.instruction.formatted.padEnd(width)}  ${line.decoded}`)
-		.join('\n');
+	const width = Math.max(...rows.map(row => row.hex.length));
+	return rows.map(row => `${row.hex.padEnd(width)}  ${row.text}`).join('\n');
+}
+
+function formatHex(value: number, size: number): string {
+	return `0x${value.toString(16).toUpperCase().padStart(size * 2, '0')}`;
 }
 
 function normalizeWhitespace(value: string): string {
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { XlenSetting } from './analyzer';
+import { checkAssembly } from './assembler';
+import { Xlen, encodingPattern, findInstructionSpecs } from './isa';
+import { instructionSemantics } from './semantics';
+
+const { l10n } = vscode;
+
+export const ASSEMBLY_LANGUAGE_ID = 'riscv-asm';
+
+/** Labels (named or numeric) followed by the mnemonic of a statement. */
+const STATEMENT_MNEMONIC = /^((?:\s*(?:[A-Za-z_.$][\w.$]*|\d+)\s*:)*\s*)([A-Za-z][\w.]*)/;
+
+/** Replaces the diagnostics of an assembly document with the issues found by the assembler. */
+export function updateAssemblyDiagnostics(
+	collection: vscode.DiagnosticCollection,
+	document: vscode.TextDocument,
+	xlen: XlenSetting
+): void {
+	const issues = checkAssembly(document.getText(), { xlen: assemblerXlen(xlen) });
+	collection.set(document.uri, issues.map(issue => {
+		const range = new vscode.Range(issue.lineNumber - 1, issue.start, issue.lineNumber - 1, issue.end);
+		const diagnostic = new vscode.Diagnostic(range, issue.message, vscode.DiagnosticSeverity.Error);
+		diagnostic.source = ASSEMBLY_LANGUAGE_ID;
+		return diagnostic;
+	}));
+}
+
+/** Documents the instruction whose mnemonic is under the cursor: syntax, operation and encoding. */
+export class AssemblyHoverProvider implements vscode.HoverProvider {
+	constructor(private readonly getXlen: () => XlenSetting) {}
+
+	public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const line = document.lineAt(position.line).text.replace(/(#|\/\/).*$/, '');
+		const match = STATEMENT_MNEMONIC.exec(line);
+		if (!match) {
+			return undefined;
+		}
+		const start = match[1].length;
+		const end = start + match[2].length;
+		if (position.character < start || position.character > end) {
+			return undefined;
+		}
+
+		const mnemonic = match[2].toLowerCase();
+		const specs = findInstructionSpecs(mnemonic);
+		const candidates = specs.length > 0
+			? specs
+			: findInstructionSpecs(mnemonic.replace(/\.(aq|rl|aqrl)$/, '')).filter(entry => entry.extension === 'A');
+		const xlen = assemblerXlen(this.getXlen());
+		const spec = candidates.find(entry => entry.xlen === undefined || entry.xlen === xlen) ?? candidates[0];
+		if (!spec) {
+			return undefined;
+		}
+
+		const details = [l10n.t('{0} format', spec.format), l10n.t('{0} extension', spec.extension)];
+		if (spec.xlen) {
+			details.push(l10n.t('RV{0} only', spec.xlen));
+		}
+		const markdown = new vscode.MarkdownString();
+		markdown.appendMarkdown(`**${spec.mnemonic}** · ${details.join(' · ')}`);
+		markdown.appendCodeblock([spec.mnemonic, spec.operands.join(', ')].filter(Boolean).join(' '), ASSEMBLY_LANGUAGE_ID);
+		const semantics = instructionSemantics(spec.mnemonic);
+		if (semantics) {
+			markdown.appendMarkdown(`\`${semantics}\`\n\n`);
+		}
+		const fields = encodingPattern(spec);
+		markdown.appendMarkdown([
+			`| ${fields.map(field => `${field.name} [${field.high}:${field.low}]`).join(' | ')} |`,
+			`|${fields.map(() => ':-:').join('|')}|`,
+			`| ${fields.map(field => field.bits ?? field.name).join(' | ')} |`
+		].join('\n'));
+		return new vscode.Hover(markdown, new vscode.Range(position.line, start, position.line, end));
+	}
+}
+
+function assemblerXlen(xlen: XlenSetting): Xlen {
+	return xlen === 32 ? 32 : 64;
+}
@@ -0,0 +1,809 @@
+import {
+	CSR_NAMES,
+	INTEGER_REGISTER_NAMES,
+	InstructionSpec,
+	OPERAND_TYPES,
+	OperandType,
+	ROUNDING_MODES,
+	Xlen,
+	findInstructionSpecs,
+	immediateWidth,
+	instructionSize,
+	operandType,
+	parseFloatRegister,
+	parseIntegerRegister,
+	placeField,
+	placeImmediate
+} from './isa';
+
+export interface AssemblerOptions {
+	xlen?: Xlen;
+}
+
+export interface AssembledInstruction {
+	address: number;
+	encoding: number;
+	size: 2 | 4;
+	text: string;
+}
+
+export interface AssembledLine {
+	lineNumber: number;
+	source: string;
+	instructions: AssembledInstruction[];
+	/** Set when the statement on this line expanded from a pseudo-instruction. */
+	pseudo?: boolean;
+	error?: string;
+}
+
+export interface AssemblyResult {
+	lines: AssembledLine[];
+	symbols: Map<string, number>;
+	errorCount: number;
+}
+
+export interface AssemblyIssue {
+	lineNumber: number;
+	/** Column range of the offending mnemonic or statement. */
+	start: number;
+	end: number;
+	message: string;
+}
+
+interface Statement {
+	mnemonic: string;
+	operands: string[];
+}
+
+interface ParsedLine {
+	lineNumber: number;
+	labels: string[];
+	statement?: Statement;
+	source: string;
+	error?: string;
+}
+
+interface ExpressionValue {
+	value: bigint;
+	/** True when the value depends on a label or the location counter. */
+	symbolic: boolean;
+}
+
+interface AssemblyContext {
+	xlen: Xlen;
+	pc: number;
+	labels: Map<string, number>;
+	constants: Map<string, bigint>;
+	/** During sizing, unresolved labels evaluate to zero instead of failing. */
+	allowUndefined: boolean;
+	/** Unresolved names are external symbols or preprocessor constants: zero, and not addresses. */
+	externalSymbols?: boolean;
+	/** Numeric local labels (`1:`) by number, in source order; `1b` and `1f` resolve relative to `lineNumber`. */
+	localLabels?: Map<string, LocalLabel[]>;
+	lineNumber?: number;
+}
+
+interface LocalLabel {
+	lineNumber: number;
+	address: number;
+}
+
+type PseudoExpansion = (operands: string[], context: AssemblyContext) => Statement[] | undefined;
+
+const IGNORED_DIRECTIVES = new Set(['.text', '.globl', '.global', '.local', '.section', '.option', '.type', '.size', '.file', '.ident', '.attribute']);
+
+const DATA_DIRECTIVES: Readonly<Record<string, 2 | 4>> = {
+	'.half': 2,
+	'.short': 2,
+	'.word': 4,
+	'.long': 4
+};
+
+const AMO_ORDERING_BITS: Readonly<Record<string, number>> = {
+	aq: 1 << 26,
+	rl: 1 << 25,
+	aqrl: (1 << 26) | (1 << 25)
+};
+
+const FENCE_BITS: Readonly<Record<string, number>> = { i: 8, o: 4, r: 2, w: 1 };
+
+const PSEUDO_INSTRUCTIONS: Readonly<Record<string, PseudoExpansion>> = {
+	nop: operands => fixed(operands, 0, 'nop', () => [stmt('addi', 'zero', 'zero', '0')]),
+	li: (operands, context) => fixed(operands, 2, 'li rd, imm', () => expandLoadImmediate(operands[0], operands[1], context)),
+	la: (operands, context) => fixed(operands, 2, 'la rd, symbol', () => expandPcRelative('addi', operands[0], operands[0], operands[1], context, true)),
+	lla: (operands, context) => fixed(operands, 2, 'lla rd, symbol', () => expandPcRelative('addi', operands[0], operands[0], operands[1], context, true)),
+	mv: operands => fixed(operands, 2, 'mv rd, rs', () => [stmt('addi', operands[0], operands[1], '0')]),
+	not: operands => fixed(operands, 2, 'not rd, rs', () => [stmt('xori', operands[0], operands[1], '-1')]),
+	neg: operands => fixed(operands, 2, 'neg rd, rs', () => [stmt('sub', operands[0], 'zero', operands[1])]),
+	negw: operands => fixed(operands, 2, 'negw rd, rs', () => [stmt('subw', operands[0], 'zero', operands[1])]),
+	'sext.w': operands => fixed(operands, 2, 'sext.w rd, rs', () => [stmt('addiw', operands[0], operands[1], '0')]),
+	seqz: operands => fixed(operands, 2, 'seqz rd, rs', () => [stmt('sltiu', operands[0], operands[1], '1')]),
+	snez: operands => fixed(operands, 2, 'snez rd, rs', () => [stmt('sltu', operands[0], 'zero', operands[1])]),
+	sltz: operands => fixed(operands, 2, 'sltz rd, rs', () => [stmt('slt', operands[0], operands[1], 'zero')]),
+	sgtz: operands => fixed(operands, 2, 'sgtz rd, rs', () => [stmt('slt', operands[0], 'zero', operands[1])]),
+	beqz: operands => fixed(operands, 2, 'beqz rs, offset', () => [stmt('beq', operands[0], 'zero', operands[1])]),
+	bnez: operands => fixed(operands, 2, 'bnez rs, offset', () => [stmt('bne', operands[0], 'zero', operands[1])]),
+	blez: operands => fixed(operands, 2, 'blez rs, offset', () => [stmt('bge', 'zero', operands[0], operands[1])]),
+	bgez: operands => fixed(operands, 2, 'bgez rs, offset', () => [stmt('bge', operands[0], 'zero', operands[1])]),
+	bltz: operands => fixed(operands, 2, 'bltz rs, offset', () => [stmt('blt', operands[0], 'zero', operands[1])]),
+	bgtz: operands => fixed(operands, 2, 'bgtz rs, offset', () => [stmt('blt', 'zero', operands[0], operands[1])]),
+	bgt: operands => fixed(operands, 3, 'bgt rs, rt, offset', () => [stmt('blt', operands[1], operands[0], operands[2])]),
+	ble: operands => fixed(operands, 3, 'ble rs, rt, offset', () => [stmt('bge', operands[1], operands[0], operands[2])]),
+	bgtu: operands => fixed(operands, 3, 'bgtu rs, rt, offset', () => [stmt('bltu', operands[1], operands[0], operands[2])]),
+	bleu: operands => fixed(operands, 3, 'bleu rs, rt, offset', () => [stmt('bgeu', operands[1], operands[0], operands[2])]),
+	j: operands => fixed(operands, 1, 'j offset', () => [stmt('jal', 'zero', operands[0])]),
+	jal: operands => (operands.length === 1 ? [stmt('jal', 'ra', operands[0])] : undefined),
+	jr: operands => fixed(operands, 1, 'jr rs', () => [stmt('jalr', 'zero', `0(${operands[0]})`)]),
+	jalr: operands => {
+		if (operands.length === 1) {
+			return [stmt('jalr', 'ra', `0(${operands[0]})`)];
+		}
+		if (operands.length === 2 && !operands[1].includes('(')) {
+			return [stmt('jalr', operands[0], `0(${operands[1]})`)];
+		}
+		if (operands.length === 3) {
+			return [stmt('jalr', operands[0], `${operands[2]}(${operands[1]})`)];
+		}
+		return undefined;
+	},
+	ret: operands => fixed(operands, 0, 'ret', () => [stmt('jalr', 'zero', '0(ra)')]),
+	call: (operands, context) => fixed(operands, 1, 'call symbol', () => expandPcRelative('jalr', 'ra', 'ra', operands[0], context, false)),
+	tail: (operands, context) => fixed(operands, 1, 'tail symbol', () => expandPcRelative('jalr', 't1', 'zero', operands[0], context, false)),
+	fence: operands => (operands.length === 0 ? [stmt('fence', 'iorw', 'iorw')] : undefined),
+	csrr: operands => fixed(operands, 2, 'csrr rd, csr', () => [stmt('csrrs', operands[0], operands[1], 'zero')]),
+	csrw: operands => fixed(operands, 2, 'csrw csr, rs', () => [stmt('csrrw', 'zero', operands[0], operands[1])]),
+	csrs: operands => fixed(operands, 2, 'csrs csr, rs', () => [stmt('csrrs', 'zero', operands[0], operands[1])]),
+	csrc: operands => fixed(operands, 2, 'csrc csr, rs', () => [stmt('csrrc', 'zero', operands[0], operands[1])]),
+	csrwi: operands => fixed(operands, 2, 'csrwi csr, imm', () => [stmt('csrrwi', 'zero', operands[0], operands[1])]),
+	csrsi: operands => fixed(operands, 2, 'csrsi csr, imm', () => [stmt('csrrsi', 'zero', operands[0], operands[1])]),
+	csrci: operands => fixed(operands, 2, 'csrci csr, imm', () => [stmt('csrrci', 'zero', operands[0], operands[1])]),
+	rdcycle: operands => fixed(operands, 1, 'rdcycle rd', () => [stmt('csrrs', operands[0], 'cycle', 'zero')]),
+	rdtime: operands => fixed(operands, 1, 'rdtime rd', () => [stmt('csrrs', operands[0], 'time', 'zero')]),
+	rdinstret: operands => fixed(operands, 1, 'rdinstret rd', () => [stmt('csrrs', operands[0], 'instret', 'zero')]),
+	frcsr: operands => fixed(operands, 1, 'frcsr rd', () => [stmt('csrrs', operands[0], 'fcsr', 'zero')]),
+	fscsr: operands => fixed(operands, 1, 'fscsr rs', () => [stmt('csrrw', 'zero', 'fcsr', operands[0])]),
+	'fmv.s': operands => fixed(operands, 2, 'fmv.s fd, fs', () => [stmt('fsgnj.s', operands[0], operands[1], operands[1])]),
+	'fabs.s': operands => fixed(operands, 2, 'fabs.s fd, fs', () => [stmt('fsgnjx.s', operands[0], operands[1], operands[1])]),
+	'fneg.s': operands => fixed(operands, 2, 'fneg.s fd, fs', () => [stmt('fsgnjn.s', operands[0], operands[1], operands[1])]),
+	'fmv.d': operands => fixed(operands, 2, 'fmv.d fd, fs', () => [stmt('fsgnj.d', operands[0], operands[1], operands[1])]),
+	'fabs.d': operands => fixed(operands, 2, 'fabs.d fd, fs', () => [stmt('fsgnjx.d', operands[0], operands[1], operands[1])]),
+	'fneg.d': operands => fixed(operands, 2, 'fneg.d fd, fs', () => [stmt('fsgnjn.d', operands[0], operands[1], operands[1])])
+};
+
+/**
+ * Assembles RISC-V source text into machine code. Labels are resolved within
+ * the snippet (addresses start at zero) and every line reports its own error
+ * instead of aborting the whole run.
+ */
+export function assemble(source: string, options: AssemblerOptions = {}): AssemblyResult {
+	const xlen = options.xlen ?? 64;
+	const parsedLines = source.replace(/\r\n/g, '\n').split('\n').map((line, index) => parseLine(line, index + 1));
+	const labels = new Map<string, number>();
+	const localLabels = new Map<string, LocalLabel[]>();
+	const constants = new Map<string, bigint>();
+	const sizes = new Map<number, number>();
+	const errors = new Map<number, string>();
+
+	let pc = 0;
+	for (const line of parsedLines) {
+		if (line.error) {
+			errors.set(line.lineNumber, line.error);
+			continue;
+		}
+		try {
+			for (const label of line.labels) {
+				if (/^\d+$/.test(label)) {
+					localLabels.set(label, [...(localLabels.get(label) ?? []), { lineNumber: line.lineNumber, address: pc }]);
+					continue;
+				}
+				if (labels.has(label) || constants.has(label)) {
+					throw new Error(`Symbol "${label}" is already defined.`);
+				}
+				labels.set(label, pc);
+			}
+			if (line.statement) {
+				const context: AssemblyContext = { xlen, pc, labels, constants, allowUndefined: true, localLabels, lineNumber: line.lineNumber };
+				const size = layoutStatement(line.statement, context);
+				sizes.set(line.lineNumber, size);
+				pc += size;
+			}
+		} catch (error) {
+			errors.set(line.lineNumber, toMessage(error));
+		}
+	}
+
+	const lines: AssembledLine[] = [];
+	pc = 0;
+	for (const line of parsedLines) {
+		if (!line.statement && !errors.has(line.lineNumber)) {
+			continue;
+		}
+		const assembled: AssembledLine = { lineNumber: line.lineNumber, source: line.source, instructions: [] };
+		lines.push(assembled);
+
+		const previousError = errors.get(line.lineNumber);
+		if (previousError || !line.statement) {
+			assembled.error = previousError;
+			continue;
+		}
+
+		const expectedSize = sizes.get(line.lineNumber) ?? 0;
+		try {
+			const context: AssemblyContext = { xlen, pc, labels, constants, allowUndefined: false, localLabels, lineNumber: line.lineNumber };
+			const { instructions, pseudo } = emitStatement(line.statement, context);
+			assembled.instructions = instructions;
+			assembled.pseudo = pseudo;
+			const size = instructions.reduce((total, instruction) => total + instruction.size, 0);
+			if (size !== expectedSize) {
+				throw new Error('Statement size changed between passes.');
+			}
+		} catch (error) {
+			assembled.instructions = [];
+			assembled.error = toMessage(error);
+		}
+		pc += expectedSize;
+	}
+
+	return {
+		lines,
+		symbols: labels,
+		errorCount: lines.filter(line => line.error).length
+	};
+}
+
+/**
+ * Checks every statement of a complete assembly source file on its own:
+ * mnemonics, operand counts, register names and immediate ranges. Section
+ * layout and alignment are not modelled, so all labels sit at address zero
+ * and branch distances are not checked. Directives other than constants and
+ * data are skipped, as are macro bodies.
+ */
+export function checkAssembly(source: string, options: AssemblerOptions = {}): AssemblyIssue[] {
+	const xlen = options.xlen ?? 64;
+	const rawLines = stripBlockComments(source.replace(/\r\n/g, '\n')).split('\n').map(maskLocalLabels);
+	const parsedLines = rawLines.map((line, index) => parseLine(line, index + 1));
+	const context: AssemblyContext = { xlen, pc: 0, labels: new Map(), constants: new Map(), allowUndefined: false, externalSymbols: true };
+	for (const line of parsedLines) {
+		line.labels.forEach(label => context.labels.set(label, 0));
+	}
+
+	const issues: AssemblyIssue[] = [];
+	let inMacro = false;
+	for (const line of parsedLines) {
+		const mnemonic = line.statement?.mnemonic;
+		if (mnemonic === '.macro' || mnemonic === '.endm') {
+			inMacro = mnemonic === '.macro';
+			continue;
+		}
+		if (inMacro || (!line.statement && !line.error)) {
+			continue;
+		}
+		try {
+			if (line.error || !line.statement) {
+				throw new Error(line.error);
+			}
+			if (line.statement.mnemonic === '.equ' || line.statement.mnemonic === '.set') {
+				layoutDirective(line.statement, context);
+			} else if (DATA_DIRECTIVES[line.statement.mnemonic]) {
+				emitDirective(line.statement, context);
+			} else if (!line.statement.mnemonic.startsWith('.')) {
+				emitStatement(line.statement, context);
+			}
+		} catch (error) {
+			const message = toMessage(error);
+			const text = stripComment(rawLines[line.lineNumber - 1]).trimEnd();
+			const start = text.length - line.source.length;
+			const end = message.startsWith('Unknown instruction') ? start + (mnemonic?.length ?? 0) : text.length;
+			issues.push({ lineNumber: line.lineNumber, start, end, message });
+		}
+	}
+	return issues;
+}
+
+function parseLine(rawLine: string, lineNumber: number): ParsedLine {
+	let text = stripComment(rawLine).trim();
+	const labels: string[] = [];
+
+	let labelMatch = /^([A-Za-z_.$][\w.$]*|\d+)\s*:/.exec(text);
+	while (labelMatch) {
+		labels.push(labelMatch[1]);
+		text = text.slice(labelMatch[0].length).trim();
+		labelMatch = /^([A-Za-z_.$][\w.$]*|\d+)\s*:/.exec(text);
+	}
+
+	if (!text) {
+		return { lineNumber, labels, source: text };
+	}
+
+	const mnemonicMatch = /^(\S+)\s*(.*)$/.exec(text);
+	const mnemonic = (mnemonicMatch?.[1] ?? text).toLowerCase();
+	const rest = mnemonicMatch?.[2]?.trim() ?? '';
+	const operands = rest ? rest.split(',').map(operand => operand.trim()) : [];
+	if (operands.some(operand => operand.length === 0)) {
+		return { lineNumber, labels, source: text, error: `Empty operand in "${text}".` };
+	}
+
+	return { lineNumber, labels, statement: { mnemonic, operands }, source: text };
+}
+
+/** Blanks out C-style block comments (used in preprocessed `.S` files), keeping line breaks and columns. */
+function stripBlockComments(source: string): string {
+	return source.replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Blanks out numeric local labels (`1:`) and turns references to them
+ * (`1b`, `1f`) into the location counter, keeping columns.
+ */
+function maskLocalLabels(line: string): string {
+	return line
+		.replace(/^(\s*\d+:)+/, labels => ' '.repeat(labels.length))
+		.replace(/\b\d+[bf]\b/g, reference => '.'.padEnd(reference.length));
+}
+
+function stripComment(line: string): string {
+	const hashIndex = line.indexOf('#');
+	const slashIndex = line.indexOf('//');
+	const indices = [hashIndex, slashIndex].filter(index => index >= 0);
+	return indices.length > 0 ? line.slice(0, Math.min(...indices)) : line;
+}
+
+function layoutStatement(statement: Statement, context: AssemblyContext): number {
+	if (statement.mnemonic.startsWith('.')) {
+		return layoutDirective(statement, context);
+	}
+	const expanded = expandStatement(statement, context);
+	return expanded.statements.reduce((total, entry) => total + instructionSize(resolveSpec(entry.mnemonic, context.xlen).spec), 0);
+}
+
+function layoutDirective(statement: Statement, context: AssemblyContext): number {
+	const { mnemonic, operands } = statement;
+	if (mnemonic === '.equ' || mnemonic === '.set') {
+		if (operands.length !== 2 || !/^[A-Za-z_.$][\w.$]*$/.test(operands[0])) {
+			throw new Error(`Expected "${mnemonic} name, value".`);
+		}
+		const name = operands[0];
+		if (context.labels.has(name)) {
+			throw new Error(`Symbol "${name}" is already defined.`);
+		}
+		const value = evaluateExpression(operands[1], { ...context, allowUndefined: false });
+		context.constants.set(name, value.value);
+		return 0;
+	}
+	if (IGNORED_DIRECTIVES.has(mnemonic)) {
+		return 0;
+	}
+	const unitSize = DATA_DIRECTIVES[mnemonic];
+	if (!unitSize) {
+		throw new Error(`Unsupported directive "${mnemonic}".`);
+	}
+	if (operands.length === 0) {
+		throw new Error(`"${mnemonic}" expects at least one value.`);
+	}
+	return unitSize * operands.length;
+}
+
+function emitStatement(statement: Statement, context: AssemblyContext): { instructions: AssembledInstruction[]; pseudo: boolean } {
+	if (statement.mnemonic.startsWith('.')) {
+		return { instructions: emitDirective(statement, context), pseudo: false };
+	}
+
+	const expanded = expandStatement(statement, context);
+	const instructions: AssembledInstruction[] = [];
+	let pc = context.pc;
+	for (const entry of expanded.statements) {
+		const { spec, orderingBits } = resolveSpec(entry.mnemonic, context.xlen);
+		const encoding = (encodeOperands(spec, entry.operands, { ...context, pc }) | orderingBits) >>> 0;
+		const size = instructionSize(spec);
+		instructions.push({ address: pc, encoding, size, text: formatStatement(entry) });
+		pc += size;
+	}
+	return { instructions, pseudo: expanded.pseudo };
+}
+
+function emitDirective(statement: Statement, context: AssemblyContext): AssembledInstruction[] {
+	const unitSize = DATA_DIRECTIVES[statement.mnemonic];
+	if (!unitSize) {
+		return [];
+	}
+	const bits = unitSize * 8;
+	return statement.operands.map((operand, index) => {
+		const { value } = evaluateExpression(operand, context);
+		if (value < -(1n << BigInt(bits - 1)) || value >= 1n << BigInt(bits)) {
+			throw new Error(`Value ${operand} does not fit in ${bits} bits.`);
+		}
+		const encoding = Number(BigInt.asUintN(bits, value));
+		return {
+			address: context.pc + index * unitSize,
+			encoding,
+			size: unitSize,
+			text: `${statement.mnemonic} ${operand}`
+		};
+	});
+}
+
+function expandStatement(statement: Statement, context: AssemblyContext): { statements: Statement[]; pseudo: boolean } {
+	const expansion = PSEUDO_INSTRUCTIONS[statement.mnemonic];
+	const expanded = expansion?.(statement.operands, context);
+	if (expanded) {
+		return { statements: expanded, pseudo: true };
+	}
+	return { statements: [statement], pseudo: false };
+}
+
+function resolveSpec(mnemonic: string, xlen: Xlen): { spec: InstructionSpec; orderingBits: number } {
+	let candidates = findInstructionSpecs(mnemonic);
+	let orderingBits = 0;
+
+	if (candidates.length === 0) {
+		const orderingMatch = /^(.+)\.(aq|rl|aqrl)$/.exec(mnemonic);
+		if (orderingMatch) {
+			candidates = findInstructionSpecs(orderingMatch[1]).filter(entry => entry.extension === 'A');
+			orderingBits = AMO_ORDERING_BITS[orderingMatch[2]];
+		}
+	}
+
+	if (candidates.length === 0) {
+		throw new Error(`Unknown instruction "${mnemonic}".`);
+	}
+
+	const spec = candidates.find(entry => entry.xlen === undefined || entry.xlen === xlen);
+	if (!spec) {
+		throw new Error(`"${mnemonic}" is only available on RV${candidates[0].xlen}.`);
+	}
+	return { spec, orderingBits };
+}
+
+function encodeOperands(spec: InstructionSpec, operands: string[], context: AssemblyContext): number {
+	let expected = spec.operands;
+	if (expected[expected.length - 1] === 'rm' && operands.length === expected.length - 1) {
+		expected = expected.slice(0, -1);
+	}
+	if (operands.length !== expected.length) {
+		const syntax = [spec.mnemonic, spec.operands.join(', ')].filter(Boolean).join(' ');
+		throw new Error(`"${spec.mnemonic}" expects ${expected.length} operand(s) but found ${operands.length} (syntax: ${syntax}).`);
+	}
+
+	let word = spec.match;
+	expected.forEach((typeName, index) => {
+		const operand = operands[index];
+		const memoryMatch = /^(\w*)\((\w+)\)$/.exec(typeName);
+		if (!memoryMatch) {
+			word |= encodeOperand(spec, typeName, operand, context);
+			return;
+		}
+
+		const operandMatch = /^(.*)\(\s*([^()]+?)\s*\)$/.exec(operand);
+		if (!operandMatch) {
+			throw new Error(`Expected a memory operand like "offset(base)" but found "${operand}".`);
+		}
+		const [, offsetType, baseType] = memoryMatch;
+		const offsetText = operandMatch[1].trim();
+		if (offsetType) {
+			word |= encodeOperand(spec, offsetType, offsetText || '0', context);
+		} else if (offsetText && evaluateExpression(offsetText, context).value !== 0n) {
+			throw new Error(`"${spec.mnemonic}" does not take an address offset.`);
+		}
+		word |= encodeOperand(spec, baseType, operandMatch[2], context);
+	});
+
+	if (spec.operands[spec.operands.length - 1] === 'rm' && expected.length < spec.operands.length) {
+		word |= placeField(OPERAND_TYPES.rm.field ?? [14, 12], ROUNDING_MODES.indexOf('dyn'));
+	}
+	return word >>> 0;
+}
+
+function encodeOperand(spec: InstructionSpec, typeName: string, operand: string, context: AssemblyContext): number {
+	const type = operandType(typeName);
+	if (!type) {
+		throw new Error(`Internal error: unknown operand type "${typeName}".`);
+	}
+
+	switch (type.kind) {
+		case 'xreg':
+		case 'freg':
+			return encodeRegister(spec, type, operand);
+		case 'fixedReg': {
+			if (parseIntegerRegister(operand) !== type.fixedRegister) {
+				throw new Error(`"${spec.mnemonic}" requires ${INTEGER_REGISTER_NAMES[type.fixedRegister ?? 0]} here, not "${operand}".`);
+			}
+			return 0;
+		}
+		case 'csr':
+			return placeField(type.field ?? [31, 20], parseCsr(operand, context));
+		case 'roundingMode': {
+			const index = ROUNDING_MODES.indexOf(operand.toLowerCase());
+			if (index < 0 || !operand) {
+				throw new Error(`Unknown rounding mode "${operand}".`);
+			}
+			return placeField(type.field ?? [14, 12], index);
+		}
+		case 'fenceSet':
+			return placeField(type.field ?? [23, 20], parseFenceSet(operand));
+		case 'imm':
+			return encodeImmediate(spec, type, operand, context);
+		default:
+			return 0;
+	}
+}
+
+function encodeRegister(spec: InstructionSpec, type: OperandType, operand: string): number {
+	const isFloat = type.kind === 'freg';
+	const register = isFloat ? parseFloatRegister(operand) : parseIntegerRegister(operand);
+	if (register === undefined) {
+		const expectedKind = isFloat ? 'floating-point' : 'integer';
+		throw new Error(`"${operand}" is not a valid ${expectedKind} register.`);
+	}
+	if (type.nonZero && register === 0) {
+		throw new Error(`"${spec.mnemonic}" cannot use ${operand} here.`);
+	}
+	if (type.forbidden?.includes(register)) {
+		throw new Error(`"${spec.mnemonic}" cannot use ${operand} here.`);
+	}
+	if (type.compact) {
+		if (register < 8 || register > 15) {
+			const range = isFloat ? 'f8-f15' : 'x8-x15 (s0, s1, a0-a5)';
+			throw new Error(`"${spec.mnemonic}" only accepts registers ${range}; found "${operand}".`);
+		}
+		return placeField(type.field ?? [4, 2], register - 8);
+	}
+	return placeField(type.field ?? [11, 7], register);
+}
+
+function encodeImmediate(spec: InstructionSpec, type: OperandType, operand: string, context: AssemblyContext): number {
+	const layout = type.layout ?? [];
+	const width = immediateWidth(layout);
+	const evaluated = evaluateExpression(operand, context);
+	let value = evaluated.value;
+
+	if (type.pcRelative && evaluated.symbolic) {
+		value -= BigInt(context.pc);
+	}
+	if (type.upper && value >= 1n << BigInt(width - 1) && value < 1n << 20n) {
+		value -= 1n << 20n;
+	}
+
+	const scale = BigInt(type.scale ?? 1);
+	let minimum = type.signed ? -(1n << BigInt(width - 1)) : 0n;
+	let maximum = type.signed ? (1n << BigInt(width - 1)) - 1n : (1n << BigInt(width)) - 1n;
+	if (type.shamt) {
+		minimum = type.nonZero ? 1n : 0n;
+		maximum = BigInt(context.xlen - 1);
+	}
+
+	if (value < minimum || value > maximum) {
+		throw new Error(`Immediate ${operand} is out of range for "${spec.mnemonic}" (${minimum} to ${maximum}).`);
+	}
+	if (value % scale !== 0n) {
+		throw new Error(`Immediate ${operand} for "${spec.mnemonic}" must be a multiple of ${scale}.`);
+	}
+	if (type.nonZero && value === 0n) {
+		throw new Error(`Immediate for "${spec.mnemonic}" must be non-zero.`);
+	}
+
+	return placeImmediate(layout, Number(BigInt.asUintN(width, value)));
+}
+
+function parseCsr(operand: string, context: AssemblyContext): number {
+	const named = CSR_NAMES[operand.toLowerCase()];
+	if (named !== undefined) {
+		return named;
+	}
+	const { value } = evaluateExpression(operand, context);
+	if (value < 0n || value > 0xfffn) {
+		throw new Error(`CSR address ${operand} is out of range (0 to 0xfff).`);
+	}
+	return Number(value);
+}
+
+function parseFenceSet(operand: string): number {
+	const normalized = operand.toLowerCase();
+	if (normalized === '0') {
+		return 0;
+	}
+	let bits = 0;
+	for (const letter of normalized) {
+		const bit = FENCE_BITS[letter];
+		if (!bit || bits & bit) {
+			throw new Error(`Invalid fence set "${operand}"; use a combination of i, o, r and w.`);
+		}
+		bits |= bit;
+	}
+	return bits;
+}
+
+function expandLoadImmediate(rd: string, operand: string, context: AssemblyContext): Statement[] {
+	const evaluated = evaluateExpression(operand, context);
+	if (evaluated.symbolic) {
+		throw new Error('"li" expects a constant; use "la" to load an address.');
+	}
+
+	const bits = BigInt(context.xlen);
+	if (evaluated.value < -(1n << (bits - 1n)) || evaluated.value >= 1n << bits) {
+		throw new Error(`Immediate ${operand} does not fit in ${context.xlen} bits.`);
+	}
+	const value = BigInt.asIntN(context.xlen, evaluated.value);
+	return loadImmediateSequence(rd, value, context.xlen);
+}
+
+function loadImmediateSequence(rd: string, value: bigint, xlen: Xlen): Statement[] {
+	const low12 = BigInt.asIntN(12, value);
+	if (value === low12) {
+		return [stmt('addi', rd, 'zero', low12.toString())];
+	}
+
+	if (value === BigInt.asIntN(32, value)) {
+		const upper = BigInt.asUintN(20, (value + 0x800n) >> 12n);
+		const sequence = [stmt('lui', rd, `0x${upper.toString(16)}`)];
+		if (low12 !== 0n) {
+			sequence.push(stmt(xlen === 64 ? 'addiw' : 'addi', rd, rd, low12.toString()));
+		}
+		return sequence;
+	}
+
+	let upper = (value + 0x800n) >> 12n;
+	let shift = 12n;
+	while ((upper & 1n) === 0n) {
+		upper >>= 1n;
+		shift += 1n;
+	}
+	upper = BigInt.asIntN(64 - Number(shift), upper);
+
+	const sequence = loadImmediateSequence(rd, upper, xlen);
+	sequence.push(stmt('slli', rd, rd, shift.toString()));
+	if (low12 !== 0n) {
+		sequence.push(stmt('addi', rd, rd, low12.toString()));
+	}
+	return sequence;
+}
+
+function expandPcRelative(
+	lowMnemonic: 'addi' | 'jalr',
+	scratch: string,
+	rd: string,
+	target: string,
+	context: AssemblyContext,
+	absolute: boolean
+): Statement[] {
+	const evaluated = evaluateExpression(target, context);
+	const offset = evaluated.symbolic || absolute ? evaluated.value - BigInt(context.pc) : evaluated.value;
+	const upper = (offset + 0x800n) >> 12n;
+	const lower = offset - (upper << 12n);
+	if (upper < -(1n << 19n) || upper >= 1n << 19n) {
+		throw new Error(`Target ${target} is out of range for a PC-relative pair.`);
+	}
+
+	const high = stmt('auipc', scratch, upper.toString());
+	const low = lowMnemonic === 'addi'
+		? stmt('addi', rd, scratch, lower.toString())
+		: stmt('jalr', rd, `${lower}(${scratch})`);
+	return [high, low];
+}
+
+/**
+ * Finds the address of `Nb` (the nearest `N:` at or before the current line)
+ * or `Nf` (the nearest `N:` after it).
+ */
+function resolveLocalLabel(reference: string, context: AssemblyContext): number | undefined {
+	const definitions = context.localLabels?.get(reference.slice(0, -1)) ?? [];
+	const lineNumber = context.lineNumber ?? 0;
+	const match = reference.endsWith('b')
+		? definitions.filter(definition => definition.lineNumber <= lineNumber).pop()
+		: definitions.find(definition => definition.lineNumber > lineNumber);
+	return match?.address;
+}
+
+function evaluateExpression(text: string, context: AssemblyContext): ExpressionValue {
+	const tokens = text.match(/%hi|%lo|0[xX][0-9a-fA-F_]+|0[bB][01_]+|\d+[bf]\b|\d[\d_]*|[A-Za-z_.$][\w.$]*|[-+()]|\S/g) ?? [];
+	let position = 0;
+
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+
+	const parsePrimary = (): ExpressionValue => {
+		const token = next();
+		if (token === undefined) {
+			throw new Error(`Incomplete expression "${text}".`);
+		}
+		if (token === '-' || token === '+') {
+			const operand = parsePrimary();
+			return token === '-' ? { value: -operand.value, symbolic: operand.symbolic } : operand;
+		}
+		if (token === '(') {
+			const inner = parseSum();
+			if (next() !== ')') {
+				throw new Error(`Missing ")" in "${text}".`);
+			}
+			return inner;
+		}
+		if (token === '%hi' || token === '%lo') {
+			if (next() !== '(') {
+				throw new Error(`Expected "(" after ${token} in "${text}".`);
+			}
+			const inner = parseSum();
+			if (next() !== ')') {
+				throw new Error(`Missing ")" in "${text}".`);
+			}
+			const upper = (inner.value + 0x800n) >> 12n;
+			const value = token === '%hi' ? BigInt.asUintN(20, upper) : inner.value - (upper << 12n);
+			return { value, symbolic: false };
+		}
+		if (/^\d+[bf]$/.test(token)) {
+			const address = resolveLocalLabel(token, context);
+			if (address !== undefined) {
+				return { value: BigInt(address), symbolic: true };
+			}
+			if (context.allowUndefined) {
+				return { value: 0n, symbolic: true };
+			}
+			throw new Error(`Undefined local label "${token}".`);
+		}
+		if (/^\d/.test(token)) {
+			return { value: BigInt(token.replace(/_/g, '')), symbolic: false };
+		}
+		if (token === '.') {
+			return { value: BigInt(context.pc), symbolic: true };
+		}
+		if (/^[A-Za-z_.$]/.test(token)) {
+			const constant = context.constants.get(token);
+			if (constant !== undefined) {
+				return { value: constant, symbolic: false };
+			}
+			const label = context.labels.get(token);
+			if (label !== undefined) {
+				return { value: BigInt(label), symbolic: true };
+			}
+			if (context.externalSymbols) {
+				return { value: 0n, symbolic: false };
+			}
+			if (context.allowUndefined) {
+				return { value: 0n, symbolic: true };
+			}
+			throw new Error(`Undefined symbol "${token}".`);
+		}
+		throw new Error(`Unexpected "${token}" in "${text}".`);
+	};
+
+	const parseSum = (): ExpressionValue => {
+		let result = parsePrimary();
+		while (peek() === '+' || peek() === '-') {
+			const operator = next();
+			const operand = parsePrimary();
+			result = {
+				value: operator === '+' ? result.value + operand.value : result.value - operand.value,
+				symbolic: operator === '+' ? result.symbolic || operand.symbolic : result.symbolic !== operand.symbolic
+			};
+		}
+		return result;
+	};
+
+	if (tokens.length === 0) {
+		throw new Error('Expected a value.');
+	}
+	const result = parseSum();
+	if (position < tokens.length) {
+		throw new Error(`Unexpected "${tokens[position]}" in "${text}".`);
+	}
+	return result;
+}
+
+function fixed(operands: string[], count: number, syntax: string, expand: () => Statement[]): Statement[] {
+	if (operands.length !== count) {
+		throw new Error(`Expected ${count} operand(s) (syntax: ${syntax}) but found ${operands.length}.`);
+	}
+	return expand();
+}
+
+function stmt(mnemonic: string, ...operands: string[]): Statement {
+	return { mnemonic, operands };
+}
+
+function formatStatement(statement: Statement): string {
+	return statement.operands.length > 0
+		? `${statement.mnemonic} ${statement.operands.join(', ')}`
+		: statement.mnemonic;
+}
+
+function toMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
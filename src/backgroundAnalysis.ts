@@ -0,0 +1,91 @@
+import * as path from 'node:path';
+import { Worker } from 'node:worker_threads';
+import { AnalyzerExecutionResult, AnalyzerMode, AnalyzerOptions, AnalyzerProgress, disassembleFile, executeAnalyzer } from './analyzer';
+import { CustomInstructionSet, getCustomInstructions } from './isa';
+
+/** Analyzer work that can run on a worker thread; the options must not carry callbacks or a signal. */
+export type AnalysisJob =
+	| { kind: 'execute'; mode: AnalyzerMode; input: string; options: AnalyzerOptions }
+	| { kind: 'file'; data: Uint8Array; options: AnalyzerOptions };
+
+export type AnalysisWorkerMessage =
+	| { type: 'progress'; progress: AnalyzerProgress }
+	| { type: 'result'; result: AnalyzerExecutionResult }
+	| { type: 'error'; message: string };
+
+/** What a worker thread starts from; it has its own copy of the custom instructions. */
+export interface AnalysisWorkerData {
+	extensionPath: string;
+	customInstructions: CustomInstructionSet;
+}
+
+export interface BackgroundRunOptions {
+	signal?: AbortSignal;
+	onProgress?: (progress: AnalyzerProgress) => void;
+}
+
+/** Inputs (in characters or bytes) from which a job gets a worker thread of its own. */
+export const WORKER_THRESHOLD = 64 * 1024;
+
+const WORKER_SCRIPT = path.join(__dirname, 'analysisWorker.js');
+
+/**
+ * Runs an analyzer job. Small jobs run in-process; large ones run on a fresh
+ * worker thread so that the extension host stays responsive, and cancelling
+ * terminates that thread even in the middle of an analysis pass.
+ */
+export function runAnalysisJob(job: AnalysisJob, run: BackgroundRunOptions = {}): Promise<AnalyzerExecutionResult> {
+	const size = job.kind === 'execute' ? job.input.length : job.data.length;
+	if (size < WORKER_THRESHOLD) {
+		return runJob(job, run);
+	}
+
+	return new Promise((resolve, reject) => {
+		if (run.signal?.aborted) {
+			reject(new Error('Cancelled.'));
+			return;
+		}
+		const workerData: AnalysisWorkerData = { extensionPath: path.resolve(__dirname, '..'), customInstructions: getCustomInstructions() };
+		const worker = new Worker(WORKER_SCRIPT, { workerData });
+		const finish = () => {
+			run.signal?.removeEventListener('abort', cancel);
+			void worker.terminate();
+		};
+		const cancel = () => {
+			finish();
+			reject(new Error('Cancelled.'));
+		};
+		run.signal?.addEventListener('abort', cancel, { once: true });
+
+		worker.on('message', (message: AnalysisWorkerMessage) => {
+			switch (message.type) {
+				case 'progress':
+					run.onProgress?.(message.progress);
+					break;
+				case 'result':
+					finish();
+					resolve(message.result);
+					break;
+				case 'error':
+					finish();
+					reject(new Error(message.message));
+					break;
+			}
+		});
+		worker.on('error', error => {
+			finish();
+			reject(error);
+		});
+		worker.on('exit', code => {
+			finish();
+			reject(new Error(`The analysis worker stopped unexpectedly (exit code ${code}).`));
+		});
+		worker.postMessage(job);
+	});
+}
+
+/** Runs a job on the current thread; the worker uses this too. */
+export function runJob(job: AnalysisJob, run: BackgroundRunOptions = {}): Promise<AnalyzerExecutionResult> {
+	const options: AnalyzerOptions = { ...job.options, signal: run.signal, onProgress: run.onProgress };
+	return job.kind === 'execute' ? executeAnalyzer(job.mode, job.input, options) : disassembleFile(job.data, options);
+}
@@ -0,0 +1,544 @@
+import * as vscode from 'vscode';
+import { XlenSetting, decodeEncodings } from './analyzer';
+import { BinaryImage, findBytes, loadBinaryImage, parseBytePattern, regionAtOffset, rowAtOffset, rowCount } from './binaryImage';
+import { escapeAttribute, escapeHtml, generateNonce } from './webviewHtml';
+
+const { l10n } = vscode;
+
+/** Rows decoded together; decoded chunks are cached per document. */
+const CHUNK_ROWS = 512;
+const MAX_CACHED_CHUNKS = 64;
+const MAX_REQUESTED_ROWS = 2048;
+
+interface BinaryRow {
+	offset: number;
+	address?: number;
+	bytes: string;
+	text: string;
+	label?: string;
+	code: boolean;
+}
+
+type BinaryEditorMessage =
+	| { type: 'init'; rowCount: number; hasAddresses: boolean; description: string }
+	| { type: 'rows'; start: number; rows: BinaryRow[] }
+	| { type: 'reveal'; row: number }
+	| { type: 'status'; value: string; error?: boolean };
+
+type BinaryEditorRequest =
+	| { type: 'ready' }
+	| { type: 'rows'; start: number; count: number }
+	| { type: 'goto'; value: string }
+	| { type: 'search'; query: string; fromRow: number };
+
+class BinaryDocument implements vscode.CustomDocument {
+	/** Incremented by every search so that a running search notices it was superseded. */
+	public searchGeneration = 0;
+	private readonly chunks = new Map<number, string[]>();
+
+	constructor(public readonly uri: vscode.Uri, public readonly image: BinaryImage) {}
+
+	public get hasAddresses(): boolean {
+		return this.image.regions.some(region => region.address !== undefined);
+	}
+
+	public async rows(start: number, count: number): Promise<BinaryRow[]> {
+		const { data, rowOffsets, labels } = this.image;
+		const end = Math.min(rowCount(this.image), start + Math.min(count, MAX_REQUESTED_ROWS));
+		const rows: BinaryRow[] = [];
+		for (let row = Math.max(0, start); row < end; row += 1) {
+			const chunk = Math.floor(row / CHUNK_ROWS);
+			const decoded = await this.decodedChunk(chunk);
+			const offset = rowOffsets[row];
+			const region = regionAtOffset(this.image, offset);
+			rows.push({
+				offset,
+				address: region?.address === undefined ? undefined : region.address + offset - region.start,
+				bytes: Array.from(data.subarray(offset, rowOffsets[row + 1]), byte => byte.toString(16).padStart(2, '0')).join(' '),
+				text: decoded[row - chunk * CHUNK_ROWS],
+				label: labels.get(offset) ?? (region?.name && region.start === offset ? region.name : undefined),
+				code: region?.code ?? false
+			});
+		}
+		return rows;
+	}
+
+	/** Decoded text of every row in a chunk; data rows and incomplete instructions are empty. */
+	public async decodedChunk(chunk: number): Promise<string[]> {
+		const cached = this.chunks.get(chunk);
+		if (cached) {
+			return cached;
+		}
+
+		const { data, rowOffsets } = this.image;
+		const first = chunk * CHUNK_ROWS;
+		const last = Math.min(rowCount(this.image), first + CHUNK_ROWS);
+		const rows: number[] = [];
+		const encodings: string[] = [];
+		for (let row = first; row < last; row += 1) {
+			const offset = rowOffsets[row];
+			const size = rowOffsets[row + 1] - offset;
+			const expected = this.image.compressed && (data[offset] & 0b11) !== 0b11 ? 2 : 4;
+			if (regionAtOffset(this.image, offset)?.code && size === expected) {
+				rows.push(row);
+				encodings.push(`0x${Array.from(data.subarray(offset, offset + size), byte => byte.toString(16).padStart(2, '0')).reverse().join('').toUpperCase()}`);
+			}
+		}
+
+		const decoded = new Array<string>(last - first).fill('');
+		(await decodeEncodings(encodings, this.image.xlen)).forEach((text, index) => {
+			decoded[rows[index] - first] = text;
+		});
+		this.chunks.set(chunk, decoded);
+		if (this.chunks.size > MAX_CACHED_CHUNKS) {
+			this.chunks.delete(this.chunks.keys().next().value as number);
+		}
+		return decoded;
+	}
+
+	public dispose(): void {
+		this.searchGeneration += 1;
+		this.chunks.clear();
+	}
+}
+
+/**
+ * Read-only editor for firmware images and ELF files: a virtualized table of
+ * offsets, raw bytes and decoded instructions that is decoded lazily, chunk by
+ * chunk, as it is scrolled.
+ */
+export class BinaryEditorProvider implements vscode.CustomReadonlyEditorProvider<BinaryDocument> {
+	public static readonly viewType = 'riscvAsmAnalyzer.binaryEditor';
+
+	constructor(private readonly getXlen: () => XlenSetting) {}
+
+	public async openCustomDocument(uri: vscode.Uri): Promise<BinaryDocument> {
+		const data = await vscode.workspace.fs.readFile(uri);
+		return new BinaryDocument(uri, loadBinaryImage(data, this.getXlen()));
+	}
+
+	public resolveCustomEditor(document: BinaryDocument, webviewPanel: vscode.WebviewPanel): void {
+		const { webview } = webviewPanel;
+		webview.options = { enableScripts: true };
+		webview.html = this.buildHtml(document);
+		webview.onDidReceiveMessage(async message => {
+			try {
+				await this.handleMessage(document, webview, message as BinaryEditorRequest);
+			} catch (error) {
+				this.post(webview, { type: 'status', value: error instanceof Error ? error.message : String(error), error: true });
+			}
+		});
+	}
+
+	private async handleMessage(document: BinaryDocument, webview: vscode.Webview, message: BinaryEditorRequest): Promise<void> {
+		switch (message.type) {
+			case 'ready':
+				this.post(webview, {
+					type: 'init',
+					rowCount: rowCount(document.image),
+					hasAddresses: document.hasAddresses,
+					description: document.image.description
+				});
+				break;
+			case 'rows':
+				this.post(webview, { type: 'rows', start: message.start, rows: await document.rows(message.start, message.count) });
+				break;
+			case 'goto':
+				this.handleGoto(document, webview, message.value);
+				break;
+			case 'search':
+				await this.handleSearch(document, webview, message.query, message.fromRow);
+				break;
+			default:
+				break;
+		}
+	}
+
+	private handleGoto(document: BinaryDocument, webview: vscode.Webview, value: string): void {
+		const text = value.trim().replace(/_/g, '');
+		if (!/^(0x[0-9a-f]+|\d+)$/i.test(text)) {
+			this.post(webview, { type: 'status', value: l10n.t('"{0}" is not a valid offset.', value), error: true });
+			return;
+		}
+		const offset = Number(text);
+		if (offset >= document.image.data.length) {
+			this.post(webview, { type: 'status', value: l10n.t('Offset {0} is outside the file.', value), error: true });
+			return;
+		}
+		this.post(webview, { type: 'reveal', row: rowAtOffset(document.image, offset) });
+	}
+
+	/**
+	 * Finds the next row after `fromRow` (wrapping around) whose bytes match a
+	 * byte pattern or whose instruction starts with the query. Mnemonic searches
+	 * decode chunk by chunk and give way to newer searches.
+	 */
+	private async handleSearch(document: BinaryDocument, webview: vscode.Webview, query: string, fromRow: number): Promise<void> {
+		const generation = ++document.searchGeneration;
+		const { image } = document;
+		const total = rowCount(image);
+		const needle = query.trim().toLowerCase().replace(/\s+/g, ' ');
+		if (!needle || total === 0) {
+			return;
+		}
+
+		const pattern = parseBytePattern(needle);
+		if (pattern) {
+			const from = fromRow + 1 < total ? image.rowOffsets[Math.max(0, fromRow + 1)] : 0;
+			const offset = findBytes(image, pattern, from);
+			this.post(webview, { type: 'status', value: offset === undefined ? l10n.t('No match for "{0}".', query) : '' });
+			if (offset !== undefined) {
+				this.post(webview, { type: 'reveal', row: rowAtOffset(image, offset) });
+			}
+			return;
+		}
+
+		let decoded: string[] = [];
+		let loadedChunk = -1;
+		for (let step = 1; step <= total; step += 1) {
+			const row = (Math.max(-1, fromRow) + step) % total;
+			const chunk = Math.floor(row / CHUNK_ROWS);
+			if (chunk !== loadedChunk) {
+				if ((step - 1) % (CHUNK_ROWS * 64) === 0) {
+					const progress = String(Math.floor((step - 1) / total * 100));
+					this.post(webview, { type: 'status', value: l10n.t('Searching for "{0}"... ({1}%)', query, progress) });
+				}
+				await new Promise(resolve => setImmediate(resolve));
+				if (generation !== document.searchGeneration) {
+					return;
+				}
+				decoded = await document.decodedChunk(chunk);
+				loadedChunk = chunk;
+			}
+			const text = decoded[row - chunk * CHUNK_ROWS].toLowerCase();
+			if (text.startsWith(needle) && (text.length === needle.length || /[\s,]/.test(text[needle.length]))) {
+				this.post(webview, { type: 'status', value: '' });
+				this.post(webview, { type: 'reveal', row });
+				return;
+			}
+		}
+		this.post(webview, { type: 'status', value: l10n.t('No match for "{0}".', query) });
+	}
+
+	private post(webview: vscode.Webview, message: BinaryEditorMessage): void {
+		void webview.postMessage(message);
+	}
+
+	private buildHtml(document: BinaryDocument): string {
+		const nonce = generateNonce();
+		const uiStrings = {
+			offset: l10n.t('Offset'),
+			address: l10n.t('Address'),
+			bytes: l10n.t('Bytes'),
+			instruction: l10n.t('Instruction'),
+			gotoPlaceholder: l10n.t('Offset (0x hex or decimal)'),
+			gotoButton: l10n.t('Go'),
+			searchPlaceholder: l10n.t('Mnemonic or bytes, e.g. jal or 13 05 ?? 00'),
+			searchButton: l10n.t('Find Next')
+		};
+		const styles = `
+			:root {
+				color-scheme: light dark;
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+			}
+			body {
+				margin: 0;
+				padding: 0;
+				height: 100vh;
+				display: flex;
+				flex-direction: column;
+				color: var(--vscode-editor-foreground);
+				background: var(--vscode-editor-background);
+			}
+			.toolbar {
+				display: flex;
+				gap: 8px;
+				align-items: center;
+				flex-wrap: wrap;
+				padding: 8px 12px;
+				border-bottom: 1px solid var(--vscode-panel-border, transparent);
+			}
+			input {
+				padding: 4px 8px;
+				border-radius: 4px;
+				color: var(--vscode-input-foreground);
+				background: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+			}
+			#gotoInput {
+				width: 12em;
+				font-family: var(--vscode-editor-font-family, monospace);
+			}
+			#searchInput {
+				width: 22em;
+			}
+			button {
+				padding: 4px 10px;
+				border-radius: 4px;
+				border: 1px solid var(--vscode-button-border, transparent);
+				background: var(--vscode-button-background);
+				color: var(--vscode-button-foreground);
+				cursor: pointer;
+			}
+			.hint {
+				color: var(--vscode-descriptionForeground);
+			}
+			.status-line.error {
+				color: var(--vscode-errorForeground);
+			}
+			.row {
+				display: grid;
+				grid-template-columns: 10ch 12ch minmax(0, 1fr);
+				gap: 16px;
+				height: 20px;
+				line-height: 20px;
+				padding: 0 12px;
+				white-space: pre;
+				overflow: hidden;
+				font-family: var(--vscode-editor-font-family, monospace);
+				font-size: var(--vscode-editor-font-size, 13px);
+			}
+			.with-address .row {
+				grid-template-columns: 10ch 18ch 12ch minmax(0, 1fr);
+			}
+			.header {
+				font-weight: 600;
+				border-bottom: 1px solid var(--vscode-panel-border, transparent);
+			}
+			.row.data .text,
+			.row.data .bytes,
+			.offset,
+			.address {
+				color: var(--vscode-descriptionForeground);
+			}
+			.row.selected {
+				background: var(--vscode-editor-selectionBackground);
+			}
+			.label {
+				color: var(--vscode-symbolIcon-functionForeground, var(--vscode-textLink-foreground));
+				margin-right: 8px;
+			}
+			#viewport {
+				flex: 1;
+				overflow-y: auto;
+			}
+			#rows {
+				position: sticky;
+				top: 0;
+			}
+		`;
+
+		const script = `
+			const strings = ${JSON.stringify(uiStrings)};
+			const vscode = acquireVsCodeApi();
+			const viewport = document.getElementById('viewport');
+			const spacer = document.getElementById('spacer');
+			const rowsElement = document.getElementById('rows');
+			const header = document.getElementById('header');
+			const table = document.getElementById('table');
+			const gotoInput = document.getElementById('gotoInput');
+			const searchInput = document.getElementById('searchInput');
+			const description = document.getElementById('description');
+			const statusLine = document.getElementById('statusLine');
+			const rowHeight = 20;
+			const maxHeight = 10000000;
+			const overscan = 64;
+			let total = 0;
+			let hasAddresses = false;
+			let block = { start: 0, rows: [] };
+			let pendingRequest = false;
+			let selectedRow = -1;
+			let renderScheduled = false;
+
+			function visibleRows() {
+				return Math.max(1, Math.ceil(viewport.clientHeight / rowHeight));
+			}
+
+			function lastFirstRow() {
+				return Math.max(0, total - visibleRows() + 1);
+			}
+
+			// The spacer is capped for very large images, so scroll positions map to rows proportionally.
+			function firstRow() {
+				const range = spacer.offsetHeight - viewport.clientHeight;
+				return range > 0 ? Math.min(lastFirstRow(), Math.round(viewport.scrollTop / range * lastFirstRow())) : 0;
+			}
+
+			function scrollToRow(row) {
+				const visible = visibleRows();
+				if (row < firstRow() || row >= firstRow() + visible - 1) {
+					const first = Math.max(0, Math.min(lastFirstRow(), row - Math.floor(visible / 3)));
+					const range = spacer.offsetHeight - viewport.clientHeight;
+					viewport.scrollTop = lastFirstRow() > 0 ? first / lastFirstRow() * range : 0;
+				}
+				render();
+			}
+
+			function formatHex(value) {
+				return value.toString(16).padStart(8, '0');
+			}
+
+			function appendCell(row, className, text) {
+				const cell = document.createElement('span');
+				cell.className = className;
+				cell.textContent = text;
+				row.appendChild(cell);
+				return cell;
+			}
+
+			function render() {
+				renderScheduled = false;
+				rowsElement.style.height = viewport.clientHeight + 'px';
+				const first = firstRow();
+				const last = Math.min(total, first + visibleRows());
+				const fragment = document.createDocumentFragment();
+				for (let index = first; index < last; index += 1) {
+					const data = block.rows[index - block.start];
+					const row = document.createElement('div');
+					row.className = 'row' + (index === selectedRow ? ' selected' : '') + (data && !data.code ? ' data' : '');
+					row.dataset.row = String(index);
+					appendCell(row, 'offset', data ? formatHex(data.offset) : '');
+					if (hasAddresses) {
+						appendCell(row, 'address', data && data.address !== undefined ? formatHex(data.address) : '');
+					}
+					appendCell(row, 'bytes', data ? data.bytes : '');
+					const text = appendCell(row, 'text', data ? data.text : '');
+					if (data && data.label) {
+						const label = document.createElement('span');
+						label.className = 'label';
+						label.textContent = data.label + ':';
+						text.prepend(label);
+					}
+					fragment.appendChild(row);
+				}
+				rowsElement.replaceChildren(fragment);
+				if (first < block.start || last > block.start + block.rows.length) {
+					requestRows(first);
+				}
+			}
+
+			function scheduleRender() {
+				if (!renderScheduled) {
+					renderScheduled = true;
+					requestAnimationFrame(render);
+				}
+			}
+
+			function requestRows(first) {
+				if (pendingRequest) {
+					return;
+				}
+				pendingRequest = true;
+				const start = Math.max(0, first - overscan);
+				vscode.postMessage({ type: 'rows', start, count: visibleRows() + overscan * 2 });
+			}
+
+			function setStatus(text, isError) {
+				statusLine.textContent = text;
+				statusLine.classList.toggle('error', Boolean(isError));
+			}
+
+			function search() {
+				if (searchInput.value.trim()) {
+					vscode.postMessage({ type: 'search', query: searchInput.value, fromRow: selectedRow >= 0 ? selectedRow : firstRow() - 1 });
+				}
+			}
+
+			function gotoOffset() {
+				if (gotoInput.value.trim()) {
+					vscode.postMessage({ type: 'goto', value: gotoInput.value });
+				}
+			}
+
+			viewport.addEventListener('scroll', scheduleRender);
+			window.addEventListener('resize', scheduleRender);
+			rowsElement.addEventListener('click', event => {
+				const row = event.target.closest('.row');
+				if (row) {
+					selectedRow = Number(row.dataset.row);
+					render();
+				}
+			});
+			document.getElementById('gotoButton').addEventListener('click', gotoOffset);
+			document.getElementById('searchButton').addEventListener('click', search);
+			gotoInput.addEventListener('keydown', event => {
+				if (event.key === 'Enter') {
+					gotoOffset();
+				}
+			});
+			searchInput.addEventListener('keydown', event => {
+				if (event.key === 'Enter') {
+					search();
+				}
+			});
+
+			window.addEventListener('message', event => {
+				const message = event.data;
+				switch (message.type) {
+					case 'init':
+						total = message.rowCount;
+						hasAddresses = message.hasAddresses;
+						description.textContent = message.description;
+						table.classList.toggle('with-address', hasAddresses);
+						header.replaceChildren();
+						appendCell(header, 'offset', strings.offset);
+						if (hasAddresses) {
+							appendCell(header, 'address', strings.address);
+						}
+						appendCell(header, 'bytes', strings.bytes);
+						appendCell(header, 'text', strings.instruction);
+						spacer.style.height = Math.min(total * rowHeight, maxHeight) + 'px';
+						render();
+						break;
+					case 'rows':
+						pendingRequest = false;
+						block = { start: message.start, rows: message.rows };
+						render();
+						break;
+					case 'reveal':
+						selectedRow = message.row;
+						scrollToRow(message.row);
+						break;
+					case 'status':
+						setStatus(message.value, message.error);
+						break;
+					default:
+						break;
+				}
+			});
+
+			vscode.postMessage({ type: 'ready' });
+		`;
+
+		return `<!DOCTYPE html>
+		<html lang="en">
+		<head>
+			<meta charset="UTF-8" />
+			<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';" />
+			<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+			<title>${escapeHtml(document.uri.path.split('/').pop() ?? '')}</title>
+			<style>${styles}</style>
+		</head>
+		<body>
+			<div class="toolbar">
+				<input id="gotoInput" placeholder="${escapeAttribute(uiStrings.gotoPlaceholder)}" aria-label="${escapeAttribute(uiStrings.gotoPlaceholder)}" spellcheck="false" />
+				<button id="gotoButton">${escapeHtml(uiStrings.gotoButton)}</button>
+				<input id="searchInput" placeholder="${escapeAttribute(uiStrings.searchPlaceholder)}" aria-label="${escapeAttribute(uiStrings.searchPlaceholder)}" spellcheck="false" />
+				<button id="searchButton">${escapeHtml(uiStrings.searchButton)}</button>
+				<span id="description" class="hint"></span>
+				<span id="statusLine" class="status-line"></span>
+			</div>
+			<div id="table">
+				<div id="header" class="row header"></div>
+			</div>
+			<div id="viewport">
+				<div id="spacer">
+					<div id="rows" class="${document.hasAddresses ? 'with-address' : ''}"></div>
+				</div>
+			</div>
+			<script nonce="${nonce}">${script}</script>
+		</body>
+		</html>`;
+	}
+}
@@ -0,0 +1,162 @@
+import type { XlenSetting } from './analyzer';
+import { isElfImage, isExecutableSection, parseElf, sectionLabels } from './elf';
+
+/** A contiguous byte range of the image shown either as instructions or as data words. */
+export interface ImageRegion {
+	start: number;
+	end: number;
+	code: boolean;
+	/** Load address of the first byte, for ELF sections. */
+	address?: number;
+	name?: string;
+}
+
+/**
+ * A file split into display rows: one row per instruction in code regions and
+ * per 4 bytes elsewhere. Only row boundaries are computed up front; decoding
+ * is left to the caller so that large images open instantly.
+ */
+export interface BinaryImage {
+	data: Uint8Array;
+	xlen: XlenSetting;
+	compressed: boolean;
+	regions: ImageRegion[];
+	/** File offset of every row, followed by the file length. */
+	rowOffsets: Uint32Array;
+	/** Symbol names keyed by file offset. */
+	labels: Map<number, string>;
+	description: string;
+}
+
+const DATA_ROW_SIZE = 4;
+
+/**
+ * Lays out a file for the binary editor. ELF images decode their executable
+ * sections with the XLEN and RVC setting of the file; anything else is
+ * decoded as code from offset 0 with the given XLEN and RVC enabled.
+ */
+export function loadBinaryImage(data: Uint8Array, xlen: XlenSetting): BinaryImage {
+	if (!isElfImage(data)) {
+		const regions: ImageRegion[] = data.length > 0 ? [{ start: 0, end: data.length, code: true }] : [];
+		return {
+			data,
+			xlen,
+			compressed: true,
+			regions,
+			rowOffsets: layoutRows(data, regions, true),
+			labels: new Map(),
+			description: `Raw image, ${data.length} byte(s).`
+		};
+	}
+
+	const elf = parseElf(data);
+	const labels = new Map<number, string>();
+	const regions: ImageRegion[] = [];
+	let position = 0;
+	const sections = elf.sections
+		.filter(isExecutableSection)
+		.filter(section => section.offset + section.size <= data.length)
+		.sort((left, right) => left.offset - right.offset);
+	for (const section of sections) {
+		if (section.offset < position) {
+			continue;
+		}
+		if (section.offset > position) {
+			regions.push({ start: position, end: section.offset, code: false });
+		}
+		regions.push({ start: section.offset, end: section.offset + section.size, code: true, address: section.address, name: section.name });
+		sectionLabels(elf, section).forEach((name, address) => labels.set(section.offset + address - section.address, name));
+		position = section.offset + section.size;
+	}
+	if (position < data.length) {
+		regions.push({ start: position, end: data.length, code: false });
+	}
+
+	return {
+		data,
+		xlen: elf.elfClass,
+		compressed: elf.compressed,
+		regions,
+		rowOffsets: layoutRows(data, regions, elf.compressed),
+		labels,
+		description: `ELF${elf.elfClass} ${elf.compressed ? 'with' : 'without'} RVC, ${sections.length} executable section(s), ${data.length} byte(s).`
+	};
+}
+
+export function rowCount(image: BinaryImage): number {
+	return image.rowOffsets.length - 1;
+}
+
+/** Returns the row containing `offset`, clamped to the image. */
+export function rowAtOffset(image: BinaryImage, offset: number): number {
+	let low = 0;
+	let high = rowCount(image) - 1;
+	while (low < high) {
+		const middle = (low + high + 1) >> 1;
+		if (image.rowOffsets[middle] <= offset) {
+			low = middle;
+		} else {
+			high = middle - 1;
+		}
+	}
+	return Math.max(0, low);
+}
+
+export function regionAtOffset(image: BinaryImage, offset: number): ImageRegion | undefined {
+	return image.regions.find(region => offset >= region.start && offset < region.end);
+}
+
+/**
+ * Parses a byte pattern such as `13 05 ?? 00` (spaces optional); `??` matches
+ * any byte. Returns undefined when the text is not a byte pattern.
+ */
+export function parseBytePattern(text: string): Array<number | undefined> | undefined {
+	const compact = text.replace(/\s+/g, '');
+	if (!compact || !/^(?:[0-9a-fA-F]{2}|\?\?)+$/.test(compact)) {
+		return undefined;
+	}
+	return (compact.match(/.{2}/g) ?? []).map(pair => (pair === '??' ? undefined : Number.parseInt(pair, 16)));
+}
+
+/** Finds the next offset at or after `from` where the pattern matches, wrapping around the end of the file. */
+export function findBytes(image: BinaryImage, pattern: Array<number | undefined>, from: number): number | undefined {
+	const { data } = image;
+	const last = data.length - pattern.length;
+	for (let step = 0; step <= last; step += 1) {
+		const offset = (from + step) % (last + 1);
+		if (pattern.every((byte, index) => byte === undefined || data[offset + index] === byte)) {
+			return offset;
+		}
+	}
+	return undefined;
+}
+
+function layoutRows(data: Uint8Array, regions: ImageRegion[], compressed: boolean): Uint32Array {
+	const visit = (emit: (offset: number) => void) => {
+		for (const region of regions) {
+			let offset = region.start;
+			while (offset < region.end) {
+				emit(offset);
+				const size = region.code ? instructionLength(data, offset, region.end, compressed) : DATA_ROW_SIZE;
+				offset = Math.min(offset + size, region.end);
+			}
+		}
+	};
+
+	let count = 0;
+	visit(() => {
+		count += 1;
+	});
+	const offsets = new Uint32Array(count + 1);
+	let index = 0;
+	visit(offset => {
+		offsets[index++] = offset;
+	});
+	offsets[count] = data.length;
+	return offsets;
+}
+
+function instructionLength(data: Uint8Array, offset: number, end: number, compressed: boolean): number {
+	const size = compressed && (data[offset] & 0b11) !== 0b11 ? 2 : 4;
+	return offset + size <= end ? size : end - offset;
+}
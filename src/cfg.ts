@@ -0,0 +1,118 @@
+import { decodeInstruction } from './decoder';
+import { Xlen } from './isa';
+import { AddressedEncoding, resolveTargets } from './targets';
+
+export type CfgEdgeKind = 'taken' | 'fallthrough' | 'jump';
+
+/** Why a block has no successor inside the snippet. */
+export type CfgExitKind = 'return' | 'indirect' | 'external';
+
+export interface CfgEdge {
+	/** Index of the successor block. */
+	target: number;
+	kind: CfgEdgeKind;
+}
+
+export interface BasicBlock {
+	firstIndex: number;
+	lastIndex: number;
+	successors: CfgEdge[];
+	exit?: CfgExitKind;
+}
+
+type Transfer =
+	| { kind: 'none' }
+	| { kind: 'branch'; target?: number }
+	| { kind: 'jump'; target?: number }
+	| { kind: 'exit'; exit: CfgExitKind };
+
+const TRAP_RETURNS = new Set(['mret', 'sret']);
+
+/**
+ * Splits instructions into basic blocks. Blocks start at the first
+ * instruction, at branch, jump and call targets inside the snippet, and after
+ * every branch, jump or return. Calls (`jal`/`jalr` with a link register)
+ * fall through to the next instruction.
+ */
+export function buildControlFlowGraph(instructions: AddressedEncoding[], xlen: Xlen | undefined): BasicBlock[] {
+	if (instructions.length === 0) {
+		return [];
+	}
+
+	const targets = resolveTargets(instructions, xlen);
+	const indexByAddress = new Map<number, number>();
+	instructions.forEach((instruction, index) => {
+		if (!indexByAddress.has(instruction.address)) {
+			indexByAddress.set(instruction.address, index);
+		}
+	});
+
+	const transfers = instructions.map((instruction, index) => classifyTransfer(instruction, xlen, targets.get(index)?.target));
+	const leaders = new Set<number>([0]);
+	transfers.forEach((transfer, index) => {
+		if (transfer.kind !== 'none' && index + 1 < instructions.length) {
+			leaders.add(index + 1);
+		}
+	});
+	targets.forEach(target => {
+		const index = indexByAddress.get(target.target);
+		if (target.isControlFlow && index !== undefined) {
+			leaders.add(index);
+		}
+	});
+
+	const starts = [...leaders].sort((left, right) => left - right);
+	const blockByIndex = new Map(starts.map((start, block) => [start, block]));
+	return starts.map((firstIndex, block) => {
+		const lastIndex = (starts[block + 1] ?? instructions.length) - 1;
+		const transfer = transfers[lastIndex];
+		const next = block + 1 < starts.length ? block + 1 : undefined;
+		const result: BasicBlock = { firstIndex, lastIndex, successors: [] };
+
+		if (transfer.kind === 'exit') {
+			result.exit = transfer.exit;
+			return result;
+		}
+		if (transfer.kind === 'branch' || transfer.kind === 'jump') {
+			const targetIndex = transfer.target === undefined ? undefined : indexByAddress.get(transfer.target);
+			const targetBlock = targetIndex === undefined ? undefined : blockByIndex.get(targetIndex);
+			if (targetBlock === undefined) {
+				result.exit = 'external';
+			} else {
+				result.successors.push({ target: targetBlock, kind: transfer.kind === 'branch' ? 'taken' : 'jump' });
+			}
+			if (transfer.kind === 'jump') {
+				return result;
+			}
+		}
+		if (next !== undefined) {
+			result.successors.push({ target: next, kind: 'fallthrough' });
+		}
+		return result;
+	});
+}
+
+function classifyTransfer(instruction: AddressedEncoding, xlen: Xlen | undefined, target: number | undefined): Transfer {
+	const decoded = decodeInstruction(instruction.encoding, xlen);
+	const mnemonic = decoded.spec?.mnemonic;
+	const register = (type: string) => decoded.operands.find(operand => operand.type === type)?.value;
+
+	if (decoded.format === 'B' || mnemonic === 'c.beqz' || mnemonic === 'c.bnez') {
+		return { kind: 'branch', target };
+	}
+	if ((mnemonic === 'jal' && register('rd') === 0) || mnemonic === 'c.j') {
+		return { kind: 'jump', target };
+	}
+	if ((mnemonic === 'jalr' && register('rd') === 0) || mnemonic === 'c.jr') {
+		if (target !== undefined) {
+			return { kind: 'jump', target };
+		}
+		const source = register('rs1') ?? register('crdnz');
+		const isReturn = source === 1 && (decoded.immediate ?? 0) === 0;
+		return { kind: 'exit', exit: isReturn ? 'return' : 'indirect' };
+	}
+	if (mnemonic && TRAP_RETURNS.has(mnemonic)) {
+		return { kind: 'exit', exit: 'return' };
+	}
+	return { kind: 'none' };
+}
@@ -0,0 +1,287 @@
+import { spawn } from 'child_process';
+import type { AnalyzerExecutionResult, AnalyzerMode, XlenSetting } from './analyzer';
+import { InputFormat } from './inputFormats';
+import { InstructionRecord, splitInstructionText } from './instructionRecords';
+
+/*
+ * External CLI protocol, version 1.
+ *
+ * Handshake: `<cli> [defaultArgs] --capabilities` prints a JSON object such as
+ *   { "protocol": 1, "name": "acme-dis", "version": "2.3.0",
+ *     "modes": ["disassemble"], "xlens": [32, 64], "extensions": ["xacme"] }
+ * Tools that exit with an error or print anything else are driven the legacy
+ * way: `--assemble` or `--disassemble`, the input on stdin and plain text on
+ * stdout.
+ *
+ * Request: `<cli> [defaultArgs] --json` reads a `CliRequest` from stdin and
+ * prints { "lines": [...], "messages": [...] } where every line has any of
+ * `address`, `encoding` (hex string), `size`, `mnemonic`, `operands`, `text`,
+ * `notes` and `error`.
+ */
+
+export const CLI_PROTOCOL_VERSION = 1;
+
+export interface CliCommand {
+	executable: string;
+	args: string[];
+}
+
+export interface CliCapabilities {
+	protocol: number;
+	name: string;
+	version: string;
+	modes: AnalyzerMode[];
+	/** Supported XLENs; a request for any other XLEN falls back to the built-in backend. */
+	xlens: number[];
+	/** Extensions the tool decodes beyond what the built-in backend knows, listed in the "Used ..." message. */
+	extensions: string[];
+}
+
+export interface CliRequest {
+	protocol: number;
+	mode: AnalyzerMode;
+	input: string;
+	xlen: XlenSetting;
+	/** Target `-march` string, when one is configured. */
+	isa?: string;
+	inputFormat: InputFormat;
+	baseAddress: number;
+}
+
+export interface CliRunOptions {
+	/** Milliseconds before the CLI is stopped; 0 waits indefinitely. */
+	timeoutMs: number;
+	signal?: AbortSignal;
+}
+
+interface ProcessResult {
+	code: number | null;
+	stdout: string;
+	stderr: string;
+}
+
+/** Handshake results by command line; an `Error` is a handshake the protocol could not accept. */
+const capabilityCache = new Map<string, Promise<CliCapabilities | Error | undefined>>();
+
+/**
+ * Runs a request through the CLI, using the JSON protocol when the handshake
+ * succeeds and plain text otherwise. Throws when the CLI fails, times out, is
+ * cancelled or does not support the requested mode or XLEN.
+ */
+export async function runCli(command: CliCommand, request: CliRequest, options: CliRunOptions): Promise<AnalyzerExecutionResult> {
+	const capabilities = await getCliCapabilities(command, options);
+	if (!capabilities) {
+		const flag = request.mode === 'assemble' ? '--assemble' : '--disassemble';
+		const result = await runProcess(command, [flag], request.input, options);
+		return { effectiveMode: request.mode, xlen: request.xlen, output: result.stdout.trim() };
+	}
+
+	if (!capabilities.modes.includes(request.mode)) {
+		throw new Error(`${capabilities.name} does not support ${request.mode === 'assemble' ? 'assembly' : 'disassembly'}.`);
+	}
+	if (request.xlen !== 'auto' && !capabilities.xlens.includes(request.xlen)) {
+		throw new Error(`${capabilities.name} does not support RV${request.xlen}.`);
+	}
+	const result = await runProcess(command, ['--json'], JSON.stringify(request), options);
+	const response = parseCliResponse(parseJson(result.stdout, 'response'), request);
+	const extensions = capabilities.extensions.length > 0 ? ` (extensions: ${capabilities.extensions.join(', ')})` : '';
+	const infoMessages = [`Used ${capabilities.name} ${capabilities.version}${extensions}.`, ...(response.infoMessages ?? [])];
+	return { ...response, infoMessages };
+}
+
+/**
+ * Performs the handshake once per command line; undefined means the CLI does
+ * not speak the protocol. Capabilities that cannot be accepted, such as another
+ * protocol version, are rejected again without rerunning the handshake.
+ */
+export async function getCliCapabilities(command: CliCommand, options: CliRunOptions): Promise<CliCapabilities | undefined> {
+	const key = JSON.stringify(command);
+	let capabilities = capabilityCache.get(key);
+	if (!capabilities) {
+		capabilities = queryCapabilities(command, options);
+		capabilityCache.set(key, capabilities);
+		// Timeouts and cancellations say nothing about the tool, so they are retried next time.
+		capabilities.catch(() => capabilityCache.delete(key));
+	}
+	const result = await capabilities;
+	if (result instanceof Error) {
+		throw result;
+	}
+	return result;
+}
+
+/** Forgets handshake results, e.g. after the CLI path or arguments changed. */
+export function clearCliCapabilities(): void {
+	capabilityCache.clear();
+}
+
+export function parseCliCapabilities(value: unknown): CliCapabilities {
+	const record = expectObject(value, 'The capabilities');
+	if (record.protocol !== CLI_PROTOCOL_VERSION) {
+		throw new Error(`Unsupported CLI protocol version ${String(record.protocol)}; expected ${CLI_PROTOCOL_VERSION}.`);
+	}
+	const modes = expectStringArray(record.modes ?? ['assemble', 'disassemble'], 'modes');
+	const unknownMode = modes.find(mode => mode !== 'assemble' && mode !== 'disassemble');
+	if (unknownMode) {
+		throw new Error(`Unknown mode "${unknownMode}" in "modes".`);
+	}
+	const xlens = record.xlens ?? [32, 64];
+	if (!Array.isArray(xlens) || xlens.some(xlen => xlen !== 32 && xlen !== 64 && xlen !== 128)) {
+		throw new Error('"xlens" must list 32, 64 or 128.');
+	}
+	return {
+		protocol: CLI_PROTOCOL_VERSION,
+		name: typeof record.name === 'string' && record.name ? record.name : 'External CLI',
+		version: typeof record.version === 'string' ? record.version : '',
+		modes: modes as AnalyzerMode[],
+		xlens,
+		extensions: expectStringArray(record.extensions ?? [], 'extensions')
+	};
+}
+
+/** Turns a protocol response into a result whose output lists one line per row, like the built-in disassembler. */
+export function parseCliResponse(value: unknown, request: Pick<CliRequest, 'mode' | 'xlen'>): AnalyzerExecutionResult {
+	const record = expectObject(value, 'The response');
+	if (!Array.isArray(record.lines)) {
+		throw new Error('The response must have a "lines" array.');
+	}
+	const records = record.lines.map((entry, index) => parseResponseLine(entry, index));
+	const messages = expectStringArray(record.messages ?? [], 'messages');
+	const xlen = record.xlen === 32 || record.xlen === 64 || record.xlen === 128 ? record.xlen : request.xlen;
+
+	const width = Math.max(0, ...records.map(entry => entry.encoding.length));
+	const output = records.map(entry => {
+		const address = entry.address === undefined ? '' : `${entry.address.toString(16).padStart(8, '0')}:  `;
+		const text = entry.error ? `Error: ${entry.error}` : [entry.mnemonic ?? '', entry.operands.join(', ')].filter(Boolean).join(' ');
+		const notes = entry.notes.length > 0 ? `  # ${entry.notes.join('; ')}` : '';
+		return `${address}${entry.encoding.padEnd(width)}  ${text}${notes}`;
+	});
+	return {
+		effectiveMode: request.mode,
+		xlen,
+		output: output.join('\n'),
+		records,
+		infoMessages: messages.length > 0 ? messages : undefined
+	};
+}
+
+async function queryCapabilities(command: CliCommand, options: CliRunOptions): Promise<CliCapabilities | Error | undefined> {
+	const result = await runProcess(command, ['--capabilities'], '', options, false);
+	if (result.code !== 0) {
+		return undefined;
+	}
+	let value: unknown;
+	try {
+		value = JSON.parse(result.stdout);
+	} catch {
+		return undefined;
+	}
+	try {
+		return parseCliCapabilities(value);
+	} catch (error) {
+		return error instanceof Error ? error : new Error(String(error));
+	}
+}
+
+function parseResponseLine(value: unknown, index: number): InstructionRecord {
+	const entry = expectObject(value, `Line ${index + 1} of the response`);
+	const field = (name: string, type: 'string' | 'number'): unknown => {
+		const fieldValue = entry[name];
+		if (fieldValue !== undefined && typeof fieldValue !== type) {
+			throw new Error(`"${name}" of line ${index + 1} must be a ${type}.`);
+		}
+		return fieldValue;
+	};
+	const encoding = (field('encoding', 'string') as string | undefined) ?? '';
+	const text = field('text', 'string') as string | undefined;
+	const split = text !== undefined ? splitInstructionText(text) : { operands: [] };
+	const operands = entry.operands === undefined ? split.operands : expectStringArray(entry.operands, 'operands');
+	return {
+		line: index,
+		address: field('address', 'number') as number | undefined,
+		encoding,
+		size: (field('size', 'number') as number | undefined) ?? (/^0x[0-9a-f]+$/i.test(encoding) ? (encoding.length - 2) / 2 : 0),
+		mnemonic: (field('mnemonic', 'string') as string | undefined) ?? split.mnemonic,
+		operands,
+		notes: expectStringArray(entry.notes ?? [], 'notes'),
+		error: (field('error', 'string') as string | undefined) ?? split.error
+	};
+}
+
+/**
+ * Spawns the CLI with the input on stdin. Rejects when the process cannot be
+ * started, runs past the timeout, is cancelled or, when `requireSuccess` is
+ * set, exits with a non-zero code.
+ */
+function runProcess(command: CliCommand, flags: string[], input: string, options: CliRunOptions, requireSuccess = true): Promise<ProcessResult> {
+	return new Promise((resolve, reject) => {
+		if (options.signal?.aborted) {
+			reject(new Error('Cancelled.'));
+			return;
+		}
+		const child = spawn(command.executable, [...command.args, ...flags], { shell: false });
+		let stdout = '';
+		let stderr = '';
+		let settled = false;
+		const finish = (error: Error | undefined, result?: ProcessResult) => {
+			if (settled) {
+				return;
+			}
+			settled = true;
+			clearTimeout(timer);
+			options.signal?.removeEventListener('abort', onAbort);
+			if (error) {
+				child.kill();
+				reject(error);
+			} else if (result) {
+				resolve(result);
+			}
+		};
+		const onAbort = () => finish(new Error('Cancelled.'));
+		const timer = options.timeoutMs > 0
+			? setTimeout(() => finish(new Error(`${command.executable} did not finish within ${options.timeoutMs} ms.`)), options.timeoutMs)
+			: undefined;
+		options.signal?.addEventListener('abort', onAbort);
+
+		child.stdout.on('data', data => {
+			stdout += data.toString();
+		});
+		child.stderr.on('data', data => {
+			stderr += data.toString();
+		});
+		child.on('error', error => finish(error));
+		child.on('close', code => {
+			if (requireSuccess && code !== 0) {
+				finish(new Error(stderr.trim() || `CLI exited with code ${code ?? -1}`));
+			} else {
+				finish(undefined, { code, stdout, stderr });
+			}
+		});
+
+		// The CLI may exit without reading its input.
+		child.stdin.on('error', () => undefined);
+		child.stdin.end(input);
+	});
+}
+
+function parseJson(text: string, what: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		throw new Error(`The CLI ${what} is not valid JSON.`);
+	}
+}
+
+function expectObject(value: unknown, what: string): Record<string, unknown> {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new Error(`${what} must be a JSON object.`);
+	}
+	return value as Record<string, unknown>;
+}
+
+function expectStringArray(value: unknown, field: string): string[] {
+	if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+		throw new Error(`"${field}" must be an array of strings.`);
+	}
+	return value;
+}
@@ -0,0 +1,269 @@
+import { assemble } from './assembler';
+import { DecodedInstruction } from './decoder';
+import { FLOAT_REGISTER_NAMES, INTEGER_REGISTER_NAMES, Xlen } from './isa';
+
+export interface CompressedExpansion {
+	/** The equivalent 32-bit instruction, e.g. `addi a0, a0, 4` for `c.addi a0, 4`. */
+	text: string;
+	encoding: number;
+}
+
+/** The RVC form considered for a 32-bit instruction; `reason` says why it cannot be used. */
+export interface RvcCandidate {
+	form: string;
+	reason?: string;
+}
+
+interface Operands {
+	rd: number;
+	rs1: number;
+	rs2: number;
+	imm: number;
+}
+
+type ExpansionRule = (operands: number[]) => [string, ...string[]];
+
+const SP = 2;
+const RA = 1;
+
+const x = (register: number) => INTEGER_REGISTER_NAMES[register];
+const f = (register: number) => FLOAT_REGISTER_NAMES[register];
+const memory = (offset: number, base: number) => `${offset}(${x(base)})`;
+
+/** 32-bit equivalents of the RVC instructions, from their decoded operands in table order. */
+const EXPANSIONS: Readonly<Record<string, ExpansionRule>> = {
+	'c.addi4spn': ([rd, , imm]) => ['addi', x(rd), 'sp', String(imm)],
+	'c.fld': ([rd, imm, rs1]) => ['fld', f(rd), memory(imm, rs1)],
+	'c.lw': ([rd, imm, rs1]) => ['lw', x(rd), memory(imm, rs1)],
+	'c.flw': ([rd, imm, rs1]) => ['flw', f(rd), memory(imm, rs1)],
+	'c.ld': ([rd, imm, rs1]) => ['ld', x(rd), memory(imm, rs1)],
+	'c.fsd': ([rs2, imm, rs1]) => ['fsd', f(rs2), memory(imm, rs1)],
+	'c.sw': ([rs2, imm, rs1]) => ['sw', x(rs2), memory(imm, rs1)],
+	'c.fsw': ([rs2, imm, rs1]) => ['fsw', f(rs2), memory(imm, rs1)],
+	'c.sd': ([rs2, imm, rs1]) => ['sd', x(rs2), memory(imm, rs1)],
+	'c.nop': () => ['addi', 'zero', 'zero', '0'],
+	'c.addi': ([rd, imm]) => ['addi', x(rd), x(rd), String(imm)],
+	'c.jal': ([imm]) => ['jal', 'ra', String(imm)],
+	'c.addiw': ([rd, imm]) => ['addiw', x(rd), x(rd), String(imm)],
+	'c.li': ([rd, imm]) => ['addi', x(rd), 'zero', String(imm)],
+	'c.addi16sp': ([, imm]) => ['addi', 'sp', 'sp', String(imm)],
+	'c.lui': ([rd, imm]) => ['lui', x(rd), String(imm)],
+	'c.srli': ([rd, imm]) => ['srli', x(rd), x(rd), String(imm)],
+	'c.srai': ([rd, imm]) => ['srai', x(rd), x(rd), String(imm)],
+	'c.andi': ([rd, imm]) => ['andi', x(rd), x(rd), String(imm)],
+	'c.sub': ([rd, rs2]) => ['sub', x(rd), x(rd), x(rs2)],
+	'c.xor': ([rd, rs2]) => ['xor', x(rd), x(rd), x(rs2)],
+	'c.or': ([rd, rs2]) => ['or', x(rd), x(rd), x(rs2)],
+	'c.and': ([rd, rs2]) => ['and', x(rd), x(rd), x(rs2)],
+	'c.subw': ([rd, rs2]) => ['subw', x(rd), x(rd), x(rs2)],
+	'c.addw': ([rd, rs2]) => ['addw', x(rd), x(rd), x(rs2)],
+	'c.j': ([imm]) => ['jal', 'zero', String(imm)],
+	'c.beqz': ([rs1, imm]) => ['beq', x(rs1), 'zero', String(imm)],
+	'c.bnez': ([rs1, imm]) => ['bne', x(rs1), 'zero', String(imm)],
+	'c.slli': ([rd, imm]) => ['slli', x(rd), x(rd), String(imm)],
+	'c.fldsp': ([rd, imm]) => ['fld', f(rd), memory(imm, SP)],
+	'c.lwsp': ([rd, imm]) => ['lw', x(rd), memory(imm, SP)],
+	'c.flwsp': ([rd, imm]) => ['flw', f(rd), memory(imm, SP)],
+	'c.ldsp': ([rd, imm]) => ['ld', x(rd), memory(imm, SP)],
+	'c.jr': ([rs1]) => ['jalr', 'zero', memory(0, rs1)],
+	'c.mv': ([rd, rs2]) => ['add', x(rd), 'zero', x(rs2)],
+	'c.ebreak': () => ['ebreak'],
+	'c.jalr': ([rs1]) => ['jalr', 'ra', memory(0, rs1)],
+	'c.add': ([rd, rs2]) => ['add', x(rd), x(rd), x(rs2)],
+	'c.fsdsp': ([rs2, imm]) => ['fsd', f(rs2), memory(imm, SP)],
+	'c.swsp': ([rs2, imm]) => ['sw', x(rs2), memory(imm, SP)],
+	'c.fswsp': ([rs2, imm]) => ['fsw', f(rs2), memory(imm, SP)],
+	'c.sdsp': ([rs2, imm]) => ['sd', x(rs2), memory(imm, SP)]
+};
+
+/** Register-register instructions with a CA-format RVC form. */
+const COMPACT_ARITHMETIC: Readonly<Record<string, { form: string; commutative: boolean }>> = {
+	sub: { form: 'c.sub', commutative: false },
+	xor: { form: 'c.xor', commutative: true },
+	or: { form: 'c.or', commutative: true },
+	and: { form: 'c.and', commutative: true },
+	subw: { form: 'c.subw', commutative: false },
+	addw: { form: 'c.addw', commutative: true }
+};
+
+/** Loads and stores with an RVC form, by offset scale, register file and the base width the form exists for. */
+const MEMORY_ACCESSES: Readonly<Record<string, { scale: 4 | 8; float: boolean; store: boolean; xlen?: Xlen }>> = {
+	lw: { scale: 4, float: false, store: false },
+	ld: { scale: 8, float: false, store: false, xlen: 64 },
+	flw: { scale: 4, float: true, store: false, xlen: 32 },
+	fld: { scale: 8, float: true, store: false },
+	sw: { scale: 4, float: false, store: true },
+	sd: { scale: 8, float: false, store: true, xlen: 64 },
+	fsw: { scale: 4, float: true, store: true, xlen: 32 },
+	fsd: { scale: 8, float: true, store: true }
+};
+
+/** Returns the 32-bit instruction a compressed one expands to, or undefined for anything else. */
+export function expandCompressed(decoded: DecodedInstruction, xlen: Xlen): CompressedExpansion | undefined {
+	const rule = decoded.spec && EXPANSIONS[decoded.spec.mnemonic];
+	if (!rule) {
+		return undefined;
+	}
+	const [mnemonic, ...operands] = rule(decoded.operands.map(operand => operand.value));
+	const text = operands.length > 0 ? `${mnemonic} ${operands.join(', ')}` : mnemonic;
+	const assembled = assemble(text, { xlen }).lines[0]?.instructions[0];
+	return assembled ? { text, encoding: assembled.encoding } : undefined;
+}
+
+/**
+ * Finds the RVC form of a 32-bit instruction and checks its register and
+ * immediate constraints. Returns undefined when the instruction has no
+ * compressed counterpart at all. Without an XLEN, RV32 forms are assumed.
+ */
+export function findRvcCandidate(decoded: DecodedInstruction, xlen: Xlen | undefined): RvcCandidate | undefined {
+	const spec = decoded.spec;
+	if (!spec || decoded.size !== 4) {
+		return undefined;
+	}
+	const operands = collectOperands(decoded);
+	const { rd, rs1, rs2, imm } = operands;
+	const width = xlen ?? 32;
+	const mnemonic = spec.mnemonic;
+
+	const arithmetic = COMPACT_ARITHMETIC[mnemonic];
+	if (arithmetic) {
+		const other = rd === rs1 ? rs2 : arithmetic.commutative && rd === rs2 ? rs1 : undefined;
+		return check(arithmetic.form, [
+			other === undefined && 'rd differs from the source registers',
+			compactReason(rd),
+			other !== undefined && compactReason(other)
+		]);
+	}
+	const access = MEMORY_ACCESSES[mnemonic];
+	if (access) {
+		return memoryCandidate(mnemonic, access, operands, width);
+	}
+
+	switch (mnemonic) {
+		case 'add':
+			if (rs1 === 0 && rs2 === 0) {
+				return check('c.li', [rd === 0 && 'rd is zero']);
+			}
+			if (rs1 === 0 || rs2 === 0) {
+				return check('c.mv', [rd === 0 && 'rd is zero']);
+			}
+			return check('c.add', [rd === 0 && 'rd is zero', rd !== rs1 && rd !== rs2 && 'rd differs from the source registers']);
+		case 'addi':
+			return addiCandidate(operands);
+		case 'addiw':
+			return check('c.addiw', [rd === 0 && 'rd is zero', rd !== rs1 && 'rd differs from rs1', rangeReason(imm, -32, 31)]);
+		case 'slli':
+			return check('c.slli', [rd === 0 && 'rd is zero', rd !== rs1 && 'rd differs from rs1', imm === 0 && 'shift amount is zero']);
+		case 'srli':
+		case 'srai':
+			return check(`c.${mnemonic}`, [rd !== rs1 && 'rd differs from rs1', compactReason(rd), imm === 0 && 'shift amount is zero']);
+		case 'andi':
+			return check('c.andi', [rd !== rs1 && 'rd differs from rs1', compactReason(rd), rangeReason(imm, -32, 31)]);
+		case 'lui':
+			return check('c.lui', [
+				(rd === 0 || rd === SP) && `rd is ${x(rd)}`,
+				imm === 0 && 'immediate is zero',
+				rangeReason(imm, -32, 31)
+			]);
+		case 'jal':
+			if (rd === RA) {
+				return check('c.jal', [width !== 32 && 'c.jal is RV32 only', rangeReason(imm, -2048, 2046)]);
+			}
+			return check('c.j', [rd !== 0 && `links to ${x(rd)}`, rangeReason(imm, -2048, 2046)]);
+		case 'jalr':
+			return check(rd === RA ? 'c.jalr' : 'c.jr', [
+				rd !== 0 && rd !== RA && `links to ${x(rd)}`,
+				imm !== 0 && 'offset is not zero',
+				rs1 === 0 && 'rs1 is zero'
+			]);
+		case 'beq':
+		case 'bne': {
+			const tested = rs2 === 0 ? rs1 : rs1 === 0 ? rs2 : undefined;
+			return check(mnemonic === 'beq' ? 'c.beqz' : 'c.bnez', [
+				tested === undefined && 'neither source is zero',
+				tested !== undefined && compactReason(tested),
+				rangeReason(imm, -256, 254)
+			]);
+		}
+		case 'ebreak':
+			return { form: 'c.ebreak' };
+		default:
+			return undefined;
+	}
+}
+
+function addiCandidate({ rd, rs1, imm }: Operands): RvcCandidate {
+	if (rd === 0 && rs1 === 0 && imm === 0) {
+		return { form: 'c.nop' };
+	}
+	if (rs1 === 0) {
+		return check('c.li', [rd === 0 && 'rd is zero', rangeReason(imm, -32, 31)]);
+	}
+	if (imm === 0) {
+		return check('c.mv', [rd === 0 && 'rd is zero']);
+	}
+	if (rd === SP && rs1 === SP) {
+		return check('c.addi16sp', [scaleReason(imm, 16), rangeReason(imm, -512, 496)]);
+	}
+	if (rs1 === SP && imm > 0) {
+		return check('c.addi4spn', [compactReason(rd), scaleReason(imm, 4), rangeReason(imm, 4, 1020)]);
+	}
+	return check('c.addi', [rd === 0 && 'rd is zero', rd !== rs1 && 'rd differs from rs1', rangeReason(imm, -32, 31)]);
+}
+
+function memoryCandidate(
+	mnemonic: string,
+	access: { scale: 4 | 8; float: boolean; store: boolean; xlen?: Xlen },
+	{ rd, rs1, rs2, imm }: Operands,
+	xlen: Xlen
+): RvcCandidate {
+	const data = access.store ? rs2 : rd;
+	const widthReason = access.xlen !== undefined && access.xlen !== xlen && `c.${mnemonic} is RV${access.xlen} only`;
+	const maximum = access.scale === 4 ? 124 : 248;
+	if (rs1 === SP) {
+		return check(`c.${mnemonic}sp`, [
+			widthReason,
+			!access.float && !access.store && data === 0 && 'rd is zero',
+			scaleReason(imm, access.scale),
+			rangeReason(imm, 0, maximum * 2 + access.scale)
+		]);
+	}
+	return check(`c.${mnemonic}`, [
+		widthReason,
+		compactReason(rs1),
+		compactReason(data, access.float),
+		scaleReason(imm, access.scale),
+		rangeReason(imm, 0, maximum)
+	]);
+}
+
+function collectOperands(decoded: DecodedInstruction): Operands {
+	const operands: Operands = { rd: 0, rs1: 0, rs2: 0, imm: decoded.immediate ?? 0 };
+	for (const operand of decoded.operands) {
+		const name = operand.type.replace(/^f/, '');
+		if (name === 'rd' || name === 'rs1' || name === 'rs2') {
+			operands[name] = operand.value;
+		}
+	}
+	if (decoded.spec?.mnemonic === 'lui') {
+		operands.imm = (decoded.immediate ?? 0) / 4096;
+	}
+	return operands;
+}
+
+function check(form: string, reasons: Array<string | false | undefined>): RvcCandidate {
+	const reason = reasons.find((entry): entry is string => Boolean(entry));
+	return reason ? { form, reason } : { form };
+}
+
+function compactReason(register: number, float = false): string | undefined {
+	return register >= 8 && register <= 15 ? undefined : `${float ? f(register) : x(register)} is outside ${float ? 'f8-f15' : 'x8-x15'}`;
+}
+
+function rangeReason(value: number, minimum: number, maximum: number): string | undefined {
+	return value >= minimum && value <= maximum ? undefined : `${value} is outside ${minimum} to ${maximum}`;
+}
+
+function scaleReason(value: number, scale: number): string | undefined {
+	return value % scale === 0 ? undefined : `${value} is not a multiple of ${scale}`;
+}
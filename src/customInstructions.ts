@@ -0,0 +1,257 @@
+import * as yaml from 'js-yaml';
+import { DecodedInstruction, DecodedOperand, decodeInstruction } from './decoder';
+import {
+	CustomInstructionSet,
+	FLOAT_REGISTER_NAMES,
+	FORMAT_FIELDS,
+	INTEGER_REGISTER_NAMES,
+	ImmediateLayout,
+	InstructionFormat,
+	InstructionSpec,
+	IsaExtension,
+	OPCODE_FORMATS,
+	OPERAND_TYPES,
+	OperandType,
+	ROUNDING_MODES,
+	Xlen,
+	getCustomInstructions,
+	isCompressedFormat
+} from './isa';
+
+/**
+ * A custom instruction file: operand `fields` that the built-in operand types
+ * do not cover, and `instructions` with their match/mask bits and syntax.
+ *
+ * ```json
+ * {
+ *   "fields": { "uimm7": { "kind": "imm", "bits": "31:25" } },
+ *   "instructions": [
+ *     { "mnemonic": "acc.mac", "match": "0x0000000b", "mask": "0xfe00707f", "operands": ["rd", "rs1", "rs2"], "extension": "Xacc" },
+ *     { "mnemonic": "acc.ld", "match": "0x0000100b", "mask": "0x0000707f", "operands": ["rd", "imm12(rs1)"] }
+ *   ]
+ * }
+ * ```
+ *
+ * The same structure can be written in YAML.
+ */
+export interface CustomInstructionFile {
+	fields?: Record<string, CustomField>;
+	instructions: CustomInstruction[];
+}
+
+export interface CustomField {
+	kind: 'xreg' | 'freg' | 'imm';
+	/** Instruction bits as `high:low` or a single bit; immediates list their pieces from the most significant one down. */
+	bits: string | number | Array<string | number>;
+	signed?: boolean;
+	/** Immediates count in units of this power of two, whose low bits are not encoded. */
+	scale?: number;
+	nonZero?: boolean;
+	/** A branch-style offset from the address of the instruction. */
+	pcRelative?: boolean;
+}
+
+export interface CustomInstruction {
+	mnemonic: string;
+	match: string | number;
+	mask: string | number;
+	/** Built-in operand types or `fields`, in assembly order; memory operands are written as `offset(base)`. */
+	operands?: string[];
+	/** Vendor extension name starting with X; `Xcustom` when left out. */
+	extension?: string;
+	/** Format used for the encoding breakdown; derived from the opcode when left out. */
+	format?: InstructionFormat;
+	xlen?: Xlen;
+}
+
+const DEFAULT_EXTENSION = 'Xcustom';
+
+/** Reads the text of a custom instruction file: YAML for `.yaml` and `.yml` paths, JSON otherwise. */
+export function readCustomInstructions(text: string, path: string): CustomInstructionSet {
+	return parseCustomInstructions(/\.ya?ml$/i.test(path) ? yaml.load(text) : JSON.parse(text));
+}
+
+/** Validates a custom instruction file, reporting the first problem by instruction or field. */
+export function parseCustomInstructions(value: unknown): CustomInstructionSet {
+	if (!value || typeof value !== 'object' || !Array.isArray((value as CustomInstructionFile).instructions)) {
+		throw new Error('A custom instruction file needs an "instructions" array.');
+	}
+	const file = value as CustomInstructionFile;
+	const operandTypes: Record<string, OperandType> = {};
+	for (const [name, field] of Object.entries(file.fields ?? {})) {
+		operandTypes[name] = parseField(name, field);
+	}
+	const specs = file.instructions.map((instruction, index) => {
+		const label = `Instruction ${index + 1}${typeof instruction?.mnemonic === 'string' ? ` ("${instruction.mnemonic}")` : ''}`;
+		try {
+			return parseInstruction(instruction, operandTypes);
+		} catch (error) {
+			throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+	return { specs, operandTypes };
+}
+
+/**
+ * Disassembles an encoding that matches a custom instruction, writing
+ * registers by ABI name and immediates in decimal. Returns undefined for
+ * everything else, which is left to the built-in decoder.
+ */
+export function disassembleCustomInstruction(encoding: number, xlen: Xlen | undefined): string | undefined {
+	const custom = getCustomInstructions();
+	if (custom.specs.length === 0) {
+		return undefined;
+	}
+	const decoded = decodeInstruction(encoding, xlen);
+	return decoded.spec && custom.specs.includes(decoded.spec) ? formatDecodedInstruction(decoded) : undefined;
+}
+
+function formatDecodedInstruction(decoded: DecodedInstruction): string {
+	const spec = decoded.spec as InstructionSpec;
+	const operands = [...decoded.operands];
+	const next = () => formatOperand(operands.shift());
+	const texts = spec.operands.map(syntax => {
+		const memoryMatch = /^(\w*)\((\w+)\)$/.exec(syntax);
+		if (!memoryMatch) {
+			return next();
+		}
+		const offset = memoryMatch[1] ? next() : '';
+		return `${offset}(${next()})`;
+	});
+	return texts.length > 0 ? `${spec.mnemonic} ${texts.join(', ')}` : spec.mnemonic;
+}
+
+function formatOperand(operand: DecodedOperand | undefined): string {
+	if (!operand) {
+		return '';
+	}
+	switch (operand.kind) {
+		case 'xreg':
+		case 'fixedReg':
+			return INTEGER_REGISTER_NAMES[operand.value];
+		case 'freg':
+			return FLOAT_REGISTER_NAMES[operand.value];
+		case 'roundingMode':
+			return ROUNDING_MODES[operand.value] || String(operand.value);
+		case 'imm':
+			return String(operand.value);
+		default:
+			return `0x${operand.value.toString(16)}`;
+	}
+}
+
+function parseField(name: string, field: CustomField): OperandType {
+	if (OPERAND_TYPES[name]) {
+		throw new Error(`Field "${name}" has the name of a built-in operand type.`);
+	}
+	if (!/^[a-z_]\w*$/i.test(name)) {
+		throw new Error(`Field "${name}" must be a name made of letters, digits and underscores.`);
+	}
+	const ranges = (Array.isArray(field?.bits) ? field.bits : [field?.bits]).map(bits => parseBitRange(name, bits));
+	switch (field?.kind) {
+		case 'xreg':
+		case 'freg':
+			if (ranges.length !== 1 || ranges[0][0] - ranges[0][1] !== 4) {
+				throw new Error(`Register field "${name}" must span 5 bits, such as "11:7".`);
+			}
+			return { kind: field.kind, field: ranges[0], nonZero: field.nonZero };
+		case 'imm': {
+			const scale = field.scale ?? 1;
+			if (!Number.isInteger(Math.log2(scale)) || scale < 1) {
+				throw new Error(`The scale of field "${name}" must be a power of two.`);
+			}
+			return {
+				kind: 'imm',
+				layout: immediateLayout(ranges, Math.log2(scale)),
+				signed: field.signed,
+				scale: field.scale,
+				nonZero: field.nonZero,
+				pcRelative: field.pcRelative
+			};
+		}
+		default:
+			throw new Error(`Field "${name}" needs a kind of "xreg", "freg" or "imm".`);
+	}
+}
+
+function parseInstruction(instruction: CustomInstruction, operandTypes: Record<string, OperandType>): InstructionSpec {
+	const mnemonic = String(instruction.mnemonic ?? '').trim().toLowerCase();
+	if (!/^[a-z][a-z0-9._]*$/.test(mnemonic)) {
+		throw new Error('"mnemonic" must start with a letter and contain only letters, digits, "." and "_".');
+	}
+	const match = parseBits('match', instruction.match);
+	const mask = parseBits('mask', instruction.mask);
+	if ((mask & 0b11) !== 0b11) {
+		throw new Error('"mask" must cover bits 1:0, which set the instruction length.');
+	}
+	if (((match & ~mask) >>> 0) !== 0) {
+		throw new Error('"match" sets bits outside "mask".');
+	}
+	const compressed = (match & 0b11) !== 0b11;
+	if (compressed && mask > 0xffff) {
+		throw new Error('A 16-bit instruction (bits 1:0 not 11) cannot have mask bits above bit 15.');
+	}
+
+	const format = instruction.format ?? (compressed ? 'CR' : OPCODE_FORMATS[match & 0x7f] ?? 'R');
+	if (!(format in FORMAT_FIELDS) || isCompressedFormat(format) !== compressed) {
+		throw new Error(`"${format}" is not a ${compressed ? '16' : '32'}-bit instruction format.`);
+	}
+	const extension = instruction.extension ?? DEFAULT_EXTENSION;
+	if (!/^X[A-Za-z0-9]+$/.test(extension)) {
+		throw new Error(`Extension "${extension}" must be a vendor extension name starting with X.`);
+	}
+	if (instruction.xlen !== undefined && instruction.xlen !== 32 && instruction.xlen !== 64) {
+		throw new Error('"xlen" must be 32 or 64.');
+	}
+
+	const operands = instruction.operands ?? [];
+	for (const syntax of operands) {
+		const names = /^(\w*)\((\w+)\)$/.exec(syntax)?.slice(1).filter(Boolean) ?? [syntax];
+		for (const name of names) {
+			const type = OPERAND_TYPES[name] ?? operandTypes[name];
+			if (!type) {
+				throw new Error(`Unknown operand "${name}"; declare it under "fields".`);
+			}
+			if ((operandBits(type) & mask) !== 0) {
+				throw new Error(`Operand "${name}" overlaps the fixed bits of "mask".`);
+			}
+			if (compressed && operandBits(type) > 0xffff) {
+				throw new Error(`Operand "${name}" uses bits above bit 15 of a 16-bit instruction.`);
+			}
+		}
+	}
+	return { mnemonic, format, extension: extension as IsaExtension, match, mask, operands, xlen: instruction.xlen };
+}
+
+function parseBits(name: string, value: string | number): number {
+	const text = String(value ?? '').trim().replace(/_/g, '');
+	if (!/^(0x[0-9a-f]+|0b[01]+|\d+)$/i.test(text) || Number(text) > 0xffffffff) {
+		throw new Error(`"${name}" must be a 32-bit number such as "0x0000000b".`);
+	}
+	return Number(text) >>> 0;
+}
+
+function parseBitRange(field: string, bits: string | number | undefined): readonly [number, number] {
+	const match = /^(\d+)(?::(\d+))?$/.exec(String(bits ?? '').trim());
+	const high = Number(match?.[1]);
+	const low = match?.[2] === undefined ? high : Number(match[2]);
+	if (!match || high > 31 || low > high) {
+		throw new Error(`Field "${field}" has bits "${String(bits)}"; write them as "high:low" within 31:0.`);
+	}
+	return [high, low];
+}
+
+/** Stacks the pieces from the most significant immediate bit down, above `shift` implicit zero bits. */
+function immediateLayout(ranges: ReadonlyArray<readonly [number, number]>, shift: number): ImmediateLayout {
+	let next = ranges.reduce((width, [high, low]) => width + high - low + 1, 0) - 1 + shift;
+	return ranges.map(([high, low]) => {
+		const segment = [high, low, next] as const;
+		next -= high - low + 1;
+		return segment;
+	});
+}
+
+function operandBits(type: OperandType): number {
+	const ranges = type.layout?.map(([high, low]) => [high, low] as const) ?? (type.field ? [type.field] : []);
+	return ranges.reduce((bits, [high, low]) => (bits | (((2 ** (high - low + 1)) - 1) * 2 ** low)) >>> 0, 0);
+}
@@ -0,0 +1,140 @@
+/** Sends a Debug Adapter Protocol request and resolves to its body, like `vscode.DebugSession.customRequest`. */
+export type DebugRequest = (command: string, args?: Record<string, unknown>) => PromiseLike<unknown>;
+
+/** Thread and stack frame selected in the debugger, when there is one. */
+export interface DebugLocation {
+	threadId?: number;
+	frameId?: number;
+}
+
+export interface DebugMemory {
+	address: number;
+	bytes: Uint8Array;
+	/** Bytes after `bytes` that the adapter reported as unreadable. */
+	unreadableBytes: number;
+}
+
+export const PC_NOTE = '<- pc';
+export const BREAKPOINT_NOTE = 'breakpoint';
+
+/**
+ * Reads the program counter of the top frame of the selected thread (or the
+ * first thread) from its `instructionPointerReference`, falling back to
+ * evaluating `$pc` for adapters that do not report one.
+ */
+export async function readProgramCounter(request: DebugRequest, location: DebugLocation = {}): Promise<number | undefined> {
+	const threadId = location.threadId ?? firstThreadId(await request('threads'));
+	if (threadId === undefined) {
+		return undefined;
+	}
+	const stack = await request('stackTrace', { threadId, startFrame: 0, levels: 1 }) as { stackFrames?: Array<{ id?: number; instructionPointerReference?: string }> };
+	const frame = stack?.stackFrames?.[0];
+	const pc = parseMemoryReference(frame?.instructionPointerReference);
+	if (pc !== undefined || frame?.id === undefined) {
+		return pc;
+	}
+	try {
+		return evaluatedAddress(await request('evaluate', { expression: '$pc', frameId: frame.id, context: 'watch' }));
+	} catch {
+		return undefined;
+	}
+}
+
+/** Resolves a number or, through the adapter's `evaluate` request, an expression such as `main` or `&buffer`. */
+export async function resolveDebugAddress(request: DebugRequest, text: string, frameId?: number): Promise<number> {
+	const expression = text.trim();
+	const literal = /^(0x[0-9a-f_]+|\d+)$/i.test(expression) ? parseMemoryReference(expression.replace(/_/g, '')) : undefined;
+	if (literal !== undefined) {
+		return literal;
+	}
+	const address = evaluatedAddress(await request('evaluate', { expression, frameId, context: 'watch' }));
+	if (address === undefined) {
+		throw new Error(`"${expression}" does not evaluate to an address.`);
+	}
+	return address;
+}
+
+/**
+ * Makes every request reject with a `Cancelled.` error once `signal` aborts,
+ * since the protocol has no way to stop a request that an adapter is stuck in.
+ */
+export function cancellableRequest(request: DebugRequest, signal: AbortSignal): DebugRequest {
+	return (command, args) => new Promise((resolve, reject) => {
+		const cancel = () => reject(new Error('Cancelled.'));
+		if (signal.aborted) {
+			cancel();
+			return;
+		}
+		signal.addEventListener('abort', cancel, { once: true });
+		Promise.resolve(request(command, args)).then(resolve, reject).finally(() => signal.removeEventListener('abort', cancel));
+	});
+}
+
+/** Reads up to `length` bytes at `address` with the `readMemory` request. */
+export async function readDebugMemory(request: DebugRequest, address: number, length: number): Promise<DebugMemory> {
+	const body = await request('readMemory', { memoryReference: `0x${address.toString(16)}`, offset: 0, count: length }) as {
+		address?: string;
+		unreadableBytes?: number;
+		data?: string;
+	} | undefined;
+	const bytes = new Uint8Array(Buffer.from(body?.data ?? '', 'base64'));
+	if (bytes.length === 0) {
+		throw new Error(`No memory could be read at 0x${address.toString(16)}.`);
+	}
+	return {
+		address: parseMemoryReference(body?.address) ?? address,
+		bytes,
+		unreadableBytes: body?.unreadableBytes ?? 0
+	};
+}
+
+/** Address of a Debug Adapter Protocol breakpoint the adapter has placed at an instruction. */
+export function breakpointAddress(breakpoint: unknown): number | undefined {
+	const { verified, instructionReference, offset } = (breakpoint ?? {}) as { verified?: boolean; instructionReference?: string; offset?: number };
+	const address = verified === false ? undefined : parseMemoryReference(instructionReference);
+	return address === undefined ? undefined : address + (offset ?? 0);
+}
+
+/** Analyzer notes marking the current PC and the breakpoints. */
+export function debugAddressNotes(pc: number | undefined, breakpoints: readonly number[]): Map<number, string[]> {
+	const notes = new Map<number, string[]>();
+	if (pc !== undefined) {
+		notes.set(pc, [PC_NOTE]);
+	}
+	for (const address of breakpoints) {
+		const existing = notes.get(address) ?? [];
+		if (!existing.includes(BREAKPOINT_NOTE)) {
+			notes.set(address, [...existing, BREAKPOINT_NOTE]);
+		}
+	}
+	return notes;
+}
+
+/**
+ * Reads the first hexadecimal or decimal number out of a memory reference such
+ * as `0x80000010`. Addresses above 2^53, which a number would round, are refused.
+ */
+export function parseMemoryReference(value: unknown): number | undefined {
+	if (typeof value !== 'string') {
+		return undefined;
+	}
+	const match = /0x[0-9a-f]+|\b\d+\b/i.exec(value);
+	if (!match) {
+		return undefined;
+	}
+	const address = BigInt(match[0]);
+	if (address > BigInt(Number.MAX_SAFE_INTEGER)) {
+		throw new Error(`Address 0x${address.toString(16)} is above 2^53, which the analyzer cannot represent exactly.`);
+	}
+	return Number(address);
+}
+
+/** Address of an `evaluate` result, from its memory reference or the first number in its text. */
+function evaluatedAddress(body: unknown): number | undefined {
+	const { memoryReference, result } = (body ?? {}) as { memoryReference?: string; result?: string };
+	return parseMemoryReference(memoryReference) ?? parseMemoryReference(result?.match(/0x[0-9a-f]+/i)?.[0] ?? result);
+}
+
+function firstThreadId(body: unknown): number | undefined {
+	return (body as { threads?: Array<{ id: number }> } | undefined)?.threads?.[0]?.id;
+}
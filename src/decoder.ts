@@ -0,0 +1,219 @@
+import {
+	FORMAT_FIELDS,
+	FORMAT_IMMEDIATES,
+	INSTRUCTION_SPECS,
+	InstructionFormat,
+	InstructionSpec,
+	OPCODE_FORMATS,
+	OperandKind,
+	Xlen,
+	extractField,
+	extractImmediate,
+	getCustomInstructions,
+	isCompressedFormat,
+	operandType
+} from './isa';
+
+export interface EncodingField {
+	name: string;
+	high: number;
+	low: number;
+	value: number;
+}
+
+export interface DecodedOperand {
+	/** Operand type name from `OPERAND_TYPES`. */
+	type: string;
+	kind: OperandKind;
+	value: number;
+}
+
+export interface DecodedInstruction {
+	encoding: number;
+	size: 2 | 4;
+	spec?: InstructionSpec;
+	format?: InstructionFormat;
+	fields: EncodingField[];
+	operands: DecodedOperand[];
+	/** Reassembled, sign-extended immediate (upper immediates are shifted into place). */
+	immediate?: number;
+}
+
+const SPECS_BY_SPECIFICITY = bySpecificity(INSTRUCTION_SPECS);
+
+/** Matched specs by encoding and XLEN; large dumps repeat the same words many times. */
+const specCache = new Map<number, InstructionSpec | undefined>();
+const SPEC_CACHE_LIMIT = 1 << 16;
+const operandTypeCache = new WeakMap<InstructionSpec, readonly string[]>();
+/** The custom instructions the spec cache was filled with, most specific first. */
+let cachedCustomSpecs: readonly InstructionSpec[] = [];
+let customSpecsBySpecificity: InstructionSpec[] = [];
+
+/**
+ * Splits an encoding into its fields using the instruction tables shared with
+ * the assembler. `xlen` selects between RV32 and RV64 readings of the same
+ * bits; when omitted, RV32 readings win, matching `disassemble_auto`. Custom
+ * instructions take precedence over the built-in ones.
+ */
+export function decodeInstruction(encoding: number, xlen?: Xlen): DecodedInstruction {
+	const size: 2 | 4 = (encoding & 0b11) === 0b11 ? 4 : 2;
+	const word = size === 2 ? encoding & 0xffff : encoding >>> 0;
+	const spec = findSpec(word, size, xlen);
+	const format = spec?.format ?? (size === 4 ? OPCODE_FORMATS[word & 0x7f] : undefined);
+
+	const owners = buildBitOwners(size, format, spec);
+	const fields = collapseOwners(owners, word);
+	const operands = spec ? decodeOperands(spec, word) : [];
+	const immediate = decodeImmediate(spec, format, word);
+
+	return { encoding: word, size, spec, format, fields, operands, immediate };
+}
+
+export function operandTypeNames(spec: InstructionSpec): readonly string[] {
+	let names = operandTypeCache.get(spec);
+	if (!names) {
+		names = spec.operands.flatMap(operand => {
+			const memoryMatch = /^(\w*)\((\w+)\)$/.exec(operand);
+			return memoryMatch ? [memoryMatch[1], memoryMatch[2]].filter(Boolean) : [operand];
+		});
+		operandTypeCache.set(spec, names);
+	}
+	return names;
+}
+
+function findSpec(word: number, size: 2 | 4, xlen: Xlen | undefined): InstructionSpec | undefined {
+	// The low bits of `word` already tell compressed and 32-bit encodings apart.
+	const key = word * 3 + (xlen === 32 ? 1 : xlen === 64 ? 2 : 0);
+	const customSpecs = getCustomInstructions().specs;
+	if (customSpecs !== cachedCustomSpecs) {
+		specCache.clear();
+		cachedCustomSpecs = customSpecs;
+		customSpecsBySpecificity = bySpecificity(customSpecs);
+	}
+	if (specCache.has(key)) {
+		return specCache.get(key);
+	}
+	if (specCache.size >= SPEC_CACHE_LIMIT) {
+		specCache.clear();
+	}
+	const spec = matchSpec(word, size, xlen);
+	specCache.set(key, spec);
+	return spec;
+}
+
+function matchSpec(word: number, size: 2 | 4, xlen: Xlen | undefined): InstructionSpec | undefined {
+	return matchSpecIn(customSpecsBySpecificity, word, size, xlen) ?? matchSpecIn(SPECS_BY_SPECIFICITY, word, size, xlen);
+}
+
+function matchSpecIn(specs: readonly InstructionSpec[], word: number, size: 2 | 4, xlen: Xlen | undefined): InstructionSpec | undefined {
+	const candidates = specs.filter(entry => {
+		const entrySize = isCompressedFormat(entry.format) ? 2 : 4;
+		return entrySize === size && ((word & entry.mask) >>> 0) === entry.match;
+	});
+	if (xlen !== undefined) {
+		return candidates.find(entry => entry.xlen === undefined || entry.xlen === xlen);
+	}
+	return candidates.find(entry => entry.xlen === undefined || entry.xlen === 32) ?? candidates[0];
+}
+
+function buildBitOwners(size: 2 | 4, format: InstructionFormat | undefined, spec: InstructionSpec | undefined): string[] {
+	const owners: string[] = new Array(size * 8).fill('');
+	if (!format) {
+		if (size === 2) {
+			assignBits(owners, 15, 13, 'funct3');
+			assignBits(owners, 12, 2, 'bits');
+			assignBits(owners, 1, 0, 'op');
+		} else {
+			assignBits(owners, 31, 7, 'bits');
+			assignBits(owners, 6, 0, 'opcode');
+		}
+		return owners;
+	}
+
+	for (const [name, high, low] of FORMAT_FIELDS[format]) {
+		assignBits(owners, high, low, name);
+	}
+
+	const immediateTypes = spec
+		? operandTypeNames(spec)
+		: [FORMAT_IMMEDIATES[format]].filter((name): name is string => Boolean(name));
+	for (const typeName of immediateTypes) {
+		const type = operandType(typeName);
+		if (type?.layout) {
+			const shift = type.upper ? 12 : 0;
+			for (const [instructionHigh, instructionLow, layoutHigh] of type.layout) {
+				const immediateHigh = layoutHigh + shift;
+				const immediateLow = immediateHigh - (instructionHigh - instructionLow);
+				const label = immediateHigh === immediateLow ? `imm[${immediateHigh}]` : `imm[${immediateHigh}:${immediateLow}]`;
+				assignBits(owners, instructionHigh, instructionLow, label);
+			}
+		} else if (type?.field && (type.kind === 'csr' || type.kind === 'fenceSet' || type.kind === 'roundingMode')) {
+			assignBits(owners, type.field[0], type.field[1], typeName);
+		}
+	}
+	return owners;
+}
+
+function assignBits(owners: string[], high: number, low: number, name: string): void {
+	for (let bit = high; bit >= low; bit -= 1) {
+		owners[bit] = name;
+	}
+}
+
+function collapseOwners(owners: string[], word: number): EncodingField[] {
+	const fields: EncodingField[] = [];
+	let high = owners.length - 1;
+	while (high >= 0) {
+		let low = high;
+		while (low > 0 && owners[low - 1] === owners[high]) {
+			low -= 1;
+		}
+		fields.push({ name: owners[high], high, low, value: extractField([high, low], word) });
+		high = low - 1;
+	}
+	return fields;
+}
+
+function decodeOperands(spec: InstructionSpec, word: number): DecodedOperand[] {
+	return operandTypeNames(spec).map(typeName => {
+		const type = operandType(typeName);
+		if (!type) {
+			return { type: typeName, kind: 'imm', value: 0 };
+		}
+		let value = 0;
+		if (type.kind === 'fixedReg') {
+			value = type.fixedRegister ?? 0;
+		} else if (type.layout) {
+			value = extractImmediate(type.layout, word, Boolean(type.signed));
+		} else if (type.field) {
+			value = extractField(type.field, word) + (type.compact ? 8 : 0);
+		}
+		return { type: typeName, kind: type.kind, value };
+	});
+}
+
+function decodeImmediate(spec: InstructionSpec | undefined, format: InstructionFormat | undefined, word: number): number | undefined {
+	const typeName = spec
+		? operandTypeNames(spec).find(name => operandType(name)?.layout)
+		: format && FORMAT_IMMEDIATES[format];
+	const type = typeName ? operandType(typeName) : undefined;
+	if (!type?.layout) {
+		return undefined;
+	}
+	const value = extractImmediate(type.layout, word, Boolean(type.signed));
+	return type.upper ? value * 4096 : value;
+}
+
+function bySpecificity(specs: readonly InstructionSpec[]): InstructionSpec[] {
+	return [...specs].sort((left, right) => popCount(right.mask) - popCount(left.mask));
+}
+
+function popCount(value: number): number {
+	let count = 0;
+	let remaining = value >>> 0;
+	while (remaining) {
+		count += remaining & 1;
+		remaining >>>= 1;
+	}
+	return count;
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { DiffRow, DisassemblyDiff, diffDisassembly } from './disassemblyDiff';
+import { InstructionRecord } from './instructionRecords';
+import { escapeAttribute, escapeHtml } from './webviewHtml';
+
+const { l10n } = vscode;
+
+/** One side of a comparison: decoded instructions and where they came from. */
+export interface ComparisonSide {
+	title: string;
+	records: InstructionRecord[];
+}
+
+/** Opens a panel with an instruction-aware side-by-side diff of two decoded inputs. */
+export function showDisassemblyDiff(left: ComparisonSide, right: ComparisonSide): vscode.WebviewPanel {
+	const panel = vscode.window.createWebviewPanel(
+		'riscvAsmAnalyzer.diff',
+		l10n.t('{0} ↔ {1}', left.title, right.title),
+		vscode.ViewColumn.Active,
+		{ enableScripts: false, retainContextWhenHidden: true }
+	);
+	panel.webview.html = buildHtml(left, right, diffDisassembly(left.records, right.records));
+	return panel;
+}
+
+function buildHtml(left: ComparisonSide, right: ComparisonSide, diff: DisassemblyDiff): string {
+	const { counts } = diff;
+	const summary = l10n.t(
+		'{0} unchanged, {1} changed, {2} removed, {3} inserted',
+		String(counts.same),
+		String(counts.changed),
+		String(counts.removed),
+		String(counts.inserted)
+	);
+	const shifts = diff.shifts.map(shift => l10n.t(
+		'Code from {0} (left) / {1} (right) onward is shifted by {2} bytes.',
+		formatAddress(shift.leftAddress),
+		formatAddress(shift.rightAddress),
+		formatDelta(shift.delta)
+	));
+	const styles = `
+		:root {
+			color-scheme: light dark;
+			font-family: var(--vscode-font-family);
+			font-size: var(--vscode-font-size);
+		}
+		body {
+			margin: 0;
+			padding: 8px 12px;
+			color: var(--vscode-editor-foreground);
+			background: var(--vscode-editor-background);
+		}
+		.summary {
+			margin: 0 0 4px;
+		}
+		.hint {
+			color: var(--vscode-descriptionForeground);
+		}
+		ul.shifts {
+			margin: 4px 0;
+			padding-left: 20px;
+			color: var(--vscode-editorWarning-foreground, var(--vscode-descriptionForeground));
+		}
+		table {
+			width: 100%;
+			border-collapse: collapse;
+			table-layout: fixed;
+			margin-top: 8px;
+			font-family: var(--vscode-editor-font-family, monospace);
+			font-size: var(--vscode-editor-font-size, 13px);
+		}
+		th {
+			text-align: left;
+			font-family: var(--vscode-font-family);
+			font-weight: 600;
+			border-bottom: 1px solid var(--vscode-panel-border, transparent);
+			overflow: hidden;
+			text-overflow: ellipsis;
+			white-space: nowrap;
+		}
+		td {
+			padding: 1px 6px;
+			white-space: pre;
+			overflow: hidden;
+			text-overflow: ellipsis;
+		}
+		col.address {
+			width: 10ch;
+		}
+		col.shift {
+			width: 7ch;
+		}
+		td.address,
+		td.shift,
+		.label {
+			color: var(--vscode-descriptionForeground);
+		}
+		tr.section td {
+			padding-top: 8px;
+			font-weight: 600;
+			font-family: var(--vscode-font-family);
+		}
+		tr.removed td.left,
+		tr.changed td.left {
+			background: var(--vscode-diffEditor-removedLineBackground, rgba(255, 0, 0, 0.15));
+		}
+		tr.inserted td.right,
+		tr.changed td.right {
+			background: var(--vscode-diffEditor-insertedLineBackground, rgba(0, 255, 0, 0.15));
+		}
+		tr.changed td.left .operand-changed {
+			background: var(--vscode-diffEditor-removedTextBackground, rgba(255, 0, 0, 0.35));
+		}
+		tr.changed td.right .operand-changed {
+			background: var(--vscode-diffEditor-insertedTextBackground, rgba(0, 255, 0, 0.35));
+		}
+		.error {
+			color: var(--vscode-errorForeground);
+		}
+		#onlyChanges:checked ~ table tr.same {
+			display: none;
+		}
+	`;
+
+	return `<!DOCTYPE html>
+	<html lang="en">
+	<head>
+		<meta charset="UTF-8" />
+		<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';" />
+		<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+		<title>${escapeHtml(l10n.t('{0} ↔ {1}', left.title, right.title))}</title>
+		<style>${styles}</style>
+	</head>
+	<body>
+		<p class="summary">${escapeHtml(summary)}</p>
+		${shifts.length > 0 ? `<ul class="shifts">${shifts.map(shift => `<li>${escapeHtml(shift)}</li>`).join('')}</ul>` : ''}
+		<input type="checkbox" id="onlyChanges" />
+		<label for="onlyChanges" class="hint">${escapeHtml(l10n.t('Show only differences'))}</label>
+		<table>
+			<colgroup>
+				<col class="address" /><col /><col class="shift" /><col class="address" /><col />
+			</colgroup>
+			<thead>
+				<tr>
+					<th colspan="2" title="${escapeAttribute(left.title)}">${escapeHtml(left.title)}</th>
+					<th title="${escapeAttribute(l10n.t('Bytes the right instruction moved by'))}">${escapeHtml(l10n.t('Shift'))}</th>
+					<th colspan="2" title="${escapeAttribute(right.title)}">${escapeHtml(right.title)}</th>
+				</tr>
+			</thead>
+			<tbody>${renderRows(diff.rows)}</tbody>
+		</table>
+	</body>
+	</html>`;
+}
+
+function renderRows(rows: readonly DiffRow[]): string {
+	const html: string[] = [];
+	let section: string | undefined;
+	for (const row of rows) {
+		const rowSection = (row.left ?? row.right)?.section;
+		if (rowSection !== undefined && rowSection !== section) {
+			section = rowSection;
+			html.push(`<tr class="section"><td colspan="5">${escapeHtml(section)}</td></tr>`);
+		}
+		html.push(`<tr class="${row.kind}">`
+			+ renderSide(row.left, 'left', row.changedOperands)
+			+ `<td class="shift">${row.shift === undefined ? '' : escapeHtml(formatDelta(row.shift))}</td>`
+			+ renderSide(row.right, 'right', row.changedOperands)
+			+ '</tr>');
+	}
+	return html.join('');
+}
+
+function renderSide(record: InstructionRecord | undefined, side: 'left' | 'right', changed: readonly number[] = []): string {
+	if (!record) {
+		return `<td class="address ${side}"></td><td class="${side}"></td>`;
+	}
+	const label = record.label ? `<span class="label">${escapeHtml(record.label)}: </span>` : '';
+	let text: string;
+	if (record.error !== undefined) {
+		text = `<span class="error">${escapeHtml(`${record.encoding} Error: ${record.error}`.trim())}</span>`;
+	} else {
+		const operands = record.operands.map((operand, index) => (
+			changed.includes(index) ? `<span class="operand-changed">${escapeHtml(operand)}</span>` : escapeHtml(operand)
+		));
+		text = escapeHtml(record.mnemonic ?? '') + (operands.length > 0 ? ` ${operands.join(', ')}` : '');
+	}
+	const address = record.address === undefined ? '' : formatAddress(record.address);
+	return `<td class="address ${side}">${address}</td><td class="${side}" title="${escapeAttribute(record.encoding)}">${label}${text}</td>`;
+}
+
+function formatAddress(address: number): string {
+	return address.toString(16).padStart(8, '0');
+}
+
+function formatDelta(delta: number): string {
+	return delta > 0 ? `+${delta}` : String(delta);
+}
@@ -0,0 +1,218 @@
+import { InstructionRecord } from './instructionRecords';
+
+export type DiffKind = 'same' | 'changed' | 'removed' | 'inserted';
+
+/** One aligned row: an instruction on the left, on the right, or both. */
+export interface DiffRow {
+	kind: DiffKind;
+	left?: InstructionRecord;
+	right?: InstructionRecord;
+	/** Indices of the operands that differ in a `changed` row. */
+	changedOperands?: number[];
+	/** How much further the right instruction sits from the left one than at the start of the diff. */
+	shift?: number;
+}
+
+/** A point after which the right side's code sits `delta` bytes further than before. */
+export interface AddressShift {
+	leftAddress: number;
+	rightAddress: number;
+	delta: number;
+}
+
+export interface DisassemblyDiff {
+	rows: DiffRow[];
+	shifts: AddressShift[];
+	counts: Record<DiffKind, number>;
+}
+
+type EditOperation = 'keep' | 'remove' | 'insert';
+
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Aligns two decoded instruction streams. Instructions are matched on their
+ * section, mnemonic and operands (not on addresses, encodings or notes), so
+ * code that only moved lines up as unchanged. Within a run of differing
+ * instructions, ones with the same mnemonic are paired as `changed` with the
+ * differing operands listed. Aligned instructions whose address distance
+ * grows or shrinks mark the places where inserted or removed code shifted
+ * everything after it.
+ */
+export function diffDisassembly(left: readonly InstructionRecord[], right: readonly InstructionRecord[]): DisassemblyDiff {
+	const rows: DiffRow[] = [];
+	const script = diffSequences(left.map(instructionKey), right.map(instructionKey));
+	let leftIndex = 0;
+	let rightIndex = 0;
+	for (let index = 0; index < script.length;) {
+		if (script[index] === 'keep') {
+			rows.push({ kind: 'same', left: left[leftIndex++], right: right[rightIndex++] });
+			index += 1;
+			continue;
+		}
+		const leftStart = leftIndex;
+		const rightStart = rightIndex;
+		for (; index < script.length && script[index] !== 'keep'; index += 1) {
+			if (script[index] === 'remove') {
+				leftIndex += 1;
+			} else {
+				rightIndex += 1;
+			}
+		}
+		rows.push(...pairChanges(left.slice(leftStart, leftIndex), right.slice(rightStart, rightIndex)));
+	}
+
+	const shifts = markShifts(rows);
+	const counts: Record<DiffKind, number> = { same: 0, changed: 0, removed: 0, inserted: 0 };
+	rows.forEach(row => {
+		counts[row.kind] += 1;
+	});
+	return { rows, shifts, counts };
+}
+
+/** Pairs removed and inserted instructions with the same mnemonic, keeping their order. */
+function pairChanges(removed: readonly InstructionRecord[], inserted: readonly InstructionRecord[]): DiffRow[] {
+	const rows: DiffRow[] = [];
+	let leftIndex = 0;
+	let rightIndex = 0;
+	for (const operation of diffSequences(removed.map(mnemonicKey), inserted.map(mnemonicKey))) {
+		if (operation === 'keep') {
+			const left = removed[leftIndex++];
+			const right = inserted[rightIndex++];
+			rows.push({ kind: 'changed', left, right, changedOperands: changedOperands(left.operands, right.operands) });
+		} else if (operation === 'remove') {
+			rows.push({ kind: 'removed', left: removed[leftIndex++] });
+		} else {
+			rows.push({ kind: 'inserted', right: inserted[rightIndex++] });
+		}
+	}
+	return rows;
+}
+
+function changedOperands(left: readonly string[], right: readonly string[]): number[] {
+	const changed: number[] = [];
+	for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+		if (left[index] !== right[index]) {
+			changed.push(index);
+		}
+	}
+	return changed;
+}
+
+/**
+ * Records the address distance of every aligned pair relative to the first
+ * one, and returns the pairs where that distance changes.
+ */
+function markShifts(rows: DiffRow[]): AddressShift[] {
+	const shifts: AddressShift[] = [];
+	let baseline: number | undefined;
+	let previous: number | undefined;
+	for (const row of rows) {
+		const leftAddress = row.left?.address;
+		const rightAddress = row.right?.address;
+		if (leftAddress === undefined || rightAddress === undefined || row.left?.section !== row.right?.section) {
+			continue;
+		}
+		const distance = rightAddress - leftAddress;
+		baseline ??= distance;
+		if (distance !== baseline) {
+			row.shift = distance - baseline;
+		}
+		if (previous !== undefined && distance !== previous) {
+			shifts.push({ leftAddress, rightAddress, delta: distance - previous });
+		}
+		previous = distance;
+	}
+	return shifts;
+}
+
+function instructionKey(record: InstructionRecord): string {
+	const text = record.error === undefined ? `${record.mnemonic ?? ''} ${record.operands.join(',')}` : `!${record.encoding}`;
+	return `${record.section ?? ''}\t${text}`;
+}
+
+function mnemonicKey(record: InstructionRecord): string {
+	return `${record.section ?? ''}\t${record.error === undefined ? record.mnemonic ?? '' : `!${record.encoding}`}`;
+}
+
+/**
+ * Shortest edit script between two key sequences (Myers' O(ND) algorithm)
+ * after trimming the common ends. Past `MAX_EDIT_DISTANCE` the middle is
+ * reported as removed and then inserted rather than aligned.
+ */
+function diffSequences(left: readonly string[], right: readonly string[]): EditOperation[] {
+	let prefix = 0;
+	while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+		prefix += 1;
+	}
+	let suffix = 0;
+	while (suffix < left.length - prefix && suffix < right.length - prefix && left[left.length - 1 - suffix] === right[right.length - 1 - suffix]) {
+		suffix += 1;
+	}
+	const leftMiddle = left.slice(prefix, left.length - suffix);
+	const rightMiddle = right.slice(prefix, right.length - suffix);
+	const middle = editScript(leftMiddle, rightMiddle)
+		?? [...leftMiddle.map((): EditOperation => 'remove'), ...rightMiddle.map((): EditOperation => 'insert')];
+	return [...new Array<EditOperation>(prefix).fill('keep'), ...middle, ...new Array<EditOperation>(suffix).fill('keep')];
+}
+
+/** Myers' forward pass, saving the furthest-reaching points of each round for the backtrack. */
+function editScript(left: readonly string[], right: readonly string[]): EditOperation[] | undefined {
+	const limit = Math.min(left.length + right.length, MAX_EDIT_DISTANCE);
+	// furthest[offset + diagonal] is the furthest left index reached on that diagonal.
+	const offset = limit + 1;
+	const furthest = new Int32Array(2 * offset + 1);
+	const trace: Int32Array[] = [];
+	let distance = 0;
+	search: for (; distance <= limit; distance += 1) {
+		// Round `distance` reads diagonals -distance - 1 to distance + 1 of the previous one.
+		trace.push(furthest.slice(offset - distance - 1, offset + distance + 2));
+		for (let diagonal = -distance; diagonal <= distance; diagonal += 2) {
+			let leftIndex = goesDown(index => furthest[offset + index], diagonal, distance)
+				? furthest[offset + diagonal + 1]
+				: furthest[offset + diagonal - 1] + 1;
+			let rightIndex = leftIndex - diagonal;
+			while (leftIndex < left.length && rightIndex < right.length && left[leftIndex] === right[rightIndex]) {
+				leftIndex += 1;
+				rightIndex += 1;
+			}
+			furthest[offset + diagonal] = leftIndex;
+			if (leftIndex >= left.length && rightIndex >= right.length) {
+				break search;
+			}
+		}
+	}
+	if (distance > limit) {
+		return undefined;
+	}
+
+	const operations: EditOperation[] = [];
+	let leftIndex = left.length;
+	let rightIndex = right.length;
+	for (; distance > 0; distance -= 1) {
+		const saved = trace[distance];
+		const previousPoint = (index: number) => saved[index + distance + 1];
+		const diagonal = leftIndex - rightIndex;
+		const down = goesDown(previousPoint, diagonal, distance);
+		const previousDiagonal = down ? diagonal + 1 : diagonal - 1;
+		const previousLeft = previousPoint(previousDiagonal);
+		const previousRight = previousLeft - previousDiagonal;
+		while (leftIndex > previousLeft && rightIndex > previousRight) {
+			operations.push('keep');
+			leftIndex -= 1;
+			rightIndex -= 1;
+		}
+		operations.push(down ? 'insert' : 'remove');
+		leftIndex = previousLeft;
+		rightIndex = previousRight;
+	}
+	for (; leftIndex > 0; leftIndex -= 1) {
+		operations.push('keep');
+	}
+	return operations.reverse();
+}
+
+/** Whether diagonal `diagonal` of round `distance` is reached by an insertion rather than a removal. */
+function goesDown(point: (diagonal: number) => number, diagonal: number, distance: number): boolean {
+	return diagonal === -distance || (diagonal !== distance && point(diagonal - 1) < point(diagonal + 1));
+}
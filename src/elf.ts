@@ -0,0 +1,259 @@
+export const EM_RISCV = 243;
+
+export const SHT_PROGBITS = 1;
+export const SHT_SYMTAB = 2;
+export const SHT_NOBITS = 8;
+export const SHT_DYNSYM = 11;
+
+export const SHF_ALLOC = 0x2;
+export const SHF_EXECINSTR = 0x4;
+
+export const STT_NOTYPE = 0;
+export const STT_FUNC = 2;
+
+export const EF_RISCV_RVC = 0x1;
+export const EF_RISCV_FLOAT_ABI = 0x6;
+export const EF_RISCV_RVE = 0x8;
+
+export type ElfFloatAbi = 'soft' | 'single' | 'double' | 'quad';
+
+export interface ElfSection {
+	index: number;
+	name: string;
+	type: number;
+	flags: number;
+	address: number;
+	offset: number;
+	size: number;
+	link: number;
+	entrySize: number;
+}
+
+export interface ElfSymbol {
+	name: string;
+	value: number;
+	size: number;
+	type: number;
+	bind: number;
+	sectionIndex: number;
+}
+
+export interface ElfFile {
+	elfClass: 32 | 64;
+	littleEndian: boolean;
+	type: number;
+	machine: number;
+	flags: number;
+	entry: number;
+	sections: ElfSection[];
+	symbols: ElfSymbol[];
+	/** True when e_flags advertises compressed (RVC) instructions. */
+	compressed: boolean;
+	floatAbi: ElfFloatAbi;
+	/** True for RV32E/RV64E objects. */
+	embedded: boolean;
+}
+
+const FLOAT_ABIS: readonly ElfFloatAbi[] = ['soft', 'single', 'double', 'quad'];
+
+/**
+ * Parses the ELF header, section table and symbol tables of a RISC-V object,
+ * executable or shared library.
+ */
+export function parseElf(data: Uint8Array): ElfFile {
+	if (data.length < 52 || !isElfImage(data)) {
+		throw new Error('Not an ELF file.');
+	}
+
+	const elfClass = data[4] === 2 ? 64 : data[4] === 1 ? 32 : undefined;
+	if (!elfClass) {
+		throw new Error(`Unsupported ELF class ${data[4]}.`);
+	}
+	const littleEndian = data[5] !== 2;
+	const reader = new ElfReader(data, littleEndian, elfClass);
+
+	const type = reader.u16(16);
+	const machine = reader.u16(18);
+	if (machine !== EM_RISCV) {
+		throw new Error(`ELF machine ${machine} is not RISC-V (expected ${EM_RISCV}).`);
+	}
+
+	const is64 = elfClass === 64;
+	const entry = reader.word(24);
+	const sectionHeaderOffset = reader.word(is64 ? 40 : 32);
+	const flags = reader.u32(is64 ? 48 : 36);
+	const sectionHeaderSize = reader.u16(is64 ? 58 : 46);
+	const sectionCount = reader.u16(is64 ? 60 : 48);
+	const sectionNameIndex = reader.u16(is64 ? 62 : 50);
+
+	const sections: ElfSection[] = [];
+	const nameOffsets: number[] = [];
+	for (let index = 0; index < sectionCount; index += 1) {
+		const base = sectionHeaderOffset + index * sectionHeaderSize;
+		if (base + sectionHeaderSize > data.length) {
+			throw new Error('Section header table extends past the end of the file.');
+		}
+		nameOffsets.push(reader.u32(base));
+		sections.push({
+			index,
+			name: '',
+			type: reader.u32(base + 4),
+			flags: reader.word(base + 8),
+			address: reader.word(is64 ? base + 16 : base + 12),
+			offset: reader.word(is64 ? base + 24 : base + 16),
+			size: reader.word(is64 ? base + 32 : base + 20),
+			link: reader.u32(is64 ? base + 40 : base + 24),
+			entrySize: reader.word(is64 ? base + 56 : base + 36)
+		});
+	}
+
+	const nameTable = sections[sectionNameIndex];
+	if (nameTable) {
+		sections.forEach((section, index) => {
+			section.name = reader.string(nameTable.offset + nameOffsets[index]);
+		});
+	}
+
+	const symbols = sections
+		.filter(section => section.type === SHT_SYMTAB || section.type === SHT_DYNSYM)
+		.flatMap(section => readSymbols(reader, section, sections[section.link]));
+
+	return {
+		elfClass,
+		littleEndian,
+		type,
+		machine,
+		flags,
+		entry,
+		sections,
+		symbols,
+		compressed: (flags & EF_RISCV_RVC) !== 0,
+		floatAbi: FLOAT_ABIS[(flags & EF_RISCV_FLOAT_ABI) >> 1],
+		embedded: (flags & EF_RISCV_RVE) !== 0
+	};
+}
+
+export function isElfImage(data: Uint8Array): boolean {
+	return data.length >= 4 && data[0] === 0x7f && data[1] === 0x45 && data[2] === 0x4c && data[3] === 0x46;
+}
+
+export function isExecutableSection(section: ElfSection): boolean {
+	return section.type === SHT_PROGBITS && (section.flags & SHF_EXECINSTR) !== 0 && section.size > 0;
+}
+
+export function sectionBytes(data: Uint8Array, section: ElfSection): Uint8Array {
+	if (section.type === SHT_NOBITS) {
+		return new Uint8Array(0);
+	}
+	if (section.offset + section.size > data.length) {
+		throw new Error(`Section ${section.name} extends past the end of the file.`);
+	}
+	return data.subarray(section.offset, section.offset + section.size);
+}
+
+/**
+ * Returns code labels for a section, keyed by address. Mapping symbols
+ * (`$x`, `$d`) and assembler-local `.L` labels are skipped.
+ */
+export function sectionLabels(elf: ElfFile, section: ElfSection): Map<number, string> {
+	const labels = new Map<number, string>();
+	const relocatable = elf.type === 1;
+	const candidates = elf.symbols
+		.filter(symbol => symbol.sectionIndex === section.index && symbol.name)
+		.filter(symbol => symbol.type === STT_FUNC || symbol.type === STT_NOTYPE)
+		.filter(symbol => !symbol.name.startsWith('$') && !symbol.name.startsWith('.L'))
+		.sort((left, right) => Number(right.type === STT_FUNC) - Number(left.type === STT_FUNC));
+
+	for (const symbol of candidates) {
+		const address = relocatable ? section.address + symbol.value : symbol.value;
+		if (!labels.has(address)) {
+			labels.set(address, symbol.name);
+		}
+	}
+	return labels;
+}
+
+function readSymbols(reader: ElfReader, section: ElfSection, stringTable: ElfSection | undefined): ElfSymbol[] {
+	const is64 = reader.elfClass === 64;
+	const entrySize = section.entrySize || (is64 ? 24 : 16);
+	const count = Math.floor(section.size / entrySize);
+	const symbols: ElfSymbol[] = [];
+
+	for (let index = 1; index < count; index += 1) {
+		const base = section.offset + index * entrySize;
+		const nameOffset = reader.u32(base);
+		const info = is64 ? reader.u8(base + 4) : reader.u8(base + 12);
+		const value = is64 ? reader.bigWord(base + 8) : BigInt(reader.u32(base + 4));
+		// Absolute symbols may hold any constant; those past 2^53 cannot label an address here.
+		if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+			continue;
+		}
+		symbols.push({
+			name: stringTable ? reader.string(stringTable.offset + nameOffset) : '',
+			value: Number(value),
+			size: is64 ? reader.word(base + 16) : reader.u32(base + 8),
+			type: info & 0xf,
+			bind: info >> 4,
+			sectionIndex: is64 ? reader.u16(base + 6) : reader.u16(base + 14)
+		});
+	}
+	return symbols;
+}
+
+class ElfReader {
+	private readonly view: DataView;
+
+	constructor(private readonly data: Uint8Array, private readonly littleEndian: boolean, readonly elfClass: 32 | 64) {
+		this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	}
+
+	u8(offset: number): number {
+		this.check(offset, 1);
+		return this.view.getUint8(offset);
+	}
+
+	u16(offset: number): number {
+		this.check(offset, 2);
+		return this.view.getUint16(offset, this.littleEndian);
+	}
+
+	u32(offset: number): number {
+		this.check(offset, 4);
+		return this.view.getUint32(offset, this.littleEndian);
+	}
+
+	/**
+	 * Reads an address-sized field (`Elf32_Addr` or `Elf64_Addr`). RV64 values
+	 * above 2^53, such as the addresses of kernels linked into the upper half,
+	 * have no exact `number` and are rejected rather than rounded.
+	 */
+	word(offset: number): number {
+		const value = this.bigWord(offset);
+		if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+			throw new Error(`ELF field 0x${value.toString(16)} is above 2^53; images linked at such addresses are not supported.`);
+		}
+		return Number(value);
+	}
+
+	bigWord(offset: number): bigint {
+		if (this.elfClass === 32) {
+			return BigInt(this.u32(offset));
+		}
+		this.check(offset, 8);
+		return this.view.getBigUint64(offset, this.littleEndian);
+	}
+
+	string(offset: number): string {
+		let end = offset;
+		while (end < this.data.length && this.data[end] !== 0) {
+			end += 1;
+		}
+		return new TextDecoder().decode(this.data.subarray(offset, end));
+	}
+
+	private check(offset: number, length: number): void {
+		if (offset < 0 || offset + length > this.data.length) {
+			throw new Error('ELF file is truncated.');
+		}
+	}
+}
@@ -1,21 +1,70 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
 import {
 	AnalyzerMode,
 	AnalyzerExecutionResult,
-	ASSEMBLY_NOT_SUPPORTED_MESSAGE,
-	executeAnalyzer,
-	initializeAnalyzer
+	AnalyzerOptions,
+	AnalyzerProgress,
+	CompressionReport,
+	ControlFlowBlock,
+	EncodingBreakdown,
+	PerformanceEstimate,
+	RV128_ASSEMBLY_NOT_SUPPORTED_MESSAGE,
+	RV128_SIMULATION_NOT_SUPPORTED_MESSAGE,
+	SimulationProgram,
+	XLEN_SETTINGS,
+	XlenSetting,
+	initializeAnalyzer,
+	loadSimulationProgram,
+	parseBaseAddress,
+	parseXlenSetting
 } from './analyzer';
+import { ASSEMBLY_LANGUAGE_ID, AssemblyHoverProvider, updateAssemblyDiagnostics } from './asmLanguage';
+import { runAnalysisJob } from './backgroundAnalysis';
+import { BinaryEditorProvider } from './binaryEditor';
+import { CLI_PROTOCOL_VERSION, clearCliCapabilities, runCli } from './cliBackend';
+import { readCustomInstructions } from './customInstructions';
+import { BREAKPOINT_NOTE, PC_NOTE, breakpointAddress, cancellableRequest, debugAddressNotes, readDebugMemory, readProgramCounter, resolveDebugAddress } from './debugMemory';
+import { ComparisonSide, showDisassemblyDiff } from './diffPanel';
+import { HexLiteralHoverProvider } from './hexHover';
+import { AnalysisDraft, HistoryEntry, HistorySummary, addHistoryEntry, parseHistory, removeHistoryEntry, storedDraft, summarizeHistory, updateHistoryEntry } from './history';
+import { INPUT_FORMATS, InputFormat, parseInputFormat } from './inputFormats';
+import { RecordFormat, formatRecords } from './instructionRecords';
+import { CustomInstructionSet, INTEGER_REGISTER_NAMES, setCustomInstructions } from './isa';
+import { ExtensionCount } from './isaProfile';
+import { Simulation, SimulationOutcome, SimulationSnapshot } from './simulator';
+import { BUILTIN_TIMING_MODELS, DEFAULT_TIMING_MODEL, TimingModel, parseTimingModel } from './timing';
+import { escapeAttribute, escapeHtml, generateNonce } from './webviewHtml';
 
 const { l10n } = vscode;
 
+const MAX_CONTROL_FLOW_BLOCKS = 200;
+const MAX_MEMORY_WORDS = 256;
+const HISTORY_KEY = 'riscvAsmAnalyzer.history';
+const DRAFT_KEY = 'riscvAsmAnalyzer.draft';
+
+/** Settles once the configured custom instructions are in place; runs wait for it. */
+let customInstructionsReady: Promise<void> = Promise.resolve();
+let customInstructionsGeneration = 0;
+
 type OutboundMessage =
 	| { type: 'setInput'; value: string }
+	| { type: 'setXlen'; value: string }
+	| { type: 'setInputFormat'; value: string }
+	| { type: 'setBaseAddress'; value: string }
 	| { type: 'result'; value: string }
+	| { type: 'breakdown'; value: EncodingBreakdown[] }
+	| { type: 'controlFlow'; value: ControlFlowBlock[] }
+	| { type: 'extensionProfile'; value: ExtensionCount[] }
+	| { type: 'performance'; value: PerformanceEstimate | undefined }
+	| { type: 'compression'; value: CompressionReport | undefined }
+	| { type: 'simulation'; value: SimulationSnapshot | undefined }
+	| { type: 'history'; value: HistorySummary[] }
 	| { type: 'status'; value: 'idle' | 'running' }
+	| { type: 'progress'; value: AnalyzerProgress }
 	| { type: 'error'; value: string }
 	| { type: 'info'; value: string };
 
@@ -23,6 +72,33 @@ interface RunRequestMessage {
 	type: 'run';
 	input: string;
 	mode: AnalyzerMode;
+	xlen?: string;
+	inputFormat?: string;
+	baseAddress?: string;
+}
+
+interface SimulateRequestMessage {
+	type: 'simulate';
+	input: string;
+	xlen?: string;
+	inputFormat?: string;
+	baseAddress?: string;
+	compressed?: boolean;
+}
+
+interface SimulatorControlMessage {
+	type: 'simulatorControl';
+	action: 'step' | 'run' | 'reset';
+}
+
+interface SimulatorRegisterMessage {
+	type: 'simulatorSetRegister';
+	register: number;
+	value: string;
+}
+
+interface CancelRequestMessage {
+	type: 'cancel';
 }
 
 interface CopyRequestMessage {
@@ -30,11 +106,60 @@ interface CopyRequestMessage {
 	value: string;
 }
 
+interface ExportRequestMessage {
+	type: 'export';
+	destination: 'file' | 'editor';
+	/** Output shown in the view, so that a cleared view exports nothing. */
+	value: string;
+}
+
+interface DraftMessage {
+	type: 'saveDraft';
+	value: AnalysisDraft;
+}
+
+interface HistoryActionMessage {
+	type: 'historyAction';
+	action: 'rerun' | 'rename' | 'pin' | 'unpin' | 'delete';
+	id: string;
+}
+
 interface SelectionRequestMessage {
 	type: 'requestSelection';
 }
 
-type InboundMessage = RunRequestMessage | CopyRequestMessage | SelectionRequestMessage;
+type InboundMessage =
+	| RunRequestMessage
+	| SimulateRequestMessage
+	| SimulatorControlMessage
+	| SimulatorRegisterMessage
+	| CancelRequestMessage
+	| CopyRequestMessage
+	| ExportRequestMessage
+	| DraftMessage
+	| HistoryActionMessage
+	| SelectionRequestMessage;
+
+/** The running simulation and what is needed to restart it. */
+interface ActiveSimulation {
+	machine: Simulation;
+	program: SimulationProgram;
+	compressed: boolean;
+	/** Register values edited before the first step; a reset starts from them. */
+	initialRegisters: Map<number, bigint>;
+}
+
+interface ComparisonSourceItem extends vscode.QuickPickItem {
+	source: 'input' | 'selection' | 'file' | 'history';
+	entry?: HistoryEntry;
+}
+
+interface ExportFormatItem extends vscode.QuickPickItem {
+	/** Structured records in this format, or the output text as shown when undefined. */
+	format?: RecordFormat;
+	extension: string;
+	languageId: string;
+}
 
 class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 	public static readonly viewType = 'riscvAsmAnalyzer.view';
@@ -43,6 +168,10 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 	private readonly pendingMessages: OutboundMessage[] = [];
 	private resolveView?: () => void;
 	private readonly viewReady: Promise<void>;
+	private simulation?: ActiveSimulation;
+	private lastResult?: AnalyzerExecutionResult;
+	/** Cancels the run in progress: an external CLI, a worker thread or a debug adapter request. */
+	private runCancellation?: AbortController;
 
 	constructor(private readonly context: vscode.ExtensionContext) {
 		this.viewReady = new Promise(resolve => {
@@ -60,6 +189,18 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 		this.enqueueMessage({ type: 'setInput', value });
 	}
 
+	public setXlen(value: XlenSetting): void {
+		this.enqueueMessage({ type: 'setXlen', value: String(value) });
+	}
+
+	public setInputFormat(value: InputFormat): void {
+		this.enqueueMessage({ type: 'setInputFormat', value });
+	}
+
+	public setBaseAddress(value: string): void {
+		this.enqueueMessage({ type: 'setBaseAddress', value });
+	}
+
 	public resolveWebviewView(webviewView: vscode.WebviewView): void {
 		this.view = webviewView;
 		this.resolveView?.();
@@ -74,6 +215,13 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 			await this.handleMessage(message as InboundMessage);
 		});
 
+		// Restore the last input first so that a pending selection or file load replaces it.
+		const draft = this.context.workspaceState.get<AnalysisDraft>(DRAFT_KEY);
+		if (draft && typeof draft.input === 'string') {
+			this.pendingMessages.unshift(...draftMessages(draft));
+		}
+		this.pendingMessages.unshift({ type: 'history', value: summarizeHistory(this.readHistory()) });
+
 		while (this.pendingMessages.length > 0) {
 			const message = this.pendingMessages.shift();
 			if (message) {
@@ -93,11 +241,32 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 	private async handleMessage(message: InboundMessage): Promise<void> {
 		switch (message.type) {
 			case 'run':
-				await this.handleRun(message.mode, message.input);
+				await this.handleRun(message);
+				break;
+			case 'simulate':
+				await this.handleSimulate(message);
+				break;
+			case 'simulatorControl':
+				this.handleSimulatorControl(message.action);
+				break;
+			case 'simulatorSetRegister':
+				this.handleSimulatorRegister(message);
+				break;
+			case 'cancel':
+				this.runCancellation?.abort();
 				break;
 			case 'copy':
 				await this.handleCopy(message.value);
 				break;
+			case 'export':
+				await this.handleExport(message);
+				break;
+			case 'saveDraft':
+				await this.context.workspaceState.update(DRAFT_KEY, storedDraft(message.value));
+				break;
+			case 'historyAction':
+				await this.handleHistoryAction(message);
+				break;
 			case 'requestSelection':
 				this.pushActiveSelection();
 				break;
@@ -106,42 +275,271 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 		}
 	}
 
-	private async handleRun(mode: AnalyzerMode, input: string): Promise<void> {
+	private async handleRun(request: RunRequestMessage): Promise<void> {
+		const { mode, input } = request;
 		if (!input.trim()) {
 			this.enqueueMessage({ type: 'error', value: l10n.t('Input is empty.') });
 			return;
 		}
 
 		this.enqueueMessage({ type: 'status', value: 'running' });
+		const cancellation = new AbortController();
+		this.runCancellation = cancellation;
 
 		try {
-			const result = await runAnalyzer(mode, input);
-			this.enqueueMessage({ type: 'result', value: result.output });
-			if (result.didFallbackToDisassemble) {
-				this.enqueueMessage({
-					type: 'info',
-					value: l10n.t('Detected machine code input. Running disassembler instead.')
-				});
-			}
-			result.infoMessages?.forEach(message => {
-				if (message) {
-					this.enqueueMessage({ type: 'info', value: message });
-				}
+			const timing = await loadConfiguredTimingModel();
+			const options: AnalyzerOptions = {
+				xlen: parseXlenSetting(request.xlen ?? getConfiguredXlen()),
+				inputFormat: parseInputFormat(request.inputFormat ?? getConfiguredInputFormat()),
+				baseAddress: parseBaseAddress(request.baseAddress ?? getConfiguredBaseAddress()),
+				march: getConfiguredMarch(),
+				timingModel: timing.model,
+				foldIdioms: getConfiguredFoldIdioms()
+			};
+			await customInstructionsReady;
+			const result = await runAnalyzer(mode, input, options, cancellation.signal, progress => {
+				this.enqueueMessage({ type: 'progress', value: progress });
 			});
-			this.enqueueMessage({ type: 'info', value: buildSuccessMessage(result.effectiveMode) });
+			this.presentResult(withInfoMessages(result, [timing.warning]));
+			await this.recordHistory(request, result);
 		} catch (error) {
+			if (cancellation.signal.aborted) {
+				this.enqueueMessage({ type: 'info', value: l10n.t('Cancelled.') });
+				return;
+			}
 			const rawMessage = toErrorMessage(error);
-			const message = rawMessage === ASSEMBLY_NOT_SUPPORTED_MESSAGE
-				? l10n.t('Assembly mode is not available yet. Provide machine code (hex or byte stream) or use Alt+Click for disassembly.')
+			const message = rawMessage === RV128_ASSEMBLY_NOT_SUPPORTED_MESSAGE
+				? l10n.t('The assembler supports RV32 and RV64 only. Select a different XLEN to assemble.')
 				: rawMessage;
 			this.enqueueMessage({ type: 'error', value: message });
 			const modeLabel = mode === 'assemble' ? l10n.t('assembly') : l10n.t('disassembly');
 			vscode.window.showErrorMessage(l10n.t('RISC-V {0} failed: {1}', modeLabel, message));
+		} finally {
+			this.runCancellation = undefined;
+			this.enqueueMessage({ type: 'status', value: 'idle' });
+		}
+	}
+
+	private async handleSimulate(request: SimulateRequestMessage): Promise<void> {
+		if (!request.input.trim()) {
+			this.enqueueMessage({ type: 'error', value: l10n.t('Input is empty.') });
+			return;
+		}
+
+		this.enqueueMessage({ type: 'status', value: 'running' });
+
+		try {
+			await customInstructionsReady;
+			const program = await loadSimulationProgram(request.input, {
+				xlen: parseXlenSetting(request.xlen ?? getConfiguredXlen()),
+				inputFormat: parseInputFormat(request.inputFormat ?? getConfiguredInputFormat()),
+				baseAddress: parseBaseAddress(request.baseAddress ?? getConfiguredBaseAddress()),
+				march: getConfiguredMarch(),
+				foldIdioms: getConfiguredFoldIdioms()
+			});
+			const compressed = request.compressed ?? true;
+			this.simulation = {
+				machine: new Simulation(program.instructions, { xlen: program.xlen, compressed }),
+				program,
+				compressed,
+				initialRegisters: new Map()
+			};
+			this.presentResult(program.disassembly);
+			this.enqueueMessage({
+				type: 'info',
+				value: l10n.t('Simulator loaded {0} instruction(s) (RV{1}).', program.instructions.length, program.xlen)
+			});
+			this.presentSimulation();
+		} catch (error) {
+			const rawMessage = toErrorMessage(error);
+			const message = rawMessage === RV128_SIMULATION_NOT_SUPPORTED_MESSAGE
+				? l10n.t('The simulator supports RV32 and RV64 only. Select a different XLEN to simulate.')
+				: rawMessage;
+			this.enqueueMessage({ type: 'error', value: message });
+			vscode.window.showErrorMessage(l10n.t('RISC-V simulation failed: {0}', message));
 		} finally {
 			this.enqueueMessage({ type: 'status', value: 'idle' });
 		}
 	}
 
+	private handleSimulatorControl(action: SimulatorControlMessage['action']): void {
+		const simulation = this.simulation;
+		if (!simulation) {
+			this.enqueueMessage({ type: 'error', value: l10n.t('Start a simulation first.') });
+			return;
+		}
+		switch (action) {
+			case 'step':
+				this.presentSimulation(simulation.machine.step());
+				break;
+			case 'run':
+				this.presentSimulation(simulation.machine.run(getConfiguredInstructionLimit()));
+				break;
+			case 'reset':
+				simulation.machine = new Simulation(simulation.program.instructions, {
+					xlen: simulation.program.xlen,
+					compressed: simulation.compressed,
+					registers: simulation.initialRegisters
+				});
+				this.presentSimulation();
+				break;
+		}
+	}
+
+	private handleSimulatorRegister(message: SimulatorRegisterMessage): void {
+		const simulation = this.simulation;
+		if (!simulation) {
+			return;
+		}
+		const value = parseRegisterValue(message.value);
+		if (value === undefined) {
+			this.enqueueMessage({
+				type: 'error',
+				value: l10n.t('"{0}" is not a valid value for {1}.', message.value, INTEGER_REGISTER_NAMES[message.register] ?? '')
+			});
+		} else {
+			simulation.machine.setRegister(message.register, value);
+			if (simulation.machine.steps === 0) {
+				simulation.initialRegisters.set(message.register, value);
+			}
+		}
+		this.presentSimulation();
+	}
+
+	private presentSimulation(outcome?: SimulationOutcome): void {
+		this.enqueueMessage({ type: 'simulation', value: this.simulation?.machine.snapshot(outcome) });
+	}
+
+	public async disassembleFile(uri: vscode.Uri): Promise<void> {
+		this.enqueueMessage({ type: 'status', value: 'running' });
+		const cancellation = new AbortController();
+		this.runCancellation = cancellation;
+
+		try {
+			const data = await vscode.workspace.fs.readFile(uri);
+			const timing = await loadConfiguredTimingModel();
+			await customInstructionsReady;
+			const result = await runAnalysisJob({
+				kind: 'file',
+				data,
+				options: {
+					xlen: getConfiguredXlen(),
+					inputFormat: getConfiguredInputFormat(),
+					baseAddress: parseBaseAddress(getConfiguredBaseAddress()),
+					march: getConfiguredMarch(),
+					timingModel: timing.model,
+					foldIdioms: getConfiguredFoldIdioms()
+				}
+			}, {
+				signal: cancellation.signal,
+				onProgress: progress => this.enqueueMessage({ type: 'progress', value: progress })
+			});
+			this.presentResult(withInfoMessages(result, [timing.warning]));
+		} catch (error) {
+			if (cancellation.signal.aborted) {
+				this.enqueueMessage({ type: 'info', value: l10n.t('Cancelled.') });
+				return;
+			}
+			const message = toErrorMessage(error);
+			this.enqueueMessage({ type: 'error', value: message });
+			vscode.window.showErrorMessage(l10n.t('RISC-V file disassembly failed: {0}', message));
+		} finally {
+			this.runCancellation = undefined;
+			this.enqueueMessage({ type: 'status', value: 'idle' });
+		}
+	}
+
+	/**
+	 * Reads target memory from a debug session at an address or expression
+	 * (the current PC when empty) and disassembles it with the PC and the
+	 * breakpoints the adapter placed there marked.
+	 */
+	public async disassembleDebugMemory(session: vscode.DebugSession, addressText: string): Promise<void> {
+		this.enqueueMessage({ type: 'status', value: 'running' });
+		const cancellation = new AbortController();
+		this.runCancellation = cancellation;
+
+		try {
+			const request = cancellableRequest((command, args) => session.customRequest(command, args), cancellation.signal);
+			const stackItem = vscode.debug.activeStackItem?.session.id === session.id ? vscode.debug.activeStackItem : undefined;
+			const frameId = stackItem && 'frameId' in stackItem ? stackItem.frameId : undefined;
+			const pc = await readProgramCounter(request, { threadId: stackItem?.threadId, frameId });
+			const address = addressText.trim() ? await resolveDebugAddress(request, addressText, frameId) : pc;
+			if (address === undefined) {
+				throw new Error(l10n.t('The debug session did not report a program counter. Enter an address instead.'));
+			}
+			const memory = await readDebugMemory(request, address, getConfiguredDebugMemoryLength());
+			const breakpoints: number[] = [];
+			for (const breakpoint of vscode.debug.breakpoints.filter(candidate => candidate.enabled)) {
+				const breakpointAt = breakpointAddress(await session.getDebugProtocolBreakpoint(breakpoint));
+				if (breakpointAt !== undefined) {
+					breakpoints.push(breakpointAt);
+				}
+			}
+			const timing = await loadConfiguredTimingModel();
+			await customInstructionsReady;
+			const result = await runAnalysisJob({
+				kind: 'file',
+				data: memory.bytes,
+				options: {
+					xlen: getConfiguredXlen(),
+					inputFormat: 'binary',
+					baseAddress: memory.address,
+					march: getConfiguredMarch(),
+					timingModel: timing.model,
+					foldIdioms: getConfiguredFoldIdioms(),
+					registerAnalysis: false,
+					addressNotes: debugAddressNotes(pc, breakpoints)
+				}
+			}, {
+				signal: cancellation.signal,
+				onProgress: progress => this.enqueueMessage({ type: 'progress', value: progress })
+			});
+			const infoMessages = [
+				l10n.t('Read {0} bytes at 0x{1} from {2}; "{3}" marks the PC and "{4}" the breakpoints.', String(memory.bytes.length), memory.address.toString(16), session.name, PC_NOTE, BREAKPOINT_NOTE),
+				...(memory.unreadableBytes > 0
+					? [l10n.t('{0} bytes after 0x{1} could not be read.', String(memory.unreadableBytes), (memory.address + memory.bytes.length).toString(16))]
+					: []),
+				...(timing.warning ? [timing.warning] : []),
+				...(result.infoMessages ?? [])
+			];
+			this.presentResult({ ...result, infoMessages });
+		} catch (error) {
+			if (cancellation.signal.aborted) {
+				this.enqueueMessage({ type: 'info', value: l10n.t('Cancelled.') });
+				return;
+			}
+			const message = toErrorMessage(error);
+			this.enqueueMessage({ type: 'error', value: message });
+			vscode.window.showErrorMessage(l10n.t('Reading memory from the debug session failed: {0}', message));
+		} finally {
+			this.runCancellation = undefined;
+			this.enqueueMessage({ type: 'status', value: 'idle' });
+		}
+	}
+
+	private presentResult(result: AnalyzerExecutionResult): void {
+		this.lastResult = result;
+		this.enqueueMessage({ type: 'result', value: result.output });
+		this.enqueueMessage({ type: 'breakdown', value: result.breakdowns ?? [] });
+		this.enqueueMessage({ type: 'controlFlow', value: result.controlFlow ?? [] });
+		this.enqueueMessage({ type: 'extensionProfile', value: result.extensionProfile ?? [] });
+		this.enqueueMessage({ type: 'performance', value: result.performance });
+		this.enqueueMessage({ type: 'compression', value: result.compression });
+		if (result.didFallbackToDisassemble) {
+			this.enqueueMessage({
+				type: 'info',
+				value: l10n.t('Detected machine code input. Running disassembler instead.')
+			});
+		}
+		result.infoMessages?.forEach(message => {
+			if (message) {
+				this.enqueueMessage({ type: 'info', value: message });
+			}
+		});
+		this.enqueueMessage({ type: 'info', value: buildSuccessMessage(result.effectiveMode, result.xlen) });
+	}
+
 	private async handleCopy(value: string): Promise<void> {
 		if (!value) {
 			this.enqueueMessage({ type: 'info', value: l10n.t('Nothing to copy.') });
@@ -152,6 +550,118 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 		vscode.window.setStatusBarMessage(l10n.t('RISC-V analyzer output copied to clipboard.'), 1500);
 	}
 
+	private async handleExport(request: ExportRequestMessage): Promise<void> {
+		const result = this.lastResult;
+		if (!request.value || !result || result.output !== request.value) {
+			this.enqueueMessage({ type: 'info', value: l10n.t('Nothing to export.') });
+			return;
+		}
+
+		const items: ExportFormatItem[] = [
+			{ label: 'JSON', description: l10n.t('One object per instruction'), format: 'json', extension: 'json', languageId: 'json' },
+			{ label: 'CSV', description: l10n.t('One row per instruction'), format: 'csv', extension: 'csv', languageId: 'plaintext' },
+			{ label: l10n.t('Markdown table'), format: 'markdown', extension: 'md', languageId: 'markdown' },
+			{ label: l10n.t('Plain text'), description: l10n.t('The output as shown'), extension: 'txt', languageId: 'plaintext' }
+		];
+		const choice = await vscode.window.showQuickPick(items, {
+			placeHolder: request.destination === 'file' ? l10n.t('Export the output as') : l10n.t('Open the output in an editor as')
+		});
+		if (!choice) {
+			return;
+		}
+		const content = choice.format ? formatRecords(result.records ?? [], choice.format) : `${result.output}\n`;
+
+		if (request.destination === 'editor') {
+			const document = await vscode.workspace.openTextDocument({ content, language: choice.languageId });
+			await vscode.window.showTextDocument(document, { preview: false });
+			return;
+		}
+
+		const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const fileName = `riscv-${result.effectiveMode === 'assemble' ? 'assembly' : 'disassembly'}.${choice.extension}`;
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: folder ? vscode.Uri.joinPath(folder, fileName) : undefined,
+			filters: { [choice.label]: [choice.extension] }
+		});
+		if (!target) {
+			return;
+		}
+		try {
+			await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+			vscode.window.setStatusBarMessage(l10n.t('RISC-V analyzer output exported to {0}.', vscode.workspace.asRelativePath(target)), 3000);
+		} catch (error) {
+			vscode.window.showErrorMessage(l10n.t('RISC-V export failed: {0}', toErrorMessage(error)));
+		}
+	}
+
+	private readHistory(): HistoryEntry[] {
+		return parseHistory(this.context.workspaceState.get(HISTORY_KEY));
+	}
+
+	private async writeHistory(entries: HistoryEntry[]): Promise<void> {
+		await this.context.workspaceState.update(HISTORY_KEY, entries);
+		this.enqueueMessage({ type: 'history', value: summarizeHistory(entries) });
+	}
+
+	private async recordHistory(request: RunRequestMessage, result: AnalyzerExecutionResult): Promise<void> {
+		await this.writeHistory(addHistoryEntry(this.readHistory(), {
+			id: randomUUID(),
+			mode: request.mode,
+			input: request.input,
+			xlen: request.xlen ?? String(getConfiguredXlen()),
+			inputFormat: request.inputFormat ?? getConfiguredInputFormat(),
+			baseAddress: request.baseAddress ?? getConfiguredBaseAddress(),
+			output: result.output,
+			timestamp: Date.now(),
+			pinned: false
+		}));
+	}
+
+	private async handleHistoryAction(message: HistoryActionMessage): Promise<void> {
+		const entries = this.readHistory();
+		const entry = entries.find(candidate => candidate.id === message.id);
+		if (!entry) {
+			return;
+		}
+		switch (message.action) {
+			case 'rerun':
+				if (entry.omittedInputLength !== undefined) {
+					this.enqueueMessage({
+						type: 'info',
+						value: l10n.t('The input of this run ({0} characters) was too large to keep, so it cannot be run again.', String(entry.omittedInputLength))
+					});
+					break;
+				}
+				draftMessages(entry).forEach(draftMessage => this.enqueueMessage(draftMessage));
+				await this.handleRun({
+					type: 'run',
+					input: entry.input,
+					mode: entry.mode,
+					xlen: entry.xlen,
+					inputFormat: entry.inputFormat,
+					baseAddress: entry.baseAddress
+				});
+				break;
+			case 'rename': {
+				const name = await vscode.window.showInputBox({
+					prompt: l10n.t('Name for this history entry (leave empty to name it after its input)'),
+					value: entry.name ?? ''
+				});
+				if (name !== undefined) {
+					await this.writeHistory(updateHistoryEntry(this.readHistory(), entry.id, { name: name.trim() || undefined }));
+				}
+				break;
+			}
+			case 'pin':
+			case 'unpin':
+				await this.writeHistory(updateHistoryEntry(entries, entry.id, { pinned: message.action === 'pin' }));
+				break;
+			case 'delete':
+				await this.writeHistory(removeHistoryEntry(entries, entry.id));
+				break;
+		}
+	}
+
 	private pushActiveSelection(): void {
 		const activeText = getActiveSelectionText();
 		if (typeof activeText === 'string' && activeText.length > 0) {
@@ -169,6 +679,9 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 				font-family: var(--vscode-font-family);
 				font-size: var(--vscode-font-size);
 			}
+			[hidden] {
+				display: none !important;
+			}
 			body {
 				margin: 0;
 				padding: 12px;
@@ -212,26 +725,302 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 				gap: 8px;
 				flex-wrap: wrap;
 			}
+			select {
+				padding: 5px 8px;
+				border-radius: 4px;
+				color: var(--vscode-dropdown-foreground);
+				background: var(--vscode-dropdown-background);
+				border: 1px solid var(--vscode-dropdown-border, transparent);
+			}
+			.address-input {
+				width: 9em;
+				padding: 5px 8px;
+				border-radius: 4px;
+				font-family: var(--vscode-editor-font-family, monospace);
+				color: var(--vscode-input-foreground);
+				background: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+			}
+			.toggle {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+			}
+			.fields-view {
+				display: flex;
+				flex-direction: column;
+				gap: 10px;
+				font-family: var(--vscode-editor-font-family, monospace);
+				font-size: 12px;
+			}
+			.field-title {
+				font-weight: 600;
+				margin-bottom: 2px;
+			}
+			.field-row {
+				display: flex;
+				border: 1px solid var(--vscode-panel-border, var(--vscode-input-border));
+				border-radius: 4px;
+				overflow: hidden;
+			}
+			.field-cell {
+				min-width: 0;
+				padding: 2px 3px;
+				text-align: center;
+				overflow: hidden;
+				border-left: 1px solid var(--vscode-panel-border, var(--vscode-input-border));
+				background: var(--vscode-editor-background);
+			}
+			.field-cell:first-child {
+				border-left: none;
+			}
+			.field-cell.immediate {
+				background: var(--vscode-editor-selectionHighlightBackground, var(--vscode-editor-background));
+			}
+			.field-name, .field-range {
+				color: var(--vscode-descriptionForeground);
+				white-space: nowrap;
+			}
+			.field-bits {
+				word-break: break-all;
+			}
+			.cfg-view {
+				display: flex;
+				flex-direction: column;
+				gap: 4px;
+				overflow-x: auto;
+			}
+			.cfg-view svg {
+				font-family: var(--vscode-editor-font-family, monospace);
+				font-size: 11px;
+			}
+			.cfg-node {
+				cursor: pointer;
+				outline: none;
+			}
+			.cfg-node rect {
+				fill: var(--vscode-editor-background);
+				stroke: var(--vscode-panel-border, var(--vscode-input-border));
+			}
+			.cfg-node:hover rect, .cfg-node:focus rect {
+				stroke: var(--vscode-focusBorder);
+			}
+			.cfg-node.selected rect {
+				stroke: var(--vscode-focusBorder);
+				stroke-width: 2;
+				fill: var(--vscode-editor-selectionBackground, var(--vscode-editor-background));
+			}
+			.cfg-node text {
+				fill: var(--vscode-editor-foreground);
+			}
+			.cfg-node .cfg-title {
+				font-weight: 600;
+			}
+			.cfg-node .cfg-exit {
+				fill: var(--vscode-descriptionForeground);
+				font-style: italic;
+			}
+			.cfg-edge {
+				fill: none;
+				stroke-width: 1.5;
+			}
+			.cfg-edge.taken {
+				stroke: var(--vscode-charts-green, #388a34);
+			}
+			.cfg-edge.fallthrough {
+				stroke: var(--vscode-descriptionForeground);
+			}
+			.cfg-edge.jump {
+				stroke: var(--vscode-charts-blue, #1a85ff);
+			}
+			.cfg-arrow.taken {
+				fill: var(--vscode-charts-green, #388a34);
+			}
+			.cfg-arrow.fallthrough {
+				fill: var(--vscode-descriptionForeground);
+			}
+			.cfg-arrow.jump {
+				fill: var(--vscode-charts-blue, #1a85ff);
+			}
+			.profile-view {
+				display: grid;
+				grid-template-columns: max-content 1fr max-content;
+				gap: 2px 8px;
+				align-items: center;
+				font-family: var(--vscode-editor-font-family, monospace);
+			}
+			.profile-bar {
+				height: 10px;
+				background: var(--vscode-charts-blue, #1a85ff);
+			}
+			.profile-view .unsupported {
+				color: var(--vscode-errorForeground);
+			}
+			.profile-bar.unsupported {
+				background: var(--vscode-errorForeground);
+			}
+			.profile-view .hint {
+				grid-column: 1 / -1;
+			}
+			.performance-view {
+				display: flex;
+				flex-direction: column;
+				gap: 6px;
+				font-family: var(--vscode-editor-font-family, monospace);
+				font-size: 12px;
+			}
+			.performance-view table {
+				border-collapse: collapse;
+			}
+			.performance-view th {
+				text-align: left;
+				font-weight: 600;
+				color: var(--vscode-descriptionForeground);
+			}
+			.performance-view td, .performance-view th {
+				padding: 0 8px 0 0;
+				white-space: nowrap;
+			}
+			.performance-view td.number {
+				text-align: right;
+			}
+			.performance-view tr.stalled td {
+				color: var(--vscode-editorWarning-foreground, var(--vscode-foreground));
+			}
+			.performance-view .compressible {
+				color: var(--vscode-editorWarning-foreground, var(--vscode-foreground));
+			}
+			.performance-view .not-compressible {
+				color: var(--vscode-descriptionForeground);
+			}
+			.performance-view tbody tr, .performance-block {
+				cursor: pointer;
+			}
+			.performance-view tbody tr:hover, .performance-block:hover {
+				background: var(--vscode-list-hoverBackground);
+			}
+			.simulator-view {
+				display: flex;
+				flex-direction: column;
+				gap: 8px;
+			}
+			.register-grid {
+				display: grid;
+				grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+				gap: 4px 8px;
+				font-family: var(--vscode-editor-font-family, monospace);
+				font-size: 12px;
+			}
+			.register {
+				display: flex;
+				align-items: center;
+				gap: 4px;
+			}
+			.register-name {
+				min-width: 6.5em;
+				color: var(--vscode-descriptionForeground);
+			}
+			.register-input {
+				flex: 1;
+				min-width: 0;
+				padding: 1px 4px;
+				font-family: inherit;
+				font-size: inherit;
+				color: var(--vscode-input-foreground);
+				background: var(--vscode-input-background);
+				border: 1px solid var(--vscode-input-border, transparent);
+				border-radius: 2px;
+			}
+			.register.changed .register-input, .memory-row.changed {
+				background: var(--vscode-editor-findMatchHighlightBackground, var(--vscode-editor-selectionBackground));
+			}
+			.memory-view {
+				display: flex;
+				flex-direction: column;
+				gap: 2px;
+				font-family: var(--vscode-editor-font-family, monospace);
+				font-size: 12px;
+			}
 			.status-line {
 				min-height: 18px;
+				white-space: pre-line;
 				color: var(--vscode-descriptionForeground);
 			}
 			.hint {
 				font-size: 12px;
 				color: var(--vscode-descriptionForeground);
 			}
+			.history-view {
+				display: flex;
+				flex-direction: column;
+				gap: 4px;
+				max-height: 240px;
+				overflow-y: auto;
+			}
+			.history-entry {
+				display: flex;
+				flex-wrap: wrap;
+				align-items: center;
+				gap: 2px 6px;
+				padding: 2px 0;
+				border-bottom: 1px solid var(--vscode-panel-border, transparent);
+			}
+			.history-title {
+				flex: 1;
+				min-width: 8em;
+				overflow: hidden;
+				text-overflow: ellipsis;
+				white-space: nowrap;
+				font-family: var(--vscode-editor-font-family, monospace);
+			}
+			.history-entry.pinned .history-title {
+				font-weight: 600;
+			}
+			.history-entry button {
+				padding: 1px 6px;
+				font-weight: normal;
+			}
 		`;
 
 		const uiStrings = {
 			inputHeading: l10n.t('Input'),
 			loadSelectionLabel: l10n.t('Load active selection'),
+			showHistoryLabel: l10n.t('Show history'),
 			inputPlaceholder: l10n.t('Enter assembly or machine code...'),
 			outputHeading: l10n.t('Output'),
 			outputPlaceholder: l10n.t('Results appear here'),
 			runButtonLabel: l10n.t('Assemble / Disassemble'),
 			runButtonHint: l10n.t('Click to assemble. Hold Alt and click to disassemble.'),
 			copyButtonLabel: l10n.t('Copy Output'),
+			exportButtonLabel: l10n.t('Export...'),
+			exportButtonHint: l10n.t('Save the output as JSON, CSV, a Markdown table or plain text.'),
+			openInEditorButtonLabel: l10n.t('Open in Editor'),
+			openInEditorButtonHint: l10n.t('Open the output in a new untitled editor.'),
 			clearButtonLabel: l10n.t('Clear'),
+			cancelButtonLabel: l10n.t('Cancel'),
+			cancelButtonHint: l10n.t('Stop the run in progress.'),
+			xlenLabel: l10n.t('XLEN'),
+			xlenAutoLabel: l10n.t('Auto'),
+			inputFormatLabel: l10n.t('Input format'),
+			baseAddressLabel: l10n.t('Base address'),
+			showFieldsLabel: l10n.t('Show encoding fields'),
+			showControlFlowLabel: l10n.t('Show control-flow graph'),
+			showExtensionProfileLabel: l10n.t('Show extension profile'),
+			showPerformanceLabel: l10n.t('Show performance estimate'),
+			showCompressionLabel: l10n.t('Show compression report'),
+			missedCompressionsLabel: l10n.t('Only instructions that could be compressed'),
+			showSimulatorLabel: l10n.t('Show simulator'),
+			simulateButtonLabel: l10n.t('Simulate'),
+			simulateButtonHint: l10n.t('Load the input and start a new simulation.'),
+			stepButtonLabel: l10n.t('Step'),
+			stepButtonHint: l10n.t('Execute one instruction.'),
+			runToEndButtonLabel: l10n.t('Run'),
+			runToEndButtonHint: l10n.t('Run until the snippet ends, a trap occurs or the instruction limit is reached.'),
+			resetButtonLabel: l10n.t('Reset'),
+			resetButtonHint: l10n.t('Restart from the initial register values.'),
+			compressedLabel: l10n.t('Compressed (RVC)'),
+			registersHeading: l10n.t('Registers'),
+			memoryHeading: l10n.t('Memory'),
 			disassemblerHint: l10n.t('Alt+Click the main button to run the disassembler.'),
 			clearedStatus: l10n.t('Cleared input and output.'),
 			runningStatus: l10n.t('Running...'),
@@ -239,35 +1028,672 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 			defaultError: l10n.t('An error occurred.')
 		};
 
+		const configuredXlen = getConfiguredXlen();
+		const xlenOptions = XLEN_SETTINGS
+			.map(setting => {
+				const label = setting === 'auto' ? uiStrings.xlenAutoLabel : `RV${setting}`;
+				const selected = setting === configuredXlen ? ' selected' : '';
+				return `<option value="${setting}"${selected}>${escapeHtml(label)}</option>`;
+			})
+			.join('');
+
+		const inputFormatLabels: Record<InputFormat, string> = {
+			auto: l10n.t('Auto-detect format'),
+			hexWords: l10n.t('Hex words'),
+			byteStream: l10n.t('Byte stream'),
+			listing: l10n.t('Disassembly listing'),
+			intelHex: l10n.t('Intel HEX'),
+			srec: l10n.t('Motorola S-record'),
+			cArray: l10n.t('C array'),
+			dataDirectives: l10n.t('Data directives'),
+			binary: l10n.t('Raw binary')
+		};
+		const configuredInputFormat = getConfiguredInputFormat();
+		const inputFormatOptions = INPUT_FORMATS
+			.filter(format => format !== 'binary')
+			.map(format => {
+				const selected = format === configuredInputFormat ? ' selected' : '';
+				return `<option value="${format}"${selected}>${escapeHtml(inputFormatLabels[format])}</option>`;
+			})
+			.join('');
+
 		const scriptStrings = JSON.stringify({
 			runButtonLabel: uiStrings.runButtonLabel,
 			processingLabel: uiStrings.processingLabel,
 			clearedStatus: uiStrings.clearedStatus,
 			runningStatus: uiStrings.runningStatus,
-			defaultError: uiStrings.defaultError
+			decodingStatus: l10n.t('Decoded {0} of {1} instructions...', '{0}', '{1}'),
+			defaultError: uiStrings.defaultError,
+			formatLabel: l10n.t('Format'),
+			immediateLabel: l10n.t('Immediate'),
+			unknownInstruction: l10n.t('unknown'),
+			maxControlFlowBlocks: MAX_CONTROL_FLOW_BLOCKS,
+			controlFlowTruncated: l10n.t('Only the first {0} blocks are shown.', String(MAX_CONTROL_FLOW_BLOCKS)),
+			controlFlowHint: l10n.t('Click a block to select its lines in the output.'),
+			exitLabels: {
+				return: l10n.t('returns'),
+				indirect: l10n.t('indirect jump'),
+				external: l10n.t('leaves the snippet')
+			},
+			moreInstructions: l10n.t('more'),
+			unsupportedExtensionsHint: l10n.t('Highlighted extensions are not implemented by the target -march.'),
+			registerNames: INTEGER_REGISTER_NAMES,
+			maxMemoryWords: MAX_MEMORY_WORDS,
+			memoryTruncated: l10n.t('Only the first {0} memory words are shown.', String(MAX_MEMORY_WORDS)),
+			noMemoryWritten: l10n.t('No memory has been written yet.'),
+			simulatorHint: l10n.t('Simulate loads the input; edit registers before the first step to set their initial values.'),
+			simulatorState: l10n.t('pc {0}, {1} instruction(s) executed', '{0}', '{1}'),
+			performanceSummary: l10n.t('{0}: {1} cycle(s) for the whole snippet with branches not taken.', '{0}', '{1}'),
+			cycleLabel: l10n.t('Cycle'),
+			stallLabel: l10n.t('Stall'),
+			instructionLabel: l10n.t('Instruction'),
+			stallCauses: {
+				dependency: l10n.t('waits for {0}', '{0}'),
+				loadUse: l10n.t('load-use on {0}', '{0}'),
+				jump: l10n.t('jump penalty')
+			},
+			basicBlocksLabel: l10n.t('Basic blocks'),
+			blockCycles: l10n.t('{0}: {1} cycle(s)', '{0}', '{1}'),
+			takenPenalty: l10n.t('+{0} if taken', '{0}'),
+			compressionSummary: l10n.t('{0} compressed instruction(s), {1} byte(s) in total. {2} more instruction(s) have an RVC form, which would save {3} byte(s).', '{0}', '{1}', '{2}', '{3}'),
+			expandsTo: l10n.t('expands to {0}', '{0}'),
+			couldBe: l10n.t('could be {0}', '{0}'),
+			notCompressible: l10n.t('not {0}: {1}', '{0}', '{1}'),
+			noHistory: l10n.t('Runs are listed here and kept with the workspace.'),
+			historyModes: {
+				assemble: l10n.t('assembly'),
+				disassemble: l10n.t('disassembly')
+			},
+			historyActions: {
+				rerun: l10n.t('Re-run'),
+				rename: l10n.t('Rename'),
+				pin: l10n.t('Pin'),
+				unpin: l10n.t('Unpin'),
+				delete: l10n.t('Delete')
+			}
 		});
 
 		const script = `
 			const strings = ${scriptStrings};
 			const vscode = acquireVsCodeApi();
 			const inputArea = document.getElementById('inputArea');
+			const historyToggle = document.getElementById('historyToggle');
+			const historyView = document.getElementById('historyView');
 			const outputArea = document.getElementById('outputArea');
 			const runButton = document.getElementById('runButton');
 			const copyButton = document.getElementById('copyButton');
+			const exportButton = document.getElementById('exportButton');
+			const openInEditorButton = document.getElementById('openInEditorButton');
 			const clearButton = document.getElementById('clearButton');
+			const cancelButton = document.getElementById('cancelButton');
 			const statusLine = document.getElementById('statusLine');
+			const xlenSelect = document.getElementById('xlenSelect');
+			const inputFormatSelect = document.getElementById('inputFormatSelect');
+			const baseAddressInput = document.getElementById('baseAddressInput');
+			const fieldsToggle = document.getElementById('fieldsToggle');
+			const fieldsView = document.getElementById('fieldsView');
+			const controlFlowToggle = document.getElementById('controlFlowToggle');
+			const controlFlowView = document.getElementById('controlFlowView');
+			const profileToggle = document.getElementById('profileToggle');
+			const profileView = document.getElementById('profileView');
+			const performanceToggle = document.getElementById('performanceToggle');
+			const performanceView = document.getElementById('performanceView');
+			const compressionToggle = document.getElementById('compressionToggle');
+			const compressionOptions = document.getElementById('compressionOptions');
+			const missedCompressionsToggle = document.getElementById('missedCompressionsToggle');
+			const compressionView = document.getElementById('compressionView');
+			const simulatorToggle = document.getElementById('simulatorToggle');
+			const simulatorView = document.getElementById('simulatorView');
+			const simulateButton = document.getElementById('simulateButton');
+			const stepButton = document.getElementById('stepButton');
+			const runToEndButton = document.getElementById('runToEndButton');
+			const resetButton = document.getElementById('resetButton');
+			const compressedToggle = document.getElementById('compressedToggle');
+			const simulatorStatus = document.getElementById('simulatorStatus');
+			const simulatorState = document.getElementById('simulatorState');
+			const registerView = document.getElementById('registerView');
+			const memoryView = document.getElementById('memoryView');
+			const svgNamespace = 'http://www.w3.org/2000/svg';
+			// Set while the status line shows a placeholder (running, progress, cleared) that the next info message replaces.
+			let statusLineIsTransient = false;
+			let isRunning = false;
+			let history = [];
+			let draftTimer;
+			let breakdowns = [];
+			let controlFlow = [];
+			let extensionProfile = [];
+			let performance = null;
+			let compression = null;
+			let simulation = null;
+
+			function renderBreakdowns() {
+				fieldsView.replaceChildren();
+				fieldsView.hidden = !fieldsToggle.checked || breakdowns.length === 0;
+				if (fieldsView.hidden) {
+					return;
+				}
+				for (const entry of breakdowns) {
+					const block = document.createElement('div');
+					const title = document.createElement('div');
+					title.className = 'field-title';
+					const formatText = entry.format ? strings.formatLabel + ' ' + entry.format : '';
+					title.textContent = [entry.encoding, entry.mnemonic ?? strings.unknownInstruction, formatText].filter(Boolean).join('  ');
+					block.appendChild(title);
+
+					const row = document.createElement('div');
+					row.className = 'field-row';
+					for (const field of entry.fields) {
+						const width = field.high - field.low + 1;
+						const cell = document.createElement('div');
+						cell.className = field.name.startsWith('imm') ? 'field-cell immediate' : 'field-cell';
+						cell.style.flex = String(width);
+						const range = field.high === field.low ? String(field.high) : field.high + ':' + field.low;
+						cell.title = field.name + ' [' + range + '] = ' + field.value;
+						const name = document.createElement('div');
+						name.className = 'field-name';
+						name.textContent = field.name;
+						const bits = document.createElement('div');
+						bits.className = 'field-bits';
+						bits.textContent = field.value.toString(2).padStart(width, '0');
+						const rangeLabel = document.createElement('div');
+						rangeLabel.className = 'field-range';
+						rangeLabel.textContent = range;
+						cell.append(name, bits, rangeLabel);
+						row.appendChild(cell);
+					}
+					block.appendChild(row);
+
+					if (typeof entry.immediate === 'number') {
+						const immediate = document.createElement('div');
+						immediate.className = 'hint';
+						const hex = (entry.immediate < 0 ? '-0x' : '0x') + Math.abs(entry.immediate).toString(16);
+						immediate.textContent = strings.immediateLabel + ' = ' + entry.immediate + ' (' + hex + ')';
+						block.appendChild(immediate);
+					}
+					fieldsView.appendChild(block);
+				}
+			}
+
+			fieldsToggle.addEventListener('change', () => renderBreakdowns());
+
+			function svgElement(name, attributes) {
+				const element = document.createElementNS(svgNamespace, name);
+				for (const [key, value] of Object.entries(attributes)) {
+					element.setAttribute(key, String(value));
+				}
+				return element;
+			}
+
+			function assignLanes(edges) {
+				const lanes = [];
+				const sorted = [...edges].sort((left, right) => Math.abs(left.to - left.from) - Math.abs(right.to - right.from));
+				for (const edge of sorted) {
+					const low = Math.min(edge.from, edge.to);
+					const high = Math.max(edge.from, edge.to);
+					let lane = 0;
+					while ((lanes[lane] ?? []).some(range => range[0] <= high && low <= range[1])) {
+						lane += 1;
+					}
+					lanes[lane] = [...(lanes[lane] ?? []), [low, high]];
+					edge.lane = lane;
+				}
+				return lanes.length;
+			}
+
+			function selectOutputLines(startLine, endLine, keepFocus) {
+				const rows = outputArea.value.split('\\n');
+				let start = 0;
+				for (let index = 0; index < startLine && index < rows.length; index += 1) {
+					start += rows[index].length + 1;
+				}
+				let end = start;
+				for (let index = startLine; index <= endLine && index < rows.length; index += 1) {
+					end += rows[index].length + 1;
+				}
+				if (!keepFocus) {
+					outputArea.focus();
+				}
+				outputArea.setSelectionRange(start, Math.max(start, end - 1));
+				const lineHeight = outputArea.scrollHeight / Math.max(rows.length, 1);
+				outputArea.scrollTop = Math.max(0, startLine * lineHeight - outputArea.clientHeight / 3);
+			}
+
+			function renderControlFlow() {
+				controlFlowView.replaceChildren();
+				controlFlowView.hidden = !controlFlowToggle.checked || controlFlow.length === 0;
+				if (controlFlowView.hidden) {
+					return;
+				}
+
+				const hint = document.createElement('div');
+				hint.className = 'hint';
+				hint.textContent = strings.controlFlowHint;
+				controlFlowView.appendChild(hint);
+				const blocks = controlFlow.slice(0, strings.maxControlFlowBlocks);
+				if (blocks.length < controlFlow.length) {
+					const truncated = document.createElement('div');
+					truncated.className = 'hint';
+					truncated.textContent = strings.controlFlowTruncated;
+					controlFlowView.appendChild(truncated);
+				}
+
+				const lineHeight = 14;
+				const padding = 6;
+				const gap = 22;
+				const laneWidth = 8;
+				const maxLines = 8;
+				const edges = [];
+				blocks.forEach((block, index) => {
+					for (const successor of block.successors) {
+						if (successor.target < blocks.length) {
+							edges.push({ from: index, to: successor.target, kind: successor.kind });
+						}
+					}
+				});
+				const sideEdges = edges.filter(edge => edge.kind !== 'fallthrough' || edge.to !== edge.from + 1);
+				const laneCount = assignLanes(sideEdges);
+				const nodeWidth = Math.max(160, (controlFlowView.clientWidth || 280) - 16 - laneCount * laneWidth);
+
+				const layout = [];
+				let y = 4;
+				for (const block of blocks) {
+					const shown = block.instructions.slice(0, maxLines);
+					const extraRows = (block.instructions.length > maxLines ? 1 : 0) + (block.exit ? 1 : 0);
+					const height = padding * 2 + lineHeight * (1 + shown.length + extraRows);
+					layout.push({ top: y, height, shown });
+					y += height + gap;
+				}
+
+				const width = nodeWidth + 16 + laneCount * laneWidth;
+				const svg = svgElement('svg', { width, height: y, role: 'img' });
+				const defs = svgElement('defs', {});
+				for (const kind of ['taken', 'fallthrough', 'jump']) {
+					const marker = svgElement('marker', {
+						id: 'arrow-' + kind,
+						viewBox: '0 0 8 8',
+						refX: 7,
+						refY: 4,
+						markerWidth: 6,
+						markerHeight: 6,
+						orient: 'auto'
+					});
+					marker.appendChild(svgElement('path', { d: 'M0,0 L8,4 L0,8 z', class: 'cfg-arrow ' + kind }));
+					defs.appendChild(marker);
+				}
+				svg.appendChild(defs);
+
+				for (const edge of edges) {
+					const from = layout[edge.from];
+					const to = layout[edge.to];
+					let path;
+					if (edge.lane === undefined) {
+						const x = nodeWidth / 2;
+						path = 'M' + x + ',' + (from.top + from.height) + ' L' + x + ',' + to.top;
+					} else {
+						const x = nodeWidth + 8 + edge.lane * laneWidth;
+						const startY = from.top + from.height - padding;
+						const endY = to.top + padding + lineHeight / 2;
+						path = 'M' + nodeWidth + ',' + startY + ' H' + x + ' V' + endY + ' H' + nodeWidth;
+					}
+					svg.appendChild(svgElement('path', { d: path, class: 'cfg-edge ' + edge.kind, 'marker-end': 'url(#arrow-' + edge.kind + ')' }));
+				}
+
+				blocks.forEach((block, index) => {
+					const { top, height, shown } = layout[index];
+					const node = svgElement('g', { class: 'cfg-node', tabindex: 0, role: 'button' });
+					node.appendChild(svgElement('rect', { x: 0.5, y: top + 0.5, width: nodeWidth - 1, height: height - 1, rx: 3 }));
+					const content = svgElement('svg', { x: padding, y: top + padding, width: nodeWidth - padding * 2, height: height - padding * 2 });
+					const rows = [{ text: block.label + ':', className: 'cfg-title' }, ...shown.map(text => ({ text, className: '' }))];
+					if (block.instructions.length > shown.length) {
+						rows.push({ text: '... ' + (block.instructions.length - shown.length) + ' ' + strings.moreInstructions, className: 'cfg-exit' });
+					}
+					if (block.exit) {
+						rows.push({ text: strings.exitLabels[block.exit] ?? block.exit, className: 'cfg-exit' });
+					}
+					rows.forEach((row, rowIndex) => {
+						const text = svgElement('text', { x: 0, y: lineHeight * (rowIndex + 1) - 3 });
+						if (row.className) {
+							text.setAttribute('class', row.className);
+						}
+						text.textContent = row.text;
+						content.appendChild(text);
+					});
+					node.appendChild(content);
+
+					const select = () => {
+						svg.querySelectorAll('.cfg-node.selected').forEach(other => other.classList.remove('selected'));
+						node.classList.add('selected');
+						selectOutputLines(block.startLine, block.endLine);
+					};
+					node.addEventListener('click', select);
+					node.addEventListener('keydown', event => {
+						if (event.key === 'Enter' || event.key === ' ') {
+							event.preventDefault();
+							select();
+						}
+					});
+					svg.appendChild(node);
+				});
+
+				controlFlowView.appendChild(svg);
+			}
+
+			controlFlowToggle.addEventListener('change', () => renderControlFlow());
+
+			function renderHistory() {
+				historyView.replaceChildren();
+				historyView.hidden = !historyToggle.checked;
+				if (historyView.hidden) {
+					return;
+				}
+				if (history.length === 0) {
+					const empty = document.createElement('div');
+					empty.className = 'hint';
+					empty.textContent = strings.noHistory;
+					historyView.appendChild(empty);
+				}
+				for (const entry of history) {
+					const row = document.createElement('div');
+					row.className = entry.pinned ? 'history-entry pinned' : 'history-entry';
+					const title = document.createElement('span');
+					title.className = 'history-title';
+					title.textContent = entry.title;
+					title.title = entry.preview;
+					const details = document.createElement('span');
+					details.className = 'hint';
+					details.textContent = strings.historyModes[entry.mode] + ', ' + new Date(entry.timestamp).toLocaleString();
+					row.append(title, details);
+					for (const action of ['rerun', 'rename', entry.pinned ? 'unpin' : 'pin', 'delete']) {
+						const button = document.createElement('button');
+						button.textContent = strings.historyActions[action];
+						button.disabled = isRunning;
+						button.addEventListener('click', event => {
+							event.preventDefault();
+							vscode.postMessage({ type: 'historyAction', action, id: entry.id });
+						});
+						row.appendChild(button);
+					}
+					historyView.appendChild(row);
+				}
+			}
+
+			historyToggle.addEventListener('change', () => renderHistory());
+
+			/** Saves the input and run settings shortly after the last edit so that they survive reloads. */
+			function scheduleDraft() {
+				clearTimeout(draftTimer);
+				draftTimer = setTimeout(() => {
+					vscode.postMessage({
+						type: 'saveDraft',
+						value: {
+							input: inputArea.value,
+							xlen: xlenSelect.value,
+							inputFormat: inputFormatSelect.value,
+							baseAddress: baseAddressInput.value
+						}
+					});
+				}, 400);
+			}
+
+			inputArea.addEventListener('input', scheduleDraft);
+			xlenSelect.addEventListener('change', scheduleDraft);
+			inputFormatSelect.addEventListener('change', scheduleDraft);
+			baseAddressInput.addEventListener('input', scheduleDraft);
 
-			function setRunning(isRunning) {
+			function renderExtensionProfile() {
+				profileView.replaceChildren();
+				profileView.hidden = !profileToggle.checked || extensionProfile.length === 0;
+				if (profileView.hidden) {
+					return;
+				}
+				const largest = Math.max(...extensionProfile.map(entry => entry.count));
+				for (const entry of extensionProfile) {
+					const className = entry.unsupported ? 'unsupported' : '';
+					const name = document.createElement('span');
+					name.className = className;
+					name.textContent = entry.extension === 'unknown' ? strings.unknownInstruction : entry.extension;
+					const bar = document.createElement('div');
+					bar.className = 'profile-bar ' + className;
+					bar.style.width = Math.max(1, Math.round(entry.count / largest * 100)) + '%';
+					const count = document.createElement('span');
+					count.className = className;
+					count.textContent = String(entry.count);
+					profileView.append(name, bar, count);
+				}
+				if (extensionProfile.some(entry => entry.unsupported)) {
+					const hint = document.createElement('div');
+					hint.className = 'hint unsupported';
+					hint.textContent = strings.unsupportedExtensionsHint;
+					profileView.appendChild(hint);
+				}
+			}
+
+			profileToggle.addEventListener('change', () => renderExtensionProfile());
+
+			function renderPerformance() {
+				performanceView.replaceChildren();
+				performanceView.hidden = !performanceToggle.checked || !performance || performance.instructions.length === 0;
+				if (performanceView.hidden) {
+					return;
+				}
+				const summary = document.createElement('div');
+				summary.textContent = formatString(strings.performanceSummary, performance.model, performance.totalCycles);
+				performanceView.appendChild(summary);
+
+				const table = document.createElement('table');
+				const header = table.createTHead().insertRow();
+				for (const label of [strings.cycleLabel, strings.stallLabel, strings.instructionLabel, '']) {
+					const cell = document.createElement('th');
+					cell.textContent = label;
+					header.appendChild(cell);
+				}
+				const body = table.createTBody();
+				for (const entry of performance.instructions) {
+					const row = body.insertRow();
+					row.className = entry.stall > 0 ? 'stalled' : '';
+					const cells = [
+						String(entry.cycle),
+						entry.stall > 0 ? '+' + entry.stall : '',
+						entry.text,
+						entry.cause ? formatString(strings.stallCauses[entry.cause], entry.register ?? '') : ''
+					];
+					cells.forEach((text, index) => {
+						const cell = row.insertCell();
+						cell.textContent = text;
+						cell.className = index < 2 ? 'number' : '';
+					});
+					row.addEventListener('click', () => selectOutputLines(entry.line, entry.line));
+				}
+				performanceView.appendChild(table);
+
+				const blocksTitle = document.createElement('div');
+				blocksTitle.className = 'field-title';
+				blocksTitle.textContent = strings.basicBlocksLabel;
+				performanceView.appendChild(blocksTitle);
+				for (const block of performance.blocks) {
+					const item = document.createElement('div');
+					item.className = 'performance-block';
+					item.textContent = formatString(strings.blockCycles, block.label, block.cycles)
+						+ (block.takenPenalty > 0 ? ' (' + formatString(strings.takenPenalty, block.takenPenalty) + ')' : '');
+					item.addEventListener('click', () => selectOutputLines(block.startLine, block.endLine));
+					performanceView.appendChild(item);
+				}
+			}
+
+			performanceToggle.addEventListener('change', () => renderPerformance());
+
+			function renderCompression() {
+				compressionView.replaceChildren();
+				compressionView.hidden = !compressionToggle.checked || !compression || compression.totalBytes === 0;
+				compressionOptions.hidden = compressionView.hidden;
+				if (compressionView.hidden) {
+					return;
+				}
+				const summary = document.createElement('div');
+				summary.textContent = formatString(
+					strings.compressionSummary,
+					compression.compressedCount,
+					compression.totalBytes,
+					compression.compressibleCount,
+					compression.potentialSavings
+				);
+				compressionView.appendChild(summary);
+
+				const table = document.createElement('table');
+				const body = table.createTBody();
+				for (const entry of compression.entries) {
+					const compressible = entry.form && !entry.reason;
+					if (missedCompressionsToggle.checked && !compressible) {
+						continue;
+					}
+					const row = body.insertRow();
+					row.insertCell().textContent = entry.text;
+					const detail = row.insertCell();
+					if (entry.expansion) {
+						detail.textContent = formatString(strings.expandsTo, entry.expansion + ' (' + entry.expansionEncoding + ')');
+					} else if (compressible) {
+						detail.textContent = formatString(strings.couldBe, entry.form);
+						detail.className = 'compressible';
+					} else if (entry.form) {
+						detail.textContent = formatString(strings.notCompressible, entry.form, entry.reason);
+						detail.className = 'not-compressible';
+					}
+					row.addEventListener('click', () => selectOutputLines(entry.line, entry.line));
+				}
+				compressionView.appendChild(table);
+			}
+
+			compressionToggle.addEventListener('change', () => renderCompression());
+			missedCompressionsToggle.addEventListener('change', () => renderCompression());
+
+			function formatString(template, ...values) {
+				return template.replace(/\\{(\\d+)\\}/g, (match, index) => String(values[Number(index)] ?? match));
+			}
+
+			function outputRowForAddress(address) {
+				const target = BigInt(address);
+				return outputArea.value.split('\\n').findIndex(row => {
+					const match = /^([0-9a-f]+):\\s/i.exec(row);
+					return match !== null && BigInt('0x' + match[1]) === target;
+				});
+			}
+
+			function renderSimulation() {
+				const halted = Boolean(simulation?.stop && simulation.stop.reason !== 'limit');
+				stepButton.disabled = !simulation || halted;
+				runToEndButton.disabled = !simulation || halted;
+				resetButton.disabled = !simulation;
+				registerView.replaceChildren();
+				memoryView.replaceChildren();
+				simulatorState.hidden = !simulation;
+				if (!simulation) {
+					simulatorStatus.textContent = strings.simulatorHint;
+					return;
+				}
+
+				const row = outputRowForAddress(simulation.pc);
+				const lines = [formatString(strings.simulatorState, simulation.pc, simulation.steps)];
+				if (simulation.stop) {
+					lines.push(simulation.stop.message);
+				} else if (row >= 0) {
+					lines.push(outputArea.value.split('\\n')[row].trim());
+				}
+				simulatorStatus.textContent = lines.join('\\n');
+				if (row >= 0) {
+					selectOutputLines(row, row, true);
+				}
+
+				simulation.registers.forEach((value, index) => {
+					const cell = document.createElement('label');
+					cell.className = simulation.changedRegisters.includes(index) ? 'register changed' : 'register';
+					const name = document.createElement('span');
+					name.className = 'register-name';
+					name.textContent = 'x' + index + ' ' + strings.registerNames[index];
+					const input = document.createElement('input');
+					input.className = 'register-input';
+					input.value = value;
+					input.spellcheck = false;
+					input.readOnly = index === 0;
+					input.addEventListener('change', () => {
+						vscode.postMessage({ type: 'simulatorSetRegister', register: index, value: input.value });
+					});
+					cell.append(name, input);
+					registerView.appendChild(cell);
+				});
+
+				if (simulation.memory.length === 0) {
+					const empty = document.createElement('div');
+					empty.className = 'hint';
+					empty.textContent = strings.noMemoryWritten;
+					memoryView.appendChild(empty);
+				}
+				for (const word of simulation.memory.slice(0, strings.maxMemoryWords)) {
+					const entry = document.createElement('div');
+					entry.className = simulation.changedMemory.includes(word.address) ? 'memory-row changed' : 'memory-row';
+					entry.textContent = word.address + ': ' + word.value;
+					memoryView.appendChild(entry);
+				}
+				if (simulation.memory.length > strings.maxMemoryWords) {
+					const truncated = document.createElement('div');
+					truncated.className = 'hint';
+					truncated.textContent = strings.memoryTruncated;
+					memoryView.appendChild(truncated);
+				}
+			}
+
+			simulatorToggle.addEventListener('change', () => {
+				simulatorView.hidden = !simulatorToggle.checked;
+			});
+
+			simulateButton.addEventListener('click', event => {
+				event.preventDefault();
+				vscode.postMessage({
+					type: 'simulate',
+					input: inputArea.value,
+					xlen: xlenSelect.value,
+					inputFormat: inputFormatSelect.value,
+					baseAddress: baseAddressInput.value,
+					compressed: compressedToggle.checked
+				});
+			});
+
+			for (const [button, action] of [[stepButton, 'step'], [runToEndButton, 'run'], [resetButton, 'reset']]) {
+				button.addEventListener('click', event => {
+					event.preventDefault();
+					vscode.postMessage({ type: 'simulatorControl', action });
+				});
+			}
+
+			function setRunning(running) {
+				isRunning = running;
+				historyView.querySelectorAll('button').forEach(button => {
+					button.disabled = isRunning;
+				});
 				runButton.disabled = isRunning;
 				copyButton.disabled = isRunning;
+				exportButton.disabled = isRunning;
+				openInEditorButton.disabled = isRunning;
 				clearButton.disabled = isRunning;
+				cancelButton.hidden = !isRunning;
+				simulateButton.disabled = isRunning;
 				runButton.textContent = isRunning ? strings.processingLabel : strings.runButtonLabel;
 			}
 
+			function postRun(mode) {
+				vscode.postMessage({
+					type: 'run',
+					input: inputArea.value,
+					mode,
+					xlen: xlenSelect.value,
+					inputFormat: inputFormatSelect.value,
+					baseAddress: baseAddressInput.value
+				});
+			}
+
 			runButton.addEventListener('click', event => {
 				event.preventDefault();
 				const mode = event.altKey ? 'disassemble' : 'assemble';
-				vscode.postMessage({ type: 'run', input: inputArea.value, mode });
+				postRun(mode);
 			});
 
 			copyButton.addEventListener('click', event => {
@@ -275,17 +1701,46 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 				vscode.postMessage({ type: 'copy', value: outputArea.value });
 			});
 
+			exportButton.addEventListener('click', event => {
+				event.preventDefault();
+				vscode.postMessage({ type: 'export', destination: 'file', value: outputArea.value });
+			});
+
+			openInEditorButton.addEventListener('click', event => {
+				event.preventDefault();
+				vscode.postMessage({ type: 'export', destination: 'editor', value: outputArea.value });
+			});
+
+			cancelButton.addEventListener('click', event => {
+				event.preventDefault();
+				vscode.postMessage({ type: 'cancel' });
+			});
+
 			clearButton.addEventListener('click', event => {
 				event.preventDefault();
 				inputArea.value = '';
 				outputArea.value = '';
+				breakdowns = [];
+				renderBreakdowns();
+				controlFlow = [];
+				renderControlFlow();
+				extensionProfile = [];
+				renderExtensionProfile();
+				performance = null;
+				renderPerformance();
+				compression = null;
+				renderCompression();
+				simulation = null;
+				renderSimulation();
+				scheduleDraft();
 				statusLine.textContent = strings.clearedStatus;
+				statusLineIsTransient = true;
 			});
 
 			inputArea.addEventListener('keydown', event => {
 				if ((event.metaKey || event.ctrlKey) && event.key === 'Enter') {
 					event.preventDefault();
-					vscode.postMessage({ type: 'run', input: inputArea.value, mode: 'assemble' });
+					postRun('assemble');
 				}
 			});
 
@@ -299,21 +1754,76 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 				switch (message.type) {
 					case 'setInput':
 						inputArea.value = message.value ?? '';
+						scheduleDraft();
+						break;
+					case 'setXlen':
+						xlenSelect.value = message.value ?? 'auto';
+						scheduleDraft();
+						break;
+					case 'setBaseAddress':
+						baseAddressInput.value = message.value ?? '';
+						scheduleDraft();
+						break;
+					case 'setInputFormat':
+						inputFormatSelect.value = message.value === 'binary' ? 'auto' : message.value ?? 'auto';
+						scheduleDraft();
+						break;
+					case 'history':
+						history = Array.isArray(message.value) ? message.value : [];
+						renderHistory();
 						break;
 					case 'result':
 						outputArea.value = message.value ?? '';
 						break;
+					case 'breakdown':
+						breakdowns = Array.isArray(message.value) ? message.value : [];
+						renderBreakdowns();
+						break;
+					case 'controlFlow':
+						controlFlow = Array.isArray(message.value) ? message.value : [];
+						renderControlFlow();
+						break;
+					case 'extensionProfile':
+						extensionProfile = Array.isArray(message.value) ? message.value : [];
+						renderExtensionProfile();
+						break;
+					case 'performance':
+						performance = message.value ?? null;
+						renderPerformance();
+						break;
+					case 'compression':
+						compression = message.value ?? null;
+						renderCompression();
+						break;
+					case 'simulation':
+						simulation = message.value ?? null;
+						renderSimulation();
+						break;
 					case 'status':
 						setRunning(message.value === 'running');
 						if (message.value === 'running') {
 							statusLine.textContent = strings.runningStatus;
+							statusLineIsTransient = true;
 						}
 						break;
+					case 'progress': {
+						const rows = message.value.rows.join('\\n');
+						const firstBatch = message.value.decoded === message.value.rows.length;
+						outputArea.value = firstBatch || !outputArea.value ? rows : outputArea.value + '\\n' + rows;
+						statusLine.textContent = formatString(strings.decodingStatus, message.value.decoded, message.value.total);
+						statusLineIsTransient = true;
+						break;
+					}
 					case 'error':
 						statusLine.textContent = message.value ?? strings.defaultError;
 						break;
 					case 'info':
-						statusLine.textContent = message.value ?? '';
+						if (statusLineIsTransient || !statusLine.textContent) {
+							statusLine.textContent = message.value ?? '';
+						} else {
+							statusLine.textContent += '\\n' + (message.value ?? '');
+						}
+						statusLineIsTransient = false;
 						break;
 					default:
 						break;
@@ -321,6 +1831,7 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 			});
 
 			setRunning(false);
+			renderSimulation();
 		`;
 
 		return `<!DOCTYPE html>
@@ -338,15 +1849,51 @@ class RiscvAnalyzerViewProvider implements vscode.WebviewViewProvider {
 					<a href="#" id="loadSelectionLink" class="hint">${escapeHtml(uiStrings.loadSelectionLabel)}</a>
 				</header>
 				<textarea id="inputArea" placeholder="${escapeAttribute(uiStrings.inputPlaceholder)}"></textarea>
+				<label class="toggle hint"><input type="checkbox" id="historyToggle" />${escapeHtml(uiStrings.showHistoryLabel)}</label>
+				<div id="historyView" class="history-view" hidden></div>
 			</section>
 			<section>
 				<h2>${escapeHtml(uiStrings.outputHeading)}</h2>
 				<textarea id="outputArea" placeholder="${escapeAttribute(uiStrings.outputPlaceholder)}" readonly></textarea>
+				<label class="toggle hint"><input type="checkbox" id="fieldsToggle" />${escapeHtml(uiStrings.showFieldsLabel)}</label>
+				<div id="fieldsView" class="fields-view" hidden></div>
+				<label class="toggle hint"><input type="checkbox" id="controlFlowToggle" />${escapeHtml(uiStrings.showControlFlowLabel)}</label>
+				<div id="controlFlowView" class="cfg-view" hidden></div>
+				<label class="toggle hint"><input type="checkbox" id="profileToggle" />${escapeHtml(uiStrings.showExtensionProfileLabel)}</label>
+				<div id="profileView" class="profile-view" hidden></div>
+				<label class="toggle hint"><input type="checkbox" id="performanceToggle" />${escapeHtml(uiStrings.showPerformanceLabel)}</label>
+				<div id="performanceView" class="performance-view" hidden></div>
+				<label class="toggle hint"><input type="checkbox" id="compressionToggle" />${escapeHtml(uiStrings.showCompressionLabel)}</label>
+				<label id="compressionOptions" class="toggle hint" hidden><input type="checkbox" id="missedCompressionsToggle" />${escapeHtml(uiStrings.missedCompressionsLabel)}</label>
+				<div id="compressionView" class="performance-view" hidden></div>
+				<label class="toggle hint"><input type="checkbox" id="simulatorToggle" />${escapeHtml(uiStrings.showSimulatorLabel)}</label>
+				<div id="simulatorView" class="simulator-view" hidden>
+					<div class="button-row">
+						<button id="simulateButton" title="${escapeAttribute(uiStrings.simulateButtonHint)}">${escapeHtml(uiStrings.simulateButtonLabel)}</button>
+						<button id="stepButton" title="${escapeAttribute(uiStrings.stepButtonHint)}">${escapeHtml(uiStrings.stepButtonLabel)}</button>
+						<button id="runToEndButton" title="${escapeAttribute(uiStrings.runToEndButtonHint)}">${escapeHtml(uiStrings.runToEndButtonLabel)}</button>
+						<button id="resetButton" title="${escapeAttribute(uiStrings.resetButtonHint)}">${escapeHtml(uiStrings.resetButtonLabel)}</button>
+						<label class="toggle hint"><input type="checkbox" id="compressedToggle" checked />${escapeHtml(uiStrings.compressedLabel)}</label>
+					</div>
+					<div id="simulatorStatus" class="status-line"></div>
+					<div id="simulatorState" class="simulator-view" hidden>
+						<div class="field-title">${escapeHtml(uiStrings.registersHeading)}</div>
+						<div id="registerView" class="register-grid"></div>
+						<div class="field-title">${escapeHtml(uiStrings.memoryHeading)}</div>
+						<div id="memoryView" class="memory-view"></div>
+					</div>
+				</div>
 			</section>
 			<div class="button-row">
 				<button id="runButton" title="${escapeAttribute(uiStrings.runButtonHint)}">${escapeHtml(uiStrings.runButtonLabel)}</button>
 				<button id="copyButton">${escapeHtml(uiStrings.copyButtonLabel)}</button>
+				<button id="exportButton" title="${escapeAttribute(uiStrings.exportButtonHint)}">${escapeHtml(uiStrings.exportButtonLabel)}</button>
+				<button id="openInEditorButton" title="${escapeAttribute(uiStrings.openInEditorButtonHint)}">${escapeHtml(uiStrings.openInEditorButtonLabel)}</button>
 				<button id="clearButton">${escapeHtml(uiStrings.clearButtonLabel)}</button>
+				<button id="cancelButton" title="${escapeAttribute(uiStrings.cancelButtonHint)}" hidden>${escapeHtml(uiStrings.cancelButtonLabel)}</button>
+				<select id="xlenSelect" title="${escapeAttribute(uiStrings.xlenLabel)}" aria-label="${escapeAttribute(uiStrings.xlenLabel)}">${xlenOptions}</select>
+				<select id="inputFormatSelect" title="${escapeAttribute(uiStrings.inputFormatLabel)}" aria-label="${escapeAttribute(uiStrings.inputFormatLabel)}">${inputFormatOptions}</select>
+				<input id="baseAddressInput" class="address-input" value="${escapeAttribute(getConfiguredBaseAddress())}" placeholder="${escapeAttribute(uiStrings.baseAddressLabel)}" title="${escapeAttribute(uiStrings.baseAddressLabel)}" aria-label="${escapeAttribute(uiStrings.baseAddressLabel)}" spellcheck="false" />
 			</div>
 			<div class="hint">${escapeHtml(uiStrings.disassemblerHint)}</div>
 			<div id="statusLine" class="status-line"></div>
@@ -363,12 +1910,120 @@ export function activate(context: vscode.ExtensionContext): void {
 		vscode.window.registerWebviewViewProvider(RiscvAnalyzerViewProvider.viewType, provider)
 	);
 
+	context.subscriptions.push(
+		vscode.window.registerCustomEditorProvider(BinaryEditorProvider.viewType, new BinaryEditorProvider(getConfiguredXlen), {
+			supportsMultipleEditorsPerDocument: true
+		})
+	);
+
+	const hoverProvider = new HexLiteralHoverProvider(getConfiguredXlen);
+	let hoverRegistration = registerHexLiteralHover(hoverProvider);
+	context.subscriptions.push({ dispose: () => hoverRegistration.dispose() });
+
+	const diagnostics = vscode.languages.createDiagnosticCollection(ASSEMBLY_LANGUAGE_ID);
+	const refreshDiagnostics = (document: vscode.TextDocument) => {
+		if (document.languageId === ASSEMBLY_LANGUAGE_ID) {
+			updateAssemblyDiagnostics(diagnostics, document, getConfiguredXlen());
+		}
+	};
+	// Diagnostics are first computed once the custom instructions are loaded.
+	const applyCustomInstructions = () => reloadCustomInstructions().then(() => vscode.workspace.textDocuments.forEach(refreshDiagnostics));
+	void applyCustomInstructions();
+	let customInstructionsWatcher = watchCustomInstructions(applyCustomInstructions);
+	context.subscriptions.push(
+		{ dispose: () => customInstructionsWatcher.dispose() },
+		diagnostics,
+		vscode.languages.registerHoverProvider(ASSEMBLY_LANGUAGE_ID, new AssemblyHoverProvider(getConfiguredXlen)),
+		vscode.workspace.onDidOpenTextDocument(refreshDiagnostics),
+		vscode.workspace.onDidChangeTextDocument(event => refreshDiagnostics(event.document)),
+		vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri))
+	);
+
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('riscvAsmAnalyzer.cliPath') || event.affectsConfiguration('riscvAsmAnalyzer.defaultArgs')) {
+				clearCliCapabilities();
+			}
+			if (event.affectsConfiguration('riscvAsmAnalyzer.hoverLanguages')) {
+				hoverRegistration.dispose();
+				hoverRegistration = registerHexLiteralHover(hoverProvider);
+			}
+			if (event.affectsConfiguration('riscvAsmAnalyzer.xlen')) {
+				provider.setXlen(getConfiguredXlen());
+				vscode.workspace.textDocuments.forEach(refreshDiagnostics);
+			}
+			if (event.affectsConfiguration('riscvAsmAnalyzer.inputFormat')) {
+				provider.setInputFormat(getConfiguredInputFormat());
+			}
+			if (event.affectsConfiguration('riscvAsmAnalyzer.baseAddress')) {
+				provider.setBaseAddress(getConfiguredBaseAddress());
+			}
+			if (event.affectsConfiguration('riscvAsmAnalyzer.customInstructions')) {
+				customInstructionsWatcher.dispose();
+				customInstructionsWatcher = watchCustomInstructions(applyCustomInstructions);
+				void applyCustomInstructions();
+			}
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('riscv-asm-analyzer.openSidebar', async () => {
 			await provider.reveal();
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('riscv-asm-analyzer.disassembleFile', async (uri?: vscode.Uri) => {
+			const target = uri ?? (await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				openLabel: l10n.t('Disassemble'),
+				filters: {
+					[l10n.t('ELF files')]: ['elf', 'o', 'so', 'out'],
+					[l10n.t('Firmware images')]: ['bin', 'img', 'hex', 'ihex', 'srec', 's19', 's28', 's37', 'mot'],
+					[l10n.t('All files')]: ['*']
+				}
+			}))?.[0];
+			if (!target) {
+				return;
+			}
+			await provider.reveal(true);
+			await provider.disassembleFile(target);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('riscv-asm-analyzer.disassembleDebugMemory', async () => {
+			const session = vscode.debug.activeDebugSession;
+			if (!session) {
+				vscode.window.showWarningMessage(l10n.t('Start a debug session to read memory from the target.'));
+				return;
+			}
+			const addressText = await vscode.window.showInputBox({
+				prompt: l10n.t('Address or expression to disassemble from (leave empty for the current PC)'),
+				placeHolder: l10n.t('e.g. 0x80000000 or main')
+			});
+			if (addressText === undefined) {
+				return;
+			}
+			await provider.reveal(true);
+			await provider.disassembleDebugMemory(session, addressText);
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('riscv-asm-analyzer.compareDisassembly', async () => {
+			try {
+				const left = await pickComparisonSide(context, l10n.t('First input to compare'));
+				const right = left && await pickComparisonSide(context, l10n.t('Second input to compare'));
+				if (left && right) {
+					showDisassemblyDiff(left, right);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(l10n.t('RISC-V comparison failed: {0}', toErrorMessage(error)));
+			}
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerTextEditorCommand('riscv-asm-analyzer.loadSelection', async editor => {
 			const selectionText = getActiveSelectionText(editor);
@@ -384,91 +2039,275 @@ export function activate(context: vscode.ExtensionContext): void {
 
 export function deactivate(): void {}
 
-async function runAnalyzer(mode: AnalyzerMode, input: string): Promise<AnalyzerExecutionResult> {
+/**
+ * Runs the configured external CLI, falling back to the built-in backend when
+ * it fails for any reason other than cancellation. The built-in backend moves
+ * large inputs to a worker thread.
+ */
+async function runAnalyzer(
+	mode: AnalyzerMode,
+	input: string,
+	options: AnalyzerOptions,
+	signal: AbortSignal,
+	onProgress: (progress: AnalyzerProgress) => void
+): Promise<AnalyzerExecutionResult> {
 	const config = vscode.workspace.getConfiguration('riscvAsmAnalyzer');
 	const cliPath = (config.get<string>('cliPath') || '').trim();
 	const additionalArgs = config.get<string[]>('defaultArgs') || [];
-
-	if (cliPath) {
-		const args = [...additionalArgs];
-		args.push(mode === 'assemble' ? '--assemble' : '--disassemble');
-		const output = await invokeCli(cliPath, args, input);
-		return { effectiveMode: mode, output };
+	if (!cliPath) {
+		return runAnalysisJob({ kind: 'execute', mode, input, options }, { signal, onProgress });
 	}
 
-	return executeAnalyzer(mode, input);
-}
-
-function buildSuccessMessage(mode: AnalyzerMode): string {
-	return mode === 'assemble' ? l10n.t('Assembly completed.') : l10n.t('Disassembly completed.');
+	try {
+		return await runCli({ executable: cliPath, args: additionalArgs }, {
+			protocol: CLI_PROTOCOL_VERSION,
+			mode,
+			input,
+			xlen: options.xlen ?? 'auto',
+			isa: options.march || undefined,
+			inputFormat: options.inputFormat ?? 'auto',
+			baseAddress: options.baseAddress ?? 0
+		}, { timeoutMs: getConfiguredCliTimeout(), signal });
+	} catch (error) {
+		if (signal.aborted) {
+			throw error;
+		}
+		const result = await runAnalysisJob({ kind: 'execute', mode, input, options }, { signal, onProgress });
+		const fallback = l10n.t('The external CLI failed ({0}); used the built-in backend instead.', toErrorMessage(error));
+		return { ...result, infoMessages: [fallback, ...(result.infoMessages ?? [])] };
+	}
 }
 
-function getActiveSelectionText(editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor): string | undefined {
-	if (!editor) {
+/**
+ * Asks for one side of a comparison (the analyzer input, the editor
+ * selection, a file or a history entry) and decodes it with the built-in
+ * backend, so that both sides go through the same decoder.
+ */
+async function pickComparisonSide(context: vscode.ExtensionContext, placeHolder: string): Promise<ComparisonSide | undefined> {
+	const draft = context.workspaceState.get<AnalysisDraft>(DRAFT_KEY);
+	const selectionText = getActiveSelectionText();
+	// Entries whose input was too large to keep have nothing to decode.
+	const history = parseHistory(context.workspaceState.get(HISTORY_KEY)).filter(entry => entry.omittedInputLength === undefined);
+	const summaries = summarizeHistory(history);
+	const items: ComparisonSourceItem[] = [
+		...(draft?.input.trim() ? [{ label: l10n.t('Analyzer input'), description: firstLine(draft.input), source: 'input' as const }] : []),
+		...(selectionText?.trim() ? [{ label: l10n.t('Editor selection'), description: firstLine(selectionText), source: 'selection' as const }] : []),
+		{ label: l10n.t('File...'), source: 'file' },
+		...(history.length > 0 ? [{ label: l10n.t('History'), kind: vscode.QuickPickItemKind.Separator, source: 'history' as const }] : []),
+		...history.map((entry, index) => ({
+			label: summaries[index].title,
+			description: entry.mode === 'assemble' ? l10n.t('Assembly') : l10n.t('Disassembly'),
+			source: 'history' as const,
+			entry
+		}))
+	];
+	const choice = await vscode.window.showQuickPick(items, { placeHolder });
+	if (!choice) {
 		return undefined;
 	}
-	const selection = editor.selection;
-	if (!selection || selection.isEmpty) {
-		const line = editor.document.lineAt(selection?.active ?? editor.selection.active);
-		return line?.text ?? undefined;
+
+	let title: string;
+	let result: AnalyzerExecutionResult;
+	switch (choice.source) {
+		case 'input':
+		case 'selection': {
+			const settings = choice.source === 'input' && draft ? draft : undefined;
+			title = choice.source === 'input'
+				? l10n.t('Analyzer input')
+				: l10n.t('Selection in {0}', path.basename(vscode.window.activeTextEditor?.document.fileName ?? ''));
+			const input = choice.source === 'input' ? draft?.input ?? '' : selectionText ?? '';
+			result = await runAnalysisJob({ kind: 'execute', mode: 'assemble', input, options: await comparisonOptions(settings) });
+			break;
+		}
+		case 'file': {
+			const uri = (await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: l10n.t('Compare') }))?.[0];
+			if (!uri) {
+				return undefined;
+			}
+			title = path.basename(uri.fsPath);
+			result = await runAnalysisJob({ kind: 'file', data: await vscode.workspace.fs.readFile(uri), options: await comparisonOptions(undefined) });
+			break;
+		}
+		case 'history': {
+			const entry = choice.entry as HistoryEntry;
+			title = choice.label;
+			result = await runAnalysisJob({ kind: 'execute', mode: entry.mode, input: entry.input, options: await comparisonOptions(entry) });
+			break;
+		}
 	}
-	return editor.document.getText(selection);
+	return { title, records: result.records ?? [] };
 }
 
-function invokeCli(executable: string, args: string[], input: string): Promise<string> {
-	return new Promise((resolve, reject) => {
-		const child = spawn(executable, args, { shell: false });
-		let stdout = '';
-		let stderr = '';
+async function comparisonOptions(settings: AnalysisDraft | undefined): Promise<AnalyzerOptions> {
+	await customInstructionsReady;
+	return {
+		xlen: parseXlenSetting(settings?.xlen ?? getConfiguredXlen()),
+		inputFormat: parseInputFormat(settings?.inputFormat ?? getConfiguredInputFormat()),
+		baseAddress: parseBaseAddress(settings?.baseAddress ?? getConfiguredBaseAddress()),
+		registerAnalysis: false
+	};
+}
 
-		child.stdout.on('data', data => {
-			stdout += data.toString();
-		});
+function firstLine(text: string): string {
+	return text.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+}
 
-		child.stderr.on('data', data => {
-			stderr += data.toString();
-		});
+function draftMessages(draft: AnalysisDraft): OutboundMessage[] {
+	return [
+		{ type: 'setInput', value: draft.input },
+		{ type: 'setXlen', value: draft.xlen },
+		{ type: 'setInputFormat', value: draft.inputFormat },
+		{ type: 'setBaseAddress', value: draft.baseAddress }
+	];
+}
 
-		child.on('error', error => reject(error));
+function registerHexLiteralHover(hoverProvider: HexLiteralHoverProvider): vscode.Disposable {
+	const languages = vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string[]>('hoverLanguages') ?? [];
+	return vscode.languages.registerHoverProvider(languages.map(language => ({ language })), hoverProvider);
+}
 
-		child.on('close', code => {
-			if (code === 0) {
-				resolve(stdout.trim());
-			} else {
-				reject(new Error(stderr.trim() || l10n.t('CLI exited with code {0}', code ?? -1)));
-			}
-		});
+function getConfiguredXlen(): XlenSetting {
+	return parseXlenSetting(vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string>('xlen'));
+}
+
+function getConfiguredInputFormat(): InputFormat {
+	return parseInputFormat(vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string>('inputFormat'));
+}
 
-		if (input.length > 0) {
-			child.stdin.write(input);
+function getConfiguredBaseAddress(): string {
+	return vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string>('baseAddress') ?? '';
+}
+
+function getConfiguredMarch(): string {
+	return vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string>('targetMarch')?.trim() ?? '';
+}
+
+function getConfiguredFoldIdioms(): boolean {
+	return vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<boolean>('foldIdioms') ?? true;
+}
+
+/**
+ * Resolves `riscvAsmAnalyzer.timingModel`: a built-in model name or a JSON
+ * model file, relative to the first workspace folder. Timing is only an extra
+ * view, so a model that cannot be loaded falls back to the default one with a
+ * warning instead of failing the run.
+ */
+async function loadConfiguredTimingModel(): Promise<{ model: TimingModel; warning?: string }> {
+	const setting = vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string>('timingModel')?.trim() || DEFAULT_TIMING_MODEL;
+	const builtin = BUILTIN_TIMING_MODELS[setting];
+	if (builtin) {
+		return { model: builtin };
+	}
+	try {
+		return { model: parseTimingModel(JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(workspaceFileUri(setting))))) };
+	} catch (error) {
+		return {
+			model: BUILTIN_TIMING_MODELS[DEFAULT_TIMING_MODEL],
+			warning: l10n.t('Could not load the timing model "{0}", so timing is estimated with {2} instead: {1}', setting, toErrorMessage(error), DEFAULT_TIMING_MODEL)
+		};
+	}
+}
+
+/** Shows `messages` ahead of the analyzer's own info messages. */
+function withInfoMessages(result: AnalyzerExecutionResult, messages: Array<string | undefined>): AnalyzerExecutionResult {
+	const shown = messages.filter((message): message is string => message !== undefined);
+	return shown.length > 0 ? { ...result, infoMessages: [...shown, ...(result.infoMessages ?? [])] } : result;
+}
+
+function getConfiguredCustomInstructionsPath(): string | undefined {
+	return vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<string>('customInstructions')?.trim() || undefined;
+}
+
+/**
+ * Loads the `riscvAsmAnalyzer.customInstructions` JSON or YAML file, if one is set,
+ * for every decoder and assembler of the extension. A file that cannot be
+ * loaded is reported and leaves only the built-in instructions.
+ */
+function reloadCustomInstructions(): Promise<void> {
+	const generation = ++customInstructionsGeneration;
+	customInstructionsReady = (async () => {
+		const setting = getConfiguredCustomInstructionsPath();
+		let set: CustomInstructionSet | undefined;
+		if (setting) {
+			try {
+				set = readCustomInstructions(new TextDecoder().decode(await vscode.workspace.fs.readFile(workspaceFileUri(setting))), setting);
+			} catch (error) {
+				vscode.window.showErrorMessage(l10n.t('Could not load the custom instructions "{0}": {1}', setting, toErrorMessage(error)));
+			}
 		}
-		child.stdin.end();
-	});
+		// A later reload, started while this one read the file, has the newer contents.
+		if (generation === customInstructionsGeneration) {
+			setCustomInstructions(set);
+		}
+	})();
+	return customInstructionsReady;
 }
 
-function toErrorMessage(error: unknown): string {
-	if (error instanceof Error) {
-		return error.message;
+/** Watches the custom instruction file so that edits to it take effect without a reload. */
+function watchCustomInstructions(onChange: () => void): vscode.Disposable {
+	const setting = getConfiguredCustomInstructionsPath();
+	if (!setting) {
+		return new vscode.Disposable(() => undefined);
 	}
-	return typeof error === 'string' ? error : l10n.t('Unknown error.');
+	const uri = workspaceFileUri(setting);
+	const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.joinPath(uri, '..'), path.basename(uri.fsPath)));
+	return vscode.Disposable.from(watcher, watcher.onDidCreate(onChange), watcher.onDidChange(onChange), watcher.onDidDelete(onChange));
+}
+
+/** Resolves a path setting relative to the first workspace folder. */
+function workspaceFileUri(setting: string): vscode.Uri {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	return path.isAbsolute(setting) || !folder ? vscode.Uri.file(setting) : vscode.Uri.joinPath(folder.uri, setting);
+}
+
+function getConfiguredCliTimeout(): number {
+	const timeout = vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<number>('cliTimeout') ?? 10000;
+	return Math.max(0, Math.floor(timeout));
+}
+
+function getConfiguredDebugMemoryLength(): number {
+	const length = vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<number>('debugMemoryLength') ?? 256;
+	return Math.min(65536, Math.max(2, Math.floor(length)));
+}
+
+function getConfiguredInstructionLimit(): number {
+	const limit = vscode.workspace.getConfiguration('riscvAsmAnalyzer').get<number>('simulatorInstructionLimit') ?? 10000;
+	return Math.max(1, Math.floor(limit));
 }
 
-function generateNonce(): string {
-	const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-	let result = '';
-	for (let i = 0; i < 32; i += 1) {
-		result += charset.charAt(Math.floor(Math.random() * charset.length));
+/** Accepts decimal (optionally negative) or `0x` hexadecimal register values. */
+function parseRegisterValue(value: string): bigint | undefined {
+	const text = value.trim().replace(/_/g, '');
+	const match = /^(-?)(0x[0-9a-f]+|\d+)$/i.exec(text);
+	if (!match) {
+		return undefined;
 	}
-	return result;
+	const magnitude = BigInt(match[2]);
+	return match[1] ? -magnitude : magnitude;
 }
 
-function escapeHtml(value: string): string {
-	return value
-		.replace(/&/g, '&amp;')
-		.replace(/</g, '&lt;')
-		.replace(/>/g, '&gt;');
+function buildSuccessMessage(mode: AnalyzerMode, xlen: XlenSetting): string {
+	const xlenLabel = xlen === 'auto' ? l10n.t('XLEN auto-detected') : `RV${xlen}`;
+	return mode === 'assemble'
+		? l10n.t('Assembly completed ({0}).', xlenLabel)
+		: l10n.t('Disassembly completed ({0}).', xlenLabel);
 }
 
-function escapeAttribute(value: string): string {
-	return escapeHtml(value).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+function getActiveSelectionText(editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor): string | undefined {
+	if (!editor) {
+		return undefined;
+	}
+	const selection = editor.selection;
+	if (!selection || selection.isEmpty) {
+		const line = editor.document.lineAt(selection?.active ?? editor.selection.active);
+		return line?.text ?? undefined;
+	}
+	return editor.document.getText(selection);
+}
+
+function toErrorMessage(error: unknown): string {
+	if (error instanceof Error) {
+		return error.message;
+	}
+	return typeof error === 'string' ? error : l10n.t('Unknown error.');
 }
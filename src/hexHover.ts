@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { XlenSetting, executeAnalyzer } from './analyzer';
+import { findHexLiteral, hoverRows } from './hexLiterals';
+
+const { l10n } = vscode;
+
+/**
+ * Decodes the hexadecimal literal under the cursor as a RISC-V instruction,
+ * so constants in C, Rust, HDL sources or logs can be read without the view.
+ */
+export class HexLiteralHoverProvider implements vscode.HoverProvider {
+	constructor(private readonly getXlen: () => XlenSetting) {}
+
+	public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+		const line = document.lineAt(position.line).text;
+		const literal = findHexLiteral(line, position.character);
+		if (!literal) {
+			return undefined;
+		}
+
+		let rows: string[];
+		try {
+			const result = await executeAnalyzer('disassemble', literal.parcels.join('\n'), {
+				xlen: this.getXlen(),
+				inputFormat: 'hexWords',
+				registerAnalysis: false
+			});
+			rows = hoverRows(result.records ?? []);
+		} catch {
+			return undefined;
+		}
+		if (rows.length === 0) {
+			return undefined;
+		}
+
+		const markdown = new vscode.MarkdownString();
+		markdown.appendMarkdown(`**${literal.parcels.length > 1 ? l10n.t('RISC-V compressed instructions') : l10n.t('RISC-V instruction')}**`);
+		markdown.appendCodeblock(rows.join('\n'), 'asm');
+		const range = new vscode.Range(position.line, literal.start, position.line, literal.end);
+		return new vscode.Hover(markdown, range);
+	}
+}
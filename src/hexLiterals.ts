@@ -0,0 +1,61 @@
+import { InstructionRecord } from './instructionRecords';
+
+export interface HexLiteral {
+	/** Column range of the literal within its line. */
+	start: number;
+	end: number;
+	/** Instruction parcels in memory order, formatted like hex word input. */
+	parcels: string[];
+}
+
+/**
+ * C/C++ (`0x0013'0513u`), Rust (`0x0013_0513`) and Verilog (`32'h0013_0513`)
+ * spellings of a hexadecimal constant.
+ */
+const HEX_LITERAL = /(?:\b0[xX]([0-9a-fA-F]+(?:['_][0-9a-fA-F]+)*)(?:[uU]?[lL]{0,2}|[lL]{0,2}[uU]?|_?[ui](?:16|32|64|size)?)|(?:\b\d+)?'[hH]([0-9a-fA-F][0-9a-fA-F_]*))\b/g;
+
+/**
+ * Finds the hexadecimal literal under `character` and splits it into
+ * instruction parcels. 32-bit values whose low bits mark a compressed
+ * instruction are read as two 16-bit parcels, low half first. Literals wider
+ * than 32 bits are ignored.
+ */
+export function findHexLiteral(line: string, character: number): HexLiteral | undefined {
+	for (const match of line.matchAll(HEX_LITERAL)) {
+		const start = match.index ?? 0;
+		const end = start + match[0].length;
+		if (character < start || character > end) {
+			continue;
+		}
+		const digits = (match[1] ?? match[2]).replace(/['_]/g, '').replace(/^0+(?=[0-9a-fA-F])/, '');
+		if (digits.length > 8) {
+			return undefined;
+		}
+		return { start, end, parcels: splitParcels(Number.parseInt(digits, 16)) };
+	}
+	return undefined;
+}
+
+/** Encoding and assembly of each decoded instruction, dropping undecodable ones and the notes. */
+export function hoverRows(records: readonly InstructionRecord[]): string[] {
+	return records
+		.filter(record => record.error === undefined && record.mnemonic)
+		.map(record => `${record.encoding}  ${[record.mnemonic, record.operands.join(', ')].filter(Boolean).join(' ')}`);
+}
+
+function splitParcels(value: number): string[] {
+	if ((value & 0b11) === 0b11) {
+		return [formatParcel(value, 8)];
+	}
+	if (value <= 0xffff) {
+		return [formatParcel(value, 4)];
+	}
+	const low = value & 0xffff;
+	const high = value >>> 16;
+	// A high half with 0b11 low bits would start a 32-bit instruction that continues past the literal.
+	return (high & 0b11) === 0b11 ? [formatParcel(low, 4)] : [formatParcel(low, 4), formatParcel(high, 4)];
+}
+
+function formatParcel(value: number, digits: number): string {
+	return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+}
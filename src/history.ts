@@ -0,0 +1,131 @@
+import type { AnalyzerMode } from './analyzer';
+
+/** Input and run settings as shown in the view. */
+export interface AnalysisDraft {
+	input: string;
+	xlen: string;
+	inputFormat: string;
+	baseAddress: string;
+}
+
+/** A completed run, kept in workspace state so that it survives reloads. */
+export interface HistoryEntry extends AnalysisDraft {
+	id: string;
+	mode: AnalyzerMode;
+	output: string;
+	/** Milliseconds since the epoch of the latest run. */
+	timestamp: number;
+	name?: string;
+	pinned: boolean;
+	/** Length of an input too large to keep; `input` then only holds its title. */
+	omittedInputLength?: number;
+}
+
+/** What the view needs to list an entry; inputs and outputs stay on the extension side. */
+export interface HistorySummary {
+	id: string;
+	title: string;
+	mode: AnalyzerMode;
+	timestamp: number;
+	pinned: boolean;
+	preview: string;
+}
+
+export const MAX_HISTORY_ENTRIES = 50;
+export const MAX_STORED_OUTPUT = 20000;
+/** Inputs longer than this are left out of history entries and drafts, which workspace state rewrites in full. */
+export const MAX_STORED_INPUT = 100000;
+
+const TITLE_LENGTH = 48;
+const PREVIEW_LINES = 8;
+
+/**
+ * Records a run at the top of the history. A run with the same input, mode
+ * and settings as an earlier entry replaces it but keeps its name and pin.
+ * Beyond `MAX_HISTORY_ENTRIES` the oldest unpinned entries are dropped.
+ */
+export function addHistoryEntry(entries: readonly HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+	const stored: HistoryEntry = entry.input.length > MAX_STORED_INPUT
+		? { ...entry, input: defaultTitle(entry.input), omittedInputLength: entry.input.length }
+		: entry;
+	const previous = entries.find(existing => isSameRun(existing, stored));
+	const added: HistoryEntry = {
+		...stored,
+		output: entry.output.slice(0, MAX_STORED_OUTPUT),
+		name: previous?.name ?? entry.name,
+		pinned: previous?.pinned ?? entry.pinned
+	};
+	const kept = sortHistory([added, ...entries.filter(existing => existing !== previous)]);
+	let excess = kept.length - MAX_HISTORY_ENTRIES;
+	for (let index = kept.length - 1; index >= 0 && excess > 0; index -= 1) {
+		if (!kept[index].pinned) {
+			kept.splice(index, 1);
+			excess -= 1;
+		}
+	}
+	return kept;
+}
+
+/** The draft as kept in workspace state: without its input once that is over `MAX_STORED_INPUT`. */
+export function storedDraft(draft: AnalysisDraft): AnalysisDraft {
+	return draft.input.length > MAX_STORED_INPUT ? { ...draft, input: '' } : draft;
+}
+
+export function updateHistoryEntry(
+	entries: readonly HistoryEntry[],
+	id: string,
+	changes: Partial<Pick<HistoryEntry, 'name' | 'pinned'>>
+): HistoryEntry[] {
+	return sortHistory(entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+}
+
+export function removeHistoryEntry(entries: readonly HistoryEntry[], id: string): HistoryEntry[] {
+	return entries.filter(entry => entry.id !== id);
+}
+
+/** Reads entries back from workspace state, skipping anything that does not look like one. */
+export function parseHistory(value: unknown): HistoryEntry[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	return sortHistory(value.filter((entry): entry is HistoryEntry => (
+		typeof entry === 'object' && entry !== null
+		&& typeof entry.id === 'string'
+		&& (entry.mode === 'assemble' || entry.mode === 'disassemble')
+		&& ['input', 'xlen', 'inputFormat', 'baseAddress', 'output'].every(field => typeof entry[field] === 'string')
+		&& typeof entry.timestamp === 'number'
+		&& typeof entry.pinned === 'boolean'
+		&& (entry.name === undefined || typeof entry.name === 'string')
+		&& (entry.omittedInputLength === undefined || typeof entry.omittedInputLength === 'number')
+	)));
+}
+
+export function summarizeHistory(entries: readonly HistoryEntry[]): HistorySummary[] {
+	return entries.map(entry => ({
+		id: entry.id,
+		title: entry.name || defaultTitle(entry.input),
+		mode: entry.mode,
+		timestamp: entry.timestamp,
+		pinned: entry.pinned,
+		preview: entry.output.split('\n').slice(0, PREVIEW_LINES).join('\n')
+	}));
+}
+
+/** Pinned entries first, then newest first. */
+function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+	return entries.sort((left, right) => Number(right.pinned) - Number(left.pinned) || right.timestamp - left.timestamp);
+}
+
+function isSameRun(left: HistoryEntry, right: HistoryEntry): boolean {
+	return left.mode === right.mode
+		&& left.input === right.input
+		&& left.omittedInputLength === right.omittedInputLength
+		&& left.xlen === right.xlen
+		&& left.inputFormat === right.inputFormat
+		&& left.baseAddress === right.baseAddress;
+}
+
+function defaultTitle(input: string): string {
+	const firstLine = input.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+	return firstLine.length > TITLE_LENGTH ? `${firstLine.slice(0, TITLE_LENGTH - 1)}…` : firstLine;
+}
@@ -0,0 +1,195 @@
+import { expandCompressed } from './compression';
+import { DecodedInstruction, decodeInstruction } from './decoder';
+import { CSR_NAMES, FLOAT_REGISTER_NAMES, INTEGER_REGISTER_NAMES, Xlen } from './isa';
+import { AddressedEncoding, resolveTargets } from './targets';
+
+/** A pseudo-instruction or multi-instruction idiom spanning `firstIndex` to `lastIndex`. */
+export interface Idiom {
+	firstIndex: number;
+	lastIndex: number;
+	mnemonic: string;
+	operands: string[];
+	/** Absolute address that completes the operands of `la`, `call`, `tail`, branches and jumps. */
+	target?: number;
+}
+
+interface Fields {
+	mnemonic: string;
+	rd: number;
+	rs1: number;
+	rs2: number;
+	imm: number;
+}
+
+type SingleRule = (fields: Fields) => [string, ...string[]] | undefined;
+
+const ZERO = 0;
+const RA = 1;
+
+const x = (register: number) => INTEGER_REGISTER_NAMES[register];
+const f = (register: number) => FLOAT_REGISTER_NAMES[register];
+const CSR_BY_NUMBER = new Map(Object.entries(CSR_NAMES).map(([name, number]) => [number, name]));
+const csr = (number: number) => CSR_BY_NUMBER.get(number) ?? `0x${number.toString(16)}`;
+
+/** Branches compared against zero; the target is appended as the last operand. */
+const ZERO_BRANCHES: Readonly<Record<string, { rs2Zero: string; rs1Zero?: string }>> = {
+	beq: { rs2Zero: 'beqz', rs1Zero: 'beqz' },
+	bne: { rs2Zero: 'bnez', rs1Zero: 'bnez' },
+	blt: { rs2Zero: 'bltz', rs1Zero: 'bgtz' },
+	bge: { rs2Zero: 'bgez', rs1Zero: 'blez' }
+};
+
+/** Aliases of a single instruction, as listed in the ISA manual's pseudo-instruction table. */
+const SINGLE_RULES: Readonly<Record<string, SingleRule>> = {
+	addi: ({ rd, rs1, imm }) => {
+		if (rd === ZERO && rs1 === ZERO && imm === 0) {
+			return ['nop'];
+		}
+		if (rs1 === ZERO) {
+			return ['li', x(rd), formatConstant(imm)];
+		}
+		return imm === 0 ? ['mv', x(rd), x(rs1)] : undefined;
+	},
+	add: ({ rd, rs1, rs2 }) => (rs1 === ZERO ? ['mv', x(rd), x(rs2)] : undefined),
+	addiw: ({ rd, rs1, imm }) => (imm === 0 ? ['sext.w', x(rd), x(rs1)] : undefined),
+	xori: ({ rd, rs1, imm }) => (imm === -1 ? ['not', x(rd), x(rs1)] : undefined),
+	sub: ({ rd, rs1, rs2 }) => (rs1 === ZERO ? ['neg', x(rd), x(rs2)] : undefined),
+	subw: ({ rd, rs1, rs2 }) => (rs1 === ZERO ? ['negw', x(rd), x(rs2)] : undefined),
+	sltiu: ({ rd, rs1, imm }) => (imm === 1 ? ['seqz', x(rd), x(rs1)] : undefined),
+	sltu: ({ rd, rs1, rs2 }) => (rs1 === ZERO ? ['snez', x(rd), x(rs2)] : undefined),
+	slt: ({ rd, rs1, rs2 }) => {
+		if (rs2 === ZERO) {
+			return ['sltz', x(rd), x(rs1)];
+		}
+		return rs1 === ZERO ? ['sgtz', x(rd), x(rs2)] : undefined;
+	},
+	jalr: ({ rd, rs1, imm }) => {
+		if (imm !== 0) {
+			return undefined;
+		}
+		if (rd === ZERO) {
+			return rs1 === RA ? ['ret'] : ['jr', x(rs1)];
+		}
+		return rd === RA ? ['jalr', x(rs1)] : undefined;
+	},
+	csrrs: ({ rd, rs1, imm }) => {
+		if (rs1 === ZERO) {
+			return ['csrr', x(rd), csr(imm)];
+		}
+		return rd === ZERO ? ['csrs', csr(imm), x(rs1)] : undefined;
+	},
+	csrrw: ({ rd, rs1, imm }) => (rd === ZERO ? ['csrw', csr(imm), x(rs1)] : undefined),
+	csrrc: ({ rd, rs1, imm }) => (rd === ZERO ? ['csrc', csr(imm), x(rs1)] : undefined),
+	'fsgnj.s': ({ rd, rs1, rs2 }) => (rs1 === rs2 ? ['fmv.s', f(rd), f(rs1)] : undefined),
+	'fsgnjn.s': ({ rd, rs1, rs2 }) => (rs1 === rs2 ? ['fneg.s', f(rd), f(rs1)] : undefined),
+	'fsgnjx.s': ({ rd, rs1, rs2 }) => (rs1 === rs2 ? ['fabs.s', f(rd), f(rs1)] : undefined),
+	'fsgnj.d': ({ rd, rs1, rs2 }) => (rs1 === rs2 ? ['fmv.d', f(rd), f(rs1)] : undefined),
+	'fsgnjn.d': ({ rd, rs1, rs2 }) => (rs1 === rs2 ? ['fneg.d', f(rd), f(rs1)] : undefined),
+	'fsgnjx.d': ({ rd, rs1, rs2 }) => (rs1 === rs2 ? ['fabs.d', f(rd), f(rs1)] : undefined)
+};
+
+/**
+ * Recognizes pseudo-instructions the way a compiler would have written them:
+ * `lui`+`addi` as `li`, `auipc`+`addi` as `la`, `auipc`+`jalr` as `call` or
+ * `tail`, and single-instruction aliases such as `nop`, `mv`, `seqz`, `ret`
+ * or `beqz`. Compressed instructions are matched by their 32-bit expansion,
+ * but an alias that merely drops the `c.` prefix (`c.li` → `li`) is skipped.
+ */
+export function findIdioms(instructions: AddressedEncoding[], xlen: Xlen | undefined): Idiom[] {
+	const targets = resolveTargets(instructions, xlen);
+	const decoded = instructions.map(instruction => decodeInstruction(instruction.encoding, xlen));
+	const fields = decoded.map(entry => collectFields(entry, xlen));
+	const idioms: Idiom[] = [];
+
+	for (let index = 0; index < instructions.length; index += 1) {
+		const pair = index + 1 < instructions.length ? matchPair(fields[index], fields[index + 1], xlen) : undefined;
+		if (pair) {
+			const target = pair.mnemonic === 'li' ? undefined : targets.get(index + 1)?.target;
+			if (pair.mnemonic === 'li' || target !== undefined) {
+				idioms.push({ firstIndex: index, lastIndex: index + 1, ...pair, target });
+				index += 1;
+				continue;
+			}
+		}
+
+		const current = fields[index];
+		const single = current && matchSingle(current, targets.get(index)?.target);
+		if (single && decoded[index].spec?.mnemonic !== `c.${single.mnemonic}`) {
+			idioms.push({ firstIndex: index, lastIndex: index, ...single });
+		}
+	}
+	return idioms;
+}
+
+function matchPair(first: Fields | undefined, second: Fields | undefined, xlen: Xlen | undefined): Pick<Idiom, 'mnemonic' | 'operands'> | undefined {
+	if (!first || !second || first.rd === ZERO || second.rs1 !== first.rd) {
+		return undefined;
+	}
+	if (first.mnemonic === 'lui' && second.rd === first.rd && (second.mnemonic === 'addi' || second.mnemonic === 'addiw')) {
+		const sum = first.imm + second.imm;
+		const value = second.mnemonic === 'addiw' || xlen === 32 ? sum | 0 : sum;
+		return { mnemonic: 'li', operands: [x(first.rd), formatConstant(value)] };
+	}
+	if (first.mnemonic !== 'auipc') {
+		return undefined;
+	}
+	if (second.mnemonic === 'addi' && second.rd === first.rd) {
+		return { mnemonic: 'la', operands: [x(first.rd)] };
+	}
+	if (second.mnemonic === 'jalr' && second.rd === RA) {
+		return { mnemonic: 'call', operands: [] };
+	}
+	return second.mnemonic === 'jalr' && second.rd === ZERO ? { mnemonic: 'tail', operands: [] } : undefined;
+}
+
+function matchSingle(fields: Fields, target: number | undefined): Pick<Idiom, 'mnemonic' | 'operands' | 'target'> | undefined {
+	const { mnemonic, rd, rs1, rs2 } = fields;
+	const branch = ZERO_BRANCHES[mnemonic];
+	if (branch && target !== undefined) {
+		if (rs2 === ZERO) {
+			return { mnemonic: branch.rs2Zero, operands: [x(rs1)], target };
+		}
+		return branch.rs1Zero && rs1 === ZERO ? { mnemonic: branch.rs1Zero, operands: [x(rs2)], target } : undefined;
+	}
+	if (mnemonic === 'jal' && target !== undefined) {
+		if (rd === ZERO) {
+			return { mnemonic: 'j', operands: [], target };
+		}
+		return rd === RA ? { mnemonic: 'jal', operands: [], target } : undefined;
+	}
+	const alias = SINGLE_RULES[mnemonic]?.(fields);
+	return alias && { mnemonic: alias[0], operands: alias.slice(1) };
+}
+
+/** Operand fields of an instruction, reading compressed ones through their 32-bit expansion. */
+function collectFields(decoded: DecodedInstruction, xlen: Xlen | undefined): Fields | undefined {
+	let instruction = decoded;
+	if (decoded.size === 2) {
+		const expansion = expandCompressed(decoded, xlen ?? 64);
+		if (!expansion) {
+			return undefined;
+		}
+		instruction = decodeInstruction(expansion.encoding, xlen);
+	}
+	const mnemonic = instruction.spec?.mnemonic;
+	if (!mnemonic) {
+		return undefined;
+	}
+	const fields: Fields = { mnemonic, rd: 0, rs1: 0, rs2: 0, imm: instruction.immediate ?? 0 };
+	for (const operand of instruction.operands) {
+		const name = operand.type.replace(/^f/, '');
+		if (name === 'rd' || name === 'rs1' || name === 'rs2') {
+			fields[name] = operand.value;
+		} else if (operand.type === 'csr') {
+			fields.imm = operand.value;
+		}
+	}
+	return fields;
+}
+
+function formatConstant(value: number): string {
+	if (Math.abs(value) < 4096) {
+		return String(value);
+	}
+	return value < 0 ? `-0x${(-value).toString(16)}` : `0x${value.toString(16)}`;
+}
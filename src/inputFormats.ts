@@ -0,0 +1,343 @@
+import { isListing } from './listing';
+
+export type InputFormat =
+	| 'auto'
+	| 'hexWords'
+	| 'byteStream'
+	| 'listing'
+	| 'intelHex'
+	| 'srec'
+	| 'cArray'
+	| 'dataDirectives'
+	| 'binary';
+
+export type DetectedInputFormat = Exclude<InputFormat, 'auto'>;
+
+export const INPUT_FORMATS: readonly InputFormat[] = [
+	'auto',
+	'hexWords',
+	'byteStream',
+	'listing',
+	'intelHex',
+	'srec',
+	'cArray',
+	'dataDirectives',
+	'binary'
+];
+
+export const INPUT_FORMAT_NAMES: Record<DetectedInputFormat, string> = {
+	hexWords: 'hexadecimal words',
+	byteStream: 'byte stream',
+	listing: 'disassembly listing',
+	intelHex: 'Intel HEX',
+	srec: 'Motorola S-record',
+	cArray: 'C array',
+	dataDirectives: 'data directives',
+	binary: 'raw binary'
+};
+
+/** A run of contiguous bytes. `address` is only set when the input format carries load addresses. */
+export interface MemorySegment {
+	address?: number;
+	bytes: Uint8Array;
+}
+
+const DATA_DIRECTIVE = /^\.(byte|2byte|half|short|4byte|word|long|8byte|dword|quad)\s+(.+)$/i;
+
+const DIRECTIVE_WIDTHS: Record<string, number> = {
+	byte: 1,
+	'2byte': 2,
+	half: 2,
+	short: 2,
+	'4byte': 4,
+	word: 4,
+	long: 4,
+	'8byte': 8,
+	dword: 8,
+	quad: 8
+};
+
+const SREC_ADDRESS_BYTES: Record<string, number> = {
+	'0': 2,
+	'1': 2,
+	'2': 3,
+	'3': 4,
+	'5': 2,
+	'6': 3,
+	'7': 4,
+	'8': 3,
+	'9': 2
+};
+
+export function parseInputFormat(value: unknown): InputFormat {
+	const normalized = String(value ?? '').trim();
+	return INPUT_FORMATS.find(format => format === normalized) ?? 'auto';
+}
+
+/**
+ * Recognizes the structured text formats (Intel HEX, S-records, disassembly
+ * listings, C arrays and data directives). Plain hex words and byte streams
+ * are left to the caller.
+ */
+export function detectTextFormat(text: string): DetectedInputFormat | undefined {
+	const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+	if (lines.length === 0) {
+		return undefined;
+	}
+	if (lines.every(line => line.startsWith(':'))) {
+		return 'intelHex';
+	}
+	if (lines.every(line => /^S[0-9][0-9A-Fa-f]*$/.test(line))) {
+		return 'srec';
+	}
+	if (isListing(text)) {
+		return 'listing';
+	}
+	if (/\{[^{}]*\}/.test(stripCComments(text))) {
+		return 'cArray';
+	}
+	if (lines.some(line => DATA_DIRECTIVE.test(stripLabel(stripAsmComment(line))))) {
+		return 'dataDirectives';
+	}
+	return undefined;
+}
+
+/** Returns true when the bytes look like printable text rather than a binary image. */
+export function isTextData(data: Uint8Array): boolean {
+	const sample = data.subarray(0, 4096);
+	return sample.every(byte => byte === 0x09 || byte === 0x0a || byte === 0x0d || (byte >= 0x20 && byte < 0x7f));
+}
+
+export function parseIntelHex(text: string): MemorySegment[] {
+	const builder = new SegmentBuilder();
+	let base = 0;
+
+	const lines = text.split('\n');
+	for (let index = 0; index < lines.length; index += 1) {
+		const line = lines[index].trim();
+		if (!line) {
+			continue;
+		}
+		const lineNumber = index + 1;
+		if (!/^:(?:[0-9A-Fa-f]{2})+$/.test(line)) {
+			throw new Error(`Line ${lineNumber}: "${line}" is not an Intel HEX record.`);
+		}
+
+		const bytes = hexPairs(line.slice(1));
+		const count = bytes[0];
+		if (bytes.length !== count + 5) {
+			throw new Error(`Line ${lineNumber}: Record length does not match its byte count.`);
+		}
+		if (bytes.reduce((sum, byte) => sum + byte, 0) % 256 !== 0) {
+			throw new Error(`Line ${lineNumber}: Checksum mismatch.`);
+		}
+
+		const offset = (bytes[1] << 8) | bytes[2];
+		const type = bytes[3];
+		const data = bytes.slice(4, 4 + count);
+		switch (type) {
+			case 0x00:
+				builder.append(base + offset, data);
+				break;
+			case 0x01:
+				return builder.finish();
+			case 0x02:
+				base = ((data[0] << 8) | data[1]) * 16;
+				break;
+			case 0x04:
+				base = ((data[0] << 8) | data[1]) * 0x10000;
+				break;
+			case 0x03:
+			case 0x05:
+				break;
+			default:
+				throw new Error(`Line ${lineNumber}: Unsupported Intel HEX record type ${type}.`);
+		}
+	}
+
+	return builder.finish();
+}
+
+export function parseSrec(text: string): MemorySegment[] {
+	const builder = new SegmentBuilder();
+
+	const lines = text.split('\n');
+	for (let index = 0; index < lines.length; index += 1) {
+		const line = lines[index].trim();
+		if (!line) {
+			continue;
+		}
+		const lineNumber = index + 1;
+		const match = /^S([0-9])((?:[0-9A-Fa-f]{2})+)$/.exec(line);
+		const addressBytes = match ? SREC_ADDRESS_BYTES[match[1]] : undefined;
+		if (!match || addressBytes === undefined) {
+			throw new Error(`Line ${lineNumber}: "${line}" is not a Motorola S-record.`);
+		}
+
+		const bytes = hexPairs(match[2]);
+		if (bytes.length !== bytes[0] + 1 || bytes[0] < addressBytes + 1) {
+			throw new Error(`Line ${lineNumber}: Record length does not match its byte count.`);
+		}
+		if (bytes.reduce((sum, byte) => sum + byte, 0) % 256 !== 0xff) {
+			throw new Error(`Line ${lineNumber}: Checksum mismatch.`);
+		}
+
+		const type = match[1];
+		if (type === '1' || type === '2' || type === '3') {
+			const address = bytes.slice(1, 1 + addressBytes).reduce((value, byte) => value * 256 + byte, 0);
+			builder.append(address, bytes.slice(1 + addressBytes, bytes.length - 1));
+		} else if (type === '7' || type === '8' || type === '9') {
+			break;
+		}
+	}
+
+	return builder.finish();
+}
+
+/**
+ * Parses the initializer of a C array. The element width comes from the
+ * declared type when there is one and from the widest literal otherwise;
+ * wider elements are stored little-endian.
+ */
+export function parseCArray(text: string): MemorySegment[] {
+	const source = stripCComments(text);
+	const open = source.indexOf('{');
+	const close = source.indexOf('}', open);
+	if (open < 0 || close < 0) {
+		throw new Error('C array input must contain a braced initializer.');
+	}
+
+	const tokens = source.slice(open + 1, close).split(',').map(token => token.trim()).filter(Boolean);
+	const literals = tokens.map(token => {
+		const match = /^(0x[0-9a-f]+|\d+)[ul]*$/i.exec(token);
+		if (!match) {
+			throw new Error(`"${token}" is not a valid C array element.`);
+		}
+		return { token, literal: match[1], value: BigInt(match[1]) };
+	});
+
+	const literalTexts = literals.map(entry => entry.literal);
+	const width = declaredElementWidth(source.slice(0, open), literalTexts) ?? inferElementWidth(literalTexts);
+	const bytes: number[] = [];
+	for (const { token, value } of literals) {
+		if (value >= 1n << BigInt(width * 8)) {
+			throw new Error(`"${token}" does not fit in a ${width}-byte element.`);
+		}
+		bytes.push(...littleEndianBytes(value, width));
+	}
+	return [{ bytes: Uint8Array.from(bytes) }];
+}
+
+/** Parses `.byte`, `.half`, `.word` and `.dword` lines; labels and other directives are ignored. */
+export function parseDataDirectives(text: string): MemorySegment[] {
+	const bytes: number[] = [];
+
+	text.split('\n').forEach((rawLine, index) => {
+		const line = stripLabel(stripAsmComment(rawLine));
+		if (!line) {
+			return;
+		}
+		const lineNumber = index + 1;
+		const match = DATA_DIRECTIVE.exec(line);
+		if (!match) {
+			if (line.startsWith('.')) {
+				return;
+			}
+			throw new Error(`Line ${lineNumber}: Expected a data directive such as .word.`);
+		}
+
+		const width = DIRECTIVE_WIDTHS[match[1].toLowerCase()];
+		for (const operand of match[2].split(',').map(value => value.trim())) {
+			const value = parseSignedLiteral(operand);
+			if (value === undefined) {
+				throw new Error(`Line ${lineNumber}: "${operand}" is not a numeric value.`);
+			}
+			const limit = 1n << BigInt(width * 8);
+			if (value >= limit || value < -(limit >> 1n)) {
+				throw new Error(`Line ${lineNumber}: ${operand} does not fit in .${match[1]}.`);
+			}
+			bytes.push(...littleEndianBytes(BigInt.asUintN(width * 8, value), width));
+		}
+	});
+
+	return [{ bytes: Uint8Array.from(bytes) }];
+}
+
+class SegmentBuilder {
+	private readonly segments: { address: number; bytes: number[] }[] = [];
+
+	append(address: number, data: number[]): void {
+		const last = this.segments[this.segments.length - 1];
+		if (last && last.address + last.bytes.length === address) {
+			last.bytes.push(...data);
+		} else if (data.length > 0) {
+			this.segments.push({ address, bytes: [...data] });
+		}
+	}
+
+	finish(): MemorySegment[] {
+		return this.segments.map(segment => ({ address: segment.address, bytes: Uint8Array.from(segment.bytes) }));
+	}
+}
+
+function hexPairs(value: string): number[] {
+	const bytes: number[] = [];
+	for (let index = 0; index < value.length; index += 2) {
+		bytes.push(Number.parseInt(value.slice(index, index + 2), 16));
+	}
+	return bytes;
+}
+
+function littleEndianBytes(value: bigint, width: number): number[] {
+	const bytes: number[] = [];
+	for (let index = 0; index < width; index += 1) {
+		bytes.push(Number((value >> BigInt(index * 8)) & 0xffn));
+	}
+	return bytes;
+}
+
+function parseSignedLiteral(value: string): bigint | undefined {
+	const match = /^([+-]?)(0x[0-9a-f_]+|0b[01_]+|\d[\d_]*)$/i.exec(value);
+	if (!match) {
+		return undefined;
+	}
+	const magnitude = BigInt(match[2].replace(/_/g, ''));
+	return match[1] === '-' ? -magnitude : magnitude;
+}
+
+/**
+ * Element width from the declared type. Plain `long` is 4 bytes on RV32 and 8
+ * on RV64, so its width is taken from the literals, but never below 4.
+ */
+function declaredElementWidth(declaration: string, literals: string[]): number | undefined {
+	const match = /\b(?:u?int(8|16|32|64)_t|(char)|(short)|(long\s+long)|(long)|(int))\b/.exec(declaration);
+	if (!match) {
+		return undefined;
+	}
+	if (match[1]) {
+		return Number(match[1]) / 8;
+	}
+	if (match[5]) {
+		return Math.max(4, inferElementWidth(literals));
+	}
+	return match[2] ? 1 : match[3] ? 2 : match[4] ? 8 : 4;
+}
+
+function inferElementWidth(literals: string[]): number {
+	const digits = Math.max(
+		...literals.map(literal => (/^0x/i.test(literal) ? literal.length - 2 : BigInt(literal).toString(16).length))
+	);
+	return digits <= 2 ? 1 : digits <= 4 ? 2 : digits <= 8 ? 4 : 8;
+}
+
+function stripCComments(value: string): string {
+	return value.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/\/\/.*$/gm, '');
+}
+
+function stripAsmComment(line: string): string {
+	return line.replace(/(#|\/\/|;).*$/, '').trim();
+}
+
+function stripLabel(line: string): string {
+	return line.replace(/^[A-Za-z_.$][\w.$]*:\s*/, '').trim();
+}
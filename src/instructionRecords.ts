@@ -0,0 +1,101 @@
+/** One instruction of an analyzer result as structured data, for export and scripts. */
+export interface InstructionRecord {
+	/** Row of the text output the instruction is shown on. */
+	line: number;
+	address?: number;
+	/** Raw encoding formatted like `0x00A50533`; empty for a line that could not be assembled. */
+	encoding: string;
+	/** Size in bytes; 0 when there is no encoding. */
+	size: number;
+	mnemonic?: string;
+	operands: string[];
+	/** Symbol or generated `.L<n>` label at the address. */
+	label?: string;
+	notes: string[];
+	error?: string;
+	/** ELF section the instruction was disassembled from. */
+	section?: string;
+}
+
+export type RecordFormat = 'json' | 'csv' | 'markdown';
+
+export const RECORD_FORMATS: readonly RecordFormat[] = ['json', 'csv', 'markdown'];
+
+const CSV_COLUMNS = ['section', 'address', 'encoding', 'size', 'mnemonic', 'operands', 'label', 'notes', 'error'] as const;
+
+/**
+ * Splits decoder or assembler text such as `lw a0, 8(sp)` into the mnemonic
+ * and its operands. Texts starting with `Error:` become an error instead.
+ */
+export function splitInstructionText(text: string): Pick<InstructionRecord, 'mnemonic' | 'operands' | 'error'> {
+	const trimmed = text.trim();
+	if (trimmed.startsWith('Error:')) {
+		return { operands: [], error: trimmed.slice('Error:'.length).trim() };
+	}
+	const match = /^(\S+)\s*(.*)$/.exec(trimmed);
+	if (!match) {
+		return { operands: [] };
+	}
+	return { mnemonic: match[1], operands: match[2] ? match[2].split(/\s*,\s*/) : [] };
+}
+
+/**
+ * Renders records as pretty-printed JSON, RFC 4180 CSV with a header row, or
+ * a Markdown table. Addresses are written in hexadecimal in CSV and Markdown.
+ */
+export function formatRecords(records: readonly InstructionRecord[], format: RecordFormat): string {
+	switch (format) {
+		case 'json':
+			return `${JSON.stringify(records, null, 2)}\n`;
+		case 'csv':
+			return [
+				CSV_COLUMNS.join(','),
+				...records.map(record => CSV_COLUMNS.map(column => quoteCsv(csvValue(record, column))).join(','))
+			].join('\r\n') + '\r\n';
+		case 'markdown': {
+			const withSection = records.some(record => record.section);
+			const header = [...(withSection ? ['Section'] : []), 'Address', 'Encoding', 'Instruction', 'Notes'];
+			const rows = records.map(record => [
+				...(withSection ? [record.section ?? ''] : []),
+				formatAddress(record.address),
+				record.encoding ? `\`${record.encoding}\`` : '',
+				record.error ? `Error: ${record.error}` : instructionText(record),
+				record.notes.join('; ')
+			]);
+			return [header, header.map(() => '---'), ...rows]
+				.map(cells => `| ${cells.map(escapeMarkdownCell).join(' | ')} |`)
+				.join('\n') + '\n';
+		}
+	}
+}
+
+function csvValue(record: InstructionRecord, column: typeof CSV_COLUMNS[number]): string {
+	switch (column) {
+		case 'address':
+			return formatAddress(record.address);
+		case 'size':
+			return record.size > 0 ? String(record.size) : '';
+		case 'operands':
+			return record.operands.join(', ');
+		case 'notes':
+			return record.notes.join('; ');
+		default:
+			return record[column] ?? '';
+	}
+}
+
+function instructionText(record: InstructionRecord): string {
+	return [record.mnemonic ?? '', record.operands.join(', ')].filter(Boolean).join(' ');
+}
+
+function formatAddress(address: number | undefined): string {
+	return address === undefined ? '' : `0x${address.toString(16)}`;
+}
+
+function quoteCsv(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdownCell(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
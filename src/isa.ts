@@ -0,0 +1,532 @@
+export type Xlen = 32 | 64;
+
+export type InstructionFormat =
+	| 'R'
+	| 'R4'
+	| 'I'
+	| 'S'
+	| 'B'
+	| 'U'
+	| 'J'
+	| 'CR'
+	| 'CI'
+	| 'CSS'
+	| 'CIW'
+	| 'CL'
+	| 'CS'
+	| 'CA'
+	| 'CB'
+	| 'CJ';
+
+/** Built-in extensions, plus vendor extensions such as `Xacc` named by custom instruction files. */
+export type IsaExtension = 'I' | 'M' | 'A' | 'F' | 'D' | 'C' | 'Zicsr' | 'Zifencei' | 'Privileged' | `X${string}`;
+
+export type OperandKind = 'xreg' | 'freg' | 'imm' | 'csr' | 'roundingMode' | 'fenceSet' | 'fixedReg';
+
+/**
+ * Maps instruction bits onto immediate bits. Each segment is
+ * `[instructionHigh, instructionLow, immediateHigh]`; the immediate bits run
+ * downwards from `immediateHigh` for the width of the instruction range.
+ */
+export type ImmediateLayout = ReadonlyArray<readonly [number, number, number]>;
+
+export interface OperandType {
+	kind: OperandKind;
+	/** Instruction bit range `[high, low]` for register, CSR and fence operands. */
+	field?: readonly [number, number];
+	/** Register is encoded in a 3-bit field covering x8-x15 / f8-f15. */
+	compact?: boolean;
+	/** Register is implied by the encoding (e.g. `sp` in c.lwsp). */
+	fixedRegister?: number;
+	nonZero?: boolean;
+	forbidden?: readonly number[];
+	layout?: ImmediateLayout;
+	signed?: boolean;
+	/** The immediate must be a multiple of this value. */
+	scale?: number;
+	pcRelative?: boolean;
+	/** Shift amount whose width follows XLEN. */
+	shamt?: boolean;
+	/** Upper immediate that also accepts its unsigned (lui-style) spelling. */
+	upper?: boolean;
+}
+
+export interface InstructionSpec {
+	mnemonic: string;
+	format: InstructionFormat;
+	extension: IsaExtension;
+	match: number;
+	mask: number;
+	/** Operand type names; memory operands are written as `offset(base)`. */
+	operands: readonly string[];
+	/** Restricts the encoding to a single base width. */
+	xlen?: Xlen;
+}
+
+/** User-defined instructions, which the decoder and the assembler consult before the built-in tables. */
+export interface CustomInstructionSet {
+	specs: readonly InstructionSpec[];
+	/** Operand types the custom instructions use besides those in `OPERAND_TYPES`. */
+	operandTypes: Readonly<Record<string, OperandType>>;
+}
+
+export const OPERAND_TYPES: Readonly<Record<string, OperandType>> = {
+	rd: { kind: 'xreg', field: [11, 7] },
+	rs1: { kind: 'xreg', field: [19, 15] },
+	rs2: { kind: 'xreg', field: [24, 20] },
+	frd: { kind: 'freg', field: [11, 7] },
+	frs1: { kind: 'freg', field: [19, 15] },
+	frs2: { kind: 'freg', field: [24, 20] },
+	frs3: { kind: 'freg', field: [31, 27] },
+	imm12: { kind: 'imm', layout: [[31, 20, 11]], signed: true },
+	simm12: { kind: 'imm', layout: [[31, 25, 11], [11, 7, 4]], signed: true },
+	bimm: { kind: 'imm', layout: [[31, 31, 12], [30, 25, 10], [11, 8, 4], [7, 7, 11]], signed: true, scale: 2, pcRelative: true },
+	jimm: { kind: 'imm', layout: [[31, 31, 20], [30, 21, 10], [20, 20, 11], [19, 12, 19]], signed: true, scale: 2, pcRelative: true },
+	uimm20: { kind: 'imm', layout: [[31, 12, 19]], signed: true, upper: true },
+	shamt: { kind: 'imm', layout: [[25, 20, 5]], shamt: true },
+	shamtw: { kind: 'imm', layout: [[24, 20, 4]] },
+	zimm: { kind: 'imm', layout: [[19, 15, 4]] },
+	csr: { kind: 'csr', field: [31, 20] },
+	rm: { kind: 'roundingMode', field: [14, 12] },
+	pred: { kind: 'fenceSet', field: [27, 24] },
+	succ: { kind: 'fenceSet', field: [23, 20] },
+	sp: { kind: 'fixedReg', fixedRegister: 2 },
+	crd: { kind: 'xreg', field: [11, 7] },
+	crdnz: { kind: 'xreg', field: [11, 7], nonZero: true },
+	crdlui: { kind: 'xreg', field: [11, 7], forbidden: [0, 2] },
+	crs2: { kind: 'xreg', field: [6, 2] },
+	crs2nz: { kind: 'xreg', field: [6, 2], nonZero: true },
+	crdp: { kind: 'xreg', field: [4, 2], compact: true },
+	crs1p: { kind: 'xreg', field: [9, 7], compact: true },
+	crs2p: { kind: 'xreg', field: [4, 2], compact: true },
+	cfrd: { kind: 'freg', field: [11, 7] },
+	cfrs2: { kind: 'freg', field: [6, 2] },
+	cfrdp: { kind: 'freg', field: [4, 2], compact: true },
+	cfrs2p: { kind: 'freg', field: [4, 2], compact: true },
+	cnzuimm10: { kind: 'imm', layout: [[12, 11, 5], [10, 7, 9], [6, 6, 2], [5, 5, 3]], scale: 4, nonZero: true },
+	cuimm7: { kind: 'imm', layout: [[12, 10, 5], [6, 6, 2], [5, 5, 6]], scale: 4 },
+	cuimm8: { kind: 'imm', layout: [[12, 10, 5], [6, 5, 7]], scale: 8 },
+	cimm6: { kind: 'imm', layout: [[12, 12, 5], [6, 2, 4]], signed: true },
+	cnzimm6: { kind: 'imm', layout: [[12, 12, 5], [6, 2, 4]], signed: true, nonZero: true },
+	cnzimm6lui: { kind: 'imm', layout: [[12, 12, 5], [6, 2, 4]], signed: true, nonZero: true, upper: true },
+	cnzshamt: { kind: 'imm', layout: [[12, 12, 5], [6, 2, 4]], nonZero: true, shamt: true },
+	cnzimm10sp: { kind: 'imm', layout: [[12, 12, 9], [6, 6, 4], [5, 5, 6], [4, 3, 8], [2, 2, 5]], signed: true, scale: 16, nonZero: true },
+	cjimm: { kind: 'imm', layout: [[12, 12, 11], [11, 11, 4], [10, 9, 9], [8, 8, 10], [7, 7, 6], [6, 6, 7], [5, 3, 3], [2, 2, 5]], signed: true, scale: 2, pcRelative: true },
+	cbimm: { kind: 'imm', layout: [[12, 12, 8], [11, 10, 4], [6, 5, 7], [4, 3, 2], [2, 2, 5]], signed: true, scale: 2, pcRelative: true },
+	cuimm8sp: { kind: 'imm', layout: [[12, 12, 5], [6, 4, 4], [3, 2, 7]], scale: 4 },
+	cuimm9sp: { kind: 'imm', layout: [[12, 12, 5], [6, 5, 4], [4, 2, 8]], scale: 8 },
+	cuimm8sps: { kind: 'imm', layout: [[12, 9, 5], [8, 7, 7]], scale: 4 },
+	cuimm9sps: { kind: 'imm', layout: [[12, 10, 5], [9, 7, 8]], scale: 8 }
+};
+
+export const INTEGER_REGISTER_NAMES: readonly string[] = [
+	'zero', 'ra', 'sp', 'gp', 'tp', 't0', 't1', 't2',
+	's0', 's1', 'a0', 'a1', 'a2', 'a3', 'a4', 'a5',
+	'a6', 'a7', 's2', 's3', 's4', 's5', 's6', 's7',
+	's8', 's9', 's10', 's11', 't3', 't4', 't5', 't6'
+];
+
+export const FLOAT_REGISTER_NAMES: readonly string[] = [
+	'ft0', 'ft1', 'ft2', 'ft3', 'ft4', 'ft5', 'ft6', 'ft7',
+	'fs0', 'fs1', 'fa0', 'fa1', 'fa2', 'fa3', 'fa4', 'fa5',
+	'fa6', 'fa7', 'fs2', 'fs3', 'fs4', 'fs5', 'fs6', 'fs7',
+	'fs8', 'fs9', 'fs10', 'fs11', 'ft8', 'ft9', 'ft10', 'ft11'
+];
+
+export const ROUNDING_MODES: readonly string[] = ['rne', 'rtz', 'rdn', 'rup', 'rmm', '', '', 'dyn'];
+
+export const CSR_NAMES: Readonly<Record<string, number>> = {
+	fflags: 0x001,
+	frm: 0x002,
+	fcsr: 0x003,
+	cycle: 0xc00,
+	time: 0xc01,
+	instret: 0xc02,
+	cycleh: 0xc80,
+	timeh: 0xc81,
+	instreth: 0xc82,
+	sstatus: 0x100,
+	sie: 0x104,
+	stvec: 0x105,
+	scounteren: 0x106,
+	sscratch: 0x140,
+	sepc: 0x141,
+	scause: 0x142,
+	stval: 0x143,
+	sip: 0x144,
+	satp: 0x180,
+	mstatus: 0x300,
+	misa: 0x301,
+	medeleg: 0x302,
+	mideleg: 0x303,
+	mie: 0x304,
+	mtvec: 0x305,
+	mcounteren: 0x306,
+	mscratch: 0x340,
+	mepc: 0x341,
+	mcause: 0x342,
+	mtval: 0x343,
+	mip: 0x344,
+	mcycle: 0xb00,
+	minstret: 0xb02,
+	mvendorid: 0xf11,
+	marchid: 0xf12,
+	mimpid: 0xf13,
+	mhartid: 0xf14
+};
+
+const R_MASK = 0xfe00707f;
+const I_MASK = 0x0000707f;
+const U_MASK = 0x0000007f;
+const FULL_MASK = 0xffffffff;
+const C_MASK = 0x0000e003;
+
+const NO_CUSTOM_INSTRUCTIONS: CustomInstructionSet = { specs: [], operandTypes: {} };
+
+let customInstructions = NO_CUSTOM_INSTRUCTIONS;
+
+export const INSTRUCTION_SPECS: readonly InstructionSpec[] = [
+	// RV32I / RV64I
+	spec('lui', 'U', 'I', 0x37, U_MASK, ['rd', 'uimm20']),
+	spec('auipc', 'U', 'I', 0x17, U_MASK, ['rd', 'uimm20']),
+	spec('jal', 'J', 'I', 0x6f, U_MASK, ['rd', 'jimm']),
+	spec('jalr', 'I', 'I', 0x67, I_MASK, ['rd', 'imm12(rs1)']),
+	...['beq', 'bne', '', '', 'blt', 'bge', 'bltu', 'bgeu'].map((name, funct3) =>
+		name ? spec(name, 'B', 'I', 0x63 | funct3 << 12, I_MASK, ['rs1', 'rs2', 'bimm']) : undefined),
+	...['lb', 'lh', 'lw', 'ld', 'lbu', 'lhu', 'lwu'].map((name, funct3) =>
+		spec(name, 'I', 'I', 0x03 | funct3 << 12, I_MASK, ['rd', 'imm12(rs1)'], name === 'ld' || name === 'lwu' ? 64 : undefined)),
+	...['sb', 'sh', 'sw', 'sd'].map((name, funct3) =>
+		spec(name, 'S', 'I', 0x23 | funct3 << 12, I_MASK, ['rs2', 'simm12(rs1)'], name === 'sd' ? 64 : undefined)),
+	...['addi', '', 'slti', 'sltiu', 'xori', '', 'ori', 'andi'].map((name, funct3) =>
+		name ? spec(name, 'I', 'I', 0x13 | funct3 << 12, I_MASK, ['rd', 'rs1', 'imm12']) : undefined),
+	spec('slli', 'I', 'I', 0x00001013, 0xfc00707f, ['rd', 'rs1', 'shamt']),
+	spec('srli', 'I', 'I', 0x00005013, 0xfc00707f, ['rd', 'rs1', 'shamt']),
+	spec('srai', 'I', 'I', 0x40005013, 0xfc00707f, ['rd', 'rs1', 'shamt']),
+	...['add', 'sll', 'slt', 'sltu', 'xor', 'srl', 'or', 'and'].map((name, funct3) =>
+		spec(name, 'R', 'I', 0x33 | funct3 << 12, R_MASK, ['rd', 'rs1', 'rs2'])),
+	spec('sub', 'R', 'I', 0x40000033, R_MASK, ['rd', 'rs1', 'rs2']),
+	spec('sra', 'R', 'I', 0x40005033, R_MASK, ['rd', 'rs1', 'rs2']),
+	spec('fence', 'I', 'I', 0x0000000f, 0xf00fffff, ['pred', 'succ']),
+	spec('fence.tso', 'I', 'I', 0x8330000f, FULL_MASK, []),
+	spec('ecall', 'I', 'I', 0x00000073, FULL_MASK, []),
+	spec('ebreak', 'I', 'I', 0x00100073, FULL_MASK, []),
+	spec('addiw', 'I', 'I', 0x0000001b, I_MASK, ['rd', 'rs1', 'imm12'], 64),
+	spec('slliw', 'I', 'I', 0x0000101b, R_MASK, ['rd', 'rs1', 'shamtw'], 64),
+	spec('srliw', 'I', 'I', 0x0000501b, R_MASK, ['rd', 'rs1', 'shamtw'], 64),
+	spec('sraiw', 'I', 'I', 0x4000501b, R_MASK, ['rd', 'rs1', 'shamtw'], 64),
+	spec('addw', 'R', 'I', 0x0000003b, R_MASK, ['rd', 'rs1', 'rs2'], 64),
+	spec('subw', 'R', 'I', 0x4000003b, R_MASK, ['rd', 'rs1', 'rs2'], 64),
+	spec('sllw', 'R', 'I', 0x0000103b, R_MASK, ['rd', 'rs1', 'rs2'], 64),
+	spec('srlw', 'R', 'I', 0x0000503b, R_MASK, ['rd', 'rs1', 'rs2'], 64),
+	spec('sraw', 'R', 'I', 0x4000503b, R_MASK, ['rd', 'rs1', 'rs2'], 64),
+
+	// Zifencei / Zicsr / privileged
+	spec('fence.i', 'I', 'Zifencei', 0x0000100f, FULL_MASK, []),
+	...['', 'csrrw', 'csrrs', 'csrrc', '', 'csrrwi', 'csrrsi', 'csrrci'].map((name, funct3) =>
+		name ? spec(name, 'I', 'Zicsr', 0x73 | funct3 << 12, I_MASK, ['rd', 'csr', funct3 >= 5 ? 'zimm' : 'rs1']) : undefined),
+	spec('sret', 'I', 'Privileged', 0x10200073, FULL_MASK, []),
+	spec('mret', 'I', 'Privileged', 0x30200073, FULL_MASK, []),
+	spec('wfi', 'I', 'Privileged', 0x10500073, FULL_MASK, []),
+	spec('sfence.vma', 'R', 'Privileged', 0x12000073, 0xfe007fff, ['rs1', 'rs2']),
+
+	// M
+	...['mul', 'mulh', 'mulhsu', 'mulhu', 'div', 'divu', 'rem', 'remu'].map((name, funct3) =>
+		spec(name, 'R', 'M', 0x02000033 | funct3 << 12, R_MASK, ['rd', 'rs1', 'rs2'])),
+	...['mulw', '', '', '', 'divw', 'divuw', 'remw', 'remuw'].map((name, funct3) =>
+		name ? spec(name, 'R', 'M', 0x0200003b | funct3 << 12, R_MASK, ['rd', 'rs1', 'rs2'], 64) : undefined),
+
+	// A
+	...atomicSpecs('w', 2),
+	...atomicSpecs('d', 3),
+
+	// F / D
+	...floatSpecs('s', 0, 'F'),
+	...floatSpecs('d', 1, 'D'),
+	spec('fcvt.s.d', 'R', 'D', 0x40100053, 0xfff0007f, ['frd', 'frs1', 'rm']),
+	spec('fcvt.d.s', 'R', 'D', 0x42000053, 0xfff0007f, ['frd', 'frs1', 'rm']),
+	spec('fmv.x.w', 'R', 'F', 0xe0000053, 0xfff0707f, ['rd', 'frs1']),
+	spec('fmv.w.x', 'R', 'F', 0xf0000053, 0xfff0707f, ['frd', 'rs1']),
+	spec('fmv.x.d', 'R', 'D', 0xe2000053, 0xfff0707f, ['rd', 'frs1'], 64),
+	spec('fmv.d.x', 'R', 'D', 0xf2000053, 0xfff0707f, ['frd', 'rs1'], 64),
+
+	// C, quadrant 0
+	spec('c.addi4spn', 'CIW', 'C', 0x0000, C_MASK, ['crdp', 'sp', 'cnzuimm10']),
+	spec('c.fld', 'CL', 'D', 0x2000, C_MASK, ['cfrdp', 'cuimm8(crs1p)']),
+	spec('c.lw', 'CL', 'C', 0x4000, C_MASK, ['crdp', 'cuimm7(crs1p)']),
+	spec('c.flw', 'CL', 'F', 0x6000, C_MASK, ['cfrdp', 'cuimm7(crs1p)'], 32),
+	spec('c.ld', 'CL', 'C', 0x6000, C_MASK, ['crdp', 'cuimm8(crs1p)'], 64),
+	spec('c.fsd', 'CS', 'D', 0xa000, C_MASK, ['cfrs2p', 'cuimm8(crs1p)']),
+	spec('c.sw', 'CS', 'C', 0xc000, C_MASK, ['crs2p', 'cuimm7(crs1p)']),
+	spec('c.fsw', 'CS', 'F', 0xe000, C_MASK, ['cfrs2p', 'cuimm7(crs1p)'], 32),
+	spec('c.sd', 'CS', 'C', 0xe000, C_MASK, ['crs2p', 'cuimm8(crs1p)'], 64),
+
+	// C, quadrant 1
+	spec('c.nop', 'CI', 'C', 0x0001, 0xffff, []),
+	spec('c.addi', 'CI', 'C', 0x0001, C_MASK, ['crdnz', 'cnzimm6']),
+	spec('c.jal', 'CJ', 'C', 0x2001, C_MASK, ['cjimm'], 32),
+	spec('c.addiw', 'CI', 'C', 0x2001, C_MASK, ['crdnz', 'cimm6'], 64),
+	spec('c.li', 'CI', 'C', 0x4001, C_MASK, ['crdnz', 'cimm6']),
+	spec('c.addi16sp', 'CI', 'C', 0x6101, 0xef83, ['sp', 'cnzimm10sp']),
+	spec('c.lui', 'CI', 'C', 0x6001, C_MASK, ['crdlui', 'cnzimm6lui']),
+	spec('c.srli', 'CB', 'C', 0x8001, 0xec03, ['crs1p', 'cnzshamt']),
+	spec('c.srai', 'CB', 'C', 0x8401, 0xec03, ['crs1p', 'cnzshamt']),
+	spec('c.andi', 'CB', 'C', 0x8801, 0xec03, ['crs1p', 'cimm6']),
+	spec('c.sub', 'CA', 'C', 0x8c01, 0xfc63, ['crs1p', 'crs2p']),
+	spec('c.xor', 'CA', 'C', 0x8c21, 0xfc63, ['crs1p', 'crs2p']),
+	spec('c.or', 'CA', 'C', 0x8c41, 0xfc63, ['crs1p', 'crs2p']),
+	spec('c.and', 'CA', 'C', 0x8c61, 0xfc63, ['crs1p', 'crs2p']),
+	spec('c.subw', 'CA', 'C', 0x9c01, 0xfc63, ['crs1p', 'crs2p'], 64),
+	spec('c.addw', 'CA', 'C', 0x9c21, 0xfc63, ['crs1p', 'crs2p'], 64),
+	spec('c.j', 'CJ', 'C', 0xa001, C_MASK, ['cjimm']),
+	spec('c.beqz', 'CB', 'C', 0xc001, C_MASK, ['crs1p', 'cbimm']),
+	spec('c.bnez', 'CB', 'C', 0xe001, C_MASK, ['crs1p', 'cbimm']),
+
+	// C, quadrant 2
+	spec('c.slli', 'CI', 'C', 0x0002, C_MASK, ['crdnz', 'cnzshamt']),
+	spec('c.fldsp', 'CI', 'D', 0x2002, C_MASK, ['cfrd', 'cuimm9sp(sp)']),
+	spec('c.lwsp', 'CI', 'C', 0x4002, C_MASK, ['crdnz', 'cuimm8sp(sp)']),
+	spec('c.flwsp', 'CI', 'F', 0x6002, C_MASK, ['cfrd', 'cuimm8sp(sp)'], 32),
+	spec('c.ldsp', 'CI', 'C', 0x6002, C_MASK, ['crdnz', 'cuimm9sp(sp)'], 64),
+	spec('c.jr', 'CR', 'C', 0x8002, 0xf07f, ['crdnz']),
+	spec('c.mv', 'CR', 'C', 0x8002, 0xf003, ['crdnz', 'crs2nz']),
+	spec('c.ebreak', 'CR', 'C', 0x9002, 0xffff, []),
+	spec('c.jalr', 'CR', 'C', 0x9002, 0xf07f, ['crdnz']),
+	spec('c.add', 'CR', 'C', 0x9002, 0xf003, ['crdnz', 'crs2nz']),
+	spec('c.fsdsp', 'CSS', 'D', 0xa002, C_MASK, ['cfrs2', 'cuimm9sps(sp)']),
+	spec('c.swsp', 'CSS', 'C', 0xc002, C_MASK, ['crs2', 'cuimm8sps(sp)']),
+	spec('c.fswsp', 'CSS', 'F', 0xe002, C_MASK, ['cfrs2', 'cuimm8sps(sp)'], 32),
+	spec('c.sdsp', 'CSS', 'C', 0xe002, C_MASK, ['crs2', 'cuimm9sps(sp)'], 64)
+].filter((entry): entry is InstructionSpec => entry !== undefined);
+
+/** Bit fields of each format, most significant first, as drawn in the ISA manual. */
+export const FORMAT_FIELDS: Readonly<Record<InstructionFormat, ReadonlyArray<readonly [string, number, number]>>> = {
+	R: [['funct7', 31, 25], ['rs2', 24, 20], ['rs1', 19, 15], ['funct3', 14, 12], ['rd', 11, 7], ['opcode', 6, 0]],
+	R4: [['rs3', 31, 27], ['funct2', 26, 25], ['rs2', 24, 20], ['rs1', 19, 15], ['funct3', 14, 12], ['rd', 11, 7], ['opcode', 6, 0]],
+	I: [['imm', 31, 20], ['rs1', 19, 15], ['funct3', 14, 12], ['rd', 11, 7], ['opcode', 6, 0]],
+	S: [['imm', 31, 25], ['rs2', 24, 20], ['rs1', 19, 15], ['funct3', 14, 12], ['imm', 11, 7], ['opcode', 6, 0]],
+	B: [['imm', 31, 25], ['rs2', 24, 20], ['rs1', 19, 15], ['funct3', 14, 12], ['imm', 11, 7], ['opcode', 6, 0]],
+	U: [['imm', 31, 12], ['rd', 11, 7], ['opcode', 6, 0]],
+	J: [['imm', 31, 12], ['rd', 11, 7], ['opcode', 6, 0]],
+	CR: [['funct4', 15, 12], ['rd/rs1', 11, 7], ['rs2', 6, 2], ['op', 1, 0]],
+	CI: [['funct3', 15, 13], ['imm', 12, 12], ['rd/rs1', 11, 7], ['imm', 6, 2], ['op', 1, 0]],
+	CSS: [['funct3', 15, 13], ['imm', 12, 7], ['rs2', 6, 2], ['op', 1, 0]],
+	CIW: [['funct3', 15, 13], ['imm', 12, 5], ["rd'", 4, 2], ['op', 1, 0]],
+	CL: [['funct3', 15, 13], ['imm', 12, 10], ["rs1'", 9, 7], ['imm', 6, 5], ["rd'", 4, 2], ['op', 1, 0]],
+	CS: [['funct3', 15, 13], ['imm', 12, 10], ["rs1'", 9, 7], ['imm', 6, 5], ["rs2'", 4, 2], ['op', 1, 0]],
+	CA: [['funct6', 15, 10], ["rd'/rs1'", 9, 7], ['funct2', 6, 5], ["rs2'", 4, 2], ['op', 1, 0]],
+	CB: [['funct3', 15, 13], ['imm', 12, 10], ["rs1'", 9, 7], ['imm', 6, 2], ['op', 1, 0]],
+	CJ: [['funct3', 15, 13], ['imm', 12, 2], ['op', 1, 0]]
+};
+
+/** Formats implied by the major opcode of 32-bit instructions. */
+export const OPCODE_FORMATS: Readonly<Record<number, InstructionFormat>> = {
+	0x03: 'I',
+	0x07: 'I',
+	0x0f: 'I',
+	0x13: 'I',
+	0x17: 'U',
+	0x1b: 'I',
+	0x23: 'S',
+	0x27: 'S',
+	0x2f: 'R',
+	0x33: 'R',
+	0x37: 'U',
+	0x3b: 'R',
+	0x43: 'R4',
+	0x47: 'R4',
+	0x4b: 'R4',
+	0x4f: 'R4',
+	0x53: 'R',
+	0x63: 'B',
+	0x67: 'I',
+	0x6f: 'J',
+	0x73: 'I'
+};
+
+/** Immediate layouts used when the instruction is not in the table. */
+export const FORMAT_IMMEDIATES: Readonly<Partial<Record<InstructionFormat, string>>> = {
+	I: 'imm12',
+	S: 'simm12',
+	B: 'bimm',
+	U: 'uimm20',
+	J: 'jimm'
+};
+
+export function isCompressedFormat(format: InstructionFormat): boolean {
+	return format.startsWith('C');
+}
+
+export function instructionSize(spec: InstructionSpec): 2 | 4 {
+	return isCompressedFormat(spec.format) ? 2 : 4;
+}
+
+/**
+ * Fields of an instruction's format with the bits its encoding fixes: `0`/`1`
+ * for fixed bits and `x` for operand bits, or undefined when no bit is fixed.
+ */
+export function encodingPattern(spec: InstructionSpec): Array<{ name: string; high: number; low: number; bits?: string }> {
+	return FORMAT_FIELDS[spec.format].map(([name, high, low]) => {
+		let bits = '';
+		for (let bit = high; bit >= low; bit -= 1) {
+			bits += (spec.mask >>> bit) & 1 ? String((spec.match >>> bit) & 1) : 'x';
+		}
+		return { name, high, low, bits: /[01]/.test(bits) ? bits : undefined };
+	});
+}
+
+export function findInstructionSpecs(mnemonic: string): InstructionSpec[] {
+	const normalized = mnemonic.toLowerCase();
+	return [...customInstructions.specs, ...INSTRUCTION_SPECS].filter(entry => entry.mnemonic === normalized);
+}
+
+/** Replaces the custom instructions; without a set only the built-in tables are used. */
+export function setCustomInstructions(set: CustomInstructionSet | undefined): void {
+	customInstructions = set ?? NO_CUSTOM_INSTRUCTIONS;
+}
+
+export function getCustomInstructions(): CustomInstructionSet {
+	return customInstructions;
+}
+
+/** Looks up an operand type of the built-in tables or of the custom instructions. */
+export function operandType(name: string): OperandType | undefined {
+	return OPERAND_TYPES[name] ?? customInstructions.operandTypes[name];
+}
+
+export function parseIntegerRegister(name: string): number | undefined {
+	const normalized = name.trim().toLowerCase();
+	const numbered = /^x(\d{1,2})$/.exec(normalized);
+	if (numbered) {
+		const index = Number(numbered[1]);
+		return index < 32 ? index : undefined;
+	}
+	if (normalized === 'fp') {
+		return 8;
+	}
+	const index = INTEGER_REGISTER_NAMES.indexOf(normalized);
+	return index >= 0 ? index : undefined;
+}
+
+export function parseFloatRegister(name: string): number | undefined {
+	const normalized = name.trim().toLowerCase();
+	const numbered = /^f(\d{1,2})$/.exec(normalized);
+	if (numbered) {
+		const index = Number(numbered[1]);
+		return index < 32 ? index : undefined;
+	}
+	const index = FLOAT_REGISTER_NAMES.indexOf(normalized);
+	return index >= 0 ? index : undefined;
+}
+
+/** Total number of immediate bits covered by a layout (the highest bit plus one). */
+export function immediateWidth(layout: ImmediateLayout): number {
+	return Math.max(...layout.map(([, , immediateHigh]) => immediateHigh)) + 1;
+}
+
+export function placeImmediate(layout: ImmediateLayout, value: number): number {
+	let word = 0;
+	for (const [instructionHigh, instructionLow, immediateHigh] of layout) {
+		for (let bit = instructionHigh; bit >= instructionLow; bit -= 1) {
+			const immediateBit = immediateHigh - (instructionHigh - bit);
+			if (Math.floor(value / 2 ** immediateBit) % 2 !== 0) {
+				word |= 1 << bit;
+			}
+		}
+	}
+	return word >>> 0;
+}
+
+export function extractImmediate(layout: ImmediateLayout, word: number, signed: boolean): number {
+	let value = 0;
+	for (const [instructionHigh, instructionLow, immediateHigh] of layout) {
+		for (let bit = instructionHigh; bit >= instructionLow; bit -= 1) {
+			if ((word >>> bit) & 1) {
+				value += 2 ** (immediateHigh - (instructionHigh - bit));
+			}
+		}
+	}
+	const width = immediateWidth(layout);
+	if (signed && value >= 2 ** (width - 1)) {
+		value -= 2 ** width;
+	}
+	return value;
+}
+
+export function placeField(field: readonly [number, number], value: number): number {
+	const [high, low] = field;
+	const width = high - low + 1;
+	return ((value & ((1 << width) - 1)) << low) >>> 0;
+}
+
+export function extractField(field: readonly [number, number], word: number): number {
+	const [high, low] = field;
+	const width = high - low + 1;
+	return (word >>> low) & ((1 << width) - 1);
+}
+
+function spec(
+	mnemonic: string,
+	format: InstructionFormat,
+	extension: IsaExtension,
+	match: number,
+	mask: number,
+	operands: readonly string[],
+	xlen?: Xlen
+): InstructionSpec {
+	return { mnemonic, format, extension, match: match >>> 0, mask: mask >>> 0, operands, xlen };
+}
+
+function atomicSpecs(width: 'w' | 'd', funct3: number): InstructionSpec[] {
+	const xlen = width === 'd' ? 64 : undefined;
+	const base = 0x2f | funct3 << 12;
+	const operations: Array<[string, number]> = [
+		['amoadd', 0x00],
+		['amoswap', 0x01],
+		['amoxor', 0x04],
+		['amoor', 0x08],
+		['amoand', 0x0c],
+		['amomin', 0x10],
+		['amomax', 0x14],
+		['amominu', 0x18],
+		['amomaxu', 0x1c]
+	];
+	return [
+		spec(`lr.${width}`, 'R', 'A', base | 0x02 << 27, 0xf9f0707f, ['rd', '(rs1)'], xlen),
+		spec(`sc.${width}`, 'R', 'A', base | 0x03 << 27, 0xf800707f, ['rd', 'rs2', '(rs1)'], xlen),
+		...operations.map(([name, funct5]) =>
+			spec(`${name}.${width}`, 'R', 'A', base | funct5 << 27, 0xf800707f, ['rd', 'rs2', '(rs1)'], xlen))
+	];
+}
+
+function floatSpecs(suffix: 's' | 'd', fmt: number, extension: IsaExtension): InstructionSpec[] {
+	const funct7 = (value: number) => (value | fmt) << 25;
+	const loadStoreFunct3 = suffix === 's' ? 2 : 3;
+	const loadName = suffix === 's' ? 'flw' : 'fld';
+	const storeName = suffix === 's' ? 'fsw' : 'fsd';
+	const rmMask = 0xfe00007f;
+	const unaryMask = 0xfff0007f;
+	return [
+		spec(loadName, 'I', extension, 0x07 | loadStoreFunct3 << 12, I_MASK, ['frd', 'imm12(rs1)']),
+		spec(storeName, 'S', extension, 0x27 | loadStoreFunct3 << 12, I_MASK, ['frs2', 'simm12(rs1)']),
+		...['fmadd', 'fmsub', 'fnmsub', 'fnmadd'].map((name, index) =>
+			spec(`${name}.${suffix}`, 'R4', extension, (0x43 + index * 4) | fmt << 25, 0x0600007f, ['frd', 'frs1', 'frs2', 'frs3', 'rm'])),
+		spec(`fadd.${suffix}`, 'R', extension, 0x53 | funct7(0x00), rmMask, ['frd', 'frs1', 'frs2', 'rm']),
+		spec(`fsub.${suffix}`, 'R', extension, 0x53 | funct7(0x04), rmMask, ['frd', 'frs1', 'frs2', 'rm']),
+		spec(`fmul.${suffix}`, 'R', extension, 0x53 | funct7(0x08), rmMask, ['frd', 'frs1', 'frs2', 'rm']),
+		spec(`fdiv.${suffix}`, 'R', extension, 0x53 | funct7(0x0c), rmMask, ['frd', 'frs1', 'frs2', 'rm']),
+		spec(`fsqrt.${suffix}`, 'R', extension, 0x53 | funct7(0x2c), unaryMask, ['frd', 'frs1', 'rm']),
+		spec(`fsgnj.${suffix}`, 'R', extension, 0x53 | funct7(0x10), R_MASK, ['frd', 'frs1', 'frs2']),
+		spec(`fsgnjn.${suffix}`, 'R', extension, 0x1053 | funct7(0x10), R_MASK, ['frd', 'frs1', 'frs2']),
+		spec(`fsgnjx.${suffix}`, 'R', extension, 0x2053 | funct7(0x10), R_MASK, ['frd', 'frs1', 'frs2']),
+		spec(`fmin.${suffix}`, 'R', extension, 0x53 | funct7(0x14), R_MASK, ['frd', 'frs1', 'frs2']),
+		spec(`fmax.${suffix}`, 'R', extension, 0x1053 | funct7(0x14), R_MASK, ['frd', 'frs1', 'frs2']),
+		spec(`fle.${suffix}`, 'R', extension, 0x53 | funct7(0x50), R_MASK, ['rd', 'frs1', 'frs2']),
+		spec(`flt.${suffix}`, 'R', extension, 0x1053 | funct7(0x50), R_MASK, ['rd', 'frs1', 'frs2']),
+		spec(`feq.${suffix}`, 'R', extension, 0x2053 | funct7(0x50), R_MASK, ['rd', 'frs1', 'frs2']),
+		spec(`fclass.${suffix}`, 'R', extension, 0x1053 | funct7(0x70), 0xfff0707f, ['rd', 'frs1']),
+		...['w', 'wu', 'l', 'lu'].map((integer, rs2) =>
+			spec(`fcvt.${integer}.${suffix}`, 'R', extension, 0x53 | funct7(0x60) | rs2 << 20, unaryMask, ['rd', 'frs1', 'rm'], rs2 >= 2 ? 64 : undefined)),
+		...['w', 'wu', 'l', 'lu'].map((integer, rs2) =>
+			spec(`fcvt.${suffix}.${integer}`, 'R', extension, 0x53 | funct7(0x68) | rs2 << 20, unaryMask, ['frd', 'rs1', 'rm'], rs2 >= 2 ? 64 : undefined))
+	];
+}
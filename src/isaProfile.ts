@@ -0,0 +1,246 @@
+import { decodeInstruction } from './decoder';
+import { IsaExtension, Xlen, isCompressedFormat } from './isa';
+
+/** Extensions reported by the profile; those beyond `IsaExtension` are recognised by their encoding space only. */
+export type ProfileExtension = IsaExtension | 'Q' | 'V' | 'Zba' | 'Zbb' | 'Zbs' | 'Zfh';
+
+export const PROFILE_EXTENSIONS: readonly ProfileExtension[] = [
+	'I', 'M', 'A', 'F', 'D', 'Q', 'C', 'V', 'Zicsr', 'Zifencei', 'Zba', 'Zbb', 'Zbs', 'Zfh', 'Privileged'
+];
+
+export interface InstructionProfile {
+	/** Histogram bucket: compressed instructions count as C. */
+	extension: ProfileExtension;
+	/** Every extension a core needs to execute the instruction, e.g. C and D for c.fld. */
+	required: ProfileExtension[];
+	xlen?: Xlen;
+}
+
+export interface ExtensionCount {
+	/** A `ProfileExtension`, or `unknown` for encodings that could not be classified. */
+	extension: string;
+	count: number;
+	/** Set when a target march is given and it does not include the extension. */
+	unsupported?: boolean;
+}
+
+/** A parsed `-march` string such as `rv32imac_zicsr`. */
+export interface TargetIsa {
+	march: string;
+	xlen: 32 | 64 | 128;
+	/** Lower-case extension names, with implied extensions (g, b, d → f, ...) expanded. */
+	extensions: Set<string>;
+}
+
+interface EncodingPattern {
+	extension: ProfileExtension;
+	match: number;
+	mask: number;
+	xlen?: Xlen;
+}
+
+const R_MASK = 0xfe00707f;
+const SHIFT_MASK = 0xfc00707f;
+const UNARY_MASK = 0xfff0707f;
+
+/** Bit-manipulation encodings, which the instruction tables do not cover. */
+const BITMANIP_PATTERNS: readonly EncodingPattern[] = [
+	{ extension: 'Zba', match: 0x20002033, mask: R_MASK },
+	{ extension: 'Zba', match: 0x20004033, mask: R_MASK },
+	{ extension: 'Zba', match: 0x20006033, mask: R_MASK },
+	{ extension: 'Zba', match: 0x0800003b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zba', match: 0x2000203b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zba', match: 0x2000403b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zba', match: 0x2000603b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zba', match: 0x0800101b, mask: SHIFT_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x40007033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x40006033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x40004033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x0a004033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x0a005033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x0a006033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x0a007033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x60001033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x60005033, mask: R_MASK },
+	{ extension: 'Zbb', match: 0x6000103b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x6000503b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x60005013, mask: SHIFT_MASK },
+	{ extension: 'Zbb', match: 0x6000501b, mask: R_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x60001013, mask: UNARY_MASK },
+	{ extension: 'Zbb', match: 0x60101013, mask: UNARY_MASK },
+	{ extension: 'Zbb', match: 0x60201013, mask: UNARY_MASK },
+	{ extension: 'Zbb', match: 0x60401013, mask: UNARY_MASK },
+	{ extension: 'Zbb', match: 0x60501013, mask: UNARY_MASK },
+	{ extension: 'Zbb', match: 0x6000101b, mask: UNARY_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x6010101b, mask: UNARY_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x6020101b, mask: UNARY_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x28705013, mask: UNARY_MASK },
+	{ extension: 'Zbb', match: 0x69805013, mask: UNARY_MASK, xlen: 32 },
+	{ extension: 'Zbb', match: 0x6b805013, mask: UNARY_MASK, xlen: 64 },
+	{ extension: 'Zbb', match: 0x08004033, mask: UNARY_MASK, xlen: 32 },
+	{ extension: 'Zbb', match: 0x0800403b, mask: UNARY_MASK, xlen: 64 },
+	{ extension: 'Zbs', match: 0x48001033, mask: R_MASK },
+	{ extension: 'Zbs', match: 0x48005033, mask: R_MASK },
+	{ extension: 'Zbs', match: 0x68001033, mask: R_MASK },
+	{ extension: 'Zbs', match: 0x28001033, mask: R_MASK },
+	{ extension: 'Zbs', match: 0x48001013, mask: SHIFT_MASK },
+	{ extension: 'Zbs', match: 0x48005013, mask: SHIFT_MASK },
+	{ extension: 'Zbs', match: 0x68001013, mask: SHIFT_MASK },
+	{ extension: 'Zbs', match: 0x28001013, mask: SHIFT_MASK }
+];
+
+/** Extensions switched on by another one, applied until nothing changes. */
+const IMPLIED_EXTENSIONS: Readonly<Record<string, readonly string[]>> = {
+	g: ['i', 'm', 'a', 'f', 'd', 'zicsr', 'zifencei'],
+	b: ['zba', 'zbb', 'zbs'],
+	e: ['i'],
+	f: ['zicsr'],
+	d: ['f'],
+	q: ['d'],
+	v: ['d'],
+	zfh: ['f']
+};
+
+/**
+ * Classifies an encoding by the extension that defines it. Instructions in the
+ * decoder tables use their table extension; Q, V, Zfh and the bit-manipulation
+ * extensions are recognised from their opcode space. Returns undefined for
+ * encodings that belong to none of them.
+ */
+export function profileInstruction(encoding: number, xlen?: Xlen): InstructionProfile | undefined {
+	const decoded = decodeInstruction(encoding, xlen);
+	const spec = decoded.spec;
+	if (spec && isCompressedFormat(spec.format)) {
+		return { extension: 'C', required: spec.extension === 'C' ? ['C'] : ['C', spec.extension], xlen: spec.xlen };
+	}
+	if (spec) {
+		return { extension: spec.extension, required: [spec.extension], xlen: spec.xlen };
+	}
+	if (decoded.size === 2) {
+		return undefined;
+	}
+
+	const word = decoded.encoding;
+	const pattern = BITMANIP_PATTERNS.find(entry => ((word & entry.mask) >>> 0) === entry.match && (xlen === undefined || entry.xlen === undefined || entry.xlen === xlen));
+	if (pattern) {
+		return { extension: pattern.extension, required: [pattern.extension], xlen: pattern.xlen };
+	}
+	const extension = classifyFloatingPointOrVector(word);
+	return extension ? { extension, required: [extension] } : undefined;
+}
+
+/** Counts profiles per histogram bucket in `PROFILE_EXTENSIONS` order, with unclassified encodings last. */
+export function countExtensions(profiles: ReadonlyArray<InstructionProfile | undefined>): ExtensionCount[] {
+	return mergeExtensionCounts([profiles.map(profile => ({ extension: profile?.extension ?? 'unknown', count: 1 }))]);
+}
+
+export function mergeExtensionCounts(lists: ReadonlyArray<readonly ExtensionCount[]>): ExtensionCount[] {
+	const totals = new Map<string, ExtensionCount>();
+	for (const entry of lists.flat()) {
+		const total = totals.get(entry.extension);
+		if (total) {
+			total.count += entry.count;
+		} else {
+			totals.set(entry.extension, { ...entry });
+		}
+	}
+	return [...totals.values()].sort((left, right) => extensionRank(left.extension) - extensionRank(right.extension));
+}
+
+/**
+ * Parses a GCC/LLVM `-march` string: `rv32`, `rv64` or `rv128`, a base of
+ * i, e or g, single-letter extensions, then underscore-separated multi-letter
+ * ones. Version suffixes such as `2p1` are accepted and ignored.
+ */
+export function parseMarch(march: string): TargetIsa {
+	const text = march.trim().toLowerCase();
+	const match = /^rv(32|64|128)([ieg][a-z0-9]*)((?:_[a-z0-9]+)*)$/.exec(text);
+	if (!match) {
+		throw new Error(`"${march}" is not a valid -march string.`);
+	}
+
+	const extensions = new Set<string>();
+	const addLetters = (part: string) => {
+		for (const letter of part.replace(/\d+(p\d+)?/g, '')) {
+			extensions.add(letter);
+		}
+	};
+	addLetters(match[2]);
+	for (const part of match[3].split('_').filter(Boolean)) {
+		if (/^[szx]/.test(part)) {
+			extensions.add(part.replace(/\d+(p\d+)?$/, ''));
+		} else {
+			addLetters(part);
+		}
+	}
+
+	let size = 0;
+	while (size !== extensions.size) {
+		size = extensions.size;
+		for (const name of [...extensions]) {
+			(IMPLIED_EXTENSIONS[name] ?? []).forEach(implied => extensions.add(implied));
+		}
+	}
+	return { march: text, xlen: Number(match[1]) as TargetIsa['xlen'], extensions };
+}
+
+/**
+ * Lists what the target lacks to run an instruction: extension names, plus
+ * `RV64` for RV64-only encodings on an RV32 target. Privileged instructions
+ * are never reported because -march does not describe privilege modes.
+ */
+export function missingExtensions(profile: InstructionProfile, target: TargetIsa): string[] {
+	const missing: string[] = profile.required.filter(extension => !targetSupports(target, extension));
+	if (profile.xlen === 64 && target.xlen === 32) {
+		missing.push('RV64');
+	}
+	return missing;
+}
+
+export function targetSupports(target: TargetIsa, extension: string): boolean {
+	return extension === 'Privileged' || extension === 'unknown' || target.extensions.has(extension.toLowerCase());
+}
+
+function classifyFloatingPointOrVector(word: number): ProfileExtension | undefined {
+	const opcode = word & 0x7f;
+	const funct3 = (word >>> 12) & 0x7;
+	const format = (word >>> 25) & 0x3;
+	switch (opcode) {
+		case 0x57:
+			return 'V';
+		case 0x07:
+		case 0x27:
+			if (funct3 === 1) {
+				return 'Zfh';
+			}
+			if (funct3 === 4) {
+				return 'Q';
+			}
+			return funct3 === 0 || funct3 >= 5 ? 'V' : undefined;
+		case 0x43:
+		case 0x47:
+		case 0x4b:
+		case 0x4f:
+			return floatFormatExtension(format);
+		case 0x53: {
+			// fcvt between formats names the source format in rs2.
+			const isFormatConversion = word >>> 27 === 0x08;
+			const sourceFormat = (word >>> 20) & 0x3;
+			return floatFormatExtension(format) ?? (isFormatConversion ? floatFormatExtension(sourceFormat) : undefined);
+		}
+		default:
+			return undefined;
+	}
+}
+
+function floatFormatExtension(format: number): ProfileExtension | undefined {
+	if (format === 2) {
+		return 'Zfh';
+	}
+	return format === 3 ? 'Q' : undefined;
+}
+
+function extensionRank(extension: string): number {
+	const index = PROFILE_EXTENSIONS.indexOf(extension as ProfileExtension);
+	return index === -1 ? PROFILE_EXTENSIONS.length : index;
+}
@@ -0,0 +1,208 @@
+/** One instruction recovered from an objdump, GDB, QEMU or Spike listing. */
+export interface ListingEntry {
+	lineNumber: number;
+	address?: number;
+	/** Encoding as written in the listing, most significant byte first. */
+	encoding: string;
+	label?: string;
+	/** Mnemonic printed by the tool that produced the listing, if any. */
+	mnemonic?: string;
+	/** Instruction text printed by the tool, without the address and encoding columns. */
+	text?: string;
+}
+
+export interface ListingParseResult {
+	entries: ListingEntry[];
+	/** Instruction lines that had no encoding column (for example GDB `x/i` without `/r`). */
+	skippedLines: number[];
+}
+
+const OBJDUMP_SYMBOL = /^([0-9a-f]+)\s+<([^>]+)>:\s*$/i;
+const OBJDUMP_LINE = /^\s*([0-9a-f]+):\s+([0-9a-f]{8}|[0-9a-f]{4}|(?:[0-9a-f]{2} ){1,3}[0-9a-f]{2})(?:\s+(.*))?$/i;
+const GDB_LINE = /^(?:=>)?\s*0x([0-9a-f]+)(?:\s+<([^>]+)>)?:\s+(.*)$/i;
+const SPIKE_LINE = /^core\s+\d+:\s+(?:(\d)\s+)?0x([0-9a-f]+)\s+\(0x([0-9a-f]+)\)\s*(.*)$/i;
+const SPIKE_SYMBOL = /^core\s+\d+:\s+>>>>\s+(\S+)\s*$/;
+const QEMU_BLOCK = /^IN:\s*(\S+)?\s*$/;
+const GDB_FUNCTION = /^Dump of assembler code for function (\S+?):?\s*$/;
+const RAW_ENCODING = /^([0-9a-f]{8}|[0-9a-f]{4}|(?:[0-9a-f]{2} ){1,3}[0-9a-f]{2})(?:\s+(.*))?$/i;
+
+/**
+ * Base instructions that an assembler alias or compressed mnemonic may stand
+ * for. Disassemblers print these aliases freely, so listings are compared
+ * against the decoder through this table rather than by exact mnemonic.
+ */
+const MNEMONIC_ALIASES: Record<string, readonly string[]> = {
+	nop: ['addi'],
+	li: ['addi', 'addiw', 'lui'],
+	mv: ['addi', 'add'],
+	not: ['xori'],
+	neg: ['sub'],
+	negw: ['subw'],
+	'sext.w': ['addiw'],
+	'zext.b': ['andi'],
+	seqz: ['sltiu'],
+	snez: ['sltu'],
+	sltz: ['slt'],
+	sgtz: ['slt'],
+	beqz: ['beq'],
+	bnez: ['bne'],
+	blez: ['bge'],
+	bgez: ['bge'],
+	bltz: ['blt'],
+	bgtz: ['blt'],
+	bgt: ['blt'],
+	ble: ['bge'],
+	bgtu: ['bltu'],
+	bleu: ['bgeu'],
+	j: ['jal'],
+	jr: ['jalr'],
+	ret: ['jalr'],
+	tail: ['jal', 'jalr'],
+	call: ['jal', 'jalr'],
+	unimp: ['csrrw'],
+	csrr: ['csrrs'],
+	csrw: ['csrrw'],
+	csrs: ['csrrs'],
+	csrc: ['csrrc'],
+	csrwi: ['csrrwi'],
+	csrsi: ['csrrsi'],
+	csrci: ['csrrci'],
+	rdcycle: ['csrrs'],
+	rdtime: ['csrrs'],
+	rdinstret: ['csrrs'],
+	rdcycleh: ['csrrs'],
+	rdtimeh: ['csrrs'],
+	rdinstreth: ['csrrs'],
+	frcsr: ['csrrs'],
+	fscsr: ['csrrw'],
+	frrm: ['csrrs'],
+	fsrm: ['csrrw', 'csrrwi'],
+	frflags: ['csrrs'],
+	fsflags: ['csrrw', 'csrrwi'],
+	fsrmi: ['csrrwi'],
+	fsflagsi: ['csrrwi'],
+	'fmv.s': ['fsgnj.s'],
+	'fabs.s': ['fsgnjx.s'],
+	'fneg.s': ['fsgnjn.s'],
+	'fmv.d': ['fsgnj.d'],
+	'fabs.d': ['fsgnjx.d'],
+	'fneg.d': ['fsgnjn.d'],
+	addi16sp: ['addi'],
+	addi4spn: ['addi'],
+	lwsp: ['lw'],
+	ldsp: ['ld'],
+	flwsp: ['flw'],
+	fldsp: ['fld'],
+	swsp: ['sw'],
+	sdsp: ['sd'],
+	fswsp: ['fsw'],
+	fsdsp: ['fsd']
+};
+
+/** Returns true when the text contains at least one recognizable listing line. */
+export function isListing(text: string): boolean {
+	return text.split('\n').some(line => {
+		const trimmed = line.trim();
+		return parseListingLine(trimmed) !== undefined || GDB_LINE.test(trimmed);
+	});
+}
+
+/**
+ * Extracts addresses, encodings and mnemonics from objdump `-d`, GDB
+ * `x/i`/`disassemble /r`, QEMU `-d in_asm` and Spike log lines. Headers and
+ * other lines that do not describe an instruction are ignored.
+ */
+export function parseListing(text: string): ListingParseResult {
+	const entries: ListingEntry[] = [];
+	const skippedLines: number[] = [];
+	let pendingLabel: { name: string; address?: number } | undefined;
+
+	text.split('\n').forEach((rawLine, index) => {
+		const line = rawLine.trim();
+		const lineNumber = index + 1;
+		const symbol = OBJDUMP_SYMBOL.exec(line);
+		if (symbol) {
+			pendingLabel = { name: symbol[2], address: Number.parseInt(symbol[1], 16) };
+			return;
+		}
+		const block = QEMU_BLOCK.exec(line) ?? SPIKE_SYMBOL.exec(line) ?? GDB_FUNCTION.exec(line);
+		if (block) {
+			pendingLabel = block[1] ? { name: block[1] } : undefined;
+			return;
+		}
+
+		const parsed = parseListingLine(line);
+		if (!parsed) {
+			if (GDB_LINE.test(line)) {
+				skippedLines.push(lineNumber);
+			}
+			return;
+		}
+
+		const entry: ListingEntry = { lineNumber, ...parsed };
+		if (pendingLabel && (pendingLabel.address === undefined || pendingLabel.address === entry.address)) {
+			entry.label = entry.label ?? pendingLabel.name;
+		}
+		pendingLabel = undefined;
+		entries.push(entry);
+	});
+
+	return { entries, skippedLines };
+}
+
+/** Compares a listing mnemonic with the decoder's, allowing aliases, `c.` prefixes and AMO ordering suffixes. */
+export function mnemonicsAgree(listingMnemonic: string, decodedMnemonic: string | undefined): boolean {
+	if (!decodedMnemonic) {
+		return false;
+	}
+	const listed = candidateMnemonics(listingMnemonic);
+	return candidateMnemonics(decodedMnemonic).some(mnemonic => listed.includes(mnemonic));
+}
+
+function parseListingLine(line: string): Omit<ListingEntry, 'lineNumber'> | undefined {
+	const spike = SPIKE_LINE.exec(line);
+	if (spike) {
+		// Commit logs carry a privilege level before the PC and register writes instead of a mnemonic.
+		const text = spike[1] === undefined ? spike[4].trim() : '';
+		return withText({ address: Number.parseInt(spike[2], 16), encoding: spike[3] }, text);
+	}
+
+	const objdump = OBJDUMP_LINE.exec(line);
+	if (objdump) {
+		return withText({ address: Number.parseInt(objdump[1], 16), encoding: normalizeEncoding(objdump[2]) }, objdump[3]);
+	}
+
+	const gdb = GDB_LINE.exec(line);
+	if (gdb) {
+		const raw = RAW_ENCODING.exec(gdb[3].trim());
+		if (!raw) {
+			return undefined;
+		}
+		const symbol = gdb[2] ? /^([^+]+)(?:\+(\d+))?$/.exec(gdb[2]) : undefined;
+		const label = symbol && (!symbol[2] || symbol[2] === '0') ? symbol[1] : undefined;
+		return withText({ address: Number.parseInt(gdb[1], 16), encoding: normalizeEncoding(raw[1]), label }, raw[2]);
+	}
+
+	return undefined;
+}
+
+function withText(entry: Omit<ListingEntry, 'lineNumber'>, text: string | undefined): Omit<ListingEntry, 'lineNumber'> {
+	const cleaned = (text ?? '').replace(/\s+/g, ' ').replace(/\s*#.*$/, '').trim();
+	if (!cleaned) {
+		return entry;
+	}
+	return { ...entry, text: cleaned, mnemonic: cleaned.split(' ')[0].toLowerCase() };
+}
+
+/** Byte columns are printed in memory order; turn them into a most-significant-first word. */
+function normalizeEncoding(value: string): string {
+	if (!value.includes(' ')) {
+		return value.toLowerCase();
+	}
+	return value.split(' ').reverse().join('').toLowerCase();
+}
+
+function candidateMnemonics(mnemonic: string): string[] {
+	const base = mnemonic.toLowerCase().replace(/^c\./, '').replace(/\.(aqrl|aq|rl)$/, '');
+	return [base, ...(MNEMONIC_ALIASES[base] ?? [])];
+}
@@ -0,0 +1,104 @@
+import { decodeInstruction } from './decoder';
+import { Xlen, operandType } from './isa';
+
+/** A problem in machine code input; the offending token is skipped and decoding goes on. */
+export interface InputDiagnostic {
+	line: number;
+	column: number;
+	message: string;
+}
+
+/** A run of undecodable instructions, as indices `[start, end)` into the instructions. */
+export interface DataRun {
+	start: number;
+	end: number;
+}
+
+/** Undecodable instructions in a row from which a run is taken to be data rather than code. */
+export const LIKELY_DATA_RUN = 3;
+
+export const LIKELY_DATA_NOTE = 'likely data';
+
+/** Diagnostics listed one by one before the rest are only counted. */
+const REPORTED_DIAGNOSTICS = 20;
+
+/** Bytes from the start of a stream over which the alignments are compared. */
+const RESYNC_WINDOW = 64;
+
+export function formatDiagnostic(diagnostic: InputDiagnostic): string {
+	return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+}
+
+export function describeDiagnostics(diagnostics: readonly InputDiagnostic[]): string[] {
+	const messages = diagnostics.slice(0, REPORTED_DIAGNOSTICS).map(formatDiagnostic);
+	if (diagnostics.length > REPORTED_DIAGNOSTICS) {
+		messages.push(`... and ${diagnostics.length - REPORTED_DIAGNOSTICS} more problem(s) in the input.`);
+	}
+	return messages;
+}
+
+/** Finds the runs of at least `LIKELY_DATA_RUN` undecodable instructions, such as literal pools and padding. */
+export function findDataRuns(undecodable: readonly boolean[]): DataRun[] {
+	const runs: DataRun[] = [];
+	let start = -1;
+	for (let index = 0; index <= undecodable.length; index++) {
+		if (index < undecodable.length && undecodable[index]) {
+			start = start < 0 ? index : start;
+			continue;
+		}
+		if (start >= 0 && index - start >= LIKELY_DATA_RUN) {
+			runs.push({ start, end: index });
+		}
+		start = -1;
+	}
+	return runs;
+}
+
+/**
+ * Bytes to skip at the start of a stream that seems to begin in the middle of
+ * a 32-bit instruction. Decoding from byte 2 wins only when it meets fewer
+ * undecodable instructions in the first `RESYNC_WINDOW` bytes.
+ */
+export function findStreamStart(bytes: Uint8Array, xlen?: Xlen): number {
+	return countUndecodable(bytes, 2, xlen) < countUndecodable(bytes, 0, xlen) ? 2 : 0;
+}
+
+/** Renders raw bytes, given as a little-endian value like `0x0513`, as a `.byte`, `.half` or `.word` directive. */
+export function dataDirective(value: string): string {
+	const digits = value.replace(/^0x/i, '').toLowerCase();
+	switch (digits.length) {
+		case 2:
+			return `.byte 0x${digits}`;
+		case 4:
+			return `.half 0x${digits}`;
+		case 8:
+			return `.word 0x${digits}`;
+		default:
+			return `.byte ${(digits.match(/../g) ?? []).reverse().map(byte => `0x${byte}`).join(', ')}`;
+	}
+}
+
+function countUndecodable(bytes: Uint8Array, start: number, xlen: Xlen | undefined): number {
+	let count = 0;
+	let index = start;
+	while (index + 1 < Math.min(bytes.length, start + RESYNC_WINDOW)) {
+		const half = bytes[index] | (bytes[index + 1] << 8);
+		const size = (half & 0b11) === 0b11 ? 4 : 2;
+		if (index + size > bytes.length) {
+			break;
+		}
+		const value = size === 4 ? (half | (bytes[index + 2] << 16) | (bytes[index + 3] << 24)) >>> 0 : half;
+		if (!isPlausibleInstruction(value, xlen)) {
+			count += 1;
+		}
+		index += size;
+	}
+	return count;
+}
+
+/** Rejects what the decoder tables accept but the encoding reserves, such as a zero `nzimm`. */
+function isPlausibleInstruction(value: number, xlen: Xlen | undefined): boolean {
+	const decoded = decodeInstruction(value, xlen);
+	return decoded.spec !== undefined
+		&& !decoded.operands.some(operand => operandType(operand.type)?.nonZero && operand.value === 0);
+}
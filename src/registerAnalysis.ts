@@ -0,0 +1,336 @@
+import { BasicBlock } from './cfg';
+import { DecodedInstruction, decodeInstruction, operandTypeNames } from './decoder';
+import { FLOAT_REGISTER_NAMES, INTEGER_REGISTER_NAMES, Xlen, operandType } from './isa';
+import { AddressedEncoding } from './targets';
+
+export type RegisterFindingKind = 'uninitializedRead' | 'deadWrite' | 'calleeSavedClobber' | 'zeroWrite';
+
+export interface RegisterFinding {
+	/** Index of the instruction the finding is reported on. */
+	index: number;
+	kind: RegisterFindingKind;
+	/** Register number: 0-31 for x registers, 32-63 for f registers. */
+	register: number;
+	/** Net stack pointer adjustment for `sp` clobbers, when known. */
+	spAdjustment?: number;
+}
+
+/** Registers read and written by one instruction. Bit n stands for xn and bit 32+n for fn. */
+export interface RegisterEffects {
+	reads: bigint;
+	writes: bigint;
+	/** Registers whose value is destroyed without being defined, such as caller-saved registers across a call. */
+	clobbers: bigint;
+	isCall: boolean;
+}
+
+const FLOAT = 32;
+const SP = 2;
+
+const TEMPORARIES = registerMask([5, 6, 7, 28, 29, 30, 31]) | floatMask([0, 1, 2, 3, 4, 5, 6, 7, 28, 29, 30, 31]);
+const ARGUMENTS = registerMask([10, 11, 12, 13, 14, 15, 16, 17]) | floatMask([10, 11, 12, 13, 14, 15, 16, 17]);
+const RETURN_VALUES = registerMask([10, 11]) | floatMask([10, 11]);
+const CALLEE_SAVED = registerMask([8, 9, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27]);
+const FLOAT_CALLEE_SAVED = floatMask([8, 9, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27]);
+const CALLER_SAVED = TEMPORARIES | ARGUMENTS | registerMask([1]);
+const ALL_REGISTERS = (1n << 64n) - 2n;
+/** Registers a caller may rely on after `ret`. */
+const LIVE_AT_RETURN = RETURN_VALUES | CALLEE_SAVED | FLOAT_CALLEE_SAVED | registerMask([SP, 3, 4]);
+
+/** Compressed instructions whose first register operand is both read and written. */
+const COMPRESSED_READ_WRITE = new Set([
+	'c.addi', 'c.addiw', 'c.addi16sp', 'c.slli', 'c.srli', 'c.srai', 'c.andi',
+	'c.sub', 'c.xor', 'c.or', 'c.and', 'c.subw', 'c.addw', 'c.add'
+]);
+/** Compressed instructions whose first register operand is only read. */
+const COMPRESSED_READ_ONLY = new Set(['c.jr', 'c.jalr', 'c.beqz', 'c.bnez']);
+const CSR_MNEMONICS = new Set(['csrrw', 'csrrs', 'csrrc', 'csrrwi', 'csrrsi', 'csrrci']);
+const LOAD_PATTERN = /^(c\.)?(lb|lh|lw|ld|lbu|lhu|lwu|flw|fld)(sp)?$/;
+const STORE_PATTERN = /^(c\.)?(sb|sh|sw|sd|fsw|fsd)(sp)?$/;
+
+export function registerName(register: number): string {
+	return register >= FLOAT ? FLOAT_REGISTER_NAMES[register - FLOAT] : INTEGER_REGISTER_NAMES[register];
+}
+
+export function registerEffects(decoded: DecodedInstruction): RegisterEffects {
+	const spec = decoded.spec;
+	const effects: RegisterEffects = { reads: 0n, writes: 0n, clobbers: 0n, isCall: false };
+	if (!spec) {
+		return effects;
+	}
+
+	const compressed = spec.mnemonic.startsWith('c.');
+	const isStore = STORE_PATTERN.test(spec.mnemonic);
+	operandTypeNames(spec).forEach((typeName, position) => {
+		const type = operandType(typeName);
+		const operand = decoded.operands[position];
+		if (!type || !operand || (type.kind !== 'xreg' && type.kind !== 'freg' && type.kind !== 'fixedReg')) {
+			return;
+		}
+		const bit = 1n << BigInt(operand.value + (type.kind === 'freg' ? FLOAT : 0));
+		let read = true;
+		let write = false;
+		if (compressed && position === 0) {
+			// Compressed encodings name a single destination that is often also a source.
+			read = COMPRESSED_READ_WRITE.has(spec.mnemonic) || COMPRESSED_READ_ONLY.has(spec.mnemonic) || isStore;
+			write = !COMPRESSED_READ_ONLY.has(spec.mnemonic) && !isStore;
+		} else if (typeName === 'rd' || typeName === 'frd') {
+			read = false;
+			write = true;
+		}
+		effects.reads |= read ? bit : 0n;
+		effects.writes |= write ? bit : 0n;
+	});
+
+	const linksReturnAddress = (effects.writes & ~1n) !== 0n;
+	if (spec.mnemonic === 'c.jal' || spec.mnemonic === 'c.jalr' || ((spec.mnemonic === 'jal' || spec.mnemonic === 'jalr') && linksReturnAddress)) {
+		effects.isCall = true;
+		effects.reads |= ARGUMENTS;
+		effects.writes |= RETURN_VALUES | registerMask([1]);
+		effects.clobbers = CALLER_SAVED & ~effects.writes;
+	} else if (spec.mnemonic === 'ecall') {
+		effects.reads |= registerMask([10, 11, 12, 13, 14, 15, 16, 17]);
+		effects.writes |= registerMask([10, 11]);
+	}
+	return effects;
+}
+
+/**
+ * Reports uninitialized reads, dead writes, writes to x0 and callee-saved
+ * registers (s0-s11, sp) that are not restored before a return. The snippet
+ * is treated as a function entered at its first instruction under the
+ * standard calling convention.
+ */
+export function analyzeRegisters(instructions: AddressedEncoding[], blocks: BasicBlock[], xlen: Xlen | undefined): RegisterFinding[] {
+	const decoded = instructions.map(instruction => decodeInstruction(instruction.encoding, xlen));
+	const effects = decoded.map(registerEffects);
+	const findings: RegisterFinding[] = [];
+
+	findZeroWrites(decoded, effects, findings);
+	findUninitializedReads(blocks, effects, findings);
+	findDeadWrites(blocks, decoded, effects, findings);
+	findCalleeSavedClobbers(blocks, decoded, effects, findings);
+
+	return findings.sort((left, right) => left.index - right.index || left.register - right.register);
+}
+
+function findZeroWrites(decoded: DecodedInstruction[], effects: RegisterEffects[], findings: RegisterFinding[]): void {
+	decoded.forEach((instruction, index) => {
+		const mnemonic = instruction.spec?.mnemonic ?? '';
+		const isNop = mnemonic === 'addi' && instruction.encoding === 0x00000013;
+		const discardsByDesign = isNop || mnemonic === 'jal' || mnemonic === 'jalr' || CSR_MNEMONICS.has(mnemonic);
+		const rd = instruction.operands.find(operand => operand.type === 'rd');
+		if (!discardsByDesign && !effects[index].isCall && rd?.value === 0) {
+			findings.push({ index, kind: 'zeroWrite', register: 0 });
+		}
+	});
+}
+
+function findUninitializedReads(blocks: BasicBlock[], effects: RegisterEffects[], findings: RegisterFinding[]): void {
+	const predecessors = blockPredecessors(blocks);
+	const undefinedIn: (bigint | undefined)[] = blocks.map(() => undefined);
+	const undefinedOut: (bigint | undefined)[] = blocks.map(() => undefined);
+	const transfer = (state: bigint, index: number): bigint => (state & ~effects[index].writes) | effects[index].clobbers;
+
+	solve(blocks.length, block => {
+		const incoming = predecessors[block]
+			.map(predecessor => undefinedOut[predecessor])
+			.filter((state): state is bigint => state !== undefined);
+		if (block === 0) {
+			incoming.push(TEMPORARIES);
+		}
+		if (incoming.length === 0) {
+			return false;
+		}
+		undefinedIn[block] = incoming.reduce((left, right) => left | right);
+		let state = undefinedIn[block] as bigint;
+		for (let index = blocks[block].firstIndex; index <= blocks[block].lastIndex; index += 1) {
+			state = transfer(state, index);
+		}
+		const changed = state !== undefinedOut[block];
+		undefinedOut[block] = state;
+		return changed;
+	});
+
+	blocks.forEach((block, blockIndex) => {
+		let state = undefinedIn[blockIndex];
+		if (state === undefined) {
+			return;
+		}
+		for (let index = block.firstIndex; index <= block.lastIndex; index += 1) {
+			// Argument registers a call may read are not necessarily meant to be set.
+			const reads = effects[index].isCall ? effects[index].reads & ~ARGUMENTS : effects[index].reads;
+			forEachRegister(reads & state, register => findings.push({ index, kind: 'uninitializedRead', register }));
+			state = transfer(state, index);
+		}
+	});
+}
+
+function findDeadWrites(blocks: BasicBlock[], decoded: DecodedInstruction[], effects: RegisterEffects[], findings: RegisterFinding[]): void {
+	const liveIn: bigint[] = blocks.map(() => 0n);
+	const liveOut = (block: number): bigint => {
+		const { exit, successors } = blocks[block];
+		if (exit === 'return') {
+			return LIVE_AT_RETURN;
+		}
+		if (exit || successors.length === 0) {
+			return ALL_REGISTERS;
+		}
+		return successors.reduce((live, successor) => live | liveIn[successor.target], 0n);
+	};
+	const transfer = (live: bigint, index: number): bigint =>
+		(live & ~effects[index].writes & ~effects[index].clobbers) | effects[index].reads;
+
+	solve(blocks.length, block => {
+		let live = liveOut(block);
+		for (let index = blocks[block].lastIndex; index >= blocks[block].firstIndex; index -= 1) {
+			live = transfer(live, index);
+		}
+		const changed = live !== liveIn[block];
+		liveIn[block] = live;
+		return changed;
+	}, true);
+
+	blocks.forEach((block, blockIndex) => {
+		let live = liveOut(blockIndex);
+		for (let index = block.lastIndex; index >= block.firstIndex; index -= 1) {
+			const mnemonic = decoded[index].spec?.mnemonic ?? '';
+			if (!effects[index].isCall && !CSR_MNEMONICS.has(mnemonic)) {
+				forEachRegister(effects[index].writes & ~live & ~1n, register => findings.push({ index, kind: 'deadWrite', register }));
+			}
+			live = transfer(live, index);
+		}
+	});
+}
+
+interface CalleeSavedState {
+	/** Callee-saved registers that still hold their value from entry. */
+	intact: bigint;
+	/** Callee-saved registers whose entry value has been stored to memory. */
+	saved: bigint;
+	/** Net change of sp since entry; NaN when unknown. */
+	spDelta: number;
+}
+
+function findCalleeSavedClobbers(
+	blocks: BasicBlock[],
+	decoded: DecodedInstruction[],
+	effects: RegisterEffects[],
+	findings: RegisterFinding[]
+): void {
+	const predecessors = blockPredecessors(blocks);
+	const stateOut: (CalleeSavedState | undefined)[] = blocks.map(() => undefined);
+	const entry: CalleeSavedState = { intact: CALLEE_SAVED, saved: 0n, spDelta: 0 };
+
+	const transfer = (state: CalleeSavedState, index: number): CalleeSavedState => {
+		const instruction = decoded[index];
+		const mnemonic = instruction.spec?.mnemonic ?? '';
+		let { intact, saved, spDelta } = state;
+		if (STORE_PATTERN.test(mnemonic)) {
+			saved |= intact & storedValueMask(instruction);
+		}
+		const written = effects[index].writes & CALLEE_SAVED;
+		intact = LOAD_PATTERN.test(mnemonic) ? (intact & ~written) | (written & saved) : intact & ~written;
+		if ((effects[index].writes >> BigInt(SP)) & 1n) {
+			spDelta = spAdjustment(instruction, spDelta);
+		}
+		return { intact, saved, spDelta };
+	};
+
+	solve(blocks.length, block => {
+		const incoming = predecessors[block]
+			.map(predecessor => stateOut[predecessor])
+			.filter((state): state is CalleeSavedState => state !== undefined);
+		const sources = block === 0 ? [entry, ...incoming] : incoming;
+		if (sources.length === 0) {
+			return false;
+		}
+		const merged = sources.reduce((left, right) => ({
+			intact: left.intact & right.intact,
+			saved: left.saved & right.saved,
+			spDelta: left.spDelta === right.spDelta ? left.spDelta : Number.NaN
+		}));
+		let state = merged;
+		for (let index = blocks[block].firstIndex; index <= blocks[block].lastIndex; index += 1) {
+			state = transfer(state, index);
+		}
+		const previous = stateOut[block];
+		const changed = !previous
+			|| previous.intact !== state.intact
+			|| previous.saved !== state.saved
+			|| !Object.is(previous.spDelta, state.spDelta);
+		stateOut[block] = state;
+		return changed;
+	});
+
+	blocks.forEach((block, blockIndex) => {
+		const state = stateOut[blockIndex];
+		if (block.exit !== 'return' || !state) {
+			return;
+		}
+		const index = block.lastIndex;
+		forEachRegister(CALLEE_SAVED & ~state.intact, register => findings.push({ index, kind: 'calleeSavedClobber', register }));
+		if (state.spDelta !== 0) {
+			findings.push({
+				index,
+				kind: 'calleeSavedClobber',
+				register: SP,
+				spAdjustment: Number.isNaN(state.spDelta) ? undefined : state.spDelta
+			});
+		}
+	});
+}
+
+/** The register whose value a store writes to memory (as opposed to its address base). */
+function storedValueMask(instruction: DecodedInstruction): bigint {
+	const value = instruction.operands[0];
+	return value && value.kind === 'xreg' ? (1n << BigInt(value.value)) & CALLEE_SAVED : 0n;
+}
+
+function spAdjustment(instruction: DecodedInstruction, spDelta: number): number {
+	const mnemonic = instruction.spec?.mnemonic;
+	const source = instruction.operands.find(operand => operand.type === 'rs1')?.value;
+	if (mnemonic === 'c.addi16sp' || mnemonic === 'c.addi' || (mnemonic === 'addi' && source === SP)) {
+		return spDelta + (instruction.immediate ?? 0);
+	}
+	return Number.NaN;
+}
+
+function blockPredecessors(blocks: BasicBlock[]): number[][] {
+	const predecessors: number[][] = blocks.map(() => []);
+	blocks.forEach((block, index) => {
+		block.successors.forEach(successor => predecessors[successor.target].push(index));
+	});
+	return predecessors;
+}
+
+/** Re-runs `visit` over every block until no block reports a change. Backward problems visit blocks last to first. */
+function solve(blockCount: number, visit: (block: number) => boolean, backward = false): void {
+	const order = [...Array(blockCount).keys()];
+	if (backward) {
+		order.reverse();
+	}
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (const block of order) {
+			changed = visit(block) || changed;
+		}
+	}
+}
+
+function forEachRegister(mask: bigint, callback: (register: number) => void): void {
+	for (let register = 0; register < 64; register += 1) {
+		if ((mask >> BigInt(register)) & 1n) {
+			callback(register);
+		}
+	}
+}
+
+function registerMask(registers: number[]): bigint {
+	return registers.reduce((mask, register) => mask | (1n << BigInt(register)), 0n);
+}
+
+function floatMask(registers: number[]): bigint {
+	return registerMask(registers.map(register => register + FLOAT));
+}
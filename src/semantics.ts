@@ -0,0 +1,208 @@
+/**
+ * Operation of each instruction in the pseudo-code notation of the ISA
+ * manual. Families that only differ in operand width (A, F and D) are
+ * described once and specialised in `instructionSemantics`.
+ */
+const BASE_SEMANTICS: Readonly<Record<string, string>> = {
+	lui: 'x[rd] = sext(imm << 12)',
+	auipc: 'x[rd] = pc + sext(imm << 12)',
+	jal: 'x[rd] = pc + 4; pc += sext(offset)',
+	jalr: 't = pc + 4; pc = (x[rs1] + sext(offset)) & ~1; x[rd] = t',
+	beq: 'if (x[rs1] == x[rs2]) pc += sext(offset)',
+	bne: 'if (x[rs1] != x[rs2]) pc += sext(offset)',
+	blt: 'if (x[rs1] <s x[rs2]) pc += sext(offset)',
+	bge: 'if (x[rs1] >=s x[rs2]) pc += sext(offset)',
+	bltu: 'if (x[rs1] <u x[rs2]) pc += sext(offset)',
+	bgeu: 'if (x[rs1] >=u x[rs2]) pc += sext(offset)',
+	lb: 'x[rd] = sext(M[x[rs1] + sext(offset)][7:0])',
+	lh: 'x[rd] = sext(M[x[rs1] + sext(offset)][15:0])',
+	lw: 'x[rd] = sext(M[x[rs1] + sext(offset)][31:0])',
+	ld: 'x[rd] = M[x[rs1] + sext(offset)][63:0]',
+	lbu: 'x[rd] = zext(M[x[rs1] + sext(offset)][7:0])',
+	lhu: 'x[rd] = zext(M[x[rs1] + sext(offset)][15:0])',
+	lwu: 'x[rd] = zext(M[x[rs1] + sext(offset)][31:0])',
+	sb: 'M[x[rs1] + sext(offset)] = x[rs2][7:0]',
+	sh: 'M[x[rs1] + sext(offset)] = x[rs2][15:0]',
+	sw: 'M[x[rs1] + sext(offset)] = x[rs2][31:0]',
+	sd: 'M[x[rs1] + sext(offset)] = x[rs2][63:0]',
+	addi: 'x[rd] = x[rs1] + sext(imm)',
+	slti: 'x[rd] = x[rs1] <s sext(imm)',
+	sltiu: 'x[rd] = x[rs1] <u sext(imm)',
+	xori: 'x[rd] = x[rs1] ^ sext(imm)',
+	ori: 'x[rd] = x[rs1] | sext(imm)',
+	andi: 'x[rd] = x[rs1] & sext(imm)',
+	slli: 'x[rd] = x[rs1] << shamt',
+	srli: 'x[rd] = x[rs1] >>u shamt',
+	srai: 'x[rd] = x[rs1] >>s shamt',
+	add: 'x[rd] = x[rs1] + x[rs2]',
+	sub: 'x[rd] = x[rs1] - x[rs2]',
+	sll: 'x[rd] = x[rs1] << x[rs2]',
+	slt: 'x[rd] = x[rs1] <s x[rs2]',
+	sltu: 'x[rd] = x[rs1] <u x[rs2]',
+	xor: 'x[rd] = x[rs1] ^ x[rs2]',
+	srl: 'x[rd] = x[rs1] >>u x[rs2]',
+	sra: 'x[rd] = x[rs1] >>s x[rs2]',
+	or: 'x[rd] = x[rs1] | x[rs2]',
+	and: 'x[rd] = x[rs1] & x[rs2]',
+	fence: 'Fence(pred, succ): order the predecessor memory and I/O accesses before the successor ones',
+	'fence.tso': 'Fence(rw, rw) with total store ordering: loads and stores are not reordered past earlier loads',
+	ecall: 'RaiseException(EnvironmentCall)',
+	ebreak: 'RaiseException(Breakpoint)',
+	addiw: 'x[rd] = sext((x[rs1] + sext(imm))[31:0])',
+	slliw: 'x[rd] = sext((x[rs1] << shamt)[31:0])',
+	srliw: 'x[rd] = sext(x[rs1][31:0] >>u shamt)',
+	sraiw: 'x[rd] = sext(x[rs1][31:0] >>s shamt)',
+	addw: 'x[rd] = sext((x[rs1] + x[rs2])[31:0])',
+	subw: 'x[rd] = sext((x[rs1] - x[rs2])[31:0])',
+	sllw: 'x[rd] = sext((x[rs1] << x[rs2][4:0])[31:0])',
+	srlw: 'x[rd] = sext(x[rs1][31:0] >>u x[rs2][4:0])',
+	sraw: 'x[rd] = sext(x[rs1][31:0] >>s x[rs2][4:0])',
+	'fence.i': 'Fence(Store, Fetch): make earlier stores visible to instruction fetch',
+	csrrw: 't = CSRs[csr]; CSRs[csr] = x[rs1]; x[rd] = t',
+	csrrs: 't = CSRs[csr]; CSRs[csr] = t | x[rs1]; x[rd] = t',
+	csrrc: 't = CSRs[csr]; CSRs[csr] = t & ~x[rs1]; x[rd] = t',
+	csrrwi: 'x[rd] = CSRs[csr]; CSRs[csr] = zimm',
+	csrrsi: 't = CSRs[csr]; CSRs[csr] = t | zimm; x[rd] = t',
+	csrrci: 't = CSRs[csr]; CSRs[csr] = t & ~zimm; x[rd] = t',
+	sret: 'ExceptionReturn(Supervisor): pc = sepc',
+	mret: 'ExceptionReturn(Machine): pc = mepc',
+	wfi: 'while (noInterruptsPending) idle',
+	'sfence.vma': 'Fence(Store, AddressTranslation) for address x[rs1] and ASID x[rs2]',
+	mul: 'x[rd] = x[rs1] * x[rs2]',
+	mulh: 'x[rd] = (x[rs1] s*s x[rs2]) >>s XLEN',
+	mulhsu: 'x[rd] = (x[rs1] s*u x[rs2]) >>s XLEN',
+	mulhu: 'x[rd] = (x[rs1] u*u x[rs2]) >>u XLEN',
+	div: 'x[rd] = x[rs1] /s x[rs2]',
+	divu: 'x[rd] = x[rs1] /u x[rs2]',
+	rem: 'x[rd] = x[rs1] %s x[rs2]',
+	remu: 'x[rd] = x[rs1] %u x[rs2]',
+	mulw: 'x[rd] = sext((x[rs1] * x[rs2])[31:0])',
+	divw: 'x[rd] = sext(x[rs1][31:0] /s x[rs2][31:0])',
+	divuw: 'x[rd] = sext(x[rs1][31:0] /u x[rs2][31:0])',
+	remw: 'x[rd] = sext(x[rs1][31:0] %s x[rs2][31:0])',
+	remuw: 'x[rd] = sext(x[rs1][31:0] %u x[rs2][31:0])',
+	flw: 'f[rd] = M[x[rs1] + sext(offset)][31:0]',
+	fld: 'f[rd] = M[x[rs1] + sext(offset)][63:0]',
+	fsw: 'M[x[rs1] + sext(offset)] = f[rs2][31:0]',
+	fsd: 'M[x[rs1] + sext(offset)] = f[rs2][63:0]',
+	'fcvt.s.d': 'f[rd] = f64_to_f32(f[rs1])',
+	'fcvt.d.s': 'f[rd] = f32_to_f64(f[rs1])',
+	'fmv.x.w': 'x[rd] = sext(f[rs1][31:0])',
+	'fmv.w.x': 'f[rd] = x[rs1][31:0]',
+	'fmv.x.d': 'x[rd] = f[rs1][63:0]',
+	'fmv.d.x': 'f[rd] = x[rs1][63:0]',
+	'c.addi4spn': 'x[8+rd\'] = x[2] + nzuimm  (addi rd\', sp, nzuimm)',
+	'c.fld': 'f[8+rd\'] = M[x[8+rs1\'] + uimm][63:0]  (fld)',
+	'c.lw': 'x[8+rd\'] = sext(M[x[8+rs1\'] + uimm][31:0])  (lw)',
+	'c.flw': 'f[8+rd\'] = M[x[8+rs1\'] + uimm][31:0]  (flw)',
+	'c.ld': 'x[8+rd\'] = M[x[8+rs1\'] + uimm][63:0]  (ld)',
+	'c.fsd': 'M[x[8+rs1\'] + uimm] = f[8+rs2\'][63:0]  (fsd)',
+	'c.sw': 'M[x[8+rs1\'] + uimm] = x[8+rs2\'][31:0]  (sw)',
+	'c.fsw': 'M[x[8+rs1\'] + uimm] = f[8+rs2\'][31:0]  (fsw)',
+	'c.sd': 'M[x[8+rs1\'] + uimm] = x[8+rs2\'][63:0]  (sd)',
+	'c.nop': 'Nothing  (addi x0, x0, 0)',
+	'c.addi': 'x[rd] = x[rd] + sext(nzimm)  (addi rd, rd, nzimm)',
+	'c.jal': 'x[1] = pc + 2; pc += sext(offset)  (jal ra, offset)',
+	'c.addiw': 'x[rd] = sext((x[rd] + sext(imm))[31:0])  (addiw rd, rd, imm)',
+	'c.li': 'x[rd] = sext(imm)  (addi rd, x0, imm)',
+	'c.addi16sp': 'x[2] = x[2] + sext(nzimm)  (addi sp, sp, nzimm)',
+	'c.lui': 'x[rd] = sext(nzimm << 12)  (lui rd, nzimm)',
+	'c.srli': 'x[8+rd\'] = x[8+rd\'] >>u shamt  (srli)',
+	'c.srai': 'x[8+rd\'] = x[8+rd\'] >>s shamt  (srai)',
+	'c.andi': 'x[8+rd\'] = x[8+rd\'] & sext(imm)  (andi)',
+	'c.sub': 'x[8+rd\'] = x[8+rd\'] - x[8+rs2\']  (sub)',
+	'c.xor': 'x[8+rd\'] = x[8+rd\'] ^ x[8+rs2\']  (xor)',
+	'c.or': 'x[8+rd\'] = x[8+rd\'] | x[8+rs2\']  (or)',
+	'c.and': 'x[8+rd\'] = x[8+rd\'] & x[8+rs2\']  (and)',
+	'c.subw': 'x[8+rd\'] = sext((x[8+rd\'] - x[8+rs2\'])[31:0])  (subw)',
+	'c.addw': 'x[8+rd\'] = sext((x[8+rd\'] + x[8+rs2\'])[31:0])  (addw)',
+	'c.j': 'pc += sext(offset)  (jal x0, offset)',
+	'c.beqz': 'if (x[8+rs1\'] == 0) pc += sext(offset)  (beq rs1\', x0, offset)',
+	'c.bnez': 'if (x[8+rs1\'] != 0) pc += sext(offset)  (bne rs1\', x0, offset)',
+	'c.slli': 'x[rd] = x[rd] << shamt  (slli rd, rd, shamt)',
+	'c.fldsp': 'f[rd] = M[x[2] + uimm][63:0]  (fld rd, uimm(sp))',
+	'c.lwsp': 'x[rd] = sext(M[x[2] + uimm][31:0])  (lw rd, uimm(sp))',
+	'c.flwsp': 'f[rd] = M[x[2] + uimm][31:0]  (flw rd, uimm(sp))',
+	'c.ldsp': 'x[rd] = M[x[2] + uimm][63:0]  (ld rd, uimm(sp))',
+	'c.jr': 'pc = x[rs1]  (jalr x0, 0(rs1))',
+	'c.mv': 'x[rd] = x[rs2]  (add rd, x0, rs2)',
+	'c.ebreak': 'RaiseException(Breakpoint)  (ebreak)',
+	'c.jalr': 't = pc + 2; pc = x[rs1]; x[1] = t  (jalr ra, 0(rs1))',
+	'c.add': 'x[rd] = x[rd] + x[rs2]  (add rd, rd, rs2)',
+	'c.fsdsp': 'M[x[2] + uimm] = f[rs2][63:0]  (fsd rs2, uimm(sp))',
+	'c.swsp': 'M[x[2] + uimm] = x[rs2][31:0]  (sw rs2, uimm(sp))',
+	'c.fswsp': 'M[x[2] + uimm] = f[rs2][31:0]  (fsw rs2, uimm(sp))',
+	'c.sdsp': 'M[x[2] + uimm] = x[rs2][63:0]  (sd rs2, uimm(sp))'
+};
+
+/** A-extension operations; `{w}` is the access width in bits. */
+const ATOMIC_SEMANTICS: Readonly<Record<string, string>> = {
+	lr: 'x[rd] = LoadReserved{w}(x[rs1])',
+	sc: 'x[rd] = StoreConditional{w}(x[rs1], x[rs2])',
+	amoswap: 'x[rd] = AMO{w}(M[x[rs1]] SWAP x[rs2])',
+	amoadd: 'x[rd] = AMO{w}(M[x[rs1]] + x[rs2])',
+	amoxor: 'x[rd] = AMO{w}(M[x[rs1]] ^ x[rs2])',
+	amoand: 'x[rd] = AMO{w}(M[x[rs1]] & x[rs2])',
+	amoor: 'x[rd] = AMO{w}(M[x[rs1]] | x[rs2])',
+	amomin: 'x[rd] = AMO{w}(M[x[rs1]] MIN x[rs2])',
+	amomax: 'x[rd] = AMO{w}(M[x[rs1]] MAX x[rs2])',
+	amominu: 'x[rd] = AMO{w}(M[x[rs1]] MINU x[rs2])',
+	amomaxu: 'x[rd] = AMO{w}(M[x[rs1]] MAXU x[rs2])'
+};
+
+/** F/D operations by the mnemonic without its type suffix; `{f}` is f32 or f64. */
+const FLOAT_SEMANTICS: Readonly<Record<string, string>> = {
+	fmadd: 'f[rd] = f[rs1] * f[rs2] + f[rs3]',
+	fmsub: 'f[rd] = f[rs1] * f[rs2] - f[rs3]',
+	fnmsub: 'f[rd] = -(f[rs1] * f[rs2]) + f[rs3]',
+	fnmadd: 'f[rd] = -(f[rs1] * f[rs2]) - f[rs3]',
+	fadd: 'f[rd] = f[rs1] + f[rs2]',
+	fsub: 'f[rd] = f[rs1] - f[rs2]',
+	fmul: 'f[rd] = f[rs1] * f[rs2]',
+	fdiv: 'f[rd] = f[rs1] / f[rs2]',
+	fsqrt: 'f[rd] = sqrt(f[rs1])',
+	fsgnj: 'f[rd] = {abs(f[rs1]) with the sign of f[rs2]}',
+	fsgnjn: 'f[rd] = {abs(f[rs1]) with the opposite sign of f[rs2]}',
+	fsgnjx: 'f[rd] = {f[rs1] with its sign XORed with the sign of f[rs2]}',
+	fmin: 'f[rd] = min(f[rs1], f[rs2])',
+	fmax: 'f[rd] = max(f[rs1], f[rs2])',
+	fle: 'x[rd] = f[rs1] <= f[rs2]',
+	flt: 'x[rd] = f[rs1] < f[rs2]',
+	feq: 'x[rd] = f[rs1] == f[rs2]',
+	fclass: 'x[rd] = classify_{f}(f[rs1])',
+	'fcvt.w': 'x[rd] = sext({f}_to_i32(f[rs1]))',
+	'fcvt.wu': 'x[rd] = sext({f}_to_u32(f[rs1]))',
+	'fcvt.l': 'x[rd] = {f}_to_i64(f[rs1])',
+	'fcvt.lu': 'x[rd] = {f}_to_u64(f[rs1])',
+	'fcvt.from.w': 'f[rd] = i32_to_{f}(x[rs1][31:0])',
+	'fcvt.from.wu': 'f[rd] = u32_to_{f}(x[rs1][31:0])',
+	'fcvt.from.l': 'f[rd] = i64_to_{f}(x[rs1])',
+	'fcvt.from.lu': 'f[rd] = u64_to_{f}(x[rs1])'
+};
+
+/**
+ * Returns the operation performed by `mnemonic` (without `.aq`/`.rl`
+ * suffixes) in ISA manual pseudo-code, or undefined when it is unknown.
+ */
+export function instructionSemantics(mnemonic: string): string | undefined {
+	const normalized = mnemonic.toLowerCase();
+	const base = BASE_SEMANTICS[normalized];
+	if (base) {
+		return base;
+	}
+
+	const atomic = /^(\w+)\.([wd])$/.exec(normalized);
+	if (atomic && ATOMIC_SEMANTICS[atomic[1]]) {
+		return ATOMIC_SEMANTICS[atomic[1]].replace('{w}', atomic[2] === 'w' ? '32' : '64');
+	}
+
+	const toInteger = /^fcvt\.([wl]u?)\.([sd])$/.exec(normalized);
+	const fromInteger = /^fcvt\.([sd])\.([wl]u?)$/.exec(normalized);
+	const float = /^(f[a-z]+)\.([sd])$/.exec(normalized);
+	const [key, type] = toInteger
+		? [`fcvt.${toInteger[1]}`, toInteger[2]]
+		: fromInteger
+			? [`fcvt.from.${fromInteger[2]}`, fromInteger[1]]
+			: [float?.[1] ?? '', float?.[2]];
+	return FLOAT_SEMANTICS[key]?.replace('{f}', type === 's' ? 'f32' : 'f64');
+}
@@ -0,0 +1,483 @@
+import { DecodedInstruction, decodeInstruction } from './decoder';
+import { IsaExtension, Xlen } from './isa';
+import { AddressedEncoding } from './targets';
+
+export type SimulationStopReason = 'end' | 'trap' | 'limit';
+
+export interface SimulationStop {
+	reason: SimulationStopReason;
+	message: string;
+}
+
+export interface SimulationOptions {
+	xlen: Xlen;
+	/** Executes RVC instructions. Without it they trap as illegal and jump targets must be 4-byte aligned. */
+	compressed?: boolean;
+	/** Initial register values by register number. `ra` defaults to the end of the snippet and `sp` to `DEFAULT_STACK_POINTER`. */
+	registers?: ReadonlyMap<number, bigint>;
+}
+
+/** Registers and memory words (by aligned address) modified by a step or run. */
+export interface SimulationChanges {
+	registers: number[];
+	memory: bigint[];
+}
+
+export interface SimulationOutcome {
+	changes: SimulationChanges;
+	stop?: SimulationStop;
+}
+
+/** Machine state formatted for display; values are `0x`-prefixed hexadecimal. */
+export interface SimulationSnapshot {
+	xlen: Xlen;
+	pc: string;
+	steps: number;
+	registers: string[];
+	/** Memory words written by the program, in address order. */
+	memory: { address: string; value: string }[];
+	changedRegisters: number[];
+	changedMemory: string[];
+	stop?: SimulationStop;
+}
+
+export const DEFAULT_STACK_POINTER = 0x80000000n;
+
+const SUPPORTED_EXTENSIONS = new Set<IsaExtension>(['I', 'M', 'C', 'Zifencei']);
+
+type RegisterSource = string | number;
+
+/** Base instruction each compressed instruction expands to, with the sources of its rd, rs1 and rs2. */
+const COMPRESSED_EXPANSIONS: Record<string, readonly [string, RegisterSource, RegisterSource, RegisterSource]> = {
+	'c.addi4spn': ['addi', 'crdp', 2, 0],
+	'c.lw': ['lw', 'crdp', 'crs1p', 0],
+	'c.ld': ['ld', 'crdp', 'crs1p', 0],
+	'c.sw': ['sw', 0, 'crs1p', 'crs2p'],
+	'c.sd': ['sd', 0, 'crs1p', 'crs2p'],
+	'c.nop': ['addi', 0, 0, 0],
+	'c.addi': ['addi', 'crdnz', 'crdnz', 0],
+	'c.jal': ['jal', 1, 0, 0],
+	'c.addiw': ['addiw', 'crdnz', 'crdnz', 0],
+	'c.li': ['addi', 'crdnz', 0, 0],
+	'c.addi16sp': ['addi', 2, 2, 0],
+	'c.lui': ['lui', 'crdlui', 0, 0],
+	'c.srli': ['srli', 'crs1p', 'crs1p', 0],
+	'c.srai': ['srai', 'crs1p', 'crs1p', 0],
+	'c.andi': ['andi', 'crs1p', 'crs1p', 0],
+	'c.sub': ['sub', 'crs1p', 'crs1p', 'crs2p'],
+	'c.xor': ['xor', 'crs1p', 'crs1p', 'crs2p'],
+	'c.or': ['or', 'crs1p', 'crs1p', 'crs2p'],
+	'c.and': ['and', 'crs1p', 'crs1p', 'crs2p'],
+	'c.subw': ['subw', 'crs1p', 'crs1p', 'crs2p'],
+	'c.addw': ['addw', 'crs1p', 'crs1p', 'crs2p'],
+	'c.j': ['jal', 0, 0, 0],
+	'c.beqz': ['beq', 0, 'crs1p', 0],
+	'c.bnez': ['bne', 0, 'crs1p', 0],
+	'c.slli': ['slli', 'crdnz', 'crdnz', 0],
+	'c.lwsp': ['lw', 'crdnz', 2, 0],
+	'c.ldsp': ['ld', 'crdnz', 2, 0],
+	'c.jr': ['jalr', 0, 'crdnz', 0],
+	'c.mv': ['add', 'crdnz', 0, 'crs2nz'],
+	'c.ebreak': ['ebreak', 0, 0, 0],
+	'c.jalr': ['jalr', 1, 'crdnz', 0],
+	'c.add': ['add', 'crdnz', 'crdnz', 'crs2nz'],
+	'c.swsp': ['sw', 0, 2, 'crs2'],
+	'c.sdsp': ['sd', 0, 2, 'crs2']
+};
+
+/** Register-immediate instructions and the register-register operation they perform. */
+const IMMEDIATE_OPERATIONS: Record<string, string> = {
+	addi: 'add',
+	slti: 'slt',
+	sltiu: 'sltu',
+	xori: 'xor',
+	ori: 'or',
+	andi: 'and',
+	slli: 'sll',
+	srli: 'srl',
+	srai: 'sra',
+	addiw: 'addw',
+	slliw: 'sllw',
+	srliw: 'srlw',
+	sraiw: 'sraw'
+};
+
+const ARITHMETIC_OPERATIONS = new Set([
+	'add', 'sub', 'sll', 'slt', 'sltu', 'xor', 'srl', 'sra', 'or', 'and',
+	'mul', 'mulh', 'mulhsu', 'mulhu', 'div', 'divu', 'rem', 'remu',
+	'addw', 'subw', 'sllw', 'srlw', 'sraw', 'mulw', 'divw', 'divuw', 'remw', 'remuw'
+]);
+
+const LOADS: Record<string, { size: number; signed: boolean }> = {
+	lb: { size: 1, signed: true },
+	lh: { size: 2, signed: true },
+	lw: { size: 4, signed: true },
+	ld: { size: 8, signed: true },
+	lbu: { size: 1, signed: false },
+	lhu: { size: 2, signed: false },
+	lwu: { size: 4, signed: false }
+};
+
+const STORES: Record<string, number> = { sb: 1, sh: 2, sw: 4, sd: 8 };
+
+const BRANCHES: Record<string, (left: bigint, right: bigint, xlen: Xlen) => boolean> = {
+	beq: (left, right) => left === right,
+	bne: (left, right) => left !== right,
+	blt: (left, right, xlen) => BigInt.asIntN(xlen, left) < BigInt.asIntN(xlen, right),
+	bge: (left, right, xlen) => BigInt.asIntN(xlen, left) >= BigInt.asIntN(xlen, right),
+	bltu: (left, right) => left < right,
+	bgeu: (left, right) => left >= right
+};
+
+const NO_OPERATIONS = new Set(['fence', 'fence.tso', 'fence.i']);
+
+interface Operation {
+	mnemonic: string;
+	rd: number;
+	rs1: number;
+	rs2: number;
+	immediate: bigint;
+}
+
+/**
+ * Executes RV32I/RV64I code with the M extension and, optionally, C. Memory
+ * is sparse and reads as zero until written; the snippet itself is loaded at
+ * its instruction addresses. Execution ends when the pc leaves the snippet,
+ * which is what `ret` does with the default `ra`.
+ */
+export class Simulation {
+	readonly xlen: Xlen;
+	private pcValue: bigint;
+	private stepCount = 0;
+	private readonly registers: bigint[] = new Array<bigint>(32).fill(0n);
+	private readonly memory = new Map<bigint, number>();
+	private readonly writtenWords = new Set<bigint>();
+	private readonly program = new Map<bigint, number>();
+	private readonly endAddress: bigint;
+	private readonly compressed: boolean;
+	private finalStop?: SimulationStop;
+
+	constructor(instructions: AddressedEncoding[], options: SimulationOptions) {
+		if (instructions.length === 0) {
+			throw new Error('There are no instructions to simulate.');
+		}
+		this.xlen = options.xlen;
+		this.compressed = options.compressed ?? true;
+
+		for (const instruction of instructions) {
+			const address = this.toUnsigned(BigInt(instruction.address));
+			const size = (instruction.encoding & 0b11) === 0b11 ? 4 : 2;
+			this.program.set(address, instruction.encoding);
+			for (let offset = 0; offset < size; offset += 1) {
+				this.memory.set(this.toUnsigned(address + BigInt(offset)), (instruction.encoding >>> (offset * 8)) & 0xff);
+			}
+		}
+		const last = instructions[instructions.length - 1];
+		this.pcValue = this.toUnsigned(BigInt(instructions[0].address));
+		this.endAddress = this.toUnsigned(BigInt(last.address + ((last.encoding & 0b11) === 0b11 ? 4 : 2)));
+
+		this.registers[1] = this.endAddress;
+		this.registers[2] = this.toUnsigned(DEFAULT_STACK_POINTER);
+		options.registers?.forEach((value, register) => this.setRegister(register, value));
+	}
+
+	get pc(): bigint {
+		return this.pcValue;
+	}
+
+	get steps(): number {
+		return this.stepCount;
+	}
+
+	/** Set once execution has reached the end of the snippet or trapped. */
+	get stop(): SimulationStop | undefined {
+		return this.finalStop;
+	}
+
+	register(index: number): bigint {
+		return this.registers[index];
+	}
+
+	setRegister(index: number, value: bigint): void {
+		if (index > 0 && index < 32) {
+			this.registers[index] = this.toUnsigned(value);
+		}
+	}
+
+	step(): SimulationOutcome {
+		const changes: SimulationChanges = { registers: [], memory: [] };
+		if (this.finalStop) {
+			return { changes, stop: this.finalStop };
+		}
+
+		const encoding = this.program.get(this.pcValue);
+		if (encoding === undefined) {
+			this.finalStop = {
+				reason: 'end',
+				message: this.pcValue === this.endAddress
+					? `Reached the end of the snippet after ${this.stepCount} instruction(s).`
+					: `Execution left the snippet at ${this.formatAddress(this.pcValue)} after ${this.stepCount} instruction(s).`
+			};
+			return { changes, stop: this.finalStop };
+		}
+
+		const before = [...this.registers];
+		try {
+			this.pcValue = this.execute(encoding, changes.memory);
+			this.stepCount += 1;
+		} catch (error) {
+			this.finalStop = { reason: 'trap', message: error instanceof Error ? error.message : String(error) };
+		}
+		changes.registers = before.flatMap((value, index) => (value !== this.registers[index] ? [index] : []));
+		return { changes, stop: this.finalStop };
+	}
+
+	/** Steps until the snippet ends, a trap occurs or `limit` instructions have executed. */
+	run(limit: number): SimulationOutcome {
+		const before = [...this.registers];
+		const memory = new Set<bigint>();
+		let stop: SimulationStop | undefined;
+		for (let count = 0; count < limit && !stop; count += 1) {
+			const outcome = this.step();
+			outcome.changes.memory.forEach(address => memory.add(address));
+			stop = outcome.stop;
+		}
+		if (!stop && !this.program.has(this.pcValue)) {
+			stop = this.step().stop;
+		}
+		stop = stop ?? { reason: 'limit', message: `Stopped after ${limit} instruction(s); the instruction limit was reached.` };
+		const registers = before.flatMap((value, index) => (value !== this.registers[index] ? [index] : []));
+		return { changes: { registers, memory: [...memory].sort(compareAddresses) }, stop };
+	}
+
+	snapshot(outcome?: SimulationOutcome): SimulationSnapshot {
+		const wordSize = this.xlen / 8;
+		return {
+			xlen: this.xlen,
+			pc: this.formatAddress(this.pcValue),
+			steps: this.stepCount,
+			registers: this.registers.map(value => this.formatAddress(value)),
+			memory: [...this.writtenWords].sort(compareAddresses).map(address => ({
+				address: this.formatAddress(address),
+				value: this.formatAddress(this.readMemory(address, wordSize))
+			})),
+			changedRegisters: outcome?.changes.registers ?? [],
+			changedMemory: (outcome?.changes.memory ?? []).map(address => this.formatAddress(address)),
+			stop: outcome?.stop ?? this.finalStop
+		};
+	}
+
+	private execute(encoding: number, writtenWords: bigint[]): bigint {
+		const pc = this.pcValue;
+		const decoded = decodeInstruction(encoding, this.xlen);
+		const spec = decoded.spec;
+		const hex = `0x${decoded.encoding.toString(16).padStart(decoded.size * 2, '0')}`;
+		if (!spec) {
+			throw new Error(`Illegal instruction ${hex} at ${this.formatAddress(pc)}.`);
+		}
+		if (decoded.size === 2 && !this.compressed) {
+			throw new Error(`Illegal instruction ${hex} at ${this.formatAddress(pc)}: compressed instructions are disabled.`);
+		}
+		if (!SUPPORTED_EXTENSIONS.has(spec.extension)) {
+			throw new Error(`Illegal instruction ${hex} at ${this.formatAddress(pc)}: ${spec.mnemonic} is not supported by the simulator.`);
+		}
+
+		const operation = toOperation(decoded);
+		const { mnemonic, rd, rs1, rs2, immediate } = operation;
+		const next = pc + BigInt(decoded.size);
+		const left = this.registers[rs1];
+		const right = this.registers[rs2];
+
+		if (mnemonic === 'jal' || mnemonic === 'jalr') {
+			const target = this.toUnsigned(mnemonic === 'jal' ? pc + immediate : (left + immediate) & ~1n);
+			this.checkJumpTarget(target, pc);
+			this.writeRegister(rd, next);
+			return target;
+		}
+		const branch = BRANCHES[mnemonic];
+		if (branch) {
+			if (!branch(left, right, this.xlen)) {
+				return next;
+			}
+			const target = this.toUnsigned(pc + immediate);
+			this.checkJumpTarget(target, pc);
+			return target;
+		}
+
+		const load = LOADS[mnemonic];
+		if (load) {
+			const address = this.toUnsigned(left + immediate);
+			this.checkAlignment(address, load.size, 'load', pc);
+			const value = this.readMemory(address, load.size);
+			this.writeRegister(rd, load.signed ? BigInt.asIntN(load.size * 8, value) : value);
+			return next;
+		}
+		const storeSize = STORES[mnemonic];
+		if (storeSize) {
+			const address = this.toUnsigned(left + immediate);
+			this.checkAlignment(address, storeSize, 'store', pc);
+			this.writeMemory(address, storeSize, right, writtenWords);
+			return next;
+		}
+
+		if (mnemonic === 'lui') {
+			this.writeRegister(rd, immediate);
+			return next;
+		}
+		if (mnemonic === 'auipc') {
+			this.writeRegister(rd, pc + immediate);
+			return next;
+		}
+
+		const immediateOperation = IMMEDIATE_OPERATIONS[mnemonic];
+		if (immediateOperation) {
+			const shiftLimit = immediateOperation.endsWith('w') ? 32n : BigInt(this.xlen);
+			if (/^s[lr][la]w?$/.test(immediateOperation) && immediate >= shiftLimit) {
+				throw new Error(`Illegal instruction ${hex} at ${this.formatAddress(pc)}: shift amount ${immediate} is out of range.`);
+			}
+			this.writeRegister(rd, arithmetic(immediateOperation, left, this.toUnsigned(immediate), this.xlen));
+			return next;
+		}
+		if (ARITHMETIC_OPERATIONS.has(mnemonic)) {
+			this.writeRegister(rd, arithmetic(mnemonic, left, right, this.xlen));
+			return next;
+		}
+
+		if (mnemonic === 'ecall') {
+			throw new Error(`Environment call (ecall) at ${this.formatAddress(pc)} with a7 = ${BigInt.asIntN(this.xlen, this.registers[17])}.`);
+		}
+		if (mnemonic === 'ebreak') {
+			throw new Error(`Breakpoint (ebreak) at ${this.formatAddress(pc)}.`);
+		}
+		if (NO_OPERATIONS.has(mnemonic)) {
+			return next;
+		}
+		throw new Error(`Illegal instruction ${hex} at ${this.formatAddress(pc)}: ${spec.mnemonic} is not supported by the simulator.`);
+	}
+
+	private checkJumpTarget(target: bigint, pc: bigint): void {
+		const alignment = this.compressed ? 2n : 4n;
+		if (target % alignment !== 0n) {
+			throw new Error(`Instruction address misaligned: jump to ${this.formatAddress(target)} at ${this.formatAddress(pc)}.`);
+		}
+	}
+
+	private checkAlignment(address: bigint, size: number, access: 'load' | 'store', pc: bigint): void {
+		if (address % BigInt(size) !== 0n) {
+			const kind = access === 'load' ? 'Load' : 'Store';
+			throw new Error(`${kind} address misaligned: ${size}-byte ${access} at ${this.formatAddress(address)} (pc ${this.formatAddress(pc)}).`);
+		}
+	}
+
+	private readMemory(address: bigint, size: number): bigint {
+		let value = 0n;
+		for (let offset = size - 1; offset >= 0; offset -= 1) {
+			value = (value << 8n) | BigInt(this.memory.get(this.toUnsigned(address + BigInt(offset))) ?? 0);
+		}
+		return value;
+	}
+
+	private writeMemory(address: bigint, size: number, value: bigint, writtenWords: bigint[]): void {
+		const wordSize = BigInt(this.xlen / 8);
+		for (let offset = 0; offset < size; offset += 1) {
+			const byteAddress = this.toUnsigned(address + BigInt(offset));
+			this.memory.set(byteAddress, Number((value >> BigInt(offset * 8)) & 0xffn));
+			const word = byteAddress - (byteAddress % wordSize);
+			this.writtenWords.add(word);
+			if (!writtenWords.includes(word)) {
+				writtenWords.push(word);
+			}
+		}
+	}
+
+	private writeRegister(index: number, value: bigint): void {
+		if (index !== 0) {
+			this.registers[index] = this.toUnsigned(value);
+		}
+	}
+
+	private toUnsigned(value: bigint): bigint {
+		return BigInt.asUintN(this.xlen, value);
+	}
+
+	private formatAddress(value: bigint): string {
+		return `0x${value.toString(16).padStart(this.xlen / 4, '0')}`;
+	}
+}
+
+function toOperation(decoded: DecodedInstruction): Operation {
+	const mnemonic = decoded.spec?.mnemonic ?? '';
+	const register = (source: RegisterSource) =>
+		typeof source === 'number' ? source : decoded.operands.find(operand => operand.type === source)?.value ?? 0;
+	const immediate = BigInt(decoded.immediate ?? 0);
+	const expansion = COMPRESSED_EXPANSIONS[mnemonic];
+	if (expansion) {
+		const [base, rd, rs1, rs2] = expansion;
+		return { mnemonic: base, rd: register(rd), rs1: register(rs1), rs2: register(rs2), immediate };
+	}
+	return { mnemonic, rd: register('rd'), rs1: register('rs1'), rs2: register('rs2'), immediate };
+}
+
+/** Integer and M-extension arithmetic; `w` forms operate on the low 32 bits and sign-extend the result. */
+function arithmetic(operation: string, left: bigint, right: bigint, xlen: Xlen): bigint {
+	const isWord = operation.endsWith('w');
+	const width = isWord ? 32 : xlen;
+	const value = evaluate(isWord ? operation.slice(0, -1) : operation, left, right, width);
+	return BigInt.asUintN(xlen, BigInt.asIntN(width, value));
+}
+
+function evaluate(operation: string, left: bigint, right: bigint, width: number): bigint {
+	const bits = BigInt(width);
+	const unsignedLeft = BigInt.asUintN(width, left);
+	const unsignedRight = BigInt.asUintN(width, right);
+	const signedLeft = BigInt.asIntN(width, left);
+	const signedRight = BigInt.asIntN(width, right);
+	const shift = unsignedRight & (bits - 1n);
+	const overflow = signedLeft === -(1n << (bits - 1n)) && signedRight === -1n;
+
+	switch (operation) {
+		case 'add':
+			return unsignedLeft + unsignedRight;
+		case 'sub':
+			return unsignedLeft - unsignedRight;
+		case 'sll':
+			return unsignedLeft << shift;
+		case 'slt':
+			return signedLeft < signedRight ? 1n : 0n;
+		case 'sltu':
+			return unsignedLeft < unsignedRight ? 1n : 0n;
+		case 'xor':
+			return unsignedLeft ^ unsignedRight;
+		case 'or':
+			return unsignedLeft | unsignedRight;
+		case 'and':
+			return unsignedLeft & unsignedRight;
+		case 'srl':
+			return unsignedLeft >> shift;
+		case 'sra':
+			return signedLeft >> shift;
+		case 'mul':
+			return unsignedLeft * unsignedRight;
+		case 'mulh':
+			return (signedLeft * signedRight) >> bits;
+		case 'mulhsu':
+			return (signedLeft * unsignedRight) >> bits;
+		case 'mulhu':
+			return (unsignedLeft * unsignedRight) >> bits;
+		// Division by zero and signed overflow do not trap; RISC-V defines their results.
+		case 'div':
+			return signedRight === 0n ? -1n : overflow ? signedLeft : signedLeft / signedRight;
+		case 'divu':
+			return unsignedRight === 0n ? -1n : unsignedLeft / unsignedRight;
+		case 'rem':
+			return signedRight === 0n ? signedLeft : overflow ? 0n : signedLeft % signedRight;
+		case 'remu':
+			return unsignedRight === 0n ? unsignedLeft : unsignedLeft % unsignedRight;
+		default:
+			throw new Error(`Unsupported operation ${operation}.`);
+	}
+}
+
+function compareAddresses(left: bigint, right: bigint): number {
+	return left < right ? -1 : left > right ? 1 : 0;
+}
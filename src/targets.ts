@@ -0,0 +1,63 @@
+import { decodeInstruction } from './decoder';
+import { Xlen, operandType } from './isa';
+
+export interface AddressedEncoding {
+	address: number;
+	encoding: number;
+}
+
+export interface ResolvedTarget {
+	target: number;
+	/** True for branch and jump targets, which receive local labels; false for auipc-based address computations. */
+	isControlFlow: boolean;
+}
+
+/**
+ * Computes absolute targets for PC-relative branches and jumps, and for
+ * `auipc` followed directly by an `addi` or `jalr` on the same register.
+ * The result is keyed by instruction index.
+ */
+export function resolveTargets(instructions: AddressedEncoding[], xlen: Xlen | undefined): Map<number, ResolvedTarget> {
+	const targets = new Map<number, ResolvedTarget>();
+	let pendingUpper: { register: number; base: number } | undefined;
+
+	instructions.forEach((instruction, index) => {
+		const decoded = decodeInstruction(instruction.encoding, xlen);
+		const mnemonic = decoded.spec?.mnemonic;
+		const upper = pendingUpper;
+		pendingUpper = undefined;
+
+		const relative = decoded.operands.find(operand => operandType(operand.type)?.pcRelative);
+		if (relative) {
+			targets.set(index, { target: wrapAddress(instruction.address + relative.value, xlen), isControlFlow: true });
+			return;
+		}
+
+		if (mnemonic === 'auipc') {
+			pendingUpper = {
+				register: decoded.operands[0].value,
+				base: instruction.address + (decoded.immediate ?? 0)
+			};
+			return;
+		}
+
+		if (upper && (mnemonic === 'addi' || mnemonic === 'jalr')) {
+			const source = decoded.operands.find(operand => operand.type === 'rs1');
+			if (source?.value === upper.register && upper.register !== 0) {
+				targets.set(index, {
+					target: wrapAddress(upper.base + (decoded.immediate ?? 0), xlen),
+					isControlFlow: mnemonic === 'jalr'
+				});
+			}
+		}
+	});
+
+	return targets;
+}
+
+function wrapAddress(value: number, xlen: Xlen | undefined): number {
+	if (xlen === 32 || (value >= -0x80000000 && value < 0x100000000)) {
+		return value >>> 0;
+	}
+	return value < 0 ? value + 2 ** 64 : value;
+}
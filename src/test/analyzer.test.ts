@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { executeAnalyzer, initializeAnalyzer, parseXlenSetting } from '../analyzer';
+
+suite('Analyzer', () => {
+	suiteSetup(() => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+	});
+
+	test('parses XLEN settings and falls back to auto', () => {
+		assert.strictEqual(parseXlenSetting('rv32'), 32);
+		assert.strictEqual(parseXlenSetting('RV64'), 64);
+		assert.strictEqual(parseXlenSetting('64'), 64);
+		assert.strictEqual(parseXlenSetting(128), 128);
+		assert.strictEqual(parseXlenSetting('auto'), 'auto');
+		assert.strictEqual(parseXlenSetting('garbage'), 'auto');
+		assert.strictEqual(parseXlenSetting('16'), 'auto');
+		assert.strictEqual(parseXlenSetting(undefined), 'auto');
+	});
+
+	test('decodes RV64-only encodings with the selected XLEN', async () => {
+		// c.addiw on RV64 is c.jal on RV32; addiw does not exist on RV32.
+		const input = '0x2001\n0x0015051B';
+		const rv64 = await executeAnalyzer('disassemble', input, { xlen: 64 });
+		assert.strictEqual(rv64.xlen, 64);
+		assert.deepStrictEqual(rv64.records?.map(record => record.mnemonic), ['c.addiw', 'addiw']);
+
+		const rv32 = await executeAnalyzer('disassemble', input, { xlen: 32 });
+		assert.strictEqual(rv32.xlen, 32);
+		assert.strictEqual(rv32.records?.[0].mnemonic, 'c.jal');
+		assert.strictEqual(rv32.records?.[1].error, 'unsupported 32-bit instruction');
+	});
+
+	test('keeps decoding past bad input with per-line diagnostics and data placeholders', async () => {
+		const input = '0x00100513\n0xZZ\n  0x0000\n0xFFFFFFFF\n0xFFFFFFFF\n0xFFFFFFFF\n0x00008067';
+		const result = await executeAnalyzer('disassemble', input, { xlen: 32 });
+		assert.ok(result.infoMessages?.includes('Line 2, column 3: "0xZZ" is not a valid hexadecimal value.'));
+		assert.deepStrictEqual(result.records?.map(record => [record.address, record.mnemonic, record.notes]), [
+			[0, 'addi', ['= li a0, 1']],
+			[4, '.half', ['likely data']],
+			[6, '.word', ['likely data']],
+			[10, '.word', ['likely data']],
+			[14, '.word', ['likely data']],
+			[18, 'jalr', ['= ret']]
+		]);
+		assert.strictEqual(result.records?.[1].error, 'unsupported 16-bit instruction');
+		assert.strictEqual(result.output.split('\n')[2], '00000006:  0xFFFFFFFF  .word 0xffffffff  # likely data');
+	});
+
+	test('resynchronizes a byte stream that starts in the middle of an instruction', async () => {
+		const result = await executeAnalyzer('disassemble', '03 00 13 05 10 00 93 05 20 00', { xlen: 32 });
+		assert.deepStrictEqual(result.records?.map(record => [record.address, record.mnemonic]), [[0, '.half'], [2, 'addi'], [6, 'addi']]);
+		assert.strictEqual(result.records?.[0].error, 'end of a preceding instruction');
+		assert.ok(result.infoMessages?.some(message => message.includes('decoding starts after the first 2 byte(s)')));
+	});
+
+	test('treats an illegal byte token as a break in the byte stream', async () => {
+		const result = await executeAnalyzer('disassemble', '13 05 10 00\n93 0g 20 00\n33 06 b5 00', { xlen: 32 });
+		assert.deepStrictEqual(result.records?.map(record => [record.address, record.mnemonic, record.error]), [
+			[0, 'addi', undefined],
+			[4, '.byte', 'incomplete instruction'],
+			[6, '.half', 'end of a preceding instruction'],
+			[8, 'add', undefined]
+		]);
+		assert.ok(result.infoMessages?.includes('Line 2, column 4: Illegal byte token: "0g".'));
+	});
+});
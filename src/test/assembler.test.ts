@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { assemble, checkAssembly } from '../assembler';
+
+function encodings(source: string, xlen: 32 | 64 = 64): number[] {
+	const result = assemble(source, { xlen });
+	assert.strictEqual(result.errorCount, 0, result.lines.map(line => line.error).filter(Boolean).join('\n'));
+	return result.lines.flatMap(line => line.instructions.map(instruction => instruction.encoding));
+}
+
+suite('Assembler', () => {
+	test('encodes base integer instructions', () => {
+		assert.deepStrictEqual(encodings('add a0, a0, a1\naddi a0, a0, -1\nlw a0, 4(sp)\nsw a1, -8(s0)'), [
+			0x00b50533,
+			0xfff50513,
+			0x00412503,
+			0xfeb42c23
+		]);
+	});
+
+	test('resolves labels for branches and jumps', () => {
+		assert.deepStrictEqual(encodings('loop: addi a0, a0, -1\nbnez a0, loop\nj loop'), [
+			0xfff50513,
+			0xfe051ee3,
+			0xff9ff06f
+		]);
+	});
+
+	test('resolves numeric local labels to the nearest definition', () => {
+		assert.deepStrictEqual(encodings('1: addi a0, a0, -1\nbnez a0, 1b\nj 2f\n1: nop\n2: j 1b'), [
+			0xfff50513,
+			0xfe051ee3,
+			0x0080006f,
+			0x00000013,
+			0xffdff06f
+		]);
+		const result = assemble('j 1f\n1: j 1f');
+		assert.strictEqual(result.lines[0].error, undefined);
+		assert.match(result.lines[1].error ?? '', /Undefined local label "1f"/);
+	});
+
+	test('expands li into the shortest sequence', () => {
+		assert.deepStrictEqual(encodings('li a0, 0x12345678', 32), [0x12345537, 0x67850513]);
+		assert.deepStrictEqual(encodings('li a0, 0x12345678', 64), [0x12345537, 0x6785051b]);
+		assert.deepStrictEqual(encodings('li t0, -1'), [0xfff00293]);
+	});
+
+	test('encodes compressed instructions', () => {
+		assert.deepStrictEqual(encodings('c.li a0, 0\nc.addi16sp sp, -64\nc.lwsp a0, 12(sp)\nc.jr ra'), [
+			0x4501,
+			0x7139,
+			0x4532,
+			0x8082
+		]);
+	});
+
+	test('reports errors per line', () => {
+		const result = assemble('addi a0, a0, 5000\nnop\nfoo a0');
+		assert.strictEqual(result.errorCount, 2);
+		assert.match(result.lines[0].error ?? '', /out of range/);
+		assert.strictEqual(result.lines[1].instructions[0].encoding, 0x00000013);
+		assert.match(result.lines[2].error ?? '', /Unknown instruction "foo"/);
+	});
+
+	test('rejects instructions that do not exist for the selected XLEN', () => {
+		const result = assemble('ld a0, 0(a1)', { xlen: 32 });
+		assert.match(result.lines[0].error ?? '', /only available on RV64/);
+	});
+
+	test('checks source files statement by statement', () => {
+		const source = [
+			'\t.section .text.init, "ax"',
+			'\t.equ UART, 0x10000000',
+			'_start: li t0, UART',
+			'1:\tlw a0, %lo(buffer)(t0) /* external symbol */',
+			'\tbnez a0, 1b',
+			'\tcall printf',
+			'\taddi a0, a0, 4096',
+			'\tadd a0, a1',
+			'\tfoo a0',
+			'\taddi a0, q5, 1',
+			'\tld a0, 0(sp)'
+		].join('\n');
+		assert.deepStrictEqual(checkAssembly(source, { xlen: 32 }).map(issue => [issue.lineNumber, issue.start, issue.end]), [
+			[7, 1, 18],
+			[8, 1, 11],
+			[9, 1, 4],
+			[10, 1, 15],
+			[11, 1, 13]
+		]);
+		assert.match(checkAssembly(source, { xlen: 32 })[4].message, /only available on RV64/);
+		assert.strictEqual(checkAssembly(source, { xlen: 64 }).length, 4);
+	});
+});
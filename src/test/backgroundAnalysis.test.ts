@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { AnalyzerProgress, initializeAnalyzer } from '../analyzer';
+import { WORKER_THRESHOLD, runAnalysisJob, runJob } from '../backgroundAnalysis';
+
+const WORDS = ['0x00100513', '0x00812583', '0x00b50633', '0xfe060ee3', '0x00008067'];
+
+function dump(count: number): string {
+	return Array.from({ length: count }, (_, index) => WORDS[index % WORDS.length]).join('\n');
+}
+
+suite('Background analysis', function () {
+	this.timeout(30000);
+
+	suiteSetup(() => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+	});
+
+	test('decodes large inputs on a worker thread in batches', async () => {
+		const input = dump(10000);
+		assert.ok(input.length >= WORKER_THRESHOLD);
+		const progress: AnalyzerProgress[] = [];
+		const job = { kind: 'execute', mode: 'disassemble', input, options: { xlen: 32 } } as const;
+		const result = await runAnalysisJob(job, { onProgress: update => progress.push(update) });
+
+		assert.strictEqual(result.output, (await runJob(job)).output);
+		assert.deepStrictEqual(progress.map(update => update.decoded), [4096, 8192, 10000]);
+		assert.strictEqual(progress[0].rows[1], '00000004:  0x00812583  lw a1, 8(sp)');
+		assert.strictEqual(progress.reduce((total, update) => total + update.rows.length, 0), 10000);
+	});
+
+	test('stops on cancellation on the worker and in-process', async () => {
+		const worker = new AbortController();
+		const running = runAnalysisJob({ kind: 'execute', mode: 'disassemble', input: dump(10000), options: {} }, {
+			signal: worker.signal,
+			onProgress: () => worker.abort()
+		});
+		await assert.rejects(running, /Cancelled/);
+
+		const inProcess = new AbortController();
+		const local = runAnalysisJob({ kind: 'execute', mode: 'disassemble', input: dump(5000), options: {} }, {
+			signal: inProcess.signal,
+			onProgress: () => inProcess.abort()
+		});
+		await assert.rejects(local, /Cancelled/);
+	});
+});
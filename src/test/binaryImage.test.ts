@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { findBytes, loadBinaryImage, parseBytePattern, rowAtOffset, rowCount } from '../binaryImage';
+
+suite('Binary image', () => {
+	test('splits raw images into 16- and 32-bit instruction rows', () => {
+		// c.li a0, 5; add a0, a0, a0; c.jr ra; one trailing byte
+		const image = loadBinaryImage(new Uint8Array([0x15, 0x45, 0x33, 0x05, 0xa5, 0x00, 0x82, 0x80, 0x13]), 'auto');
+		assert.deepStrictEqual(Array.from(image.rowOffsets), [0, 2, 6, 8, 9]);
+		assert.strictEqual(rowCount(image), 4);
+		assert.strictEqual(rowAtOffset(image, 4), 1);
+		assert.strictEqual(rowAtOffset(image, 8), 3);
+	});
+
+	test('finds byte patterns with wildcards, wrapping around', () => {
+		const image = loadBinaryImage(new Uint8Array([0x15, 0x45, 0x33, 0x05, 0xa5, 0x00, 0x82, 0x80]), 32);
+		const pattern = parseBytePattern('33 ?? a5');
+		assert.deepStrictEqual(pattern, [0x33, undefined, 0xa5]);
+		assert.strictEqual(findBytes(image, pattern ?? [], 0), 2);
+		assert.strictEqual(findBytes(image, pattern ?? [], 3), 2);
+		assert.strictEqual(findBytes(image, [0x99], 0), undefined);
+		assert.strictEqual(parseBytePattern('jal'), undefined);
+	});
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { buildControlFlowGraph } from '../cfg';
+import { layout } from './layout';
+
+suite('Control flow', () => {
+	test('splits at branches and their targets', () => {
+		const blocks = buildControlFlowGraph(layout([
+			0x00a00513, // li a0, 10
+			0x00050863, // beqz a0, +16
+			0xfff50513, // addi a0, a0, -1
+			0xfe051ee3, // bnez a0, -4
+			0x00000013, // nop
+			0x00008067 // ret
+		]), 64);
+
+		assert.deepStrictEqual(
+			blocks.map(block => [block.firstIndex, block.lastIndex, block.successors, block.exit]),
+			[
+				[0, 1, [{ target: 3, kind: 'taken' }, { target: 1, kind: 'fallthrough' }], undefined],
+				[2, 3, [{ target: 1, kind: 'taken' }, { target: 2, kind: 'fallthrough' }], undefined],
+				[4, 4, [{ target: 3, kind: 'fallthrough' }], undefined],
+				[5, 5, [], 'return']
+			]
+		);
+	});
+
+	test('keeps calls inside a block and marks jumps that leave the snippet', () => {
+		const blocks = buildControlFlowGraph(layout([0x008000ef, 0x8082, 0x1000006f]), 64);
+		assert.deepStrictEqual(
+			blocks.map(block => [block.firstIndex, block.lastIndex, block.successors, block.exit]),
+			[
+				[0, 1, [], 'return'],
+				[2, 2, [], 'external']
+			]
+		);
+	});
+});
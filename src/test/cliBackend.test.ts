@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLI_PROTOCOL_VERSION, CliCommand, CliRequest, clearCliCapabilities, parseCliCapabilities, runCli } from '../cliBackend';
+
+const PROTOCOL_STUB = `
+if (process.argv.includes('--capabilities')) {
+	console.log(JSON.stringify({ protocol: 1, name: 'stub', version: '0.1', modes: ['disassemble'], xlens: [32], extensions: ['xacme'] }));
+	process.exit(0);
+}
+let input = '';
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+	const request = JSON.parse(input);
+	console.log(JSON.stringify({
+		lines: [
+			{ address: 0, encoding: '0x0000000B', text: 'acme.mac a0, a1, a2', notes: [request.isa] },
+			{ address: 4, encoding: '0xFFFFFFFF', error: 'unknown' }
+		],
+		messages: ['xlen ' + request.xlen]
+	}));
+});
+`;
+
+const LEGACY_STUB = `
+if (process.argv.includes('--capabilities')) {
+	console.error('unknown option');
+	process.exit(2);
+}
+if (process.argv.includes('--assemble')) {
+	setTimeout(() => undefined, 10000);
+} else {
+	console.log('legacy ' + process.argv.slice(2).join(' '));
+}
+`;
+
+const NEWER_PROTOCOL_STUB = `
+require('fs').appendFileSync(__filename + '.handshakes', '.');
+console.log(JSON.stringify({ protocol: 2 }));
+`;
+
+function request(mode: CliRequest['mode'], xlen: CliRequest['xlen'] = 32): CliRequest {
+	return { protocol: CLI_PROTOCOL_VERSION, mode, input: '0x0000000b', xlen, isa: 'rv32i_xacme', inputFormat: 'auto', baseAddress: 0 };
+}
+
+suite('External CLI backend', () => {
+	let directory: string;
+	const stub = (name: string, source: string): CliCommand => {
+		const script = path.join(directory, name);
+		fs.writeFileSync(script, source);
+		return { executable: process.execPath, args: [script] };
+	};
+
+	suiteSetup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), 'riscv-cli-'));
+	});
+
+	suiteTeardown(() => {
+		clearCliCapabilities();
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test('speaks the JSON protocol after the handshake', async () => {
+		const command = stub('protocol.js', PROTOCOL_STUB);
+		const result = await runCli(command, request('disassemble'), { timeoutMs: 10000 });
+		assert.strictEqual(result.output, '00000000:  0x0000000B  acme.mac a0, a1, a2  # rv32i_xacme\n00000004:  0xFFFFFFFF  Error: unknown');
+		assert.deepStrictEqual(result.records?.[0], {
+			line: 0, address: 0, encoding: '0x0000000B', size: 4, mnemonic: 'acme.mac', operands: ['a0', 'a1', 'a2'], notes: ['rv32i_xacme'], error: undefined
+		});
+		assert.deepStrictEqual(result.infoMessages, ['Used stub 0.1 (extensions: xacme).', 'xlen 32']);
+		await assert.rejects(runCli(command, request('disassemble', 64), { timeoutMs: 10000 }), /stub does not support RV64/);
+		await assert.rejects(runCli(command, request('assemble'), { timeoutMs: 10000 }), /stub does not support assembly/);
+	});
+
+	test('drives tools without the handshake with plain flags and stops them on timeout', async () => {
+		const command = stub('legacy.js', LEGACY_STUB);
+		const result = await runCli(command, request('disassemble'), { timeoutMs: 10000 });
+		assert.strictEqual(result.output, 'legacy --disassemble');
+		await assert.rejects(runCli(command, request('assemble'), { timeoutMs: 300 }), /did not finish within 300 ms/);
+		const cancellation = new AbortController();
+		const cancelled = runCli(command, request('assemble'), { timeoutMs: 10000, signal: cancellation.signal });
+		setTimeout(() => cancellation.abort(), 100);
+		await assert.rejects(cancelled, /Cancelled/);
+	});
+
+	test('remembers a handshake it cannot accept', async () => {
+		const command = stub('newer.js', NEWER_PROTOCOL_STUB);
+		await assert.rejects(runCli(command, request('disassemble'), { timeoutMs: 10000 }), /Unsupported CLI protocol version 2/);
+		await assert.rejects(runCli(command, request('disassemble'), { timeoutMs: 10000 }), /Unsupported CLI protocol version 2/);
+		assert.strictEqual(fs.readFileSync(path.join(directory, 'newer.js.handshakes'), 'utf8'), '.');
+	});
+
+	test('validates the capabilities', () => {
+		assert.deepStrictEqual(parseCliCapabilities({ protocol: 1 }), {
+			protocol: 1, name: 'External CLI', version: '', modes: ['assemble', 'disassemble'], xlens: [32, 64], extensions: []
+		});
+		assert.throws(() => parseCliCapabilities({ protocol: 2 }), /Unsupported CLI protocol version 2/);
+		assert.throws(() => parseCliCapabilities({ protocol: 1, xlens: [16] }), /"xlens" must list/);
+	});
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import { expandCompressed, findRvcCandidate } from '../compression';
+import { decodeInstruction } from '../decoder';
+
+suite('Compression', () => {
+	test('expands compressed instructions to their 32-bit form', () => {
+		assert.deepStrictEqual(expandCompressed(decodeInstruction(0x4515, 32), 32), { text: 'addi a0, zero, 5', encoding: 0x00500513 });
+		assert.deepStrictEqual(expandCompressed(decodeInstruction(0x8082, 32), 32), { text: 'jalr zero, 0(ra)', encoding: 0x00008067 });
+		assert.strictEqual(expandCompressed(decodeInstruction(0x00450513, 32), 32), undefined);
+	});
+
+	test('finds missed compressions and explains the rest', () => {
+		const candidate = (encoding: number) => findRvcCandidate(decodeInstruction(encoding, 32), 32);
+		assert.deepStrictEqual(candidate(0x00450513), { form: 'c.addi' });
+		assert.deepStrictEqual(candidate(0x06400513), { form: 'c.li', reason: '100 is outside -32 to 31' });
+		assert.deepStrictEqual(candidate(0x00052803), { form: 'c.lw', reason: 'a6 is outside x8-x15' });
+		assert.deepStrictEqual(candidate(0x00c58533), { form: 'c.add', reason: 'rd differs from the source registers' });
+		assert.strictEqual(candidate(0x02b50533), undefined);
+	});
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { executeAnalyzer, initializeAnalyzer } from '../analyzer';
+import { assemble } from '../assembler';
+import { WORKER_THRESHOLD, runAnalysisJob } from '../backgroundAnalysis';
+import { disassembleCustomInstruction, parseCustomInstructions, readCustomInstructions } from '../customInstructions';
+import { decodeInstruction } from '../decoder';
+import { setCustomInstructions } from '../isa';
+import { registerEffects } from '../registerAnalysis';
+
+const ACCELERATOR = {
+	fields: {
+		uimm7: { kind: 'imm', bits: '31:25' },
+		boff: { kind: 'imm', bits: ['31', '7', '30:25', '11:8'], signed: true, scale: 2, pcRelative: true }
+	},
+	instructions: [
+		{ mnemonic: 'acc.mac', match: '0x0000000b', mask: '0xfe00707f', operands: ['rd', 'rs1', 'rs2'], extension: 'Xacc' },
+		{ mnemonic: 'acc.ld', match: '0x0000100b', mask: '0x0000707f', operands: ['rd', 'imm12(rs1)'], extension: 'Xacc' },
+		{ mnemonic: 'acc.cfg', match: '0x0000200b', mask: '0x01f0707f', operands: ['rd', 'rs1', 'uimm7'] },
+		{ mnemonic: 'acc.bnz', match: '0x0000302b', mask: '0x01f0707f', operands: ['rs1', 'boff'] }
+	]
+};
+
+suite('Custom instructions', function () {
+	this.timeout(30000);
+
+	suiteSetup(() => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+	});
+
+	teardown(() => setCustomInstructions(undefined));
+
+	test('assembles and decodes custom instructions in the custom-0 and custom-1 spaces', () => {
+		setCustomInstructions(parseCustomInstructions(ACCELERATOR));
+		const result = assemble('acc.mac a0, a1, a2\nacc.ld t0, -8(sp)\nacc.cfg a0, a1, 100\nloop: acc.bnz a0, loop', { xlen: 32 });
+		assert.strictEqual(result.errorCount, 0);
+		const encodings = result.lines.map(line => line.instructions[0].encoding);
+		assert.deepStrictEqual(encodings, [0x00c5850b, 0xff81128b, 0xc805a50b, 0x0005302b]);
+
+		assert.deepStrictEqual(encodings.map(encoding => disassembleCustomInstruction(encoding, 32)), [
+			'acc.mac a0, a1, a2',
+			'acc.ld t0, -8(sp)',
+			'acc.cfg a0, a1, 100',
+			'acc.bnz a0, 0'
+		]);
+		assert.strictEqual(disassembleCustomInstruction(0x00b50533, 32), undefined);
+		assert.strictEqual(decodeInstruction(0x00c5850b).spec?.extension, 'Xacc');
+		assert.strictEqual(registerEffects(decodeInstruction(0xff81128b)).writes, 1n << 5n);
+	});
+
+	test('drops the custom instructions when the set is cleared', () => {
+		setCustomInstructions(parseCustomInstructions(ACCELERATOR));
+		assert.strictEqual(decodeInstruction(0x00c5850b, 32).spec?.mnemonic, 'acc.mac');
+		setCustomInstructions(undefined);
+		assert.strictEqual(decodeInstruction(0x00c5850b, 32).spec, undefined);
+		assert.strictEqual(assemble('acc.mac a0, a1, a2', { xlen: 32 }).errorCount, 1);
+	});
+
+	test('stay in effect across analyzer runs, including those on worker threads', async () => {
+		setCustomInstructions(parseCustomInstructions(ACCELERATOR));
+		assert.strictEqual((await executeAnalyzer('disassemble', '0x00c5850b', { xlen: 32 })).records?.[0].mnemonic, 'acc.mac');
+		assert.strictEqual(decodeInstruction(0x00c5850b, 32).spec?.mnemonic, 'acc.mac');
+
+		const input = Array.from({ length: 6000 }, () => '0x00c5850b').join('\n');
+		assert.ok(input.length >= WORKER_THRESHOLD);
+		const result = await runAnalysisJob({ kind: 'execute', mode: 'disassemble', input, options: { xlen: 32 } });
+		assert.strictEqual(result.records?.[5999].mnemonic, 'acc.mac');
+	});
+
+	test('reads YAML files as well as JSON', () => {
+		const yamlFile = [
+			'fields:',
+			'  uimm7: { kind: imm, bits: "31:25" }',
+			'instructions:',
+			'  - mnemonic: acc.cfg',
+			'    match: 0x0000200b',
+			'    mask: 0x01f0707f',
+			'    operands: [rd, rs1, uimm7]'
+		].join('\n');
+		setCustomInstructions(readCustomInstructions(yamlFile, 'accelerator.yaml'));
+		assert.strictEqual(disassembleCustomInstruction(0xc805a50b, 32), 'acc.cfg a0, a1, 100');
+		assert.deepStrictEqual(readCustomInstructions(JSON.stringify(ACCELERATOR), 'accelerator.json').specs.length, 4);
+		assert.throws(() => readCustomInstructions(yamlFile, 'accelerator.json'), SyntaxError);
+	});
+
+	test('rejects definitions that cannot be decoded unambiguously', () => {
+		const parse = (instruction: object, fields: object = {}) => () => parseCustomInstructions({ fields, instructions: [instruction] });
+		assert.throws(parse({ mnemonic: 'x', match: '0xb', mask: '0x7f', operands: ['rd', 'foo'] }), /Instruction 1 \("x"\): Unknown operand "foo"/);
+		assert.throws(parse({ mnemonic: 'x', match: '0x0000000b', mask: '0x00000fff', operands: ['rd'] }), /"rd" overlaps the fixed bits/);
+		assert.throws(parse({ mnemonic: 'x', match: '0x0000100b', mask: '0x0000007f' }), /"match" sets bits outside "mask"/);
+		assert.throws(parse({ mnemonic: 'x', match: '0xb', mask: '0x7f' }, { rd: { kind: 'xreg', bits: '11:7' } }), /name of a built-in operand type/);
+		assert.throws(parse({ mnemonic: 'x', match: '0xb', mask: '0x7f', extension: 'acc' }), /starting with X/);
+	});
+});
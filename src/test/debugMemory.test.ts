@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { DebugRequest, breakpointAddress, cancellableRequest, debugAddressNotes, readDebugMemory, readProgramCounter, resolveDebugAddress } from '../debugMemory';
+
+const IMAGE_BASE = 0x80000000;
+const IMAGE = Buffer.from([0x13, 0x05, 0x10, 0x00, 0x93, 0x05, 0x20, 0x00, 0x33, 0x06, 0xb5, 0x00, 0x67, 0x80, 0x00, 0x00]);
+
+/** A debug adapter stopped at the third instruction of a fixed memory image. */
+function mockAdapter(options: { instructionPointers?: boolean } = {}): { request: DebugRequest; requests: string[] } {
+	const requests: string[] = [];
+	const request: DebugRequest = async (command, args = {}) => {
+		requests.push(command);
+		switch (command) {
+			case 'threads':
+				return { threads: [{ id: 7, name: 'hart 0' }] };
+			case 'stackTrace':
+				assert.strictEqual(args.threadId, 7);
+				return { stackFrames: [{ id: 1, name: 'main', instructionPointerReference: options.instructionPointers === false ? undefined : '0x80000008' }] };
+			case 'evaluate':
+				return args.expression === '$pc' ? { result: '(void (*)()) 0x80000008 <main+8>' } : { result: '{int (void)} 0x80000000 <main>' };
+			case 'readMemory': {
+				const start = Number(args.memoryReference) - IMAGE_BASE;
+				const data = IMAGE.subarray(Math.max(0, start), Math.max(0, start + Number(args.count)));
+				return { address: args.memoryReference, data: data.toString('base64'), unreadableBytes: Number(args.count) - data.length };
+			}
+			default:
+				throw new Error(`unsupported request ${command}`);
+		}
+	};
+	return { request, requests };
+}
+
+suite('Debug memory', () => {
+	test('finds the PC from the stack trace or by evaluating $pc', async () => {
+		const adapter = mockAdapter();
+		assert.strictEqual(await readProgramCounter(adapter.request), 0x80000008);
+		assert.deepStrictEqual(adapter.requests, ['threads', 'stackTrace']);
+
+		const withoutPointers = mockAdapter({ instructionPointers: false });
+		assert.strictEqual(await readProgramCounter(withoutPointers.request, { threadId: 7 }), 0x80000008);
+		assert.deepStrictEqual(withoutPointers.requests, ['stackTrace', 'evaluate']);
+	});
+
+	test('reads memory at numbers and expressions and reports unreadable bytes', async () => {
+		const { request } = mockAdapter();
+		const memory = await readDebugMemory(request, await resolveDebugAddress(request, 'main'), 32);
+		assert.strictEqual(memory.address, IMAGE_BASE);
+		assert.deepStrictEqual([...memory.bytes], [...IMAGE]);
+		assert.strictEqual(memory.unreadableBytes, 16);
+		assert.strictEqual(await resolveDebugAddress(request, '0x8000_0004'), 0x80000004);
+		await assert.rejects(resolveDebugAddress(request, '0xffffffff80000000'), /0xffffffff80000000 is above 2\^53/);
+		await assert.rejects(readDebugMemory(request, 0x1000, 16), /No memory could be read at 0x1000/);
+	});
+
+	test('stops waiting for an adapter that does not answer once cancelled', async () => {
+		const cancellation = new AbortController();
+		const request = cancellableRequest(() => new Promise(() => undefined), cancellation.signal);
+		const pending = readDebugMemory(request, IMAGE_BASE, 16);
+		cancellation.abort();
+		await assert.rejects(pending, /Cancelled/);
+		await assert.rejects(Promise.resolve(request('threads')), /Cancelled/);
+		assert.strictEqual(await readProgramCounter(cancellableRequest(mockAdapter().request, new AbortController().signal)), 0x80000008);
+	});
+
+	test('marks the PC and the breakpoints placed at instructions', () => {
+		const breakpoints = [
+			{ verified: true, instructionReference: '0x80000000', offset: 4 },
+			{ verified: false, instructionReference: '0x80000000' },
+			{ verified: true, line: 12 },
+			{ verified: true, instructionReference: '0x80000008' }
+		].map(breakpointAddress);
+		assert.deepStrictEqual(breakpoints, [0x80000004, undefined, undefined, 0x80000008]);
+		assert.deepStrictEqual([...debugAddressNotes(0x80000008, [0x80000004, 0x80000008])], [
+			[0x80000008, ['<- pc', 'breakpoint']],
+			[0x80000004, ['breakpoint']]
+		]);
+	});
+});
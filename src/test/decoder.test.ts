@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { decodeInstruction } from '../decoder';
+
+suite('Decoder', () => {
+	test('splits R-type fields', () => {
+		const decoded = decodeInstruction(0x00a50533);
+		assert.strictEqual(decoded.spec?.mnemonic, 'add');
+		assert.strictEqual(decoded.format, 'R');
+		assert.deepStrictEqual(
+			decoded.fields.map(field => [field.name, field.high, field.low, field.value]),
+			[['funct7', 31, 25, 0], ['rs2', 24, 20, 10], ['rs1', 19, 15, 10], ['funct3', 14, 12, 0], ['rd', 11, 7, 10], ['opcode', 6, 0, 0x33]]
+		);
+	});
+
+	test('reassembles scattered branch immediates', () => {
+		const decoded = decodeInstruction(0xfe0508e3);
+		assert.strictEqual(decoded.spec?.mnemonic, 'beq');
+		assert.strictEqual(decoded.immediate, -16);
+		assert.deepStrictEqual(decoded.fields.filter(field => field.name.startsWith('imm')).map(field => field.name), [
+			'imm[12]',
+			'imm[10:5]',
+			'imm[4:1]',
+			'imm[11]'
+		]);
+	});
+
+	test('follows XLEN for compressed encodings', () => {
+		assert.strictEqual(decodeInstruction(0x2001, 32).spec?.mnemonic, 'c.jal');
+		assert.strictEqual(decodeInstruction(0x2001, 64).spec?.mnemonic, 'c.addiw');
+		assert.strictEqual(decodeInstruction(0x6108, 64).spec?.mnemonic, 'c.ld');
+	});
+
+	test('shifts upper immediates into place', () => {
+		assert.strictEqual(decodeInstruction(0x12345537).immediate, 0x12345000);
+		assert.strictEqual(decodeInstruction(0x757d).immediate, -4096);
+	});
+});
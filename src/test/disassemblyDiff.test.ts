@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { diffDisassembly } from '../disassemblyDiff';
+import { InstructionRecord, splitInstructionText } from '../instructionRecords';
+
+function records(lines: string[], base = 0x1000): InstructionRecord[] {
+	let address = base;
+	return lines.map((text, line) => {
+		const record: InstructionRecord = { line, address, encoding: '', size: 4, notes: [], ...splitInstructionText(text) };
+		address += 4;
+		return record;
+	});
+}
+
+suite('Disassembly diff', () => {
+	test('aligns on instructions and pairs changed operands', () => {
+		const diff = diffDisassembly(
+			records(['addi a0, a0, 1', 'lw a1, 8(sp)', 'add a2, a0, a1', 'ret']),
+			records(['addi a0, a0, 1', 'lw a1, 16(sp)', 'sub a2, a0, a1', 'ret'])
+		);
+		assert.deepStrictEqual(diff.rows.map(row => [row.kind, row.left?.mnemonic, row.right?.mnemonic, row.changedOperands]), [
+			['same', 'addi', 'addi', undefined],
+			['changed', 'lw', 'lw', [1]],
+			['removed', 'add', undefined, undefined],
+			['inserted', undefined, 'sub', undefined],
+			['same', 'ret', 'ret', undefined]
+		]);
+		assert.deepStrictEqual(diff.counts, { same: 2, changed: 1, removed: 1, inserted: 1 });
+		assert.deepStrictEqual(diff.shifts, []);
+	});
+
+	test('detects code shifted by an insertion', () => {
+		const diff = diffDisassembly(
+			records(['li a0, 1', 'li a1, 2', 'ret'], 0x2000),
+			records(['li a0, 1', 'nop', 'nop', 'li a1, 2', 'ret'], 0x4000)
+		);
+		assert.deepStrictEqual(diff.rows.map(row => [row.kind, row.shift]), [
+			['same', undefined], ['inserted', undefined], ['inserted', undefined], ['same', 8], ['same', 8]
+		]);
+		assert.deepStrictEqual(diff.shifts, [{ leftAddress: 0x2004, rightAddress: 0x400c, delta: 8 }]);
+	});
+});
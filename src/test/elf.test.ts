@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { disassembleFile, initializeAnalyzer } from '../analyzer';
+import { BUILTIN_TIMING_MODELS, DEFAULT_TIMING_MODEL } from '../timing';
+import { EF_RISCV_RVC, EM_RISCV, STT_FUNC, isExecutableSection, parseElf, sectionBytes, sectionLabels } from '../elf';
+
+interface TestSection {
+	name: string;
+	type: number;
+	flags: number;
+	data: number[];
+	link?: number;
+	entrySize?: number;
+}
+
+/** Builds a little-endian ELF32 relocatable image with the given sections after the null section. */
+function buildElf32(sections: TestSection[], flags = 0, machine = EM_RISCV): Uint8Array {
+	const names = [0];
+	const nameTable: number[] = [0];
+	for (const section of [...sections, { name: '.shstrtab' }]) {
+		names.push(nameTable.length);
+		nameTable.push(...Array.from(section.name, character => character.charCodeAt(0)), 0);
+	}
+	const all: TestSection[] = [...sections, { name: '.shstrtab', type: 3, flags: 0, data: nameTable }];
+
+	const bytes: number[] = new Array(52).fill(0);
+	const offsets = all.map(section => {
+		const offset = bytes.length;
+		bytes.push(...section.data);
+		return offset;
+	});
+	const headerOffset = bytes.length;
+	bytes.push(...new Array(40).fill(0));
+	all.forEach((section, index) => {
+		bytes.push(...le32(names[index + 1]), ...le32(section.type), ...le32(section.flags), ...le32(0));
+		bytes.push(...le32(offsets[index]), ...le32(section.data.length), ...le32(section.link ?? 0), ...le32(0));
+		bytes.push(...le32(0), ...le32(section.entrySize ?? 0));
+	});
+
+	bytes.splice(0, 16, 0x7f, 0x45, 0x4c, 0x46, 1, 1, 1, ...new Array(9).fill(0));
+	bytes.splice(16, 4, ...le16(1), ...le16(machine));
+	bytes.splice(32, 4, ...le32(headerOffset));
+	bytes.splice(36, 4, ...le32(flags));
+	bytes.splice(46, 6, ...le16(40), ...le16(all.length + 1), ...le16(all.length));
+	return Uint8Array.from(bytes);
+}
+
+function le16(value: number): number[] {
+	return [value & 0xff, (value >>> 8) & 0xff];
+}
+
+function le32(value: number): number[] {
+	return [...le16(value & 0xffff), ...le16(value >>> 16)];
+}
+
+function symbol(nameOffset: number, value: number, type: number, sectionIndex: number): number[] {
+	return [...le32(nameOffset), ...le32(value), ...le32(0), type, 0, ...le16(sectionIndex)];
+}
+
+suite('ELF', () => {
+	const text = [...le32(0x00000513), ...le16(0x8082)];
+	const strtab = [0, ...Array.from('main', character => character.charCodeAt(0)), 0, ...Array.from('$x', character => character.charCodeAt(0)), 0];
+	const symtab = [...new Array(16).fill(0), ...symbol(1, 0, STT_FUNC, 1), ...symbol(6, 0, 0, 1)];
+
+	test('reads sections, flags and symbols', () => {
+		const data = buildElf32([
+			{ name: '.text', type: 1, flags: 0x6, data: text },
+			{ name: '.symtab', type: 2, flags: 0, data: symtab, link: 3, entrySize: 16 },
+			{ name: '.strtab', type: 3, flags: 0, data: strtab }
+		], EF_RISCV_RVC);
+		const elf = parseElf(data);
+
+		assert.strictEqual(elf.elfClass, 32);
+		assert.strictEqual(elf.compressed, true);
+		assert.strictEqual(elf.floatAbi, 'soft');
+		const executable = elf.sections.filter(isExecutableSection);
+		assert.deepStrictEqual(executable.map(section => section.name), ['.text']);
+		assert.deepStrictEqual(Array.from(sectionBytes(data, executable[0])), text);
+		assert.deepStrictEqual(Array.from(sectionLabels(elf, executable[0])), [[0, 'main']]);
+	});
+
+	test('recognizes ELF images whatever the configured input format', async () => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+		const data = buildElf32([{ name: '.text', type: 1, flags: 0x6, data: text }], EF_RISCV_RVC);
+		for (const inputFormat of ['hexWords', 'binary'] as const) {
+			const result = await disassembleFile(data, { inputFormat });
+			assert.deepStrictEqual(result.records?.map(record => record.mnemonic), ['addi', 'c.jr']);
+		}
+	});
+
+	test('places the results of every section on its own output lines', async () => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+		const data = buildElf32([
+			{ name: '.text', type: 1, flags: 0x6, data: text },
+			{ name: '.init', type: 1, flags: 0x6, data: text }
+		], EF_RISCV_RVC);
+		const result = await disassembleFile(data, { timingModel: BUILTIN_TIMING_MODELS[DEFAULT_TIMING_MODEL] });
+		const lines = result.records?.map(record => record.line) ?? [];
+		const outputLines = result.output.split('\n');
+		assert.deepStrictEqual(lines.map(line => outputLines[line].split(/\s+/)[1]), ['0x00000513', '0x8082', '0x00000513', '0x8082']);
+		assert.deepStrictEqual(result.controlFlow?.map(block => [block.startLine, block.endLine]), [[lines[0], lines[1]], [lines[2], lines[3]]]);
+
+		const performance = result.performance;
+		assert.deepStrictEqual(performance?.instructions.map(estimate => estimate.line), lines);
+		assert.deepStrictEqual(performance?.blocks.map(block => [block.startLine, block.endLine]), [[lines[0], lines[1]], [lines[2], lines[3]]]);
+		assert.strictEqual(performance?.totalCycles, performance.blocks[0].cycles + performance.blocks[1].cycles);
+		assert.ok(performance.instructions[2].cycle >= performance.blocks[0].cycles);
+	});
+
+	test('runs the register checks on each section unless turned off', async () => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+		// add a2, a0, a1; ret
+		const data = buildElf32([{ name: '.text', type: 1, flags: 0x6, data: [...le32(0x00b50633), ...le16(0x8082)] }], EF_RISCV_RVC);
+		const checked = await disassembleFile(data);
+		assert.deepStrictEqual(checked.records?.[0].notes, ['dead write to a2']);
+		const unchecked = await disassembleFile(data, { registerAnalysis: false });
+		assert.deepStrictEqual(unchecked.records?.[0].notes, []);
+	});
+
+	test('rejects files that are not RISC-V ELF images', () => {
+		assert.throws(() => parseElf(new Uint8Array(64)), /Not an ELF file/);
+		assert.throws(() => parseElf(buildElf32([], 0, 62)), /not RISC-V/);
+	});
+
+	test('rejects RV64 addresses that a number cannot hold exactly', () => {
+		const header = new Uint8Array(64);
+		header.set([0x7f, 0x45, 0x4c, 0x46, 2, 1, 1]);
+		header.set([...le16(2), ...le16(EM_RISCV)], 16);
+		// An entry point at 0xffffffff80000000, where upper-half kernels are linked.
+		header.set([...le32(0x80000000), ...le32(0xffffffff)], 24);
+		assert.throws(() => parseElf(header), /0xffffffff80000000 is above 2\^53/);
+	});
+});
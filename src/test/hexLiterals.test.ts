@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { executeAnalyzer, initializeAnalyzer } from '../analyzer';
+import { findHexLiteral, hoverRows } from '../hexLiterals';
+
+suite('Hex literals', () => {
+	test('finds C, Rust and Verilog literals under the cursor', () => {
+		assert.deepStrictEqual(findHexLiteral('uint32_t insn = 0x00a50533u;', 20), {
+			start: 16,
+			end: 27,
+			parcels: ['0x00A50533']
+		});
+		assert.deepStrictEqual(findHexLiteral('let insn: u32 = 0x0013_0513;', 18)?.parcels, ['0x00130513']);
+		assert.deepStrictEqual(findHexLiteral("assign insn = 32'h0013_0513;", 16)?.parcels, ['0x00130513']);
+		assert.strictEqual(findHexLiteral('uint32_t insn = 0x00a50533u;', 5), undefined);
+	});
+
+	test('splits compressed parcels and ignores wide values', () => {
+		assert.deepStrictEqual(findHexLiteral('0x4515', 0)?.parcels, ['0x4515']);
+		assert.deepStrictEqual(findHexLiteral('0x45854515', 0)?.parcels, ['0x4515', '0x4585']);
+		assert.deepStrictEqual(findHexLiteral('0x05134515', 0)?.parcels, ['0x4515']);
+		assert.strictEqual(findHexLiteral('0x123456789', 0), undefined);
+	});
+
+	test('shows only the instructions that decode', async () => {
+		initializeAnalyzer({ extensionPath: path.resolve(__dirname, '..', '..') });
+		const rows = async (value: string) => {
+			const parcels = findHexLiteral(value, 0)?.parcels ?? [];
+			return hoverRows((await executeAnalyzer('disassemble', parcels.join('\n'), { xlen: 32, inputFormat: 'hexWords' })).records ?? []);
+		};
+		assert.deepStrictEqual(await rows('0x00a50533'), ['0x00A50533  add a0, a0, a0']);
+		assert.deepStrictEqual(await rows('0x45854515'), ['0x4515  c.li a0, 5', '0x4585  c.li a1, 1']);
+		for (const value of ['0x00000000', '0xFFFFFFFF', '0x0000FFFF']) {
+			assert.deepStrictEqual(await rows(value), [], value);
+		}
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { HistoryEntry, MAX_HISTORY_ENTRIES, MAX_STORED_INPUT, addHistoryEntry, parseHistory, storedDraft, summarizeHistory, updateHistoryEntry } from '../history';
+
+function entry(id: string, input: string, timestamp: number): HistoryEntry {
+	return { id, mode: 'assemble', input, xlen: 'auto', inputFormat: 'auto', baseAddress: '0x0', output: `out ${id}`, timestamp, pinned: false };
+}
+
+suite('History', () => {
+	test('replaces repeated runs, keeps pins first and drops the oldest unpinned entries', () => {
+		let entries = addHistoryEntry([], entry('a', 'nop', 1));
+		entries = updateHistoryEntry(entries, 'a', { name: 'idle', pinned: true });
+		entries = addHistoryEntry(entries, entry('b', 'li a0, 1', 2));
+		entries = addHistoryEntry(entries, entry('c', 'nop', 3));
+		assert.deepStrictEqual(entries.map(item => [item.id, item.name, item.pinned]), [['c', 'idle', true], ['b', undefined, false]]);
+
+		for (let index = 0; index < MAX_HISTORY_ENTRIES; index += 1) {
+			entries = addHistoryEntry(entries, entry(`n${index}`, `addi a0, a0, ${index}`, 10 + index));
+		}
+		assert.strictEqual(entries.length, MAX_HISTORY_ENTRIES);
+		assert.strictEqual(entries[0].id, 'c');
+		assert.ok(!entries.some(item => item.id === 'b'));
+	});
+
+	test('leaves inputs that are too large out of entries and drafts', () => {
+		const input = `nop\n${'addi a0, a0, 1\n'.repeat(MAX_STORED_INPUT / 10)}`;
+		const [stored] = addHistoryEntry([], entry('a', input, 1));
+		assert.strictEqual(stored.input, 'nop');
+		assert.strictEqual(stored.omittedInputLength, input.length);
+		assert.strictEqual(summarizeHistory([stored])[0].title, 'nop');
+		assert.strictEqual(addHistoryEntry([stored], entry('b', input, 2)).length, 1);
+		assert.strictEqual(storedDraft({ input, xlen: '64', inputFormat: 'auto', baseAddress: '' }).input, '');
+		assert.strictEqual(storedDraft({ input: 'nop', xlen: '64', inputFormat: 'auto', baseAddress: '' }).input, 'nop');
+	});
+
+	test('reads stored entries defensively and summarizes them for the view', () => {
+		const stored = [entry('a', '\n  lui a0, 0x12345\naddi a0, a0, 1', 1), { id: 'broken' }, 'junk'];
+		const entries = parseHistory(stored);
+		assert.deepStrictEqual(entries.map(item => item.id), ['a']);
+		assert.deepStrictEqual(parseHistory(undefined), []);
+		assert.deepStrictEqual(summarizeHistory(entries), [
+			{ id: 'a', title: 'lui a0, 0x12345', mode: 'assemble', timestamp: 1, pinned: false, preview: 'out a' }
+		]);
+	});
+});
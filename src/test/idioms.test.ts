@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { findIdioms } from '../idioms';
+import { layout } from './layout';
+
+suite('Idioms', () => {
+	test('folds lui/auipc pairs into li, la, call and tail', () => {
+		const idioms = findIdioms(layout([0x12345537, 0x67850513, 0x00000617, 0x01060613, 0x00000097, 0x008080e7, 0x00000317, 0x00430067], 0x1000), 64);
+		assert.deepStrictEqual(idioms, [
+			{ firstIndex: 0, lastIndex: 1, mnemonic: 'li', operands: ['a0', '0x12345678'], target: undefined },
+			{ firstIndex: 2, lastIndex: 3, mnemonic: 'la', operands: ['a2'], target: 0x1018 },
+			{ firstIndex: 4, lastIndex: 5, mnemonic: 'call', operands: [], target: 0x1018 },
+			{ firstIndex: 6, lastIndex: 7, mnemonic: 'tail', operands: [], target: 0x101c }
+		]);
+		assert.deepStrictEqual(findIdioms(layout([0xfffff5b7, 0xfff5859b], 0x1000), 64)[0].operands, ['a1', '-0x1001']);
+	});
+
+	test('names single-instruction aliases but not plain compressed forms', () => {
+		const names = (encodings: number[]) => findIdioms(layout(encodings, 0x1000), 32).map(idiom => `${idiom.mnemonic} ${idiom.operands.join(', ')}`.trim());
+		assert.deepStrictEqual(names([0x00000013, 0x00153513, 0x40b00533, 0xc0002573, 0x00008067]), [
+			'nop', 'seqz a0, a0', 'neg a0, a1', 'csrr a0, cycle', 'ret'
+		]);
+		assert.deepStrictEqual(findIdioms(layout([0x00050463], 0x1000), 32), [{ firstIndex: 0, lastIndex: 0, mnemonic: 'beqz', operands: ['a0'], target: 0x1008 }]);
+		assert.deepStrictEqual(names([0x450d, 0x8082]), ['ret']);
+	});
+});
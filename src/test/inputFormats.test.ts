@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { detectTextFormat, parseCArray, parseDataDirectives, parseIntelHex, parseSrec } from '../inputFormats';
+
+suite('Input formats', () => {
+	test('detects structured text formats', () => {
+		assert.strictEqual(detectTextFormat(':00000001FF'), 'intelHex');
+		assert.strictEqual(detectTextFormat('S9030000FC'), 'srec');
+		assert.strictEqual(detectTextFormat('uint8_t code[] = { 0x13, 0x05 };'), 'cArray');
+		assert.strictEqual(detectTextFormat('entry:\n  .word 0x00000513'), 'dataDirectives');
+		assert.strictEqual(detectTextFormat('0x00000513\n0x8082'), undefined);
+	});
+
+	test('applies Intel HEX extended linear addresses', () => {
+		const segments = parseIntelHex(':0200000480007A\n:06001000130500008280D0\n:0400200067800000F5\n:00000001FF');
+		assert.deepStrictEqual(
+			segments.map(segment => [segment.address, Array.from(segment.bytes)]),
+			[
+				[0x80000010, [0x13, 0x05, 0x00, 0x00, 0x82, 0x80]],
+				[0x80000020, [0x67, 0x80, 0x00, 0x00]]
+			]
+		);
+		assert.throws(() => parseIntelHex(':0200000480007B'), /Line 1: Checksum mismatch/);
+	});
+
+	test('merges contiguous S-records', () => {
+		const segments = parseSrec('S00600004844521B\nS30980000000130500005E\nS30780000004828072\nS705800000007A');
+		assert.strictEqual(segments.length, 1);
+		assert.strictEqual(segments[0].address, 0x80000000);
+		assert.deepStrictEqual(Array.from(segments[0].bytes), [0x13, 0x05, 0x00, 0x00, 0x82, 0x80]);
+	});
+
+	test('stores wide C array elements and directives little-endian', () => {
+		assert.deepStrictEqual(Array.from(parseCArray('const uint32_t code[] = { 0x00000513u };')[0].bytes), [0x13, 0x05, 0x00, 0x00]);
+		assert.deepStrictEqual(Array.from(parseCArray('{0x0513, 0x8082}')[0].bytes), [0x13, 0x05, 0x82, 0x80]);
+		assert.strictEqual(parseCArray('unsigned long long code[] = { 0x13 };')[0].bytes.length, 8);
+		// Plain long is 4 or 8 bytes depending on XLEN, so wide literals widen it.
+		assert.strictEqual(parseCArray('unsigned long code[] = { 0x13 };')[0].bytes.length, 4);
+		assert.strictEqual(parseCArray('unsigned long code[] = { 0x0000000100000513ul };')[0].bytes.length, 8);
+		assert.deepStrictEqual(Array.from(parseDataDirectives('.half 0x8082, -1 # ret\n.byte 0x13')[0].bytes), [0x82, 0x80, 0xff, 0xff, 0x13]);
+		assert.throws(() => parseDataDirectives('.byte 256'), /Line 1: 256 does not fit in \.byte/);
+	});
+});
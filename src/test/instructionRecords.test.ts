@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { InstructionRecord, formatRecords, splitInstructionText } from '../instructionRecords';
+
+const RECORDS: InstructionRecord[] = [
+	{ line: 0, address: 0x1000, encoding: '0x00812503', size: 4, mnemonic: 'lw', operands: ['a0', '8(sp)'], label: 'main', notes: ['dead write to a0'] },
+	{ line: 1, address: 0x1004, encoding: '0xFFFF', size: 2, operands: [], notes: [], error: 'unsupported 16-bit instruction, "x|y"' }
+];
+
+suite('Instruction records', () => {
+	test('splits decoded text into mnemonic, operands and errors', () => {
+		assert.deepStrictEqual(splitInstructionText('lw a0, 8(sp)'), { mnemonic: 'lw', operands: ['a0', '8(sp)'] });
+		assert.deepStrictEqual(splitInstructionText('c.nop'), { mnemonic: 'c.nop', operands: [] });
+		assert.deepStrictEqual(splitInstructionText('Error: unsupported'), { operands: [], error: 'unsupported' });
+	});
+
+	test('renders CSV with quoting and Markdown with escaped pipes', () => {
+		assert.strictEqual(
+			formatRecords(RECORDS, 'csv'),
+			'section,address,encoding,size,mnemonic,operands,label,notes,error\r\n'
+			+ ',0x1000,0x00812503,4,lw,"a0, 8(sp)",main,dead write to a0,\r\n'
+			+ ',0x1004,0xFFFF,2,,,,,"unsupported 16-bit instruction, ""x|y"""\r\n'
+		);
+		assert.strictEqual(
+			formatRecords(RECORDS, 'markdown'),
+			'| Address | Encoding | Instruction | Notes |\n'
+			+ '| --- | --- | --- | --- |\n'
+			+ '| 0x1000 | `0x00812503` | lw a0, 8(sp) | dead write to a0 |\n'
+			+ '| 0x1004 | `0xFFFF` | Error: unsupported 16-bit instruction, "x\\|y" |  |\n'
+		);
+		assert.deepStrictEqual(JSON.parse(formatRecords(RECORDS, 'json')), RECORDS);
+	});
+});
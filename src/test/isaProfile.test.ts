@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { countExtensions, missingExtensions, parseMarch, profileInstruction } from '../isaProfile';
+
+suite('ISA profile', () => {
+	test('classifies table, bit-manipulation and floating-point encodings', () => {
+		const profiles = [0x00a50533, 0x02b50533, 0x2008, 0x20c5a533, 0x0605f553, 0x0000000b].map(encoding => profileInstruction(encoding));
+		assert.deepStrictEqual(profiles[2], { extension: 'C', required: ['C', 'D'], xlen: undefined });
+		assert.deepStrictEqual(countExtensions(profiles).map(entry => `${entry.extension}:${entry.count}`), [
+			'I:1', 'M:1', 'Q:1', 'C:1', 'Zba:1', 'unknown:1'
+		]);
+	});
+
+	test('parses march strings with versions and implied extensions', () => {
+		const target = parseMarch('RV32IMAC_Zicsr2p0');
+		assert.strictEqual(target.xlen, 32);
+		assert.deepStrictEqual([...target.extensions].sort(), ['a', 'c', 'i', 'm', 'zicsr']);
+		assert.ok(parseMarch('rv64gc').extensions.has('zifencei'));
+		assert.throws(() => parseMarch('imac'), /not a valid -march string/);
+	});
+
+	test('reports extensions and widths the target lacks', () => {
+		const target = parseMarch('rv32imac_zicsr');
+		const profile = (encoding: number) => profileInstruction(encoding)!;
+		assert.deepStrictEqual(missingExtensions(profile(0x2008), target), ['D']);
+		assert.deepStrictEqual(missingExtensions(profile(0x0000003b), target), ['RV64']);
+		assert.deepStrictEqual(missingExtensions(profile(0x30200073), target), []);
+	});
+});
@@ -0,0 +1,11 @@
+import { AddressedEncoding } from '../targets';
+
+/** Lays encodings out one after another from `base`, 2 bytes for compressed ones and 4 for the rest. */
+export function layout(encodings: number[], base = 0): AddressedEncoding[] {
+	let address = base;
+	return encodings.map(encoding => {
+		const instruction = { address, encoding };
+		address += (encoding & 0b11) === 0b11 ? 4 : 2;
+		return instruction;
+	});
+}
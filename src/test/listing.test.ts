@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { mnemonicsAgree, parseListing } from '../listing';
+
+suite('Listing', () => {
+	test('reads objdump addresses, encodings and symbols', () => {
+		const { entries } = parseListing('0000000080000000 <_start>:\n80000000:\t00000513\tli\ta0,0\n80000004:\t8082\tret');
+		assert.deepStrictEqual(
+			entries.map(entry => [entry.address, entry.encoding, entry.label, entry.mnemonic]),
+			[
+				[0x80000000, '00000513', '_start', 'li'],
+				[0x80000004, '8082', undefined, 'ret']
+			]
+		);
+	});
+
+	test('reads GDB, QEMU and Spike lines', () => {
+		const { entries, skippedLines } = parseListing([
+			'   0x0000000080000000 <main+0>:\t13 05 00 00\tli\ta0,0',
+			'=> 0x80000004 <main+4>:\tret',
+			'0x0000000080000008:  00a50533          add                     a0,a0,a0',
+			'core   0: 3 0x000000008000000c (0x00008082) x0  0x0000000000000000'
+		].join('\n'));
+		assert.deepStrictEqual(
+			entries.map(entry => [entry.address, entry.encoding, entry.label, entry.mnemonic]),
+			[
+				[0x80000000, '00000513', 'main', 'li'],
+				[0x80000008, '00a50533', undefined, 'add'],
+				[0x8000000c, '00008082', undefined, undefined]
+			]
+		);
+		assert.deepStrictEqual(skippedLines, [2]);
+	});
+
+	test('accepts aliases and compressed forms when comparing mnemonics', () => {
+		assert.ok(mnemonicsAgree('ret', 'c.jr'));
+		assert.ok(mnemonicsAgree('li', 'addi'));
+		assert.ok(mnemonicsAgree('amoadd.w.aqrl', 'amoadd.w'));
+		assert.ok(!mnemonicsAgree('sub', 'addi'));
+	});
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { dataDirective, describeDiagnostics, findDataRuns, findStreamStart } from '../recovery';
+
+// li a0, 1; li a1, 2; add a2, a0, a1; ret
+const PROGRAM = [0x13, 0x05, 0x10, 0x00, 0x93, 0x05, 0x20, 0x00, 0x33, 0x06, 0xb5, 0x00, 0x67, 0x80, 0x00, 0x00];
+
+suite('Recovery', () => {
+	test('finds runs of undecodable instructions that look like data', () => {
+		const undecodable = [false, true, true, true, false, true, false, true, true, true, true];
+		assert.deepStrictEqual(findDataRuns(undecodable), [{ start: 1, end: 4 }, { start: 7, end: 11 }]);
+		assert.deepStrictEqual(findDataRuns([true, true, false]), []);
+	});
+
+	test('resynchronizes streams that start in the middle of an instruction', () => {
+		assert.strictEqual(findStreamStart(Uint8Array.from(PROGRAM)), 0);
+		// The upper half of `addi a0, t1, 0` reads as the low half of a 32-bit instruction.
+		assert.strictEqual(findStreamStart(Uint8Array.from([0x03, 0x00, ...PROGRAM])), 2);
+		// A zero nzuimm makes c.addi4spn reserved.
+		assert.strictEqual(findStreamStart(Uint8Array.from([0x00, 0x00, ...PROGRAM])), 2);
+	});
+
+	test('renders placeholders and caps the reported problems', () => {
+		assert.strictEqual(dataDirective('0x13'), '.byte 0x13');
+		assert.strictEqual(dataDirective('0x0513'), '.half 0x0513');
+		assert.strictEqual(dataDirective('0xFFFFFFFF'), '.word 0xffffffff');
+		assert.strictEqual(dataDirective('0x100513'), '.byte 0x13, 0x05, 0x10');
+
+		const messages = describeDiagnostics(Array.from({ length: 25 }, (_, index) => ({ line: index + 1, column: 3, message: 'Bad token.' })));
+		assert.strictEqual(messages.length, 21);
+		assert.strictEqual(messages[0], 'Line 1, column 3: Bad token.');
+		assert.strictEqual(messages[20], '... and 5 more problem(s) in the input.');
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { buildControlFlowGraph } from '../cfg';
+import { analyzeRegisters } from '../registerAnalysis';
+import { layout } from './layout';
+
+function analyze(encodings: number[]) {
+	const instructions = layout(encodings);
+	return analyzeRegisters(instructions, buildControlFlowGraph(instructions, 64), 64)
+		.map(finding => [finding.index, finding.kind, finding.register, finding.spAdjustment]);
+}
+
+suite('Register analysis', () => {
+	test('reports uninitialized reads, dead writes and writes to x0', () => {
+		assert.deepStrictEqual(analyze([
+			0x00a28333, // add t1, t0, a0
+			0x00500593, // li a1, 5
+			0x00600593, // li a1, 6
+			0x00150013, // addi x0, a0, 1
+			0x00000013, // nop
+			0x00008067 // ret
+		]), [
+			[0, 'uninitializedRead', 5, undefined],
+			[0, 'deadWrite', 6, undefined],
+			[1, 'deadWrite', 11, undefined],
+			[3, 'zeroWrite', 0, undefined]
+		]);
+	});
+
+	test('accepts saved and restored registers but reports clobbers at the return', () => {
+		assert.deepStrictEqual(analyze([
+			0xff010113, // addi sp, sp, -16
+			0x00813023, // sd s0, 0(sp)
+			0x00050413, // mv s0, a0
+			0x00148493, // addi s1, s1, 1
+			0x00040513, // mv a0, s0
+			0x00013403, // ld s0, 0(sp)
+			0x00810113, // addi sp, sp, 8
+			0x8082 // ret
+		]), [
+			[7, 'calleeSavedClobber', 2, -8],
+			[7, 'calleeSavedClobber', 9, undefined]
+		]);
+	});
+
+	test('treats caller-saved registers as undefined after a call', () => {
+		assert.deepStrictEqual(analyze([
+			0x00500313, // li t1, 5
+			0x008000ef, // call +8
+			0x00650533, // add a0, a0, t1
+			0x00008067 // ret
+		]), [
+			[0, 'deadWrite', 6, undefined],
+			[2, 'uninitializedRead', 6, undefined]
+		]);
+	});
+});
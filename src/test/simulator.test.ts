@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { Simulation } from '../simulator';
+import { layout } from './layout';
+
+suite('Simulator', () => {
+	test('runs a loop to the end of the snippet', () => {
+		const simulation = new Simulation(layout([
+			0x4515, // c.li a0, 5
+			0x4585, // c.li a1, 1
+			0xc509, // c.beqz a0, +10
+			0x02a585b3, // mul a1, a1, a0
+			0x157d, // c.addi a0, -1
+			0xbfe5, // c.j -8
+			0x1141, // c.addi sp, -16
+			0xe42e, // c.sdsp a1, 8(sp)
+			0x8082 // ret
+		]), { xlen: 64 });
+
+		const first = simulation.step();
+		assert.deepStrictEqual(first.changes.registers, [10]);
+		const outcome = simulation.run(1000);
+		assert.strictEqual(outcome.stop?.reason, 'end');
+		assert.strictEqual(simulation.register(11), 120n);
+		assert.deepStrictEqual(simulation.snapshot().memory, [
+			{ address: '0x000000007ffffff8', value: '0x0000000000000078' }
+		]);
+	});
+
+	test('follows the RISC-V division rules and sign-extends word operations', () => {
+		const simulation = new Simulation(layout([
+			0xff900293, // li t0, -7
+			0x00200313, // li t1, 2
+			0x0262c3b3, // div t2, t0, t1
+			0x0262ee33, // rem t3, t0, t1
+			0x0202deb3, // divu t4, t0, zero
+			0x4012df1b // sraiw t5, t0, 1
+		]), { xlen: 64 });
+
+		simulation.run(100);
+		assert.deepStrictEqual([7, 28, 29, 30].map(register => BigInt.asIntN(64, simulation.register(register))), [-3n, -1n, -1n, -4n]);
+	});
+
+	test('stops on traps and at the instruction limit', () => {
+		assert.deepStrictEqual(new Simulation(layout([0x00102283]), { xlen: 32 }).step().stop, {
+			reason: 'trap',
+			message: 'Load address misaligned: 4-byte load at 0x00000001 (pc 0x00000000).'
+		});
+		assert.strictEqual(new Simulation(layout([0x00000073]), { xlen: 32 }).step().stop?.reason, 'trap');
+		assert.match(new Simulation(layout([0x4515]), { xlen: 32, compressed: false }).step().stop?.message ?? '', /compressed instructions are disabled/);
+		assert.strictEqual(new Simulation(layout([0x0000006f]), { xlen: 32 }).run(10).stop?.reason, 'limit');
+	});
+});
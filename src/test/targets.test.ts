@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { resolveTargets } from '../targets';
+
+suite('Targets', () => {
+	test('resolves branches and jumps relative to their address', () => {
+		const targets = resolveTargets([
+			{ address: 0x80000000, encoding: 0xfff50513 },
+			{ address: 0x80000004, encoding: 0xfe051ee3 },
+			{ address: 0x80000008, encoding: 0xbfe5 }
+		], 64);
+		assert.deepStrictEqual([...targets], [
+			[1, { target: 0x80000000, isControlFlow: true }],
+			[2, { target: 0x80000000, isControlFlow: true }]
+		]);
+	});
+
+	test('pairs auipc with a following addi or jalr on the same register', () => {
+		const targets = resolveTargets([
+			{ address: 0x1000, encoding: 0x00001517 },
+			{ address: 0x1004, encoding: 0x01050513 },
+			{ address: 0x1008, encoding: 0x00000097 },
+			{ address: 0x100c, encoding: 0x008080e7 },
+			{ address: 0x1010, encoding: 0x00000297 },
+			{ address: 0x1014, encoding: 0x01050513 }
+		], 64);
+		assert.deepStrictEqual([...targets], [
+			[1, { target: 0x2010, isControlFlow: false }],
+			[3, { target: 0x1010, isControlFlow: true }]
+		]);
+	});
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { buildControlFlowGraph } from '../cfg';
+import { BUILTIN_TIMING_MODELS, estimateTiming, parseTimingModel } from '../timing';
+import { layout } from './layout';
+
+suite('Timing estimate', () => {
+	// lw a1, 0(a0); add a2, a2, a1; addi a0, a0, 4; mul a3, a2, a2; add a4, a3, a1; bne a0, a5, 0; ret
+	const loop = layout([0x00052583, 0x00b60633, 0x00450513, 0x02c606b3, 0x00b68733, 0xfef516e3, 0x00008067]);
+
+	test('stalls on load-use and multiply results on a single-issue core', () => {
+		const estimate = estimateTiming(loop, buildControlFlowGraph(loop, 32), 32, BUILTIN_TIMING_MODELS['inorder-5stage']);
+		assert.deepStrictEqual(estimate.instructions.map(timing => timing.cycle), [0, 2, 3, 4, 7, 8, 9]);
+		assert.deepStrictEqual(estimate.instructions[1], { index: 1, cycle: 2, stall: 1, cause: 'loadUse', register: 11 });
+		assert.strictEqual(estimate.instructions[4].cause, 'dependency');
+		assert.strictEqual(estimate.totalCycles, 11);
+		assert.deepStrictEqual(estimate.blocks.map(block => [block.cycles, block.takenPenalty]), [[9, 2], [2, 0]]);
+	});
+
+	test('pairs independent instructions on a dual-issue core', () => {
+		const pairs = layout([0x00150513, 0x00158593, 0x00a58633]);
+		const estimate = estimateTiming(pairs, [], 32, BUILTIN_TIMING_MODELS['inorder-5stage-dual']);
+		assert.deepStrictEqual(estimate.instructions.map(timing => timing.cycle), [0, 0, 1]);
+	});
+
+	test('fills model files from the default model and rejects bad fields', () => {
+		const model = parseTimingModel({ name: 'dsp', latency: { mul: 2 }, branchPenalty: 1 });
+		assert.strictEqual(model.latency.mul, 2);
+		assert.strictEqual(model.latency.div, BUILTIN_TIMING_MODELS['inorder-5stage'].latency.div);
+		assert.strictEqual(model.branchPenalty, 1);
+		assert.throws(() => parseTimingModel({ latency: { vector: 2 } }), /Unknown instruction class "vector"/);
+		assert.throws(() => parseTimingModel({ issueWidth: 0 }), /"issueWidth" must be an integer of at least 1/);
+	});
+});
@@ -0,0 +1,249 @@
+import { BasicBlock } from './cfg';
+import { DecodedInstruction, decodeInstruction } from './decoder';
+import { Xlen } from './isa';
+import { RegisterEffects, registerEffects } from './registerAnalysis';
+import { AddressedEncoding } from './targets';
+
+export type InstructionClass = 'alu' | 'mul' | 'div' | 'load' | 'store' | 'branch' | 'jump' | 'csr' | 'fpu' | 'fdiv' | 'system';
+
+export const INSTRUCTION_CLASSES: readonly InstructionClass[] = ['alu', 'mul', 'div', 'load', 'store', 'branch', 'jump', 'csr', 'fpu', 'fdiv', 'system'];
+
+/**
+ * An in-order core described the way timing model JSON files are written.
+ * Latencies count the cycles from issue until a dependent instruction can
+ * issue, so 1 means back-to-back.
+ */
+export interface TimingModel {
+	name: string;
+	/** Independent instructions issued per cycle. */
+	issueWidth: number;
+	latency: Record<InstructionClass, number>;
+	/** Extra cycles on top of the load latency when the next consumer needs the loaded value. */
+	loadUsePenalty: number;
+	/** Cycles lost on a taken conditional branch (branches are predicted not taken). */
+	branchPenalty: number;
+	/** Cycles lost on every jump, call and return. */
+	jumpPenalty: number;
+}
+
+export type StallCause = 'dependency' | 'loadUse' | 'jump';
+
+export interface InstructionTiming {
+	index: number;
+	/** Cycle the instruction issues in, counted from 0. */
+	cycle: number;
+	/** Cycles the instruction waited beyond its earliest in-order issue slot. */
+	stall: number;
+	cause?: StallCause;
+	/** Register waited for: 0-31 for x registers, 32-63 for f registers. */
+	register?: number;
+}
+
+export interface BlockTiming {
+	firstIndex: number;
+	lastIndex: number;
+	/** Cycles to issue the block from an empty pipeline, including a closing jump's penalty. */
+	cycles: number;
+	/** Cycles added when the block ends in a conditional branch that is taken. */
+	takenPenalty: number;
+}
+
+export interface TimingEstimate {
+	model: string;
+	/** Cycles to issue the whole snippet in address order with every branch not taken. */
+	totalCycles: number;
+	instructions: InstructionTiming[];
+	blocks: BlockTiming[];
+}
+
+export const BUILTIN_TIMING_MODELS: Readonly<Record<string, TimingModel>> = {
+	'inorder-5stage': {
+		name: 'In-order 5-stage, single issue',
+		issueWidth: 1,
+		latency: { alu: 1, mul: 3, div: 34, load: 1, store: 1, branch: 1, jump: 1, csr: 1, fpu: 4, fdiv: 20, system: 1 },
+		loadUsePenalty: 1,
+		branchPenalty: 2,
+		jumpPenalty: 1
+	},
+	'inorder-5stage-dual': {
+		name: 'In-order 5-stage, dual issue',
+		issueWidth: 2,
+		latency: { alu: 1, mul: 3, div: 20, load: 1, store: 1, branch: 1, jump: 1, csr: 1, fpu: 4, fdiv: 18, system: 1 },
+		loadUsePenalty: 2,
+		branchPenalty: 3,
+		jumpPenalty: 2
+	}
+};
+
+export const DEFAULT_TIMING_MODEL = 'inorder-5stage';
+
+const FLOAT = 32;
+const LOAD_PATTERN = /^(c\.)?(lb|lh|lw|ld|lbu|lhu|lwu|flw|fld)(sp)?$|^lr\.|^amo/;
+const STORE_PATTERN = /^(c\.)?(sb|sh|sw|sd|fsw|fsd)(sp)?$|^sc\./;
+const JUMPS = new Set(['jal', 'jalr', 'c.j', 'c.jal', 'c.jr', 'c.jalr']);
+
+/**
+ * Validates a timing model read from JSON. Fields that are left out are
+ * taken from `base`, so a model file only needs to list what differs.
+ */
+export function parseTimingModel(value: unknown, base: TimingModel = BUILTIN_TIMING_MODELS[DEFAULT_TIMING_MODEL]): TimingModel {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new Error('A timing model must be a JSON object.');
+	}
+	const record = value as Record<string, unknown>;
+	const latencyValue = record.latency ?? {};
+	if (typeof latencyValue !== 'object' || latencyValue === null || Array.isArray(latencyValue)) {
+		throw new Error('"latency" must be an object of cycle counts per instruction class.');
+	}
+	const latency = { ...base.latency };
+	for (const [name, cycles] of Object.entries(latencyValue)) {
+		if (!INSTRUCTION_CLASSES.includes(name as InstructionClass)) {
+			throw new Error(`Unknown instruction class "${name}"; expected one of ${INSTRUCTION_CLASSES.join(', ')}.`);
+		}
+		latency[name as InstructionClass] = readCycles(cycles, `latency.${name}`, 1);
+	}
+
+	const name = record.name ?? base.name;
+	if (typeof name !== 'string') {
+		throw new Error('"name" must be a string.');
+	}
+	return {
+		name,
+		issueWidth: readCycles(record.issueWidth ?? base.issueWidth, 'issueWidth', 1),
+		latency,
+		loadUsePenalty: readCycles(record.loadUsePenalty ?? base.loadUsePenalty, 'loadUsePenalty', 0),
+		branchPenalty: readCycles(record.branchPenalty ?? base.branchPenalty, 'branchPenalty', 0),
+		jumpPenalty: readCycles(record.jumpPenalty ?? base.jumpPenalty, 'jumpPenalty', 0)
+	};
+}
+
+export function classifyInstruction(decoded: DecodedInstruction): InstructionClass {
+	const spec = decoded.spec;
+	if (!spec) {
+		return 'alu';
+	}
+	const mnemonic = spec.mnemonic;
+	if (LOAD_PATTERN.test(mnemonic)) {
+		return 'load';
+	}
+	if (STORE_PATTERN.test(mnemonic)) {
+		return 'store';
+	}
+	if (JUMPS.has(mnemonic)) {
+		return 'jump';
+	}
+	if (spec.format === 'B' || mnemonic === 'c.beqz' || mnemonic === 'c.bnez') {
+		return 'branch';
+	}
+	switch (spec.extension) {
+		case 'M':
+			return /^(div|rem)/.test(mnemonic) ? 'div' : 'mul';
+		case 'F':
+		case 'D':
+			return /^f(div|sqrt)\./.test(mnemonic) ? 'fdiv' : 'fpu';
+		case 'Zicsr':
+			return 'csr';
+		case 'Zifencei':
+		case 'Privileged':
+			return 'system';
+		default:
+			return /^(fence|ecall|ebreak)/.test(mnemonic) ? 'system' : 'alu';
+	}
+}
+
+/**
+ * Estimates issue cycles on an in-order core: each instruction issues in
+ * program order as soon as an issue slot is free and its source registers
+ * are ready. The snippet as a whole is scheduled with every branch not taken;
+ * each basic block is also scheduled on its own from an empty pipeline.
+ */
+export function estimateTiming(instructions: AddressedEncoding[], blocks: BasicBlock[], xlen: Xlen | undefined, model: TimingModel): TimingEstimate {
+	const decoded = instructions.map(instruction => decodeInstruction(instruction.encoding, xlen));
+	const classes = decoded.map(classifyInstruction);
+	const effects = decoded.map(registerEffects);
+	const schedule = (first: number, last: number) => scheduleRange(first, last, classes, effects, model);
+
+	const whole = instructions.length > 0 ? schedule(0, instructions.length - 1) : { timings: [], cycles: 0 };
+	return {
+		model: model.name,
+		totalCycles: whole.cycles,
+		instructions: whole.timings,
+		blocks: blocks.map(block => ({
+			firstIndex: block.firstIndex,
+			lastIndex: block.lastIndex,
+			cycles: schedule(block.firstIndex, block.lastIndex).cycles,
+			takenPenalty: classes[block.lastIndex] === 'branch' ? model.branchPenalty : 0
+		}))
+	};
+}
+
+function scheduleRange(
+	first: number,
+	last: number,
+	classes: InstructionClass[],
+	effects: RegisterEffects[],
+	model: TimingModel
+): { timings: InstructionTiming[]; cycles: number } {
+	const readyAt = new Array<number>(2 * FLOAT).fill(0);
+	const loadedBy = new Array<boolean>(2 * FLOAT).fill(false);
+	const timings: InstructionTiming[] = [];
+	let cycle = 0;
+	let slotsUsed = 0;
+	let pendingJump = false;
+
+	for (let index = first; index <= last; index += 1) {
+		let earliest = slotsUsed >= model.issueWidth ? cycle + 1 : cycle;
+		let cause: StallCause | undefined;
+		let stall = 0;
+		if (pendingJump) {
+			stall = model.jumpPenalty;
+			earliest = cycle + 1 + model.jumpPenalty;
+			cause = model.jumpPenalty > 0 ? 'jump' : undefined;
+		}
+		let issue = earliest;
+		let register: number | undefined;
+		forEachRegister(effects[index].reads, candidate => {
+			if (readyAt[candidate] > issue) {
+				issue = readyAt[candidate];
+				register = candidate;
+			}
+		});
+		if (register !== undefined) {
+			cause = loadedBy[register] ? 'loadUse' : 'dependency';
+			stall += issue - earliest;
+		}
+		timings.push({ index, cycle: issue, stall, cause, register });
+
+		if (issue > cycle) {
+			cycle = issue;
+			slotsUsed = 0;
+		}
+		slotsUsed += 1;
+		const instructionClass = classes[index];
+		const ready = issue + model.latency[instructionClass] + (instructionClass === 'load' ? model.loadUsePenalty : 0);
+		forEachRegister(effects[index].writes, written => {
+			readyAt[written] = ready;
+			loadedBy[written] = instructionClass === 'load';
+		});
+		pendingJump = instructionClass === 'jump';
+	}
+
+	const cycles = timings.length > 0 ? cycle + 1 + (pendingJump ? model.jumpPenalty : 0) : 0;
+	return { timings, cycles };
+}
+
+function readCycles(value: unknown, field: string, minimum: number): number {
+	if (typeof value !== 'number' || !Number.isInteger(value) || value < minimum) {
+		throw new Error(`"${field}" must be an integer of at least ${minimum}.`);
+	}
+	return value;
+}
+
+/** Calls back for every register bit in the mask except x0. */
+function forEachRegister(mask: bigint, callback: (register: number) => void): void {
+	for (let register = 1; register < 2 * FLOAT; register += 1) {
+		if ((mask >> BigInt(register)) & 1n) {
+			callback(register);
+		}
+	}
+}
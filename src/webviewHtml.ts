@@ -0,0 +1,19 @@
+export function generateNonce(): string {
+	const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	let result = '';
+	for (let i = 0; i < 32; i += 1) {
+		result += charset.charAt(Math.floor(Math.random() * charset.length));
+	}
+	return result;
+}
+
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(value: string): string {
+	return escapeHtml(value).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}